@@ -5,6 +5,12 @@ import { useGameStore } from '@/state/useGameStore';
 import { VirtualizedLogList } from '@/components/ui/virtualized-log-list';
 import { Download, Target, AlertTriangle, Activity, FileText, Database } from 'lucide-react';
 import TimelineCharts from '@/components/TimelineCharts';
+import ReplayPanel from './ReplayPanel';
+import BranchPanel from './BranchPanel';
+import CampaignPanel from './CampaignPanel';
+import ObjectivesPanel from './ObjectivesPanel';
+import CalibrationDrillPanel from './CalibrationDrillPanel';
+import SettingsPanel from './SettingsPanel';
 
 export default function AnalyticsPanel() {
   const {
@@ -13,7 +19,7 @@ export default function AnalyticsPanel() {
     exportGameRun
   } = useGameStore();
 
-  const [activeTab, setActiveTab] = useState<'timeline' | 'events' | 'calibration'>('timeline');
+  const [activeTab, setActiveTab] = useState<'timeline' | 'events' | 'calibration' | 'drill' | 'objectives' | 'replay' | 'what-if' | 'campaign' | 'settings'>('timeline');
 
   const handleExportRun = () => {
     exportGameRun();
@@ -169,6 +175,23 @@ export default function AnalyticsPanel() {
           </div>
         </div>
 
+        <div className="bg-slate-700 rounded p-4">
+          <h4 className="font-medium mb-3">Infrastructure Beliefs</h4>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="text-center">
+              <div className="text-lg font-bold text-orange-400">{analytics.infraBrierScore.toFixed(3)}</div>
+              <div className="text-slate-400">Brier Score</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold text-orange-400">{analytics.infraLogLoss.toFixed(3)}</div>
+              <div className="text-slate-400">Log Loss</div>
+            </div>
+          </div>
+          <div className="mt-2 text-xs text-slate-400">
+            Collateral estimates use these posteriors, so recon that resolves infrastructure lowers strike risk
+          </div>
+        </div>
+
         <div className="bg-slate-700 rounded p-4">
           <h4 className="font-medium mb-2">Decision Quality Metrics</h4>
           <div className="text-sm text-slate-300 space-y-1">
@@ -264,7 +287,7 @@ export default function AnalyticsPanel() {
 
       {/* Tab Navigation */}
       <div className="flex space-x-1 bg-slate-700 rounded p-1">
-        {(['timeline', 'events', 'calibration'] as const).map((tab) => (
+        {(['timeline', 'events', 'calibration', 'drill', 'objectives', 'replay', 'what-if', 'campaign', 'settings'] as const).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -284,6 +307,12 @@ export default function AnalyticsPanel() {
         {activeTab === 'timeline' && renderTimeline()}
         {activeTab === 'events' && renderEvents()}
         {activeTab === 'calibration' && renderCalibration()}
+        {activeTab === 'drill' && <CalibrationDrillPanel />}
+        {activeTab === 'objectives' && <ObjectivesPanel />}
+        {activeTab === 'replay' && <ReplayPanel />}
+        {activeTab === 'what-if' && <BranchPanel />}
+        {activeTab === 'campaign' && <CampaignPanel />}
+        {activeTab === 'settings' && <SettingsPanel />}
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { useGameStore } from '@/state/useGameStore';
+import { GitBranch, CheckCircle } from 'lucide-react';
+
+export default function BranchPanel() {
+  const {
+    gameStarted,
+    currentTurn,
+    history,
+    forkWhatIf,
+    switchBranch,
+    getBranchSummaries,
+  } = useGameStore();
+
+  const [forkTurn, setForkTurn] = useState(0);
+
+  // The store caches each branch's summary, so only changed branches are rebuilt
+  const summaries = getBranchSummaries();
+  const bestScore = Math.max(...summaries.map(summary => summary.score));
+
+  const handleFork = () => {
+    forkWhatIf(Math.min(forkTurn, currentTurn));
+  };
+
+  if (!gameStarted) {
+    return (
+      <div className="text-center text-slate-400 py-8">
+        Start a game to rewind and explore what-if branches
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Fork controls */}
+      <div className="bg-slate-700 rounded p-4 space-y-3">
+        <h4 className="font-medium flex items-center">
+          <GitBranch className="w-4 h-4 mr-2" />
+          Fork a What-if
+        </h4>
+        <div className="flex items-center space-x-3">
+          <label className="text-sm text-slate-400">Rewind to start of turn</label>
+          <input
+            type="number"
+            min={0}
+            max={currentTurn}
+            value={Math.min(forkTurn, currentTurn)}
+            onChange={(e) => setForkTurn(Math.max(0, parseInt(e.target.value) || 0))}
+            className="w-20 bg-slate-800 rounded px-2 py-1 text-sm"
+          />
+          <button
+            onClick={handleFork}
+            className="px-3 py-1 rounded text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Fork
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">
+          The current timeline is kept; play the new branch with a different action and compare below.
+        </p>
+      </div>
+
+      {/* Side-by-side comparison */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-600">
+              <th className="py-2 pr-4">Branch</th>
+              <th className="py-2 pr-4">Forked</th>
+              <th className="py-2 pr-4">Turn</th>
+              <th className="py-2 pr-4">Actions</th>
+              <th className="py-2 pr-4">Score</th>
+              <th className="py-2 pr-4">Budget</th>
+              <th className="py-2 pr-4">Hostiles</th>
+              <th className="py-2 pr-4">Infra Hits</th>
+              <th className="py-2 pr-4">Brier</th>
+              <th className="py-2 pr-4">Cal. Error</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => {
+              const isActive = summary.branchId === history.activeBranchId;
+              return (
+                <tr key={summary.branchId} className={`border-b border-slate-700 ${isActive ? 'bg-slate-700/60' : ''}`}>
+                  <td className="py-2 pr-4 font-medium">{summary.name}</td>
+                  <td className="py-2 pr-4">{summary.branchId === 'main' ? '—' : `T${summary.forkTurn}`}</td>
+                  <td className="py-2 pr-4">{summary.turn}</td>
+                  <td className="py-2 pr-4">{summary.actions}</td>
+                  <td className={`py-2 pr-4 font-bold ${summary.score === bestScore ? 'text-green-400' : ''}`}>{summary.score}</td>
+                  <td className="py-2 pr-4">${summary.remainingBudget}</td>
+                  <td className="py-2 pr-4 text-green-400">{summary.hostilesNeutralized}</td>
+                  <td className="py-2 pr-4 text-red-400">{summary.infraHits}</td>
+                  <td className="py-2 pr-4">{summary.brierScore.toFixed(3)}</td>
+                  <td className="py-2 pr-4">{(summary.calibrationError * 100).toFixed(1)}%</td>
+                  <td className="py-2">
+                    {isActive ? (
+                      <span className="flex items-center text-xs text-green-400">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Active
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => switchBranch(summary.branchId)}
+                        className="px-2 py-1 rounded text-xs bg-slate-600 hover:bg-slate-500 text-white"
+                      >
+                        Switch
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useGameStore } from '@/state/useGameStore';
+import { createDrillReport } from '@/lib/calibration-drill';
+import { CalibrationBucket, CalibrationMetrics } from '@/lib/inference';
+
+const SERIES = [
+  { key: 'player', label: 'You', color: 'var(--color-amber-400)' },
+  { key: 'model', label: 'Bayesian model', color: 'var(--color-blue-500)' },
+] as const;
+
+const METRICS: { key: keyof Omit<CalibrationMetrics, 'buckets'>; label: string }[] = [
+  { key: 'brierScore', label: 'Brier score' },
+  { key: 'logLoss', label: 'Log loss' },
+  { key: 'calibrationError', label: 'Calibration error' },
+  { key: 'reliability', label: 'Reliability' },
+  { key: 'resolution', label: 'Resolution' },
+];
+
+// Diagram coordinates: probabilities map onto 10-90 of a 100×100 box
+function toPoint(bucket: CalibrationBucket): [number, number] {
+  return [10 + bucket.averagePrediction * 80, 90 - bucket.actualRate * 80];
+}
+
+export default function CalibrationDrillPanel() {
+  const { config, eventLog, gameEnded } = useGameStore();
+  const report = useMemo(() => createDrillReport(eventLog), [eventLog]);
+
+  if (!report) {
+    return (
+      <div className="text-center text-slate-400 py-8">
+        {config.calibrationDrill?.enabled
+          ? 'Scan or strike a cell: you will be asked for your own probability that it holds a hostile first.'
+          : 'Turn on "Calibration drill" under Game Settings in the Settings tab to score your own probability estimates against the model.'}
+      </div>
+    );
+  }
+
+  const better = report.player.brierScore <= report.model.brierScore ? 'You' : 'The model';
+
+  return (
+    <div className="space-y-4">
+      {gameEnded && (
+        <div className="rounded p-4 text-sm bg-slate-700">
+          <div className="font-medium mb-1">Drill debrief</div>
+          <div className="text-slate-300">
+            {report.estimates.length} estimates · {better} scored the better Brier score
+            ({report.player.brierScore.toFixed(3)} vs {report.model.brierScore.toFixed(3)} for the model)
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-slate-700 rounded p-4">
+          <h4 className="font-medium mb-3">Reliability Diagram</h4>
+          <svg viewBox="0 0 100 100" className="w-full h-48 border border-slate-600 rounded">
+            <line x1="10" y1="90" x2="90" y2="10" stroke="var(--color-slate-500)" strokeWidth="0.5" strokeDasharray="2,2" />
+            <line x1="10" y1="90" x2="90" y2="90" stroke="var(--color-slate-600)" strokeWidth="0.5" />
+            <line x1="10" y1="90" x2="10" y2="10" stroke="var(--color-slate-600)" strokeWidth="0.5" />
+            {SERIES.map(series => {
+              const buckets = report[series.key].buckets.filter(bucket => bucket.count > 0);
+              return (
+                <g key={series.key}>
+                  <polyline
+                    points={buckets.map(bucket => toPoint(bucket).join(',')).join(' ')}
+                    fill="none"
+                    stroke={series.color}
+                    strokeWidth="0.8"
+                  />
+                  {buckets.map((bucket, index) => {
+                    const [cx, cy] = toPoint(bucket);
+                    return (
+                      <circle key={index} cx={cx} cy={cy} r={Math.min(3, 1 + bucket.count / 4)} fill={series.color} opacity="0.8">
+                        <title>{`${series.label}: said ${(bucket.averagePrediction * 100).toFixed(0)}%, hostile ${(bucket.actualRate * 100).toFixed(0)}% of ${bucket.count}`}</title>
+                      </circle>
+                    );
+                  })}
+                </g>
+              );
+            })}
+            <text x="50" y="98" textAnchor="middle" fontSize="4" className="fill-slate-400">Stated probability</text>
+            <text x="4" y="50" textAnchor="middle" fontSize="4" className="fill-slate-400" transform="rotate(-90 4 50)">Hostile rate</text>
+          </svg>
+          <div className="flex gap-4 mt-2 text-xs text-slate-300">
+            {SERIES.map(series => (
+              <span key={series.key} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: series.color }} />
+                {series.label}
+              </span>
+            ))}
+            <span className="text-slate-400">Diagonal: perfect calibration</span>
+          </div>
+        </div>
+
+        <div className="bg-slate-700 rounded p-4">
+          <h4 className="font-medium mb-3">Same Cells, Same Moments</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-normal">Metric</th>
+                <th className="text-right font-normal">You</th>
+                <th className="text-right font-normal">Model</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map(metric => (
+                <tr key={metric.key}>
+                  <td>{metric.label}</td>
+                  <td className="text-right font-mono">{report.player[metric.key].toFixed(3)}</td>
+                  <td className="text-right font-mono">{report.model[metric.key].toFixed(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-400 mt-3">
+            Lower is better except resolution, which rewards telling hostile cells from empty ones.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
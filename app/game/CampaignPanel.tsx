@@ -0,0 +1,105 @@
+'use client';
+
+import { useGameStore } from '@/state/useGameStore';
+import { CAMPAIGN_MISSIONS, CampaignReward, isMissionUnlocked } from '@/lib/campaign';
+import { SENSOR_CATALOG } from '@/lib/sensors';
+import { describeObjective } from '@/lib/objectives';
+import { Flag, Lock, CheckCircle, RotateCcw } from 'lucide-react';
+
+function describeReward(reward: CampaignReward): string {
+  return reward.type === 'sensorUnlock'
+    ? `Unlocks ${SENSOR_CATALOG[reward.sensor].name}`
+    : `+$${reward.amount} budget on later missions`;
+}
+
+export default function CampaignPanel() {
+  const {
+    campaign,
+    activeMissionId,
+    missionResult,
+    startMission,
+    resetCampaign,
+  } = useGameStore();
+
+  return (
+    <div className="space-y-4">
+      {missionResult && (
+        <div className={`rounded p-4 text-sm ${missionResult.passed ? 'bg-green-900/40' : 'bg-red-900/40'}`}>
+          <div className="font-medium mb-1">
+            {missionResult.passed ? 'Mission passed' : 'Mission failed'}
+          </div>
+          <div className="text-slate-300">
+            Score {missionResult.score} · Calibration error {(missionResult.calibrationError * 100).toFixed(1)}% · {missionResult.readings} readings
+          </div>
+        </div>
+      )}
+
+      {CAMPAIGN_MISSIONS.map((mission, index) => {
+        const unlocked = isMissionUnlocked(campaign, mission.id);
+        const best = campaign.results[mission.id];
+        const isActive = mission.id === activeMissionId;
+
+        return (
+          <div
+            key={mission.id}
+            className={`bg-slate-700 rounded p-4 space-y-2 ${unlocked ? '' : 'opacity-50'} ${isActive ? 'ring-1 ring-blue-500' : ''}`}
+          >
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium flex items-center">
+                {best?.passed ? (
+                  <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+                ) : unlocked ? (
+                  <Flag className="w-4 h-4 mr-2" />
+                ) : (
+                  <Lock className="w-4 h-4 mr-2" />
+                )}
+                {index + 1}. {mission.name}
+              </h4>
+              <button
+                onClick={() => startMission(mission.id)}
+                disabled={!unlocked}
+                className="px-3 py-1 rounded text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-600 disabled:cursor-not-allowed"
+              >
+                {isActive ? 'Restart' : 'Start'}
+              </button>
+            </div>
+            <p className="text-sm text-slate-300">{mission.briefing}</p>
+            <ul className="text-xs text-slate-400 list-disc list-inside">
+              {(mission.scenario.victoryConditions ?? []).map((condition, i) => (
+                <li key={i}>{describeObjective(condition, mission.scenario.areasOfInterest)}</li>
+              ))}
+              <li>
+                Pass with score ≥ {mission.requirements.minScore} and calibration error ≤ {(mission.requirements.maxCalibrationError * 100).toFixed(0)}%
+              </li>
+            </ul>
+            {mission.rewards.length > 0 && (
+              <div className="text-xs text-blue-300">
+                Reward: {mission.rewards.map(describeReward).join(', ')}
+              </div>
+            )}
+            {best && (
+              <div className="text-xs text-slate-400">
+                Best: score {best.score}, calibration error {(best.calibrationError * 100).toFixed(1)}%
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          Sensors earned: {campaign.unlockedSensors.length > 0
+            ? campaign.unlockedSensors.map(sensor => SENSOR_CATALOG[sensor].name).join(', ')
+            : 'none'} · Budget bonus ${campaign.budgetBonus}
+        </span>
+        <button
+          onClick={resetCampaign}
+          className="flex items-center px-2 py-1 rounded bg-slate-600 hover:bg-slate-500 text-white"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Reset campaign
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -195,6 +195,11 @@ function ControlPanel() {
             <span>{analytics.brierScore.toFixed(3)}</span>
           </div>
           
+          <div className="flex justify-between">
+            <span className="text-slate-400">Infra Brier Score:</span>
+            <span>{analytics.infraBrierScore.toFixed(3)}</span>
+          </div>
+          
           <div className="flex justify-between">
             <span className="text-slate-400">Truth Correlation:</span>
             <span>{analytics.truthCorrelation.toFixed(3)}</span>
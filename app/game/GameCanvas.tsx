@@ -1,9 +1,12 @@
 'use client';
 
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { useGameStore } from '@/state/useGameStore';
 import { SensorType, HeatmapType } from '@/lib/types';
 import { InlineLoading } from '@/components/LoadingOverlay';
+import SensorComparisonCard from '@/components/SensorComparisonCard';
+import { generateContextGrid, getContextCategory, isContextHeatmapType } from '@/lib/context-layers';
+import { calculateEffectivePerformance } from '@/lib/sensors';
 
 interface GameCanvasProps {
   selectedSensor: SensorType;
@@ -46,7 +49,7 @@ export default function GameCanvas({
 
   // Load heatmap data asynchronously
   const loadHeatmapData = useCallback(async (mode: HeatmapType) => {
-    if (['posterior', 'truth', 'priorField'].includes(mode)) return; // These don't need async loading
+    if (['posterior', 'truth', 'priorField'].includes(mode) || isContextHeatmapType(mode)) return; // These don't need async loading
     
     setIsLoadingHeatmap(true);
     const cacheKey = `${mode}-${selectedSensor}-${Date.now() - (Date.now() % 5000)}`;
@@ -115,6 +118,7 @@ export default function GameCanvas({
   const {
     grid,
     config,
+    currentTurn,
     gameStarted,
     performRecon,
     performStrike,
@@ -127,6 +131,8 @@ export default function GameCanvas({
     getLossRiskHeatmap,
   } = useGameStore();
 
+  const contextGrid = useMemo(() => generateContextGrid(config, currentTurn), [config, currentTurn]);
+
   const CELL_SIZE = 30;
   const GRID_PADDING = 20;
 
@@ -236,6 +242,7 @@ export default function GameCanvas({
         let showText = false;
         let textValue = '';
         let useSpecialColorScheme = false;
+        let categoryColor: [number, number, number] | null = null;
         
         switch (viewMode) {
           case 'posterior':
@@ -300,6 +307,21 @@ export default function GameCanvas({
             }
             break;
             
+          case 'terrain':
+          case 'weather':
+          case 'jamming':
+          case 'expectedTPR': {
+            const context = contextGrid[y]?.[x];
+            intensity = 0;
+            if (!context) break;
+            categoryColor = getContextCategory(viewMode, context, selectedSensor).color;
+            if (viewMode === 'expectedTPR') {
+              showText = true;
+              textValue = `${(calculateEffectivePerformance(selectedSensor, context).effectiveTPR * 100).toFixed(0)}%`;
+            }
+            break;
+          }
+            
           default:
             intensity = cell.posteriorProbability;
             break;
@@ -308,7 +330,9 @@ export default function GameCanvas({
         // Background color based on intensity and view mode
         let red: number, green: number, blue: number;
         
-        if (useSpecialColorScheme) {
+        if (categoryColor) {
+          [red, green, blue] = categoryColor;
+        } else if (useSpecialColorScheme) {
           if (viewMode === 'expectedValue' || viewMode === 'riskAverse') {
             // EV/Risk-averse: Green for positive, red for negative, intensity determines brightness
             green = Math.floor(255 * intensity);
@@ -389,7 +413,7 @@ export default function GameCanvas({
         }
       });
     });
-  }, [grid, config.gridSize, config.showTruthOverlay, hoveredCell, viewMode, selectedSensor, getEVHeatmap, getVOIHeatmap, getRiskAverseHeatmap, getVarianceHeatmap, getLossRiskHeatmap]);
+  }, [grid, config.gridSize, config.showTruthOverlay, contextGrid, hoveredCell, viewMode, selectedSensor, getEVHeatmap, getVOIHeatmap, getRiskAverseHeatmap, getVarianceHeatmap, getLossRiskHeatmap]);
 
   useEffect(() => {
     drawGrid();
@@ -418,11 +442,12 @@ export default function GameCanvas({
       {/* View Mode Selection */}
       <div className="flex flex-wrap gap-2 items-center">
         <label className="text-sm font-medium">View:</label>
-        {(['posterior', 'priorField', 'expectedValue', 'valueOfInformation', 'riskAverse', 'variance', 'lossRisk', 'truth'] as HeatmapType[]).map((mode) => (
+        {(['posterior', 'priorField', 'expectedValue', 'valueOfInformation', 'riskAverse', 'variance', 'lossRisk', 'truth',
+           'terrain', 'weather', 'jamming', 'expectedTPR'] as HeatmapType[]).map((mode) => (
           <button
             key={mode}
             onClick={() => setViewMode(mode)}
-            disabled={isLoadingHeatmap && !['posterior', 'truth', 'priorField'].includes(mode)}
+            disabled={isLoadingHeatmap && !['posterior', 'truth', 'priorField'].includes(mode) && !isContextHeatmapType(mode)}
             className={`px-3 py-1 text-sm rounded ${
               viewMode === mode
                 ? 'bg-green-600 text-white'
@@ -435,7 +460,11 @@ export default function GameCanvas({
              mode === 'valueOfInformation' ? 'VOI' : 
              mode === 'riskAverse' ? 'Risk' :
              mode === 'variance' ? 'Variance' :
-             mode === 'lossRisk' ? 'Loss Risk' : 'Truth'}
+             mode === 'lossRisk' ? 'Loss Risk' :
+             mode === 'terrain' ? 'Terrain' :
+             mode === 'weather' ? 'Weather' :
+             mode === 'jamming' ? 'Jamming' :
+             mode === 'expectedTPR' ? 'Expected TPR' : 'Truth'}
           </button>
         ))}
         
@@ -617,6 +646,15 @@ export default function GameCanvas({
               <span>Recons: {grid[hoveredCell.y][hoveredCell.x].reconHistory.length}</span>
             )}
           </div>
+          {contextGrid[hoveredCell.y]?.[hoveredCell.x] && (
+            <SensorComparisonCard
+              x={hoveredCell.x}
+              y={hoveredCell.y}
+              context={contextGrid[hoveredCell.y][hoveredCell.x]}
+              selectedSensor={selectedSensor}
+              className="inline-block text-left mt-2"
+            />
+          )}
         </div>
       )}
     </div>
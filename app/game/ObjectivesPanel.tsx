@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useGameStore } from '@/state/useGameStore';
+import { createDebrief } from '@/lib/objectives';
+import { ObjectiveStatus } from '@/lib/types';
+import { CheckCircle, XCircle, Clock, Shield } from 'lucide-react';
+
+const STATUS_STYLES: Record<ObjectiveStatus, { label: string; className: string }> = {
+  achieved: { label: 'Achieved', className: 'text-green-400' },
+  holding: { label: 'Holding', className: 'text-blue-300' },
+  pending: { label: 'Pending', className: 'text-yellow-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+function StatusIcon({ status }: { status: ObjectiveStatus }) {
+  const className = `w-4 h-4 mr-2 ${STATUS_STYLES[status].className}`;
+  switch (status) {
+    case 'achieved':
+      return <CheckCircle className={className} />;
+    case 'holding':
+      return <Shield className={className} />;
+    case 'pending':
+      return <Clock className={className} />;
+    case 'failed':
+      return <XCircle className={className} />;
+  }
+}
+
+export default function ObjectivesPanel() {
+  const { config, currentTurn, score, gameEnded, eventLog, analytics } = useGameStore();
+
+  const debrief = useMemo(
+    () => createDebrief({ config, currentTurn, score, gameEnded, eventLog, analytics }),
+    [config, currentTurn, score, gameEnded, eventLog, analytics]
+  );
+
+  if (!debrief) {
+    return (
+      <div className="text-center text-slate-400 py-8">
+        This game has no objectives: score is the only goal. Load a scenario or campaign mission to play for objectives.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {gameEnded && (
+        <div className={`rounded p-4 text-sm ${debrief.passed ? 'bg-green-900/40' : 'bg-red-900/40'}`}>
+          <div className="font-medium mb-1">
+            Debrief: {debrief.passed ? 'mission accomplished' : 'mission failed'}
+          </div>
+          <div className="text-slate-300">
+            {debrief.endedEarly ? `Ended early on turn ${debrief.turn}` : `Ended on turn ${debrief.turn}`} · Score {score} ·
+            {' '}{debrief.objectives.filter(objective => objective.status === 'achieved').length}/{debrief.objectives.length} objectives achieved
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {debrief.objectives.map((objective, index) => (
+          <li key={index} className="bg-slate-700 rounded px-4 py-2 flex items-center justify-between text-sm">
+            <span className="flex items-center">
+              <StatusIcon status={objective.status} />
+              {objective.description}
+            </span>
+            <span className="flex items-center gap-3">
+              <span className="text-slate-400">{objective.progress}</span>
+              <span className={`font-medium ${STATUS_STYLES[objective.status].className}`}>
+                {STATUS_STYLES[objective.status].label}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {config.objectives && config.objectives.earlyTermination.length > 0 && (
+        <p className="text-xs text-slate-400">
+          The game ends early {config.objectives.earlyTermination.map(rule =>
+            rule === 'onFailure' ? 'as soon as an objective fails' : 'once every objective is met'
+          ).join(' or ')}.
+        </p>
+      )}
+    </div>
+  );
+}
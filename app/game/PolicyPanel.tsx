@@ -4,7 +4,14 @@ import { useState, useEffect } from 'react';
 import { useGameStore } from '@/state/useGameStore';
 import { SensorType } from '@/lib/types';
 import { PolicyType, PolicyRecommendation } from '@/lib/risk-analysis';
-import { Target, TrendingUp, Activity, Brain, AlertTriangle, Clock } from 'lucide-react';
+import { Target, TrendingUp, Activity, Brain, AlertTriangle, Clock, GitBranch } from 'lucide-react';
+
+const POLICY_LABELS: Record<PolicyType, string> = {
+  greedyEV: 'Greedy EV',
+  riskAverse: 'Risk-Averse',
+  reconVOI: 'Recon by VOI',
+  rolloutPlanner: 'Rollout Planner',
+};
 
 interface PolicyPanelProps {
   selectedSensor: SensorType;
@@ -18,6 +25,7 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
     currentTurn, 
     remainingBudget, 
     getPolicyRecommendations,
+    getRolloutPlan,
     config,
   } = useGameStore();
   
@@ -25,6 +33,7 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
   const [recommendations, setRecommendations] = useState<Record<PolicyType, PolicyRecommendation> | null>(null);
   const [riskAversion, setRiskAversion] = useState(0.5);
   const [showAlternatives, setShowAlternatives] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
 
   // Update recommendations when game state changes
   useEffect(() => {
@@ -32,7 +41,9 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
       const updateRecommendations = async () => {
         try {
           const newRecommendations = await getPolicyRecommendations(selectedSensor, riskAversion);
-          setRecommendations(newRecommendations);
+          // An empty grid yields no recommendations; keep waiting for a full set
+          const complete = (Object.keys(POLICY_LABELS) as PolicyType[]).every(p => newRecommendations[p]);
+          setRecommendations(complete ? newRecommendations : null);
         } catch (error) {
           console.warn('Error getting policy recommendations:', error);
           setRecommendations(null);
@@ -43,17 +54,13 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
     }
   }, [gameStarted, currentTurn, remainingBudget, selectedSensor, riskAversion, getPolicyRecommendations]);
 
-  // Clear highlights when policy changes
-  useEffect(() => {
-    onClearHighlight();
-  }, [selectedPolicy, onClearHighlight]);
-
   const handlePolicySelect = (policyType: PolicyType) => {
     if (selectedPolicy === policyType) {
       setSelectedPolicy(null);
       onClearHighlight();
     } else {
       setSelectedPolicy(policyType);
+      onClearHighlight();
       
       // Highlight recommended cell
       const recommendation = recommendations?.[policyType];
@@ -80,6 +87,21 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
     }
   };
 
+  // Re-run the planner with a longer time budget than the quick per-turn pass
+  const handleDeepPlan = async () => {
+    setIsPlanning(true);
+    try {
+      const plan = await getRolloutPlan(selectedSensor, 3000);
+      if (plan) {
+        setRecommendations(current => current ? { ...current, rolloutPlanner: plan } : current);
+      }
+    } catch (error) {
+      console.warn('Error running rollout planner:', error);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-400';
     if (confidence >= 0.6) return 'text-yellow-400';
@@ -164,7 +186,7 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
           </button>
         </div>
 
-        {(['greedyEV', 'riskAverse', 'reconVOI'] as PolicyType[]).map((policyType) => {
+        {(Object.keys(POLICY_LABELS) as PolicyType[]).map((policyType) => {
           const recommendation = recommendations[policyType];
           const isSelected = selectedPolicy === policyType;
           const canAfford = recommendation.action === 'wait' || 
@@ -188,8 +210,7 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
                 <div className="flex items-center space-x-2">
                   {getActionIcon(recommendation.action)}
                   <span className="font-medium">
-                    {policyType === 'greedyEV' ? 'Greedy EV' : 
-                     policyType === 'riskAverse' ? 'Risk-Averse' : 'Recon by VOI'}
+                    {POLICY_LABELS[policyType]}
                   </span>
                 </div>
                 <div className={`text-xs ${getConfidenceColor(recommendation.confidence)}`}>
@@ -231,8 +252,8 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
             {selectedPolicy === 'greedyEV' && <TrendingUp className="w-4 h-4 mr-2" />}
             {selectedPolicy === 'riskAverse' && <AlertTriangle className="w-4 h-4 mr-2" />}
             {selectedPolicy === 'reconVOI' && <Activity className="w-4 h-4 mr-2" />}
-            Selected: {selectedPolicy === 'greedyEV' ? 'Greedy EV' : 
-                      selectedPolicy === 'riskAverse' ? 'Risk-Averse' : 'Recon by VOI'}
+            {selectedPolicy === 'rolloutPlanner' && <GitBranch className="w-4 h-4 mr-2" />}
+            Selected: {POLICY_LABELS[selectedPolicy]}
           </h4>
           
           <div className="text-sm text-slate-300">
@@ -245,8 +266,35 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
             )}
             <div>Confidence: {getConfidenceText(recommendations[selectedPolicy].confidence)}</div>
             <div>Expected Value: {recommendations[selectedPolicy].value.toFixed(0)} points</div>
+            {recommendations[selectedPolicy].returnCI && (
+              <div>
+                95% CI: {recommendations[selectedPolicy].returnCI![0].toFixed(0)} to {recommendations[selectedPolicy].returnCI![1].toFixed(0)} points
+              </div>
+            )}
           </div>
           
+          {recommendations[selectedPolicy].plan && recommendations[selectedPolicy].plan!.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-slate-400">Plan:</div>
+              {recommendations[selectedPolicy].plan!.map((step) => (
+                <div key={step.step} className="text-xs text-slate-500 flex justify-between">
+                  <span>T{step.turn}: {step.action.toUpperCase()} ({step.x}, {step.y})</span>
+                  <span>{(step.frequency * 100).toFixed(0)}% of rollouts</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {selectedPolicy === 'rolloutPlanner' && (
+            <button
+              onClick={handleDeepPlan}
+              disabled={isPlanning}
+              className="w-full text-xs px-2 py-1 rounded bg-slate-600 hover:bg-slate-500 disabled:opacity-50"
+            >
+              {isPlanning ? 'Planning...' : 'Plan deeper (3s search)'}
+            </button>
+          )}
+          
           {showAlternatives && recommendations[selectedPolicy].alternatives && (
             <div className="space-y-1">
               <div className="text-xs font-medium text-slate-400">Alternatives:</div>
@@ -266,7 +314,7 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
       )}
 
       {/* Quick Stats */}
-      <div className="grid grid-cols-3 gap-2 text-center text-xs">
+      <div className="grid grid-cols-4 gap-2 text-center text-xs">
         <div className="bg-slate-700 rounded p-2">
           <div className="text-slate-400">Best EV</div>
           <div className="font-medium">
@@ -285,6 +333,12 @@ export default function PolicyPanel({ selectedSensor, onCellHighlight, onClearHi
             {recommendations.reconVOI.value > 0 ? '+' : ''}{recommendations.reconVOI.value.toFixed(0)}
           </div>
         </div>
+        <div className="bg-slate-700 rounded p-2">
+          <div className="text-slate-400">Plan Return</div>
+          <div className="font-medium">
+            {recommendations.rolloutPlanner.value > 0 ? '+' : ''}{recommendations.rolloutPlanner.value.toFixed(0)}
+          </div>
+        </div>
       </div>
 
       <div className="text-xs text-slate-500 border-t border-slate-700 pt-2">
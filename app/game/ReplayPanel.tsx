@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useGameStore } from '@/state/useGameStore';
+import { GameEvent } from '@/lib/types';
+import { generateGameRunExport } from '@/lib/analytics-export';
+import { ReplaySession, parseGameRunExport } from '@/lib/replay';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, Upload, CheckCircle, AlertTriangle, Clock } from 'lucide-react';
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+function describeEvent(event: GameEvent | null): string {
+  if (!event) return 'Initial state';
+
+  switch (event.type) {
+    case 'recon':
+      return `Recon at (${event.data.x}, ${event.data.y}) with ${event.data.sensor}: ${event.data.reading ? 'Positive' : 'Negative'}`;
+    case 'strike':
+      return `Strike at (${event.data.x}, ${event.data.y}): ${event.data.hostilesHit} hostiles, ${event.data.infraHit} infrastructure`;
+    case 'game_start':
+      return 'Game started';
+    case 'game_end':
+      return 'Game ended';
+    default:
+      return String(event.type);
+  }
+}
+
+export default function ReplayPanel() {
+  const { config, analytics, eventLog, truthField, score, currentTurn } = useGameStore();
+
+  const sessionRef = useRef<ReplaySession | null>(null);
+  const [, setVersion] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+  const session = sessionRef.current;
+
+  const loadSession = useCallback((newSession: ReplaySession) => {
+    sessionRef.current = newSession;
+    setIsPlaying(false);
+    setLoadError(null);
+    refresh();
+  }, [refresh]);
+
+  const handleReplayCurrent = () => {
+    const exportData = generateGameRunExport(config, analytics, eventLog, truthField, score, currentTurn);
+    loadSession(new ReplaySession(exportData));
+  };
+
+  const handleFileLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      loadSession(new ReplaySession(parseGameRunExport(await file.text())));
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load replay');
+    }
+    event.target.value = '';
+  };
+
+  const stepForward = useCallback(() => {
+    if (!sessionRef.current) return;
+    sessionRef.current.step();
+    if (sessionRef.current.isAtEnd) setIsPlaying(false);
+    refresh();
+  }, [refresh]);
+
+  const seek = (position: number) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.seek(position);
+    refresh();
+  };
+
+  // Advance one event per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(stepForward, 1000 / speed);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, stepForward]);
+
+  const mismatches = session ? session.checks.filter(check => !check.matches) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleReplayCurrent}
+          disabled={eventLog.length === 0}
+          className="flex items-center space-x-2 px-3 py-2 rounded text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-600 disabled:text-slate-400"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Replay Current Game</span>
+        </button>
+        <label className="flex items-center space-x-2 px-3 py-2 rounded text-sm bg-slate-600 hover:bg-slate-700 text-white cursor-pointer">
+          <Upload className="w-4 h-4" />
+          <span>Load Export (.json)</span>
+          <input type="file" accept="application/json,.json" onChange={handleFileLoad} className="hidden" />
+        </label>
+      </div>
+
+      {loadError && (
+        <div className="text-sm text-red-400">{loadError}</div>
+      )}
+
+      {!session ? (
+        <div className="text-slate-400 text-sm">Replay the current game or load an exported run to review it step by step</div>
+      ) : (
+        <>
+          {/* Transport controls */}
+          <div className="bg-slate-700 rounded p-4 space-y-3">
+            <div className="flex items-center space-x-2">
+              <button onClick={() => seek(0)} className="p-2 rounded hover:bg-slate-600" title="Reset">
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button onClick={() => seek(session.position - 1)} className="p-2 rounded hover:bg-slate-600" title="Step back">
+                <SkipBack className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setIsPlaying(!isPlaying)}
+                disabled={session.isAtEnd}
+                className="p-2 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600"
+                title={isPlaying ? 'Pause' : 'Play'}
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <button onClick={stepForward} disabled={session.isAtEnd} className="p-2 rounded hover:bg-slate-600" title="Step forward">
+                <SkipForward className="w-4 h-4" />
+              </button>
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                className="ml-auto bg-slate-800 text-sm rounded px-2 py-1"
+              >
+                {PLAYBACK_SPEEDS.map(option => (
+                  <option key={option} value={option}>{option}x</option>
+                ))}
+              </select>
+            </div>
+
+            <input
+              type="range"
+              min={0}
+              max={session.length}
+              value={session.position}
+              onChange={(e) => seek(parseInt(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-slate-400">
+              <span>Event {session.position} / {session.length}</span>
+              <span>Seed: {session.exportData.seed.slice(0, 20)}</span>
+            </div>
+            <div className="text-sm">{describeEvent(session.currentEvent)}</div>
+          </div>
+
+          {/* Replayed state */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="bg-slate-700 rounded p-3 text-center">
+              <div className="text-lg font-bold">{session.state.currentTurn}</div>
+              <div className="text-xs text-slate-400">Turn</div>
+            </div>
+            <div className="bg-slate-700 rounded p-3 text-center">
+              <div className={`text-lg font-bold ${session.state.score >= 0 ? 'text-green-400' : 'text-red-400'}`}>{session.state.score}</div>
+              <div className="text-xs text-slate-400">Score</div>
+            </div>
+            <div className="bg-slate-700 rounded p-3 text-center">
+              <div className="text-lg font-bold">${session.state.remainingBudget}</div>
+              <div className="text-xs text-slate-400">Budget</div>
+            </div>
+            <div className="bg-slate-700 rounded p-3 text-center">
+              <div className="text-lg font-bold text-green-400">{session.state.analytics.hostilesNeutralized}</div>
+              <div className="text-xs text-slate-400">Hostiles Neutralized</div>
+            </div>
+            <div className="bg-slate-700 rounded p-3 text-center">
+              <div className="text-lg font-bold text-red-400">{session.state.analytics.infraHits}</div>
+              <div className="text-xs text-slate-400">Infrastructure Hits</div>
+            </div>
+          </div>
+
+          {/* Verification */}
+          <div className="bg-slate-700 rounded p-4 text-sm space-y-2">
+            <h4 className="font-medium">Verification</h4>
+            <div className="flex items-center">
+              {session.truthMatches === null
+                ? <Clock className="w-4 h-4 mr-2 text-slate-400" />
+                : session.truthMatches
+                  ? <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+                  : <AlertTriangle className="w-4 h-4 mr-2 text-red-400" />}
+              <span>
+                {session.truthMatches === null
+                  ? 'Truth field is checked at the end, once the hostiles have moved'
+                  : `Truth field ${session.truthMatches ? 'matches' : 'differs from'} the recording`}
+              </span>
+            </div>
+            <div className="flex items-center">
+              {mismatches.length === 0
+                ? <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+                : <AlertTriangle className="w-4 h-4 mr-2 text-red-400" />}
+              <span>{session.checks.length - mismatches.length} / {session.checks.length} replayed actions match</span>
+            </div>
+            {mismatches.map(check => (
+              <div key={check.index} className="text-xs text-red-300">
+                Event {check.index + 1} (turn {check.turn} {check.type}): {check.mismatches.join('; ')}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { useGameStore } from '@/state/useGameStore';
+import { parseScenario } from '@/lib/scenario';
+import { DEFAULT_MOVEMENT_CONFIG } from '@/lib/movement';
+import { createDefaultLogistics } from '@/lib/logistics';
+import { DEFAULT_ENVIRONMENT_CONFIG } from '@/lib/environment';
+import { DEFAULT_ADVERSARY_CONFIG } from '@/lib/adversary';
+import { DEFAULT_CALIBRATION_DRILL_CONFIG } from '@/lib/calibration-drill';
+import { DEFAULT_FUSION_CONFIG } from '@/lib/fusion';
+import { DEFAULT_TARGET_CLASS_CONFIG } from '@/lib/target-classes';
+import { EmissionControl, InferenceMode } from '@/lib/types';
+import { FileText, Upload, Download, SlidersHorizontal } from 'lucide-react';
+
+export default function SettingsPanel() {
+  const {
+    gameStarted,
+    gameEnded,
+    grid,
+    config,
+    scenario,
+    loadScenario,
+    exportScenario,
+    reconfigureGame,
+  } = useGameStore();
+
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const missionRunning = gameStarted && !gameEnded;
+
+  const handleScenarioLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      loadScenario(parseScenario(await file.text()));
+      setScenarioError(null);
+    } catch (error) {
+      setScenarioError(error instanceof Error ? error.message : 'Failed to load scenario');
+    }
+    event.target.value = '';
+  };
+
+  const handleScenarioExport = () => {
+    exportScenario({
+      name: scenario?.name ?? `Exercise ${config.seed}`,
+      description: scenario?.description,
+      boundaries: scenario?.boundaries,
+      areasOfInterest: scenario?.areasOfInterest,
+      victoryConditions: scenario?.victoryConditions,
+    });
+  };
+
+  const handleMovementToggle = (enabled: boolean) => {
+    const movement = { ...DEFAULT_MOVEMENT_CONFIG, ...config.movement, enabled };
+    // Field inference assumes static hostiles, so moving hostiles go back to diffusion
+    reconfigureGame(enabled ? { movement, inferenceMode: 'diffusion' } : { movement });
+  };
+
+  const handleLogisticsToggle = (enabled: boolean) => {
+    const logistics = config.logistics ?? createDefaultLogistics(config.gridSize);
+    reconfigureGame({ logistics: { ...logistics, enabled } });
+  };
+
+  const handleEnvironmentToggle = (enabled: boolean) => {
+    reconfigureGame({ environment: { ...DEFAULT_ENVIRONMENT_CONFIG, ...config.environment, enabled } });
+  };
+
+  const handleAdversaryToggle = (enabled: boolean) => {
+    reconfigureGame({ adversary: { ...DEFAULT_ADVERSARY_CONFIG, ...config.adversary, enabled } });
+  };
+
+  const handleEmissionControlChange = (emissionControl: EmissionControl) => {
+    reconfigureGame({ adversary: { ...DEFAULT_ADVERSARY_CONFIG, ...config.adversary, emissionControl } });
+  };
+
+  const handleTargetClassesToggle = (enabled: boolean) => {
+    reconfigureGame({ targetClasses: { ...DEFAULT_TARGET_CLASS_CONFIG, ...config.targetClasses, enabled } });
+  };
+
+  const handleFusionToggle = (enabled: boolean) => {
+    reconfigureGame({ fusion: { ...DEFAULT_FUSION_CONFIG, ...config.fusion, enabled } });
+  };
+
+  const handleCalibrationDrillToggle = (enabled: boolean) => {
+    reconfigureGame({ calibrationDrill: { ...DEFAULT_CALIBRATION_DRILL_CONFIG, ...config.calibrationDrill, enabled } });
+  };
+
+  const handleInferenceModeChange = (inferenceMode: InferenceMode) => {
+    reconfigureGame({ inferenceMode });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Rules for the next mission; changing one deals a fresh board */}
+      <div className="bg-slate-700 rounded p-4 space-y-3">
+        <h4 className="font-medium flex items-center">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Game Settings
+        </h4>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.movement?.enabled ?? false}
+            onChange={(e) => handleMovementToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Moving hostiles</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.logistics?.enabled ?? false}
+            onChange={(e) => handleLogisticsToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Sensor logistics</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.environment?.enabled ?? false}
+            onChange={(e) => handleEnvironmentToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Dynamic weather and daylight</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.adversary?.enabled ?? false}
+            onChange={(e) => handleAdversaryToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Adversary deception (decoys)</span>
+        </label>
+        {config.adversary?.enabled && (
+          <div className="space-y-1">
+            <label htmlFor="emission-control" className="text-sm text-slate-300">Emissions Control</label>
+            <select
+              id="emission-control"
+              value={config.adversary.emissionControl}
+              onChange={(e) => handleEmissionControlChange(e.target.value as EmissionControl)}
+              className="w-full bg-slate-800 text-sm rounded px-2 py-1"
+              disabled={missionRunning}
+            >
+              <option value="none">None (always transmitting)</option>
+              <option value="reactive">Reactive (silent after a scan)</option>
+              <option value="strict">Strict (never transmitting)</option>
+            </select>
+          </div>
+        )}
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.targetClasses?.enabled ?? false}
+            onChange={(e) => handleTargetClassesToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Hostile classes</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.fusion?.enabled ?? false}
+            onChange={(e) => handleFusionToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Correlated repeat readings</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={config.calibrationDrill?.enabled ?? false}
+            onChange={(e) => handleCalibrationDrillToggle(e.target.checked)}
+            disabled={missionRunning}
+          />
+          <span>Calibration drill (estimate before each action)</span>
+        </label>
+        <div className="space-y-1">
+          <label htmlFor="inference-mode" className="text-sm text-slate-300">Belief Inference</label>
+          <select
+            id="inference-mode"
+            value={config.inferenceMode ?? 'diffusion'}
+            onChange={(e) => handleInferenceModeChange(e.target.value as InferenceMode)}
+            className="w-full bg-slate-800 text-sm rounded px-2 py-1"
+            disabled={missionRunning || config.movement?.enabled}
+          >
+            <option value="diffusion">Neighbour diffusion</option>
+            <option value="loopyBP">Latent field (loopy BP)</option>
+            <option value="gibbs">Latent field (Gibbs)</option>
+          </select>
+          {config.movement?.enabled && (
+            <p className="text-xs text-slate-400">Field inference assumes static hostiles</p>
+          )}
+        </div>
+        {missionRunning && (
+          <p className="text-xs text-slate-400">Settings are locked while a mission is running.</p>
+        )}
+      </div>
+
+      {/* Scenario files */}
+      <div className="bg-slate-700 rounded p-4 space-y-3">
+        <h4 className="font-medium flex items-center">
+          <FileText className="w-4 h-4 mr-2" />
+          Scenario
+        </h4>
+        <div className="flex items-center space-x-3">
+          <label
+            className={`flex items-center px-3 py-1 rounded text-sm font-medium bg-blue-600 text-white ${
+              missionRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer hover:bg-blue-700'
+            }`}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Load Scenario
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleScenarioLoad}
+              disabled={missionRunning}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={handleScenarioExport}
+            disabled={grid.length === 0}
+            className="flex items-center px-3 py-1 rounded text-sm font-medium bg-slate-600 hover:bg-slate-500 text-white disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export Scenario
+          </button>
+        </div>
+        {scenarioError && (
+          <div className="text-xs text-red-400 p-2 bg-slate-800 rounded whitespace-pre-line">
+            {scenarioError}
+          </div>
+        )}
+        <p className="text-xs text-slate-400">
+          {scenario ? `Scenario: ${scenario.name} · ` : ''}Seed: {config.seed.slice(0, 20)}
+        </p>
+      </div>
+    </div>
+  );
+}
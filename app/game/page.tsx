@@ -1,16 +1,31 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useGameStore } from '@/state/useGameStore';
-import { SensorType } from '@/lib/types';
+import { ClassDistribution, SensorType, WeaponType } from '@/lib/types';
 import { getWorkerManager } from '@/lib/worker-manager';
 
-import { SensorReading } from '@/lib/sensors';
+import { SENSOR_CATALOG, SensorReading } from '@/lib/sensors';
+import { isSensorAvailable } from '@/lib/game-engine';
+import { getClassProbabilities } from '@/lib/target-classes';
+import { TutorialAction, getTutorialStep, isTutorialActionAllowed } from '@/lib/tutorial';
+import { shouldElicitEstimate } from '@/lib/calibration-drill';
+import { WEAPON_CATALOG } from '@/lib/weapons';
+import { getStrikeCost, validateStrike, StrikeValidation } from '@/lib/decision-analysis';
+import { toLogEvents, deriveTrackEntities } from '@/lib/live-feed';
+import { getActiveBranch } from '@/lib/game-history';
+import { downloadFile } from '@/lib/analytics-export';
+import { createGridProjection, pointToCell, cellToMGRS } from '@/lib/geo-projection';
 import GameCanvas from './GameCanvas';
 import MapScene from '@/components/MapScene';
-import { generateSampleInfrastructure, generateSampleAircraft } from '@/lib/3d-entities';
+import { deriveInfrastructureEntities, deriveAirAssets } from '@/lib/3d-entities';
+import { isLogisticsEnabled, planSortie, getAssetStatuses } from '@/lib/logistics';
+import { generateContextGrid } from '@/lib/context-layers';
+import { formatHourOfDay, getHourOfDay, getLighting, isEnvironmentEnabled } from '@/lib/environment';
+import SensorComparisonCard from '@/components/SensorComparisonCard';
 import { generateSampleBoundaries, generateSampleAOIs, generateSampleSensorCones } from '@/lib/tactical-overlays';
 import AnalyticsPanel from './AnalyticsPanel';
+import PolicyPanel from './PolicyPanel';
 import DebugPanel, { useDebugPanelToggle } from '@/components/DebugPanel';
 import { useThrottledCallback } from '@/lib/hooks/usePerfStats';
 import LatticeLayout from '@/components/layout/LatticeLayout';
@@ -19,6 +34,8 @@ import { LogEvent } from '@/components/layout/EventLog';
 import { useKeyboardShortcuts, KeyboardShortcutsHelp } from '@/lib/hooks/useKeyboardShortcuts';
 import LoadingOverlay from '@/components/LoadingOverlay';
 import BayesExplanationModal from '@/components/BayesExplanationModal';
+import TutorialOverlay from '@/components/TutorialOverlay';
+import EstimatePrompt, { EstimateRequest } from '@/components/EstimatePrompt';
 import { ChevronUp, ChevronDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { LayerToggle } from '@/components/ui/layer-toggle';
@@ -31,9 +48,15 @@ export default function GamePage() {
   const {
     initializeGame,
     loadFromLocalStorage,
+    loadCampaignProgress,
     saveToLocalStorage,
+    startTutorial,
+    recordTutorialAction,
     performRecon,
     performStrike,
+    validateStrikeAction,
+    undo,
+    redo,
     startGame,
     endGame,
     resetGame,
@@ -42,7 +65,12 @@ export default function GamePage() {
     grid,
     config,
     remainingBudget,
-    currentTurn
+    currentTurn,
+    eventLog,
+    truthField,
+    scenario,
+    tutorial,
+    history
   } = useGameStore();
   
   const [mounted, setMounted] = useState(false);
@@ -56,12 +84,15 @@ export default function GamePage() {
   
   // Bayes explanation modal state
   const [showBayesModal, setShowBayesModal] = useState(false);
+  const [estimateRequest, setEstimateRequest] = useState<(EstimateRequest & { resolve: (estimate: number | null) => void }) | null>(null);
   const [lastReconData, setLastReconData] = useState<{
     x: number;
     y: number;
     prior: number;
     posterior: number;
     sensorReading: SensorReading;
+    classPrior?: ClassDistribution;
+    classPosterior?: ClassDistribution;
   } | null>(null);
   
   // Selected cell for actions
@@ -83,47 +114,89 @@ export default function GamePage() {
   // Lattice layout state
   const [searchQuery, setSearchQuery] = useState('');
   const [events, setEvents] = useState<LogEvent[]>([]);
+  const [logClearedAt, setLogClearedAt] = useState(0);
   
   // UI polish state
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
 
-  // Generate 3D entities and tactical overlays for demonstration
-  const mapBounds = {
-    north: 40.7829, south: 40.7489, east: -73.9441, west: -73.9901
-  };
-  const infrastructure = generateSampleInfrastructure(grid, mapBounds);
-  const { aircraft, flightPaths } = generateSampleAircraft(mapBounds);
-  const boundaries = generateSampleBoundaries(mapBounds);
-  const aois = generateSampleAOIs(mapBounds);
-  const sensorCones = generateSampleSensorCones(mapBounds, infrastructure);
+  // 3D entities come from the game; overlays from the scenario, or samples without one
+  const projection = useMemo(
+    () => createGridProjection(config.gridSize, config.areaOfOperations),
+    [config.gridSize, config.areaOfOperations]
+  );
+  const infrastructure = useMemo(
+    () => deriveInfrastructureEntities(truthField, eventLog, projection, config.showTruthOverlay),
+    [truthField, eventLog, projection, config.showTruthOverlay]
+  );
+  const { aircraft, flightPaths } = useMemo(
+    () => deriveAirAssets(eventLog, projection, config.logistics),
+    [eventLog, projection, config.logistics]
+  );
+  const contextGrid = useMemo(() => generateContextGrid(config, currentTurn), [config, currentTurn]);
+  const hoveredContext = selectedCell ? contextGrid[selectedCell.y]?.[selectedCell.x] : undefined;
+  const boundaries = useMemo(() => scenario?.boundaries ?? generateSampleBoundaries(projection), [scenario, projection]);
+  const aois = useMemo(() => scenario?.areasOfInterest ?? generateSampleAOIs(projection), [scenario, projection]);
+  const sensorCones = useMemo(() => generateSampleSensorCones(projection, infrastructure), [projection, infrastructure]);
+
+  const activeBranch = getActiveBranch(history);
+
+  // Rules of engagement on the selected target, refreshed as beliefs, strikes and turns change
+  const roeVerdicts = useMemo(
+    () => gameStarted && selectedCell
+      ? validateStrike({ grid, config, currentTurn, eventLog, remainingBudget }, selectedCell.x, selectedCell.y, 1).verdicts
+      : [],
+    [gameStarted, selectedCell, grid, config, currentTurn, eventLog, remainingBudget]
+  );
+
+  const localTime = isEnvironmentEnabled(config.environment)
+    ? `${formatHourOfDay(getHourOfDay(config.environment, currentTurn))} (${getLighting(config.environment, currentTurn)})`
+    : undefined;
+
+  // Fuel and tasking of each sensor asset when logistics is on
+  const assetStatuses = useMemo(
+    () => isLogisticsEnabled(config.logistics) ? getAssetStatuses(config.logistics, eventLog, currentTurn) : [],
+    [config.logistics, eventLog, currentTurn]
+  );
+
+  // Live log: game events plus UI-only entries, minus anything cleared
+  const liveEvents = useMemo(() => toLogEvents(eventLog), [eventLog]);
+  const logEvents = useMemo(
+    () => [...events, ...liveEvents].filter(event => event.timestamp > logClearedAt),
+    [events, liveEvents, logClearedAt]
+  );
 
-  // Convert game entities to track entities
+  // Convert classified cells and game entities to track entities
   const trackEntities: TrackEntity[] = [
+    ...deriveTrackEntities(grid, eventLog, projection),
     ...infrastructure.map(infra => ({
       id: infra.id,
-      name: infra.id.replace(/-/g, ' ').toUpperCase(),
+      name: `${infra.type.toUpperCase()} ${cellToMGRS(projection, infra.gridX, infra.gridY)}`,
       type: 'infrastructure' as const,
       classification: infra.isDestroyed ? 'unknown' as const : 'hostile' as const,
       position: [infra.position[1], infra.position[0]] as [number, number], // Swap for lat/lng
-      lastSeen: Date.now() - Math.random() * 300000,
-      confidence: 0.85 + Math.random() * 0.15,
+      lastSeen: infra.revealedAt ?? 0,
+      // Observed infrastructure is certain; truth-overlay-only entities carry the belief
+      confidence: infra.revealedAt !== undefined ? 1 : grid[infra.gridY]?.[infra.gridX]?.infraPosteriorProbability ?? 0,
       priority: 'high' as const,
       status: infra.isDestroyed ? 'destroyed' as const : 'active' as const
     })),
-    ...aircraft.map(craft => ({
-      id: craft.id,
-      name: craft.id.replace(/-/g, ' ').toUpperCase(),
-      type: 'aircraft' as const,
-      classification: craft.isHostile ? 'hostile' as const : 'friendly' as const,
-      position: [craft.position[1], craft.position[0]] as [number, number], // Swap for lat/lng
-      altitude: craft.altitude,
-      speed: craft.speed * 1.94384, // m/s to knots
-      heading: craft.heading * 180 / Math.PI, // radians to degrees
-      lastSeen: Date.now() - Math.random() * 60000,
-      confidence: 0.90 + Math.random() * 0.10,
-      priority: craft.isHostile ? 'high' as const : 'medium' as const,
-      status: 'active' as const
-    }))
+    ...aircraft.map(craft => {
+      const path = flightPaths.find(candidate => candidate.id === craft.flightPathId);
+      return {
+        id: craft.id,
+        name: craft.id.replace(/-/g, ' ').toUpperCase(),
+        type: 'aircraft' as const,
+        classification: craft.isHostile ? 'hostile' as const : 'friendly' as const,
+        position: [craft.position[1], craft.position[0]] as [number, number], // Swap for lat/lng
+        altitude: craft.altitude,
+        speed: craft.speed * 1.94384, // m/s to knots
+        heading: craft.heading * 180 / Math.PI, // radians to degrees
+        lastSeen: path?.waypoints[path.waypoints.length - 1].timestamp ?? 0,
+        confidence: 1, // Own assets report their position
+        priority: craft.isHostile ? 'high' as const : 'medium' as const,
+        status: 'active' as const
+      };
+    })
   ];
 
   // Throttled event handlers for performance
@@ -147,38 +220,6 @@ export default function GamePage() {
     console.log('Focus on entity:', entity);
   }, []);
 
-  const handleLatticeReconAction = useCallback((entityId: string, sensorType: string) => {
-    // Add event log entry
-    const newEvent: LogEvent = {
-      id: `evt_${Date.now()}`,
-      timestamp: Date.now(),
-      type: 'recon',
-      action: `${sensorType.toUpperCase()}_SCAN_INITIATED`,
-      entity: entityId,
-      deltaScore: 0.05,
-      details: 'Scan started',
-      severity: 'info'
-    };
-    setEvents(prev => [newEvent, ...prev]);
-    console.log('Recon action:', entityId, sensorType);
-  }, []);
-
-  const handleLatticeStrikeAction = useCallback((entityId: string, weaponType: string) => {
-    // Add event log entry
-    const newEvent: LogEvent = {
-      id: `evt_${Date.now()}`,
-      timestamp: Date.now(),
-      type: 'strike',
-      action: `${weaponType.toUpperCase()}_STRIKE_EXECUTED`,
-      entity: entityId,
-      deltaScore: -0.85,
-      details: 'Strike completed',
-      severity: 'success'
-    };
-    setEvents(prev => [newEvent, ...prev]);
-    console.log('Strike action:', entityId, weaponType);
-  }, []);
-
   const handleTimeControlChange = useCallback((action: 'play' | 'pause' | 'step' | 'reset') => {
     const newEvent: LogEvent = {
       id: `evt_${Date.now()}`,
@@ -208,25 +249,44 @@ export default function GamePage() {
     }
   }, [gameStarted, startGame, endGame, initializeGame]);
 
+  // Clearing hides the current entries; the game's own event log is kept for export and replay
   const handleClearLog = useCallback(() => {
     setEvents([]);
+    setLogClearedAt(Date.now());
   }, []);
 
   const handleExportLog = useCallback(() => {
-    const logData = JSON.stringify(events, null, 2);
-    const blob = new Blob([logData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tactical-log-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [events]);
+    downloadFile(JSON.stringify(logEvents, null, 2), `tactical-log-${config.seed}-${Date.now()}.json`, 'application/json');
+  }, [logEvents, config.seed]);
+
+  // Sensor, layer and explanation changes are UI state, so the tutorial hears about them here
+  const handleSensorChange = useCallback((sensor: SensorType) => {
+    setSelectedSensor(sensor);
+    recordTutorialAction({ type: 'selectSensor', sensor });
+  }, [recordTutorialAction]);
+
+  const handleLayerChange = useCallback((layer: HeatmapType) => {
+    setActiveLayer(layer);
+    recordTutorialAction({ type: 'selectLayer', layer });
+  }, [recordTutorialAction]);
+
+  const handleOpenExplanation = () => {
+    setShowBayesModal(true);
+    recordTutorialAction({ type: 'openExplanation' });
+  };
+
+  // Scans and strikes off the tutorial's script are refused with the step's instruction
+  const isBlockedByTutorial = (action: TutorialAction): boolean => {
+    const step = tutorial && getTutorialStep(tutorial);
+    if (!tutorial || !step || isTutorialActionAllowed(tutorial, action)) return false;
+    tacticalToast.blocked('Follow the tutorial', step.instruction);
+    return true;
+  };
 
   // Keyboard shortcuts integration
   useKeyboardShortcuts({
-    onSensorChange: setSelectedSensor,
-    onViewModeChange: setActiveLayer,
+    onSensorChange: handleSensorChange,
+    onViewModeChange: handleLayerChange,
     onStrikeMode: () => {
       // Strike mode indication
       const newEvent: LogEvent = {
@@ -253,9 +313,22 @@ export default function GamePage() {
       setSelectedCell(null);
       setShowKeyboardHelp(false);
     },
+    onUndo: undo,
+    onRedo: redo,
     enabled: true
   });
 
+  // In a calibration drill, the player's P(hostile) for the target: null when they back out, undefined outside a drill
+  const requestEstimate = (request: EstimateRequest): Promise<number | null | undefined> => {
+    if (!shouldElicitEstimate(config, request.action)) return Promise.resolve(undefined);
+    return new Promise(resolve => setEstimateRequest({ ...request, resolve }));
+  };
+
+  const resolveEstimate = (estimate: number | null) => {
+    estimateRequest?.resolve(estimate);
+    setEstimateRequest(null);
+  };
+
   // Handle recon action
   const handleRecon = async (x: number, y: number, sensor: SensorType) => {
     if (!gameStarted || remainingBudget < config.reconCost) {
@@ -265,13 +338,34 @@ export default function GamePage() {
     
     // Add bounds checking before grid access
     if (!grid[y] || !grid[y][x]) return;
+
+    if (isBlockedByTutorial({ type: 'recon', x, y, sensor })) return;
+
+    if (!isSensorAvailable(config, sensor)) {
+      tacticalToast.blocked('Recon unavailable', `${SENSOR_CATALOG[sensor].name} is not available on this mission`);
+      return;
+    }
+
+    if (isLogisticsEnabled(config.logistics)) {
+      const sortie = planSortie(config.logistics, eventLog, currentTurn, sensor, x, y);
+      if (!sortie.feasible) {
+        tacticalToast.blocked('Recon unavailable', sortie.reason);
+        return;
+      }
+    }
     
+    const estimate = await requestEstimate({ x, y, action: 'recon' });
+    if (estimate === null) return;
+
     const prior = grid[y][x].posteriorProbability;
-    await performRecon(x, y, sensor);
-    const posterior = grid[y][x].posteriorProbability;
+    const classCounts = grid[y][x].classCounts;
+    await performRecon(x, y, sensor, estimate);
+    // The render's grid is the pre-recon snapshot
+    const updatedCell = useGameStore.getState().grid[y][x];
+    const posterior = updatedCell.posteriorProbability;
     
     // Get the most recent recon result for the modal
-    const recentRecon = grid[y][x].reconHistory[grid[y][x].reconHistory.length - 1];
+    const recentRecon = updatedCell.reconHistory[updatedCell.reconHistory.length - 1];
     if (recentRecon) {
              // Convert ReconResult to SensorReading format for the modal
       const sensorReading = {
@@ -279,6 +373,10 @@ export default function GamePage() {
         confidence: recentRecon.confidence || 0.8,
         effectiveTPR: recentRecon.effectiveTPR,
         effectiveFPR: recentRecon.effectiveFPR,
+        infraResult: recentRecon.infraResult,
+        effectiveInfraTPR: recentRecon.effectiveInfraTPR,
+        effectiveInfraFPR: recentRecon.effectiveInfraFPR,
+        classLabel: recentRecon.classLabel,
         contextFactors: {
           terrain: 'open' as const,
           lighting: 'day' as const, 
@@ -293,25 +391,88 @@ export default function GamePage() {
         x, y,
         prior,
         posterior, 
-        sensorReading
+        sensorReading,
+        classPrior: classCounts && getClassProbabilities(classCounts),
+        classPosterior: updatedCell.classCounts && getClassProbabilities(updatedCell.classCounts)
       });
     }
   };
 
-  // Handle strike action
-  const handleStrike = async (x: number, y: number) => {
-    if (!gameStarted || remainingBudget < config.strikeCost) {
-      tacticalToast.constraint('Budget', remainingBudget, config.strikeCost);
-      return;
+  // Handle strike action (without a weapon, the legacy radius-1 strike)
+  const handleStrike = async (x: number, y: number, weapon?: WeaponType) => {
+    const strikeCost = getStrikeCost(config, weapon);
+    if (!gameStarted || remainingBudget < strikeCost) {
+      tacticalToast.constraint('Budget', remainingBudget, strikeCost);
+      return false;
+    }
+    if (isBlockedByTutorial({ type: 'strike', x, y })) return false;
+
+    const validation: StrikeValidation = validateStrikeAction(x, y, 1, weapon);
+    if (!validation.allowed) {
+      tacticalToast.blocked('Strike blocked', validation.reason);
+      return false;
+    }
+    if (validation.requiresConfirmation && !window.confirm(`Strike Warning: ${validation.reason}\n\nProceed anyway?`)) {
+      return false;
     }
-    await performStrike(x, y, 1); // Radius of 1
-    tacticalToast.success('Strike executed', `Target: (${x.toString().padStart(2, '0')}, ${y.toString().padStart(2, '0')})`);
+    const estimate = await requestEstimate({ x, y, action: 'strike' });
+    if (estimate === null) return false;
+    await performStrike(x, y, 1, validation.requiresConfirmation, weapon, estimate);
+    tacticalToast.success('Strike executed', `Target: ${cellToMGRS(projection, x, y)}`);
+    return true;
+  };
+
+  // Grid cell under an entity: infrastructure carries its cell, other tracks are projected from lat/lng
+  const getEntityCell = (entityId: string): { x: number; y: number } | null => {
+    const infra = infrastructure.find(item => item.id === entityId);
+    if (infra) return { x: infra.gridX, y: infra.gridY };
+
+    const entity = trackEntities.find(item => item.id === entityId);
+    if (!entity) return null;
+    if (typeof entity.attributes?.gridX === 'number' && typeof entity.attributes?.gridY === 'number') {
+      return { x: entity.attributes.gridX, y: entity.attributes.gridY };
+    }
+
+    const [lat, lng] = entity.position;
+    return pointToCell(projection, lng, lat);
+  };
+
+  const handleLatticeStrikeAction = async (entityId: string, weaponType: string) => {
+    const cell = getEntityCell(entityId);
+    if (!cell || !(weaponType in WEAPON_CATALOG)) return;
+
+    const weapon = weaponType as WeaponType;
+    const eventCount = useGameStore.getState().eventLog.length;
+    if (!await handleStrike(cell.x, cell.y, weapon)) return;
+
+    // Executed strikes reach the log from the game state; the store logs nothing when one is blocked
+    const executed = useGameStore.getState().eventLog.slice(eventCount).some(event => event.type === 'strike');
+    if (!executed) {
+      const newEvent: LogEvent = {
+        id: `evt_${Date.now()}`,
+        timestamp: Date.now(),
+        type: 'user',
+        action: `${weaponType.toUpperCase()}_STRIKE_BLOCKED`,
+        entity: entityId,
+        details: 'Strike blocked by validation',
+        severity: 'warning'
+      };
+      setEvents(prev => [newEvent, ...prev]);
+    }
+  };
+
+  const handleLatticeReconAction = async (entityId: string, sensorType: string) => {
+    const cell = getEntityCell(entityId);
+    if (!cell || !['drone', 'sigint', 'ground'].includes(sensorType)) return;
+
+    await handleRecon(cell.x, cell.y, sensorType as SensorType);
   };
 
   // Initialize game on mount
   useEffect(() => {
     if (!mounted) {
       setMounted(true);
+      loadCampaignProgress();
       const loaded = loadFromLocalStorage();
       // If loading from localStorage failed or there's no saved state, initialize a new game
       if (!loaded) {
@@ -334,7 +495,7 @@ export default function GamePage() {
     return () => {
       unsubscribe();
     };
-  }, [mounted, loadFromLocalStorage]);
+  }, [mounted, loadFromLocalStorage, loadCampaignProgress]);
 
   // Save to localStorage when game state changes
   useEffect(() => {
@@ -368,7 +529,7 @@ export default function GamePage() {
         onExportLog={handleExportLog}
         searchQuery={searchQuery}
         entities={trackEntities}
-        events={events}
+        events={logEvents}
       >
         {/* Map area content */}
         <div className="w-full h-full flex flex-col">
@@ -379,7 +540,7 @@ export default function GamePage() {
               <div className="flex items-center gap-3">
                 <LayerToggle
                   activeLayer={activeLayer}
-                  onLayerChange={setActiveLayer}
+                  onLayerChange={handleLayerChange}
                   showLabels={showLabels}
                   onLabelsChange={setShowLabels}
                   disabled={!gameStarted}
@@ -393,22 +554,34 @@ export default function GamePage() {
                 >
                   {use3DMap ? '3D' : '2D'}
                 </Button>
+                <Button
+                  variant={tutorial ? "default" : "ghost"}
+                  size="sm"
+                  onClick={startTutorial}
+                  className="font-mono text-xs uppercase tracking-wider"
+                  title="Start the guided tutorial on a fresh grid"
+                >
+                  Tutorial
+                </Button>
               </div>
             </div>
           </div>
 
           {/* Map canvas area */}
           <div className="flex-1 m-5 mt-3">
-            <div className="tactical-card h-full p-3">
+            <div className="tactical-card h-full p-3 relative" data-tutorial="map">
                               {use3DMap ? (
+                  <>
                   <MapScene
                     grid={grid}
                     config={config}
                     viewMode={activeLayer}
                     showLabels={showLabels}
+                    contextGrid={contextGrid}
+                    selectedSensor={selectedSensor}
                     onCellClick={(x, y) => throttledCellClick(x, y, selectedSensor)}
                     onCellHover={throttledCellHover}
-                    bounds={mapBounds}
+                    projection={projection}
                     infrastructure={infrastructure}
                     aircraft={aircraft}
                     flightPaths={flightPaths}
@@ -416,10 +589,21 @@ export default function GamePage() {
                     aois={aois}
                     sensorCones={sensorCones}
                   />
+                  {selectedCell && hoveredContext && (
+                    <SensorComparisonCard
+                      x={selectedCell.x}
+                      y={selectedCell.y}
+                      label={cellToMGRS(projection, selectedCell.x, selectedCell.y)}
+                      context={hoveredContext}
+                      selectedSensor={selectedSensor}
+                      className="absolute top-6 left-6 z-10"
+                    />
+                  )}
+                  </>
                 ) : (
                 <GameCanvas 
                   selectedSensor={selectedSensor}
-                  onSensorChange={setSelectedSensor}
+                  onSensorChange={handleSensorChange}
                   onCellClick={(x, y) => throttledCellClick(x, y, selectedSensor)}
                   onCellRightClick={(x, y) => {
                     setSelectedCell({ x, y });
@@ -456,13 +640,17 @@ export default function GamePage() {
 
                     {/* Panel content */}
           {!rightPanelCollapsed && (
-            <div className="flex-1 overflow-y-auto p-5">
+            <div className="flex-1 overflow-y-auto p-5 space-y-4">
               <AccordionControlPanel
                 selectedSensor={selectedSensor}
-                onSensorChange={setSelectedSensor}
+                onSensorChange={handleSensorChange}
+                availableSensors={config.availableSensors}
                 activeLayer={activeLayer}
-                onLayerChange={setActiveLayer}
+                onLayerChange={handleLayerChange}
                 selectedCell={selectedCell}
+                roeVerdicts={roeVerdicts}
+                assetStatuses={assetStatuses}
+                localTime={localTime}
                 gameStarted={gameStarted}
                 remainingBudget={remainingBudget}
                 currentTurn={currentTurn}
@@ -481,9 +669,19 @@ export default function GamePage() {
                   initializeGame();
                   tacticalToast.info('Mission reset');
                 }}
+                onUndo={undo}
+                onRedo={redo}
+                canUndo={activeBranch.cursor > 0}
+                canRedo={activeBranch.cursor < activeBranch.commands.length}
                 reconCost={config.reconCost}
                 strikeCost={config.strikeCost}
               />
+              {/* Policy advisor, rollout planner included: a recommendation selects its cell */}
+              <PolicyPanel
+                selectedSensor={selectedSensor}
+                onCellHighlight={(x, y, type) => type === 'primary' && setSelectedCell({ x, y })}
+                onClearHighlight={() => setSelectedCell(null)}
+              />
             </div>
           )}
         </div>
@@ -499,10 +697,11 @@ export default function GamePage() {
           <div className="flex items-center gap-2">
             {!timelineCollapsed && lastReconData && (
               <Button
-                onClick={() => setShowBayesModal(true)}
+                onClick={handleOpenExplanation}
                 variant="outline"
                 size="sm"
                 className="btn"
+                data-tutorial="explainBayes"
               >
                 <span className="font-mono text-xs">EXPLAIN BAYES</span>
               </Button>
@@ -512,6 +711,7 @@ export default function GamePage() {
               size="sm"
               onClick={() => setTimelineCollapsed(!timelineCollapsed)}
               className="w-8 h-8 p-0"
+              aria-label={timelineCollapsed ? 'Show analytics' : 'Hide analytics'}
             >
               {timelineCollapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
             </Button>
@@ -536,6 +736,19 @@ export default function GamePage() {
           posteriorProbability={lastReconData.posterior}
           cellX={lastReconData.x}
           cellY={lastReconData.y}
+          classPrior={lastReconData.classPrior}
+          classPosterior={lastReconData.classPosterior}
+        />
+      )}
+      
+      {/* Tutorial step card */}
+      <TutorialOverlay />
+
+      {estimateRequest && (
+        <EstimatePrompt
+          request={estimateRequest}
+          onSubmit={resolveEstimate}
+          onCancel={() => resolveEstimate(null)}
         />
       )}
       
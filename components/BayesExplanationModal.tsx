@@ -4,6 +4,8 @@ import React, { useState } from 'react';
 import { X, Brain, Calculator, Target, TrendingUp, ArrowRight, Info, Lightbulb } from 'lucide-react';
 import { SensorReading } from '@/lib/sensors';
 import { probabilityToOdds, oddsToProbability } from '@/lib/inference';
+import { HOSTILE_CLASS_CATALOG, HOSTILE_CLASSES } from '@/lib/target-classes';
+import { ClassDistribution } from '@/lib/types';
 
 export interface BayesExplanationModalProps {
   isOpen: boolean;
@@ -13,6 +15,8 @@ export interface BayesExplanationModalProps {
   posteriorProbability: number;
   cellX: number;
   cellY: number;
+  classPrior?: ClassDistribution;      // P(class | hostile) before the reading, with hostile classes
+  classPosterior?: ClassDistribution;  // P(class | hostile) after the reading
 }
 
 export default function BayesExplanationModal({
@@ -22,7 +26,9 @@ export default function BayesExplanationModal({
   sensorReading,
   posteriorProbability,
   cellX,
-  cellY
+  cellY,
+  classPrior,
+  classPosterior
 }: BayesExplanationModalProps) {
   const [currentStep, setCurrentStep] = useState(0);
 
@@ -43,6 +49,57 @@ export default function BayesExplanationModal({
   const posteriorOdds = priorOdds * likelihoodRatio;
   const calculatedPosterior = oddsToProbability(posteriorOdds);
 
+  const classLabel = sensorReading.classLabel;
+  const classStep = classPrior && classPosterior ? [{
+    title: "Step 7: What Is It?",
+    icon: <Target className="w-5 h-5" />,
+    content: (
+      <div className="space-y-4">
+        <p className="text-slate-300">
+          {classLabel ? (
+            <>The detection was reported as <strong>{HOSTILE_CLASS_CATALOG[classLabel].name}</strong>. Each class is
+            weighed by how likely it was to be detected and reported that way, and the weights are added to the
+            cell&apos;s Dirichlet counts as one observation:</>
+          ) : (
+            <>A negative reading says little about what might be there, so the class belief is unchanged:</>
+          )}
+        </p>
+        <div className="bg-slate-800 p-4 rounded-lg border">
+          <table className="w-full font-mono text-sm">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-normal">Class</th>
+                <th className="text-right font-normal">Value</th>
+                <th className="text-right font-normal">P(class | H=1) before</th>
+                <th className="text-right font-normal">after</th>
+              </tr>
+            </thead>
+            <tbody>
+              {HOSTILE_CLASSES.map(hostileClass => (
+                <tr key={hostileClass} className={hostileClass === classLabel ? 'text-yellow-300' : 'text-slate-200'}>
+                  <td>{HOSTILE_CLASS_CATALOG[hostileClass].name}</td>
+                  <td className="text-right">×{HOSTILE_CLASS_CATALOG[hostileClass].valueMultiplier}</td>
+                  <td className="text-right">{(classPrior[hostileClass] * 100).toFixed(1)}%</td>
+                  <td className="text-right">{(classPosterior[hostileClass] * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="text-sm text-slate-400 bg-slate-800/50 p-3 rounded border-l-4 border-yellow-500">
+          <div className="flex items-start gap-2">
+            <Lightbulb className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+            <div>
+              <strong>Two questions:</strong> P(H=1) says whether something is there; the class belief says
+              what it is. A strike&apos;s expected value weighs both, so a likely command post can be worth more
+              than a near-certain logistics truck.
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }] : [];
+
   const steps = [
     {
       title: "Step 1: Prior Belief",
@@ -299,7 +356,8 @@ export default function BayesExplanationModal({
           </div>
         </div>
       )
-    }
+    },
+    ...classStep
   ];
 
   const currentStepData = steps[currentStep];
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { DrillAction } from '@/lib/types';
+
+export interface EstimateRequest {
+  x: number;
+  y: number;
+  action: DrillAction;
+}
+
+export interface EstimatePromptProps {
+  request: EstimateRequest | null;
+  onSubmit: (estimate: number) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Calibration drill prompt: the player's own P(hostile) for the target cell,
+ * asked before the scan or strike goes ahead
+ */
+export default function EstimatePrompt({ request, onSubmit, onCancel }: EstimatePromptProps) {
+  const [percent, setPercent] = useState(50);
+
+  if (!request) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-xl border border-slate-600 w-full max-w-md shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-600 bg-slate-900">
+          <div className="flex items-center gap-3">
+            <Crosshair className="w-5 h-5 text-blue-400" />
+            <div>
+              <h2 className="text-lg font-bold text-slate-100">Calibration Drill</h2>
+              <p className="text-sm text-slate-400">
+                Before the {request.action === 'recon' ? 'scan' : 'strike'} of cell ({request.x}, {request.y})
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+            aria-label="Cancel action"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-slate-300 text-sm">
+            How likely do you think it is that this cell holds a hostile? Your estimates are scored
+            against the truth and compared with the model&apos;s beliefs at the end.
+          </p>
+          <div className="text-center text-3xl font-mono text-slate-100">{percent}%</div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="1"
+            value={percent}
+            onChange={(e) => setPercent(parseInt(e.target.value, 10))}
+            className="w-full"
+            aria-label="Probability of a hostile"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded bg-slate-600 hover:bg-slate-500 text-white text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSubmit(percent / 100)}
+              className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium"
+            >
+              Commit estimate
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
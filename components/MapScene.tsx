@@ -6,13 +6,16 @@ import { MapView } from '@deck.gl/core';
 import { TerrainLayer } from '@deck.gl/geo-layers';
 import { ScatterplotLayer, PathLayer, PolygonLayer } from '@deck.gl/layers';
 import { Map as ReactMapGL } from 'react-map-gl/maplibre';
-import { HeatmapType, InfrastructureEntity, AircraftEntity, FlightPath, TacticalBoundary, AreaOfInterest, SensorCone, GameCell } from '@/lib/types';
+import { HeatmapType, InfrastructureEntity, AircraftEntity, FlightPath, TacticalBoundary, AreaOfInterest, SensorCone, GameCell, SensorType } from '@/lib/types';
+import { SensorContext } from '@/lib/sensors';
+import { isContextHeatmapType, getContextCategory, getContextCategories } from '@/lib/context-layers';
 import { processHeatmapData, heatmapTransitionManager, ProcessedHeatmapData } from '@/lib/heatmap-processor';
+import { GridProjection, createGridProjection, cellCenter, latLngToMGRS } from '@/lib/geo-projection';
 import HeatmapLegend from '@/components/ui/HeatmapLegend';
 import { useThrottledCallback } from '@/lib/hooks/usePerfStats';
 import { createProceduralTerrain, createHeightMapDataURL } from '@/lib/terrain/procedural-terrain';
-import { generateTestInfrastructure, INFRASTRUCTURE_CONFIGS } from '@/lib/models/geometric-primitives';
-import { createAircraftLayerData, generateTestAircraft } from '@/lib/aircraft/vector-glyphs';
+import { INFRASTRUCTURE_CONFIGS } from '@/lib/models/geometric-primitives';
+import { createAircraftLayerData } from '@/lib/aircraft/vector-glyphs';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 // Types for our game integration
@@ -30,17 +33,16 @@ interface MapSceneProps {
   viewMode: HeatmapType;
   showLabels: boolean;
   
+  // Per-cell sensor context for the context layers, and the sensor the TPR layer shows
+  contextGrid?: SensorContext[][];
+  selectedSensor?: SensorType;
+  
   // Interactions
   onCellClick?: (x: number, y: number) => void;
   onCellHover?: (x: number, y: number) => void;
   
-  // Map bounds (lat/lng coordinates for the tactical area)
-  bounds?: {
-    north: number;
-    south: number; 
-    east: number;
-    west: number;
-  };
+  // Placement of the grid on the map (default area of operations when absent)
+  projection?: GridProjection;
   
   // 3D entity data
   infrastructure?: InfrastructureEntity[];
@@ -53,13 +55,6 @@ interface MapSceneProps {
   sensorCones?: SensorCone[];
 }
 
-// Default tactical area bounds (can be customized)
-const DEFAULT_BOUNDS = {
-  north: 40.7829,  // NYC area for realistic terrain
-  south: 40.7489,
-  east: -73.9441,
-  west: -73.9893
-};
 
 
 
@@ -68,9 +63,11 @@ function MapScene({
   config,
   viewMode,
   showLabels,
+  contextGrid,
+  selectedSensor = 'drone',
   onCellClick,
   onCellHover,
-  bounds = DEFAULT_BOUNDS,
+  projection: projectionProp,
   infrastructure = [],
   aircraft = [],
   flightPaths = [],
@@ -78,6 +75,12 @@ function MapScene({
   aois = [],
   sensorCones = []
 }: MapSceneProps) {
+  const projection = useMemo(
+    () => projectionProp ?? createGridProjection(config.gridSize),
+    [projectionProp, config.gridSize]
+  );
+  const bounds = projection.bounds;
+
   // Refs for ResizeObserver and DPR handling
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerSize, setContainerSize] = useState({ width: 800, height: 600 });
@@ -154,25 +157,20 @@ function MapScene({
     });
   }, []);
 
-  // Generate fallback infrastructure using geometric primitives
+  // Infrastructure as geometric primitives (only what the game has revealed)
   const proceduralInfrastructure = useMemo(() => {
-    if (infrastructure.length === 0) {
-      return generateTestInfrastructure(bounds);
-    }
     return infrastructure.map(infra => ({
       id: infra.id,
       type: infra.type as keyof typeof INFRASTRUCTURE_CONFIGS,
       position: [infra.position[0], infra.position[1], infra.position[2]] as [number, number, number],
-      rotation: [0, Math.random() * Math.PI * 2, 0] as [number, number, number],
-      scale: 1
+      rotation: infra.rotation,
+      scale: 1,
+      isDestroyed: infra.isDestroyed
     }));
-  }, [infrastructure, bounds]);
+  }, [infrastructure]);
 
-  // Generate vector-based aircraft glyphs
+  // Vector-based aircraft glyphs for the airborne recon assets
   const proceduralAircraft = useMemo(() => {
-    if (aircraft.length === 0) {
-      return generateTestAircraft(bounds);
-    }
     return aircraft.map(ac => ({
       id: ac.id,
       position: [ac.position[0], ac.position[1], ac.position[2]] as [number, number, number],
@@ -182,18 +180,18 @@ function MapScene({
       status: ac.isHostile ? 'hostile' : 'friendly' as 'friendly' | 'hostile' | 'unknown' | 'suspect',
       speed: ac.speed || 400
     }));
-  }, [aircraft, bounds]);
+  }, [aircraft]);
 
   // Process heatmap data when grid or viewMode changes
   const processedHeatmapData = useMemo(() => {
     if (!grid || grid.length === 0) return null;
     
-    return processHeatmapData(grid, viewMode, bounds, {
+    return processHeatmapData(grid, viewMode, projection, {
       fadeOpacity: 0.8,
       minOpacity: 0.1,
       maxOpacity: 0.9
     });
-  }, [grid, viewMode, bounds]);
+  }, [grid, viewMode, projection]);
 
   // Handle smooth transitions between heatmap modes
   useEffect(() => {
@@ -238,14 +236,9 @@ function MapScene({
 
   // Convert grid coordinates to lat/lng positions
   const getGridPosition = useCallback((gridX: number, gridY: number) => {
-    const lngStep = (bounds.east - bounds.west) / config.gridSize;
-    const latStep = (bounds.north - bounds.south) / config.gridSize;
-    
-    return {
-      longitude: bounds.west + (gridX + 0.5) * lngStep,
-      latitude: bounds.south + (gridY + 0.5) * latStep
-    };
-  }, [bounds, config.gridSize]);
+    const [longitude, latitude] = cellCenter(projection, gridX, gridY);
+    return { longitude, latitude };
+  }, [projection]);
 
   // Zoom-aware radius calculation for consistent visual size
   const getRadiusForZoom = useCallback((zoom: number) => {
@@ -382,6 +375,22 @@ function MapScene({
             }
             break;
             
+          case 'terrain':
+          case 'weather':
+          case 'jamming':
+          case 'expectedTPR': {
+            const context = contextGrid?.[y]?.[x];
+            if (!context) {
+              value = 0;
+              color = [0, 0, 0, 0];
+              break;
+            }
+            const category = getContextCategory(viewMode, context, selectedSensor);
+            value = getContextCategories(viewMode).indexOf(category);
+            color = [...category.color, 190];
+            break;
+          }
+            
           case 'expectedValue':
           case 'valueOfInformation':
           case 'riskAverse':
@@ -416,7 +425,7 @@ function MapScene({
     });
     
     return cellData;
-  }, [grid, viewMode, config.showTruthOverlay, getGridPosition, getRadiusForZoom, viewState.zoom]);
+  }, [grid, viewMode, config.showTruthOverlay, contextGrid, selectedSensor, getGridPosition, getRadiusForZoom, viewState.zoom]);
 
   // Generate 3D flight path data
   const flightPathData = useMemo(() => {
@@ -473,11 +482,11 @@ function MapScene({
     }),
 
     // Professional heatmap layer with smooth transitions
-    currentHeatmapData && new ScatterplotLayer({
+    currentHeatmapData && !isContextHeatmapType(viewMode) && new ScatterplotLayer({
       id: 'heatmap-points',
       data: currentHeatmapData.dataPoints,
       getPosition: (d: { position: [number, number] }) => d.position,
-      getRadius: () => Math.max(20, (bounds.east - bounds.west) / currentHeatmapData.gridSize * 100000 / 2),
+      getRadius: () => Math.max(20, projection.cellSize / 2),
       getFillColor: (d: { color: [number, number, number, number] }) => d.color,
       getLineColor: () => [0, 0, 0, 0],
       lineWidthMinPixels: 0,
@@ -489,7 +498,7 @@ function MapScene({
       pickable: true,
               updateTriggers: {
           getFillColor: [viewMode, animationTime],
-          getRadius: [bounds]
+          getRadius: [projection]
         },
       transitions: {
         getFillColor: {
@@ -520,7 +529,7 @@ function MapScene({
       getLineColor: [255, 255, 255, 120], // Slightly more visible outline
       getLineWidth: 5, // 5 meters for consistent outline width
       updateTriggers: {
-        getFillColor: [viewMode, config.showTruthOverlay],
+        getFillColor: [viewMode, config.showTruthOverlay, contextGrid, selectedSensor],
         getRadius: [viewState.zoom]
       },
       
@@ -558,14 +567,15 @@ function MapScene({
         const config = INFRASTRUCTURE_CONFIGS[d.type];
         return config.config.radius || config.config.width || config.config.height || 50;
       },
-      getFillColor: (d: { type: keyof typeof INFRASTRUCTURE_CONFIGS }) => {
+      getFillColor: (d: { type: keyof typeof INFRASTRUCTURE_CONFIGS; isDestroyed: boolean }) => {
+        if (d.isDestroyed) return [90, 90, 90, 200]; // Struck: greyed out
         const color = INFRASTRUCTURE_CONFIGS[d.type].color;
         return [color[0] * 255, color[1] * 255, color[2] * 255, 255];
       },
       getLineColor: [255, 255, 255, 180],
       getLineWidth: 8,
       updateTriggers: {
-        getFillColor: proceduralInfrastructure.map(i => i.type),
+        getFillColor: proceduralInfrastructure.map(i => `${i.type}-${i.isDestroyed}`),
         getRadius: proceduralInfrastructure.map(i => i.type)
       }
     }),
@@ -703,7 +713,7 @@ function MapScene({
       jointRounded: true,
       billboard: false // Keep 3D
     })] : [])
-  ], [layerData, viewMode, config.showTruthOverlay, showLabels, onCellClick, onCellHover, devicePixelRatio, viewState.zoom, flightPathData, bounds, boundaries, aois, sensorCones, animationTime, generateSensorConePolygon, currentHeatmapData, proceduralInfrastructure, proceduralAircraft, proceduralTerrain]);
+  ], [layerData, viewMode, config.showTruthOverlay, contextGrid, selectedSensor, showLabels, onCellClick, onCellHover, devicePixelRatio, viewState.zoom, flightPathData, bounds, projection, boundaries, aois, sensorCones, animationTime, generateSensorConePolygon, currentHeatmapData, proceduralInfrastructure, proceduralAircraft, proceduralTerrain]);
 
   // Helper functions for heatmap legend
   const getHeatmapTitle = (viewMode: HeatmapType): string => {
@@ -713,6 +723,10 @@ function MapScene({
       case 'variance': return 'Uncertainty';
       case 'riskAverse': return 'Risk Level';
       case 'truth': return 'Ground Truth';
+      case 'terrain': return 'Terrain';
+      case 'weather': return 'Weather';
+      case 'jamming': return 'Jamming';
+      case 'expectedTPR': return `Expected TPR (${selectedSensor})`;
       default: return 'Probability';
     }
   };
@@ -833,6 +847,9 @@ function MapScene({
               <div className="text-muted mt-2 mb-1">Cursor:</div>
               <div>Lat: {mousePosition.lat.toFixed(6)}°</div>
               <div>Lng: {mousePosition.lng.toFixed(6)}°</div>
+              {mousePosition.lat >= -80 && mousePosition.lat <= 84 && (
+                <div>MGRS: {latLngToMGRS(mousePosition.lat, mousePosition.lng, 4)}</div>
+              )}
             </>
           )}
           <div className="text-muted mt-2 mb-1">View:</div>
@@ -844,8 +861,20 @@ function MapScene({
       {/* Tactical Tooltip - Temporarily disabled */}
       {/* Will be implemented in separate commit */}
 
-      {/* Heatmap Legend */}
-      {currentHeatmapData && (
+      {/* Heatmap Legend (context layers are categorical, so they get a swatch list) */}
+      {isContextHeatmapType(viewMode) ? (
+        <div className="absolute top-4 right-4 bg-panel2/90 text-ink px-3 py-2 rounded border border-grid/40">
+          <div className="text-xs font-mono text-muted mb-1">{getHeatmapTitle(viewMode)}</div>
+          <div className="space-y-1">
+            {getContextCategories(viewMode).map(category => (
+              <div key={category.label} className="flex items-center gap-2 text-xs font-mono">
+                <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: `rgb(${category.color.join(',')})` }} />
+                <span>{category.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : currentHeatmapData && (
         <HeatmapLegend
           min={currentHeatmapData.bounds.minValue}
           max={currentHeatmapData.bounds.maxValue}
@@ -870,31 +899,15 @@ function MapScene({
 
 // Memoized export with shallow comparison for performance
 export default React.memo(MapScene, (prevProps, nextProps) => {
-  // Custom comparison to prevent unnecessary re-renders
-  const shallowEqual = (obj1: Record<string, unknown>, obj2: Record<string, unknown>) => {
-    const keys1 = Object.keys(obj1);
-    const keys2 = Object.keys(obj2);
-    
-    if (keys1.length !== keys2.length) return false;
-    
-    for (const key of keys1) {
-      if (obj1[key] !== obj2[key]) return false;
-    }
-    
-    return true;
-  };
-
-  // Only re-render if essential props change
-  const boundsEqual = prevProps.bounds === nextProps.bounds || 
-    (prevProps.bounds && nextProps.bounds && shallowEqual(prevProps.bounds, nextProps.bounds)) || 
-    false;
-  
+  // Only re-render if essential props change (the page memoizes its projection)
   return (
     prevProps.viewMode === nextProps.viewMode &&
     prevProps.showLabels === nextProps.showLabels &&
     prevProps.config === nextProps.config &&
-    boundsEqual &&
+    prevProps.projection === nextProps.projection &&
     prevProps.grid === nextProps.grid &&
+    prevProps.contextGrid === nextProps.contextGrid &&
+    prevProps.selectedSensor === nextProps.selectedSensor &&
     prevProps.infrastructure === nextProps.infrastructure &&
     prevProps.aircraft === nextProps.aircraft &&
     prevProps.flightPaths === nextProps.flightPaths &&
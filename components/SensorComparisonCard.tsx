@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { SensorType } from '@/lib/types';
+import { SENSOR_CATALOG, SensorContext, compareSensors, bestSensorFor } from '@/lib/sensors';
+
+interface SensorComparisonCardProps {
+  x: number;
+  y: number;
+  label?: string;               // Cell name, e.g. its MGRS reference
+  context: SensorContext;
+  selectedSensor: SensorType;
+  className?: string;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+/**
+ * Hover card for a cell: its sensor context and the effective TPR, FPR and
+ * cost of every sensor there, before any recon is committed
+ */
+export default function SensorComparisonCard({
+  x,
+  y,
+  label,
+  context,
+  selectedSensor,
+  className = ''
+}: SensorComparisonCardProps) {
+  const performance = compareSensors(context);
+  const best = bestSensorFor(performance);
+
+  return (
+    <div className={`pointer-events-none bg-panel/95 border border-accent/40 shadow-2xl rounded-lg backdrop-blur-sm px-3 py-2 text-xs font-mono text-ink ${className}`}>
+      <div className="flex justify-between gap-4 mb-1">
+        <span className="font-semibold">{label ?? `Cell (${x}, ${y})`}</span>
+        {label && <span className="text-muted">({x}, {y})</span>}
+      </div>
+      <div className="text-muted mb-2 capitalize">
+        {context.terrain} • {context.lighting} • {context.weather} • {context.concealment} concealment • {context.jamming} jamming
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-muted">
+            <th className="text-left font-normal pr-3">Sensor</th>
+            <th className="text-right font-normal pr-3">TPR</th>
+            <th className="text-right font-normal pr-3">FPR</th>
+            <th className="text-right font-normal">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(performance) as SensorType[]).map(sensor => (
+            <tr key={sensor} className={sensor === selectedSensor ? 'text-accent' : undefined}>
+              <td className="pr-3">
+                {SENSOR_CATALOG[sensor].name}
+                {sensor === best && <span className="ml-1 text-green-400">★</span>}
+              </td>
+              <td className="text-right pr-3">{percent(performance[sensor].effectiveTPR)}</td>
+              <td className="text-right pr-3">{percent(performance[sensor].effectiveFPR)}</td>
+              <td className="text-right">${performance[sensor].effectiveCost}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-muted mt-1">★ most informative (largest TPR − FPR)</div>
+    </div>
+  );
+}
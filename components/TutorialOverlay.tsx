@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect } from 'react';
+import { GraduationCap, X } from 'lucide-react';
+import { useGameStore } from '@/state/useGameStore';
+import { TUTORIAL_STEPS, getTutorialStep } from '@/lib/tutorial';
+import { Button } from '@/components/ui/button';
+
+const HIGHLIGHT_CLASS = 'tutorial-highlight';
+
+/**
+ * Card for the current tutorial step; highlights the step's region while it is shown
+ */
+export default function TutorialOverlay() {
+  const { tutorial, recordTutorialAction, exitTutorial } = useGameStore();
+  const step = tutorial ? getTutorialStep(tutorial) : undefined;
+
+  useEffect(() => {
+    if (!step?.highlight) return;
+    const elements = document.querySelectorAll(`[data-tutorial="${step.highlight}"]`);
+    elements.forEach(element => element.classList.add(HIGHLIGHT_CLASS));
+    return () => elements.forEach(element => element.classList.remove(HIGHLIGHT_CLASS));
+  }, [step]);
+
+  if (!tutorial || !step) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-20 left-6 z-50 w-96 tactical-card shadow-lg animate-slide-in-up">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 tactical-header mb-0">
+          <GraduationCap className="w-4 h-4 text-accent" />
+          Tutorial {tutorial.stepIndex + 1}/{TUTORIAL_STEPS.length}
+        </div>
+        <Button variant="ghost" size="sm" onClick={exitTutorial} className="w-8 h-8 p-0" title="Exit tutorial">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="font-medium text-ink mb-1">{step.title}</div>
+      <p className="text-sm text-muted">{step.instruction}</p>
+      {step.waitFor.type === 'acknowledge' && (
+        <div className="flex justify-end mt-3">
+          <Button size="sm" onClick={() => recordTutorialAction({ type: 'acknowledge' })} className="btn">
+            <span className="font-mono text-xs">{tutorial.stepIndex === TUTORIAL_STEPS.length - 1 ? 'FINISH' : 'NEXT'}</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
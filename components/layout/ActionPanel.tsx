@@ -3,6 +3,11 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { Info, Eye, Target, BarChart3, TrendingUp, AlertTriangle, Clock, Zap, MapPin } from 'lucide-react';
 import { TrackEntity } from './EntityPanel';
+import { WEAPON_CATALOG, WeaponFootprint } from '@/lib/weapons';
+import { SENSOR_CATALOG, forecastSensorPerformance } from '@/lib/sensors';
+import { formatHourOfDay, isEnvironmentEnabled } from '@/lib/environment';
+import { HOSTILE_CLASS_CATALOG, HOSTILE_CLASSES, getClassProbabilities, getExpectedHostileValue } from '@/lib/target-classes';
+import { useGameStore } from '@/state/useGameStore';
 
 type TabType = 'overview' | 'recon' | 'strike' | 'analytics';
 
@@ -51,6 +56,19 @@ const Sparkline = ({ data, color = 'var(--color-accent)', width = 60, height = 2
   );
 };
 
+const FORECAST_TURNS = 4;
+
+const describeFootprint = (footprint: WeaponFootprint) => {
+  switch (footprint.shape) {
+    case 'circular':
+      return footprint.radius < 1 ? 'Point' : `Circle r${footprint.radius}`;
+    case 'linear':
+      return `Line ${footprint.length}`;
+    case 'cross':
+      return `Cross ${footprint.armLength}`;
+  }
+};
+
 // Risk gate banner component
 const RiskGateBanner = ({ riskLevel, threshold = 0.7 }: { riskLevel: number; threshold?: number }) => {
   const isViolated = riskLevel > threshold;
@@ -77,6 +95,30 @@ export default function ActionPanel({
   onStrikeAction
 }: ActionPanelProps) {
   const [activeTab, setActiveTab] = useState<TabType>('overview');
+  const config = useGameStore(state => state.config);
+  const currentTurn = useGameStore(state => state.currentTurn);
+  const grid = useGameStore(state => state.grid);
+
+  // Upcoming conditions at the selected cell, for timing drone against SIGINT recon
+  const forecast = useMemo(() => {
+    const gridX = selectedEntity?.attributes?.gridX;
+    const gridY = selectedEntity?.attributes?.gridY;
+    if (!isEnvironmentEnabled(config.environment) || typeof gridX !== 'number' || typeof gridY !== 'number') return [];
+    return forecastSensorPerformance(gridX, gridY, config, currentTurn, FORECAST_TURNS);
+  }, [selectedEntity, config, currentTurn]);
+
+  // What the selected cell's hostile would be, when hostile classes are in play
+  const classBelief = useMemo(() => {
+    const gridX = selectedEntity?.attributes?.gridX;
+    const gridY = selectedEntity?.attributes?.gridY;
+    if (typeof gridX !== 'number' || typeof gridY !== 'number') return null;
+    const cell = grid[gridY]?.[gridX];
+    if (!cell?.classCounts) return null;
+    return {
+      probabilities: getClassProbabilities(cell.classCounts),
+      expectedValue: getExpectedHostileValue(cell, config),
+    };
+  }, [selectedEntity, grid, config]);
 
   // Sample probability history for sparkline
   const probabilityHistory = useMemo(() => {
@@ -190,12 +232,14 @@ export default function ActionPanel({
       return <div className="text-muted text-sm p-4">No entity selected</div>;
     }
 
-    const sensorTypes = [
-      { id: 'optical', name: 'OPTICAL', cost: 10, time: '30s', accuracy: '85%' },
-      { id: 'radar', name: 'RADAR', cost: 15, time: '15s', accuracy: '92%' },
-      { id: 'thermal', name: 'THERMAL', cost: 12, time: '45s', accuracy: '78%' },
-      { id: 'signals', name: 'SIGINT', cost: 20, time: '60s', accuracy: '95%' }
-    ];
+    const sensorTypes = Object.entries(SENSOR_CATALOG).map(([id, sensor]) => ({
+      id,
+      name: sensor.name.toUpperCase(),
+      cost: sensor.baseCost,
+      tpr: `${(sensor.baseTPR * 100).toFixed(0)}%`,
+      fpr: `${(sensor.baseFPR * 100).toFixed(0)}%`
+    }));
+    const scans = (selectedEntity.attributes?.scans ?? []) as { sensor: string; result: boolean; timestamp: number }[];
 
     return (
       <div className="space-y-4">
@@ -214,24 +258,62 @@ export default function ActionPanel({
             </div>
             <div className="grid grid-cols-3 gap-2 text-xs font-mono text-muted">
               <div>Cost: {sensor.cost}</div>
-              <div>Time: {sensor.time}</div>
-              <div>Acc: {sensor.accuracy}</div>
+              <div>TPR: {sensor.tpr}</div>
+              <div>FPR: {sensor.fpr}</div>
             </div>
           </div>
         ))}
 
+        {/* Conditions Forecast */}
+        {forecast.length > 0 && (
+          <div className="bg-panel2 p-3 rounded border border-grid/40">
+            <div className="text-xs text-muted mb-2">CONDITIONS FORECAST</div>
+            <div className="space-y-1 text-xs font-mono text-ink">
+              {forecast.map(entry => (
+                <div key={entry.turn} className="flex justify-between">
+                  <span>
+                    T{entry.turn}{entry.hour !== null && ` ${formatHourOfDay(entry.hour)}`} {entry.context.lighting} {entry.context.weather}
+                    {entry.context.jamming !== 'none' && ` JAM:${entry.context.jamming}`}
+                  </span>
+                  <span className="text-accent">
+                    {entry.bestSensor.toUpperCase()} {(entry.performance[entry.bestSensor].effectiveTPR * 100).toFixed(0)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Classification */}
+        {classBelief && (
+          <div className="bg-panel2 p-3 rounded border border-grid/40">
+            <div className="text-xs text-muted mb-2">CLASSIFICATION</div>
+            <div className="space-y-1 text-xs font-mono text-ink">
+              {HOSTILE_CLASSES.map(hostileClass => (
+                <div key={hostileClass} className="flex justify-between">
+                  <span>{HOSTILE_CLASS_CATALOG[hostileClass].name.toUpperCase()}</span>
+                  <span>{(classBelief.probabilities[hostileClass] * 100).toFixed(0)}%</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-accent pt-1">
+                <span>VALUE IF HOSTILE</span>
+                <span>{classBelief.expectedValue.toFixed(0)}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Scan History */}
         <div className="bg-panel2 p-3 rounded border border-grid/40">
           <div className="text-xs text-muted mb-2">SCAN HISTORY</div>
           <div className="space-y-1 text-xs font-mono text-ink">
-            <div className="flex justify-between">
-              <span>RADAR</span>
-              <span className="text-muted">2m ago</span>
-            </div>
-            <div className="flex justify-between">
-              <span>OPTICAL</span>
-              <span className="text-muted">5m ago</span>
-            </div>
+            {scans.length === 0 && <div className="text-muted">No scans yet</div>}
+            {scans.slice(-5).reverse().map((scan, index) => (
+              <div key={index} className="flex justify-between">
+                <span>{scan.sensor.toUpperCase()} {scan.result ? 'POS' : 'NEG'}</span>
+                <span className="text-muted">{Math.max(0, Math.round((Date.now() - scan.timestamp) / 60000))}m ago</span>
+              </div>
+            ))}
           </div>
         </div>
       </div>
@@ -244,11 +326,14 @@ export default function ActionPanel({
       return <div className="text-muted text-sm p-4">No entity selected</div>;
     }
 
-    const weaponTypes = [
-      { id: 'precision', name: 'PRECISION', damage: 'High', collateral: 'Low', cost: 50 },
-      { id: 'area', name: 'AREA EFFECT', damage: 'Very High', collateral: 'High', cost: 100 },
-      { id: 'emp', name: 'EMP', damage: 'Electronics', collateral: 'None', cost: 75 }
-    ];
+    const weaponTypes = Object.entries(WEAPON_CATALOG).map(([id, weapon]) => ({
+      id,
+      name: weapon.name.toUpperCase(),
+      pk: `${(weapon.pkCenter * 100).toFixed(0)}%`,
+      footprint: describeFootprint(weapon.footprint),
+      cep: weapon.cep,
+      cost: weapon.cost
+    }));
 
     return (
       <div className="space-y-4">
@@ -267,9 +352,10 @@ export default function ActionPanel({
                 STRIKE
               </button>
             </div>
-            <div className="grid grid-cols-3 gap-2 text-xs font-mono text-muted">
-              <div>DMG: {weapon.damage}</div>
-              <div>COL: {weapon.collateral}</div>
+            <div className="grid grid-cols-2 gap-2 text-xs font-mono text-muted">
+              <div>Pk: {weapon.pk}</div>
+              <div>AoE: {weapon.footprint}</div>
+              <div>CEP: {weapon.cep}</div>
               <div>Cost: {weapon.cost}</div>
             </div>
           </div>
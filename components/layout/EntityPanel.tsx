@@ -3,25 +3,11 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { FixedSizeList as List } from 'react-window';
 import { Filter, Eye, Target, AlertTriangle, MapPin, Clock, Zap } from 'lucide-react';
+import { TrackClassification, TrackEntity } from '@/lib/types';
 
-// Entity types and data structures
-export interface TrackEntity {
-  id: string;
-  name: string;
-  type: 'aircraft' | 'ground' | 'infrastructure' | 'sensor';
-  classification: 'friendly' | 'hostile' | 'suspect' | 'unknown';
-  position: [number, number];
-  altitude?: number;
-  speed?: number;
-  heading?: number;
-  lastSeen: number;
-  confidence: number;
-  priority: 'high' | 'medium' | 'low';
-  status: 'active' | 'inactive' | 'destroyed';
-  attributes?: Record<string, unknown>;
-}
+export type { TrackEntity };
 
-type FilterType = 'all' | 'friendly' | 'hostile' | 'suspect' | 'unknown';
+type FilterType = 'all' | TrackClassification;
 
 interface EntityPanelProps {
   entities?: TrackEntity[];
@@ -32,77 +18,8 @@ interface EntityPanelProps {
   width?: number;
 }
 
-// Sample data generator
-const generateSampleEntities = (): TrackEntity[] => [
-  {
-    id: 'T001',
-    name: 'EAGLE-1',
-    type: 'aircraft',
-    classification: 'friendly',
-    position: [40.7580, -73.9855],
-    altitude: 8500,
-    speed: 320,
-    heading: 45,
-    lastSeen: Date.now() - 30000,
-    confidence: 0.95,
-    priority: 'high',
-    status: 'active'
-  },
-  {
-    id: 'T002', 
-    name: 'UNKNOWN-VEH',
-    type: 'ground',
-    classification: 'suspect',
-    position: [40.7489, -73.9680],
-    speed: 45,
-    heading: 180,
-    lastSeen: Date.now() - 120000,
-    confidence: 0.72,
-    priority: 'medium',
-    status: 'active'
-  },
-  {
-    id: 'T003',
-    name: 'HOSTILE-AF',
-    type: 'aircraft', 
-    classification: 'hostile',
-    position: [40.7614, -73.9776],
-    altitude: 12000,
-    speed: 450,
-    heading: 270,
-    lastSeen: Date.now() - 45000,
-    confidence: 0.88,
-    priority: 'high',
-    status: 'active'
-  },
-  {
-    id: 'T004',
-    name: 'RADAR-SITE-A',
-    type: 'infrastructure',
-    classification: 'hostile',
-    position: [40.7505, -73.9934],
-    lastSeen: Date.now() - 60000,
-    confidence: 0.92,
-    priority: 'high',
-    status: 'active'
-  },
-  {
-    id: 'T005',
-    name: 'PATROL-B2',
-    type: 'ground',
-    classification: 'friendly',
-    position: [40.7542, -73.9712],
-    speed: 25,
-    heading: 90,
-    lastSeen: Date.now() - 10000,
-    confidence: 0.98,
-    priority: 'low',
-    status: 'active'
-  }
-];
-
 export default function EntityPanel({ 
-  entities = generateSampleEntities(),
+  entities = [],
   selectedEntityId,
   onEntitySelect,
   onEntityFocus,
@@ -157,6 +74,7 @@ export default function EntityPanel({
       friendly: entities.filter(e => e.classification === 'friendly').length,
       hostile: entities.filter(e => e.classification === 'hostile').length,
       suspect: entities.filter(e => e.classification === 'suspect').length,
+      cleared: entities.filter(e => e.classification === 'cleared').length,
       unknown: entities.filter(e => e.classification === 'unknown').length,
     };
   }, [entities]);
@@ -177,6 +95,7 @@ export default function EntityPanel({
       case 'friendly': return 'text-green-400 bg-green-400/20';
       case 'hostile': return 'text-red-400 bg-red-400/20';
       case 'suspect': return 'text-yellow-400 bg-yellow-400/20';
+      case 'cleared': return 'text-sky-400 bg-sky-400/20';
       case 'unknown': return 'text-gray-400 bg-gray-400/20';
       default: return 'text-muted bg-muted/20';
     }
@@ -3,17 +3,9 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { ChevronUp, ChevronDown, FileText, Filter, Download, Trash2, Clock } from 'lucide-react';
 import { FixedSizeList as List } from 'react-window';
+import { LogEvent } from '@/lib/types';
 
-export interface LogEvent {
-  id: string;
-  timestamp: number;
-  type: 'recon' | 'strike' | 'detection' | 'classification' | 'system' | 'user';
-  action: string;
-  entity?: string;
-  deltaScore?: number;
-  details?: string;
-  severity: 'info' | 'warning' | 'error' | 'success';
-}
+export type { LogEvent };
 
 interface EventLogProps {
   events?: LogEvent[];
@@ -24,94 +16,8 @@ interface EventLogProps {
   onExportLog?: () => void;
 }
 
-// Sample event data generator
-const generateSampleEvents = (): LogEvent[] => {
-  const now = Date.now();
-  return [
-    {
-      id: 'evt_001',
-      timestamp: now - 30000,
-      type: 'detection',
-      action: 'NEW_CONTACT_DETECTED',
-      entity: 'T003',
-      deltaScore: 0.15,
-      details: 'Aircraft signature matched',
-      severity: 'info'
-    },
-    {
-      id: 'evt_002',
-      timestamp: now - 45000,
-      type: 'recon',
-      action: 'RADAR_SCAN_COMPLETE',
-      entity: 'T001',
-      deltaScore: 0.08,
-      details: 'Confidence increased',
-      severity: 'success'
-    },
-    {
-      id: 'evt_003',
-      timestamp: now - 60000,
-      type: 'classification',
-      action: 'THREAT_LEVEL_UPDATED',
-      entity: 'T004',
-      deltaScore: -0.12,
-      details: 'Reclassified as hostile',
-      severity: 'warning'
-    },
-    {
-      id: 'evt_004',
-      timestamp: now - 90000,
-      type: 'strike',
-      action: 'KINETIC_STRIKE_EXECUTED',
-      entity: 'T002',
-      deltaScore: -0.95,
-      details: 'Target neutralized',
-      severity: 'success'
-    },
-    {
-      id: 'evt_005',
-      timestamp: now - 120000,
-      type: 'system',
-      action: 'SENSOR_ARRAY_ONLINE',
-      deltaScore: 0.02,
-      details: 'All sensors operational',
-      severity: 'info'
-    },
-    {
-      id: 'evt_006',
-      timestamp: now - 150000,
-      type: 'user',
-      action: 'MANUAL_OVERRIDE_APPLIED',
-      entity: 'T001',
-      deltaScore: 0.0,
-      details: 'User intervention',
-      severity: 'info'
-    },
-    {
-      id: 'evt_007',
-      timestamp: now - 180000,
-      type: 'detection',
-      action: 'CONTACT_LOST',
-      entity: 'T005',
-      deltaScore: -0.25,
-      details: 'Signal interference',
-      severity: 'warning'
-    },
-    {
-      id: 'evt_008',
-      timestamp: now - 210000,
-      type: 'recon',
-      action: 'OPTICAL_SCAN_FAILED',
-      entity: 'T003',
-      deltaScore: 0.0,
-      details: 'Weather interference',
-      severity: 'error'
-    }
-  ];
-};
-
 export default function EventLog({
-  events = generateSampleEvents(),
+  events = [],
   height = 200,
   collapsed = false,
   onToggleCollapse,
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { SensorType, HeatmapType } from '@/lib/types';
+import { SensorType, HeatmapType, RoeVerdict } from '@/lib/types';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { SensorPicker } from './sensor-picker';
 import { LayerToggle } from './layer-toggle';
@@ -9,11 +9,16 @@ import { StatCard } from './stat-card';
 import { Button } from './button';
 import { Badge } from './badge';
 import { HeatmapLegend } from './heatmap-legend';
+import { RoeVerdictList } from './roe-verdict-list';
+import { SensorAssetList } from './sensor-asset-list';
+import { SensorAssetStatus } from '@/lib/logistics';
 import { useTheme } from '@/lib/contexts/theme-context';
 import { 
   Play, 
   Pause, 
   RotateCcw, 
+  Undo2,
+  Redo2,
   Target, 
   Search, 
   Palette,
@@ -25,17 +30,25 @@ import {
 interface AccordionControlPanelProps {
   selectedSensor: SensorType;
   onSensorChange: (sensor: SensorType) => void;
+  availableSensors?: SensorType[];
   activeLayer: HeatmapType;
   onLayerChange: (layer: HeatmapType) => void;
   selectedCell: { x: number; y: number } | null;
+  roeVerdicts?: RoeVerdict[];
+  assetStatuses?: SensorAssetStatus[];
   gameStarted: boolean;
   remainingBudget: number;
   currentTurn: number;
+  localTime?: string;
   onRecon: () => void;
   onStrike: () => void;
   onStartGame: () => void;
   onEndGame: () => void;
   onResetGame: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   reconCost: number;
   strikeCost: number;
   className?: string;
@@ -44,26 +57,35 @@ interface AccordionControlPanelProps {
 export function AccordionControlPanel({
   selectedSensor,
   onSensorChange,
+  availableSensors,
   activeLayer,
   onLayerChange,
   selectedCell,
+  roeVerdicts = [],
+  assetStatuses = [],
   gameStarted,
   remainingBudget,
   currentTurn,
+  localTime,
   onRecon,
   onStrike,
   onStartGame,
   onEndGame,
   onResetGame,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   reconCost,
   strikeCost,
   className
 }: AccordionControlPanelProps) {
   const { isColorblindSafe, toggleColorblindSafe } = useTheme();
   const [defaultOpen] = useState(['mission', 'sensors', 'actions']);
+  const strikeBlocked = roeVerdicts.some(verdict => verdict.outcome === 'block');
 
   return (
-    <div className={className}>
+    <div className={className} data-tutorial="missionControl">
       <Accordion 
         type="multiple" 
         defaultValue={defaultOpen}
@@ -93,6 +115,13 @@ export function AccordionControlPanel({
                 variant={remainingBudget < 100 ? "warn" : "default"}
                 className="text-center"
               />
+              {localTime && (
+                <StatCard
+                  title="Local Time"
+                  value={localTime}
+                  className="text-center col-span-2"
+                />
+              )}
             </div>
 
             {/* Mission controls */}
@@ -127,6 +156,31 @@ export function AccordionControlPanel({
                 <RotateCcw className="w-4 h-4 mr-2" />
                 Reset
               </Button>
+
+              {gameStarted && (onUndo || onRedo) && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    variant="outline"
+                    className="btn"
+                    size="sm"
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Undo
+                  </Button>
+                  <Button
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    variant="outline"
+                    className="btn"
+                    size="sm"
+                  >
+                    <Redo2 className="w-4 h-4 mr-2" />
+                    Redo
+                  </Button>
+                </div>
+              )}
             </div>
           </AccordionContent>
         </AccordionItem>
@@ -139,13 +193,15 @@ export function AccordionControlPanel({
               Sensors
             </div>
           </AccordionTrigger>
-          <AccordionContent className="pt-3">
+          <AccordionContent className="pt-3 space-y-3">
             <SensorPicker
               selectedSensor={selectedSensor}
               onSensorChange={onSensorChange}
               showStats={true}
               disabled={!gameStarted}
+              availableSensors={availableSensors}
             />
+            <SensorAssetList assets={assetStatuses} currentTurn={currentTurn} />
           </AccordionContent>
         </AccordionItem>
 
@@ -174,6 +230,8 @@ export function AccordionControlPanel({
               </div>
             )}
 
+            {selectedCell && <RoeVerdictList verdicts={roeVerdicts} />}
+
             {/* Action buttons */}
             <div className="space-y-2">
               <Button
@@ -191,7 +249,7 @@ export function AccordionControlPanel({
               
               <Button
                 onClick={onStrike}
-                disabled={!gameStarted || !selectedCell || remainingBudget < strikeCost}
+                disabled={!gameStarted || !selectedCell || remainingBudget < strikeCost || strikeBlocked}
                 variant="destructive"
                 className="w-full"
                 size="sm"
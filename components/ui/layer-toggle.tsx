@@ -55,6 +55,26 @@ const layerConfig = {
     label: 'PRIOR',
     description: 'Prior field distribution',
     shortcut: 'F'
+  },
+  terrain: {
+    label: 'TERRAIN',
+    description: 'Terrain of each cell',
+    shortcut: 'G'
+  },
+  weather: {
+    label: 'WX',
+    description: 'Weather this turn',
+    shortcut: 'W'
+  },
+  jamming: {
+    label: 'JAM',
+    description: 'Jamming this turn',
+    shortcut: 'J'
+  },
+  expectedTPR: {
+    label: 'TPR',
+    description: 'Expected detection rate of the selected sensor',
+    shortcut: 'D'
   }
 } as const;
 
@@ -68,10 +88,13 @@ export function LayerToggle({
 }: LayerToggleProps) {
   const [hoveredLayer, setHoveredLayer] = useState<HeatmapType | null>(null);
 
-  const layers = ['posterior', 'expectedValue', 'valueOfInformation', 'riskAverse'] as HeatmapType[];
+  const layers = [
+    'posterior', 'expectedValue', 'valueOfInformation', 'riskAverse',
+    'terrain', 'weather', 'jamming', 'expectedTPR'
+  ] as HeatmapType[];
 
   return (
-    <div className={cn('flex items-center gap-3', className)}>
+    <div className={cn('flex items-center gap-3', className)} data-tutorial="layerToggle">
       {/* Layer selection buttons */}
       <div className="flex items-center gap-1">
       {layers.map((layer) => {
@@ -0,0 +1,50 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { RoeOutcome, RoeVerdict } from '@/lib/types';
+import { CheckCircle, ShieldAlert, Ban } from 'lucide-react';
+
+interface RoeVerdictListProps {
+  verdicts: RoeVerdict[];
+  className?: string;
+}
+
+const OUTCOME_STYLES: Record<RoeOutcome, { label: string; className: string }> = {
+  pass: { label: 'CLEAR', className: 'text-accent' },
+  approval: { label: 'APPROVAL', className: 'text-yellow-400' },
+  block: { label: 'BLOCKED', className: 'text-warn' },
+};
+
+function OutcomeIcon({ outcome }: { outcome: RoeOutcome }) {
+  const className = `w-3 h-3 flex-shrink-0 mt-0.5 ${OUTCOME_STYLES[outcome].className}`;
+  switch (outcome) {
+    case 'pass':
+      return <CheckCircle className={className} />;
+    case 'approval':
+      return <ShieldAlert className={className} />;
+    case 'block':
+      return <Ban className={className} />;
+  }
+}
+
+/**
+ * Rules of engagement verdicts on the selected target, shown before the strike
+ */
+export function RoeVerdictList({ verdicts, className }: RoeVerdictListProps) {
+  if (verdicts.length === 0) return null;
+
+  return (
+    <div className={cn('p-2 bg-panel2 rounded-lg space-y-1', className)}>
+      <div className="text-xs text-muted uppercase tracking-wider mb-1">Rules of Engagement</div>
+      {verdicts.map((verdict, index) => (
+        <div key={index} className="flex items-start gap-2 text-xs">
+          <OutcomeIcon outcome={verdict.outcome} />
+          <span className="flex-1 text-ink">{verdict.reason}</span>
+          <span className={cn('font-mono', OUTCOME_STYLES[verdict.outcome].className)}>
+            {OUTCOME_STYLES[verdict.outcome].label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
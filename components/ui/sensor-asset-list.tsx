@@ -0,0 +1,37 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { SensorAssetStatus } from '@/lib/logistics';
+
+interface SensorAssetListProps {
+  assets: SensorAssetStatus[];
+  currentTurn: number;
+  className?: string;
+}
+
+function describeStatus(asset: SensorAssetStatus, currentTurn: number): string {
+  if (asset.refuelling) return `Refuelling to T${asset.availableFromTurn}`;
+  if (asset.availableFromTurn > currentTurn) return `Busy to T${asset.availableFromTurn}`;
+  return `Ready (${asset.enduranceRemaining.toFixed(0)} fuel)`;
+}
+
+/**
+ * Readiness of each sensor asset under logistics: fuel left, or when it can be tasked again
+ */
+export function SensorAssetList({ assets, currentTurn, className }: SensorAssetListProps) {
+  if (assets.length === 0) return null;
+
+  return (
+    <div className={cn('p-2 bg-panel2 rounded-lg space-y-1', className)}>
+      <div className="text-xs text-muted uppercase tracking-wider mb-1">Sensor Assets</div>
+      {assets.map(asset => (
+        <div key={asset.id} className="flex justify-between gap-2 text-xs">
+          <span className="text-ink">{asset.name}</span>
+          <span className={cn('font-mono', asset.availableFromTurn > currentTurn ? 'text-warn' : 'text-accent')}>
+            {describeStatus(asset, currentTurn)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
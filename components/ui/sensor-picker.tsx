@@ -11,6 +11,7 @@ interface SensorPickerProps {
   onSensorChange: (sensor: SensorType) => void;
   showStats?: boolean;
   disabled?: boolean;
+  availableSensors?: SensorType[];  // Sensors the scenario allows; all when omitted
   className?: string;
 }
 
@@ -46,15 +47,17 @@ export function SensorPicker({
   onSensorChange,
   showStats = false,
   disabled = false,
+  availableSensors,
   className
 }: SensorPickerProps) {
   return (
-    <div className={cn('space-y-3', className)}>
+    <div className={cn('space-y-3', className)} data-tutorial="sensorPicker">
       <div className="grid grid-cols-1 gap-2">
         {(Object.keys(sensorConfig) as SensorType[]).map((sensor) => {
           const config = sensorConfig[sensor];
           const Icon = config.icon;
           const isSelected = selectedSensor === sensor;
+          const isAvailable = !availableSensors || availableSensors.includes(sensor);
 
           return (
             <Button
@@ -62,7 +65,7 @@ export function SensorPicker({
               variant={isSelected ? "default" : "outline"}
               size="sm"
               onClick={() => onSensorChange(sensor)}
-              disabled={disabled}
+              disabled={disabled || !isAvailable}
               className={cn(
                 'w-full justify-start h-auto p-3 btn',
                 isSelected && 'shadow-glow border-accent'
@@ -1,225 +1,171 @@
-import { InfrastructureEntity, AircraftEntity, FlightPath, FlightWaypoint } from '@/lib/types';
+import {
+  GameEvent,
+  TruthField,
+  InfrastructureEntity,
+  AircraftEntity,
+  FlightPath,
+  FlightWaypoint,
+  LogisticsConfig
+} from '@/lib/types';
+import { GridProjection, LngLat, cellCenter, gridFractionToPosition } from '@/lib/geo-projection';
+import { isLogisticsEnabled } from '@/lib/logistics';
 
-// Generate sample infrastructure entities based on game grid
-export function generateSampleInfrastructure(
-  grid: unknown[][],
-  bounds: { north: number; south: number; east: number; west: number }
+/**
+ * 3D map entities derived from the game rather than placed for decoration.
+ *
+ * Infrastructure comes from the truth field and only appears once the
+ * operator has seen it: a sensor has looked at the cell, or a strike has
+ * landed on it (unless the truth overlay is on). Aircraft are the airborne
+ * recon assets, flying from their base to each cell they were tasked on.
+ */
+
+/**
+ * Airborne sensor platform shown on the map
+ */
+interface AirAssetProfile {
+  name: string;
+  type: AircraftEntity['type'];
+  altitude: number;   // Metres above ground
+  speed: number;      // m/s
+}
+
+export const AIR_ASSETS: Record<'drone' | 'sigint', AirAssetProfile> = {
+  drone: { name: 'Recon drone', type: 'drone', altitude: 500, speed: 50 },
+  sigint: { name: 'SIGINT aircraft', type: 'transport', altitude: 3000, speed: 150 },
+};
+
+const INFRASTRUCTURE_TYPES: InfrastructureEntity['type'][] = ['tower', 'dome', 'building'];
+const INFRASTRUCTURE_ALTITUDE = 50;
+
+// Air assets take off from the middle of the grid's southern edge
+const AIR_BASE = { fractionX: 0.5, fractionY: 0 };
+
+/**
+ * Infrastructure the operator knows about. Entities are destroyed once a
+ * strike's kill draw hits their cell.
+ */
+export function deriveInfrastructureEntities(
+  truthField: TruthField,
+  eventLog: GameEvent[],
+  projection: GridProjection,
+  showTruth: boolean = false
 ): InfrastructureEntity[] {
+  const revealedAt = new Map<string, number>();
+  const destroyed = new Set<string>();
+  const reveal = (x: number, y: number, timestamp: number) => {
+    const key = `${x},${y}`;
+    if (!revealedAt.has(key)) revealedAt.set(key, timestamp);
+  };
+
+  for (const event of eventLog) {
+    if (event.type === 'recon') {
+      reveal(event.data.x as number, event.data.y as number, event.timestamp);
+    } else if (event.type === 'strike') {
+      const affectedCells = event.data.affectedCells as
+        { x: number; y: number; wasInfra: boolean; destroyed?: boolean }[] | undefined;
+      for (const cell of affectedCells ?? []) {
+        if (!cell.wasInfra) continue;
+        reveal(cell.x, cell.y, event.timestamp);
+        if (cell.destroyed) destroyed.add(`${cell.x},${cell.y}`);
+      }
+    }
+  }
+
   const infrastructure: InfrastructureEntity[] = [];
-  const gridSize = grid.length;
-  
-  // Calculate grid cell dimensions
-  const lngStep = (bounds.east - bounds.west) / gridSize;
-  const latStep = (bounds.north - bounds.south) / gridSize;
-  
-  // Add some infrastructure entities at strategic locations
-  
-  // Place infrastructure at corners and center
-  const positions = [
-    { x: 2, y: 2, type: 'tower' as const },
-    { x: gridSize - 3, y: 2, type: 'dome' as const },
-    { x: 2, y: gridSize - 3, type: 'building' as const },
-    { x: gridSize - 3, y: gridSize - 3, type: 'tower' as const },
-    { x: Math.floor(gridSize / 2), y: Math.floor(gridSize / 2), type: 'dome' as const },
-    { x: Math.floor(gridSize / 3), y: Math.floor(gridSize / 3), type: 'building' as const },
-    { x: Math.floor(2 * gridSize / 3), y: Math.floor(2 * gridSize / 3), type: 'tower' as const }
-  ];
-  
-  positions.forEach((pos, index) => {
-    const lng = bounds.west + (pos.x + 0.5) * lngStep;
-    const lat = bounds.south + (pos.y + 0.5) * latStep;
-    const altitude = 50 + Math.random() * 100; // 50-150m elevation
-    
-    infrastructure.push({
-      id: `infra-${index}`,
-      type: pos.type,
-      position: [lng, lat, altitude],
-      rotation: [0, Math.random() * Math.PI * 2, 0], // Random rotation
-      scale: 0.8 + Math.random() * 0.4, // 0.8-1.2 scale
-      isDestroyed: false,
-      gridX: pos.x,
-      gridY: pos.y
+  truthField.infraTruth.forEach((row, y) => {
+    row.forEach((hasInfra, x) => {
+      const key = `${x},${y}`;
+      if (!hasInfra || (!showTruth && !revealedAt.has(key))) return;
+
+      // Type and orientation are fixed per cell so entities do not jump between renders
+      const [lng, lat] = cellCenter(projection, x, y);
+      infrastructure.push({
+        id: `infra-${x}-${y}`,
+        type: INFRASTRUCTURE_TYPES[(x * 7 + y * 13) % INFRASTRUCTURE_TYPES.length],
+        position: [lng, lat, INFRASTRUCTURE_ALTITUDE],
+        rotation: [0, ((x * 31 + y * 17) % 12) / 12 * Math.PI * 2, 0],
+        scale: 1,
+        isDestroyed: destroyed.has(key),
+        gridX: x,
+        gridY: y,
+        revealedAt: revealedAt.get(key),
+      });
     });
   });
-  
+
   return infrastructure;
 }
 
-// Generate sample aircraft with flight paths
-export function generateSampleAircraft(
-  bounds: { north: number; south: number; east: number; west: number }
+// Heading in radians clockwise from north, from an equirectangular approximation
+function headingBetween(from: LngLat, to: LngLat): number {
+  const east = (to[0] - from[0]) * Math.cos((from[1] + to[1]) / 2 * Math.PI / 180);
+  const north = to[1] - from[1];
+  return Math.atan2(east, north);
+}
+
+/**
+ * Airborne recon assets and their sorties. Each asset is shown over the last
+ * cell it scanned, with a flight path from base through every tasked cell.
+ * With logistics enabled there is one aircraft per configured asset, flying
+ * from its own base and back there whenever it returned to refuel.
+ */
+export function deriveAirAssets(
+  eventLog: GameEvent[],
+  projection: GridProjection,
+  logistics?: LogisticsConfig
 ): { aircraft: AircraftEntity[]; flightPaths: FlightPath[] } {
   const aircraft: AircraftEntity[] = [];
   const flightPaths: FlightPath[] = [];
-  
-  // Center coordinates
-  const centerLng = (bounds.east + bounds.west) / 2;
-  const centerLat = (bounds.north + bounds.south) / 2;
-  const areaWidth = bounds.east - bounds.west;
-  const areaHeight = bounds.north - bounds.south;
-  
-  // Fighter aircraft patrol
-  const fighter1: AircraftEntity = {
-    id: 'fighter-1',
-    type: 'fighter',
-    position: [
-      centerLng - areaWidth * 0.3,
-      centerLat + areaHeight * 0.2,
-      2000 // 2km altitude
-    ],
-    heading: Math.PI / 4, // 45 degrees
-    speed: 300, // 300 m/s
-    altitude: 2000,
-    isHostile: false,
-    flightPathId: 'patrol-1'
-  };
-  
-  // Hostile drone
-  const drone1: AircraftEntity = {
-    id: 'drone-1',
-    type: 'drone',
-    position: [
-      centerLng + areaWidth * 0.4,
-      centerLat - areaHeight * 0.1,
-      500 // 500m altitude
-    ],
-    heading: -Math.PI / 3, // -60 degrees
-    speed: 50, // 50 m/s
-    altitude: 500,
-    isHostile: true,
-    flightPathId: 'recon-1'
-  };
-  
-  // Transport aircraft
-  const transport1: AircraftEntity = {
-    id: 'transport-1',
-    type: 'transport',
-    position: [
-      centerLng,
-      centerLat + areaHeight * 0.4,
-      3000 // 3km altitude
-    ],
-    heading: Math.PI, // 180 degrees (south)
-    speed: 150, // 150 m/s
-    altitude: 3000,
-    isHostile: false,
-    flightPathId: 'supply-1'
-  };
-  
-  aircraft.push(fighter1, drone1, transport1);
-  
-  // Create flight paths with 3D arcs
-  const fighterPath: FlightPath = {
-    id: 'patrol-1',
-    aircraftId: 'fighter-1',
-    isActive: true,
-    waypoints: generatePatrolWaypoints(fighter1.position, bounds, 2000)
-  };
-  
-  const dronePath: FlightPath = {
-    id: 'recon-1',
-    aircraftId: 'drone-1',
-    isActive: true,
-    waypoints: generateReconWaypoints(drone1.position, bounds, 500)
-  };
-  
-  const transportPath: FlightPath = {
-    id: 'supply-1',
-    aircraftId: 'transport-1',
-    isActive: true,
-    waypoints: generateSupplyWaypoints(transport1.position, bounds, 3000)
-  };
-  
-  flightPaths.push(fighterPath, dronePath, transportPath);
-  
-  return { aircraft, flightPaths };
-}
+  const assets = isLogisticsEnabled(logistics) ? logistics.assets : [];
 
-// Generate patrol waypoints in a circular pattern
-function generatePatrolWaypoints(
-  startPos: [number, number, number],
-  bounds: { north: number; south: number; east: number; west: number },
-  baseAltitude: number
-): FlightWaypoint[] {
-  const waypoints: FlightWaypoint[] = [];
-  const centerLng = (bounds.east + bounds.west) / 2;
-  const centerLat = (bounds.north + bounds.south) / 2;
-  const radius = Math.min(bounds.east - bounds.west, bounds.north - bounds.south) * 0.3;
-  
-  // Create circular patrol with altitude variation
-  for (let i = 0; i <= 8; i++) {
-    const angle = (i / 8) * Math.PI * 2;
-    const lng = centerLng + Math.cos(angle) * radius;
-    const lat = centerLat + Math.sin(angle) * radius;
-    const altitude = baseAltitude + Math.sin(angle * 2) * 300; // Altitude variation ±300m
-    
-    waypoints.push({
-      position: [lng, lat, altitude],
-      timestamp: Date.now() + i * 30000, // 30 seconds per waypoint
-      speed: 300
-    });
+  // Sorties grouped by the asset that flew them (the sensor type without logistics)
+  const sortiesByAsset = new Map<string, GameEvent[]>();
+  for (const event of eventLog) {
+    if (event.type !== 'recon' || !Object.hasOwn(AIR_ASSETS, event.data.sensor as string)) continue;
+    const key = (event.data.assetId as string | undefined) ?? `${event.data.sensor}-asset`;
+    sortiesByAsset.set(key, [...(sortiesByAsset.get(key) ?? []), event]);
   }
-  
-  return waypoints;
-}
 
-// Generate reconnaissance waypoints in a search pattern
-function generateReconWaypoints(
-  startPos: [number, number, number],
-  bounds: { north: number; south: number; east: number; west: number },
-  baseAltitude: number
-): FlightWaypoint[] {
-  const waypoints: FlightWaypoint[] = [];
-  const areaWidth = bounds.east - bounds.west;
-  const areaHeight = bounds.north - bounds.south;
-  
-  // Zigzag search pattern
-  const rows = 3;
-  const cols = 4;
-  
-  for (let row = 0; row < rows; row++) {
-    for (let col = 0; col < cols; col++) {
-      const direction = row % 2 === 0 ? col : cols - 1 - col; // Alternate direction
-      const lng = bounds.west + (direction / (cols - 1)) * areaWidth;
-      const lat = bounds.south + (row / (rows - 1)) * areaHeight;
-      const altitude = baseAltitude + (row * 100); // Gradual altitude increase
-      
-      waypoints.push({
-        position: [lng, lat, altitude],
-        timestamp: Date.now() + (row * cols + col) * 20000, // 20 seconds per waypoint
-        speed: 50
-      });
+  for (const [id, sorties] of sortiesByAsset) {
+    const profile = AIR_ASSETS[sorties[0].data.sensor as keyof typeof AIR_ASSETS];
+    const base = assets.find(asset => asset.id === id)?.base;
+    const basePosition = (): [number, number, number] => {
+      if (!base) return gridFractionToPosition(projection, AIR_BASE.fractionX, AIR_BASE.fractionY, profile.altitude);
+      const [lng, lat] = cellCenter(projection, base.x, base.y);
+      return [lng, lat, profile.altitude];
+    };
+
+    const waypoints: FlightWaypoint[] = [{
+      position: basePosition(),
+      timestamp: sorties[0].timestamp,
+      speed: profile.speed,
+    }];
+    for (const event of sorties) {
+      const [lng, lat] = cellCenter(projection, event.data.x as number, event.data.y as number);
+      waypoints.push({ position: [lng, lat, profile.altitude], timestamp: event.timestamp, speed: profile.speed });
+      if (event.data.returnedToBase) {
+        waypoints.push({ position: basePosition(), timestamp: event.timestamp, speed: profile.speed });
+      }
     }
-  }
-  
-  return waypoints;
-}
 
-// Generate supply waypoints in a straight line with altitude arc
-function generateSupplyWaypoints(
-  startPos: [number, number, number],
-  bounds: { north: number; south: number; east: number; west: number },
-  baseAltitude: number
-): FlightWaypoint[] {
-  const waypoints: FlightWaypoint[] = [];
-  
-  // Straight line from north to south with altitude arc
-  const segments = 6;
-  for (let i = 0; i <= segments; i++) {
-    const progress = i / segments;
-    const lng = (bounds.east + bounds.west) / 2; // Center longitude
-    const lat = bounds.north - progress * (bounds.north - bounds.south);
-    
-    // Create altitude arc - higher in the middle
-    const altitudeFactor = Math.sin(progress * Math.PI);
-    const altitude = baseAltitude + altitudeFactor * 1000; // Up to +1km at arc peak
-    
-    waypoints.push({
-      position: [lng, lat, altitude],
-      timestamp: Date.now() + i * 40000, // 40 seconds per waypoint
-      speed: 150
+    const flightPathId = `${id}-sorties`;
+    const [previous, current] = waypoints.slice(-2);
+
+    aircraft.push({
+      id,
+      type: profile.type,
+      position: current.position,
+      heading: headingBetween(
+        [previous.position[0], previous.position[1]],
+        [current.position[0], current.position[1]]
+      ),
+      speed: profile.speed,
+      altitude: profile.altitude,
+      isHostile: false,
+      flightPathId,
     });
+    flightPaths.push({ id: flightPathId, aircraftId: id, isActive: true, waypoints });
   }
-  
-  return waypoints;
-}
\ No newline at end of file
+
+  return { aircraft, flightPaths };
+}
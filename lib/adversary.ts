@@ -0,0 +1,95 @@
+import { AdversaryConfig, GameCell, GameConfig, ReconResult, SensorType } from './types';
+import { createSubRNG } from './rng';
+import { AdversaryExposure, decoyPositiveRate } from './sensors';
+
+/**
+ * Adversarial hostile behaviour.
+ *
+ * Decoys sit on hostile-free cells and fool each sensor in proportion to its
+ * decoy susceptibility, so a cheap sensor that keeps firing positives on the
+ * same cell is no longer conclusive. Under emissions control hostiles stop
+ * transmitting, which cuts the TPR of emission-dependent sensors (SIGINT
+ * most of all): 'reactive' units go quiet for a few turns after a scan,
+ * 'strict' units never transmit.
+ *
+ * The player never sees where the decoys are, but tracks P(decoy | no
+ * hostile) per cell and updates on it with the matching likelihood.
+ */
+
+/**
+ * Default adversary: one hostile-free cell in ten holds a decoy, and hostiles
+ * go quiet for two turns after being scanned
+ */
+export const DEFAULT_ADVERSARY_CONFIG: AdversaryConfig = {
+  enabled: true,
+  decoyDensity: 0.1,
+  emissionControl: 'reactive',
+  silenceTurns: 2,
+};
+
+/**
+ * Whether a config uses the adversary model
+ */
+export function isAdversaryEnabled(adversary: AdversaryConfig | undefined): adversary is AdversaryConfig {
+  return adversary !== undefined && adversary.enabled;
+}
+
+/**
+ * Place decoys on hostile-free cells from the game seed and start every
+ * cell's decoy belief at the configured density
+ */
+export function placeDecoys(grid: GameCell[][], config: Pick<GameConfig, 'seed'> & { adversary: AdversaryConfig }): void {
+  const rng = createSubRNG(config.seed, 'decoys');
+  const { decoyDensity } = config.adversary;
+
+  for (const row of grid) {
+    for (const cell of row) {
+      // Draw for every cell so the layout does not shift with hostile placement
+      const decoy = rng.bernoulli(decoyDensity);
+      cell.hasDecoy = decoy && !cell.hasHostile;
+      cell.decoyProbability = decoyDensity;
+    }
+  }
+}
+
+/**
+ * Whether a cell's hostile is keeping silent at a turn, given its scan history
+ */
+export function isHostileSilent(adversary: AdversaryConfig, reconHistory: ReconResult[], turn: number): boolean {
+  switch (adversary.emissionControl) {
+    case 'none':
+      return false;
+    case 'strict':
+      return true;
+    case 'reactive':
+      return reconHistory.some(recon => turn - recon.turn < adversary.silenceTurns);
+  }
+}
+
+/**
+ * What the adversary does to the next reading at a cell
+ */
+export function getAdversaryExposure(adversary: AdversaryConfig, cell: GameCell, turn: number): AdversaryExposure {
+  return {
+    decoy: cell.hasDecoy ?? false,
+    silent: isHostileSilent(adversary, cell.reconHistory, turn),
+    decoyProbability: cell.decoyProbability ?? adversary.decoyDensity,
+  };
+}
+
+/**
+ * Update P(decoy | no hostile) with a hostile-channel reading; effectiveFPR
+ * is the sensor's context FPR before any decoy effect
+ */
+export function updateDecoyProbability(
+  decoyProbability: number,
+  sensor: SensorType,
+  result: boolean,
+  effectiveFPR: number
+): number {
+  const decoyRate = decoyPositiveRate(sensor, effectiveFPR);
+  const likelihoodDecoy = result ? decoyRate : 1 - decoyRate;
+  const likelihoodClear = result ? effectiveFPR : 1 - effectiveFPR;
+  const evidence = decoyProbability * likelihoodDecoy + (1 - decoyProbability) * likelihoodClear;
+  return evidence > 0 ? decoyProbability * likelihoodDecoy / evidence : decoyProbability;
+}
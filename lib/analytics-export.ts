@@ -1,6 +1,9 @@
 import { GameCell, GameConfig, GameEvent, GameAnalytics, TurnMetrics, GameRunExport, TruthField } from './types';
 import { calculateStrikeEV } from './decision-analysis';
 import { calculateSpatialCorrelation } from './truth-generation';
+import { createGridProjection } from './geo-projection';
+import { deriveInfrastructureEntities, deriveAirAssets } from './3d-entities';
+import { createDebrief } from './objectives';
 
 /**
  * Calculate turn metrics for timeline tracking
@@ -51,6 +54,7 @@ export function calculateTurnMetrics(
       remainingBudget,
       brierScore: analytics.brierScore,
       logLoss: analytics.logLoss,
+      infraBrierScore: analytics.infraBrierScore,
       hostilesNeutralized: analytics.hostilesNeutralized,
       infraHits: analytics.infraHits,
       totalCost: analytics.totalCost,
@@ -71,7 +75,7 @@ export function calculateTurnMetrics(
   
   for (let y = 0; y < grid.length; y++) {
     for (let x = 0; x < grid[y].length; x++) {
-      totalInfraRisk += grid[y][x].infraPriorProbability;
+      totalInfraRisk += grid[y][x].infraPosteriorProbability;
     }
   }
   const infraRisk = totalInfraRisk / (grid.length * grid[0].length);
@@ -112,6 +116,7 @@ export function calculateTurnMetrics(
     remainingBudget,
     brierScore: analytics.brierScore,
     logLoss: analytics.logLoss,
+    infraBrierScore: analytics.infraBrierScore,
     hostilesNeutralized: analytics.hostilesNeutralized,
     infraHits: analytics.infraHits,
     totalCost: analytics.totalCost,
@@ -146,6 +151,20 @@ export function generateGameRunExport(
     averageDecisionTime: number;
   }
 ): GameRunExport {
+  // Entities as the operator saw them on the map at the end of the run
+  const projection = createGridProjection(config.gridSize, config.areaOfOperations);
+  const { aircraft, flightPaths } = deriveAirAssets(eventLog, projection, config.logistics);
+
+  // Exports of a game still in play judge the objectives as they stand
+  const debrief = createDebrief({
+    config,
+    analytics,
+    eventLog,
+    score: finalScore,
+    currentTurn: totalTurns,
+    gameEnded: totalTurns >= config.maxTurns || eventLog.some(event => event.type === 'game_end'),
+  });
+
   return {
     exportTimestamp: Date.now(),
     gameConfig: config,
@@ -162,10 +181,11 @@ export function generateGameRunExport(
       infraPriorField: truthField.infraField
     },
     entities: {
-      infrastructure: [],
-      aircraft: [],
-      flightPaths: []
+      infrastructure: deriveInfrastructureEntities(truthField, eventLog, projection, config.showTruthOverlay),
+      aircraft,
+      flightPaths
     },
+    ...(debrief && { debrief }),
     performanceMetrics: performanceMetrics || {
       totalComputationTime: 0,
       workerCacheHitRate: 0,
@@ -191,7 +211,7 @@ export function exportToCSV(exportData: GameRunExport): string {
   // Turn metrics
   lines.push('## Turn Metrics');
   const turnHeaders = [
-    'Turn', 'Timestamp', 'Score', 'Budget', 'Brier', 'LogLoss', 
+    'Turn', 'Timestamp', 'Score', 'Budget', 'Brier', 'LogLoss', 'InfraBrier',
     'HostilesKilled', 'InfraHits', 'TotalCost', 'BestEV', 'ChosenEV', 
     'EVGap', 'InfraRisk', 'Uncertainty', 'Recons', 'Strikes', 
     'ActionCost', 'BeliefAccuracy', 'Concentration'
@@ -206,6 +226,7 @@ export function exportToCSV(exportData: GameRunExport): string {
       turn.remainingBudget,
       turn.brierScore.toFixed(4),
       turn.logLoss.toFixed(4),
+      turn.infraBrierScore.toFixed(4),
       turn.hostilesNeutralized,
       turn.infraHits,
       turn.totalCost,
@@ -252,10 +273,18 @@ export function exportToCSV(exportData: GameRunExport): string {
   lines.push(`Total Cost,${exportData.finalAnalytics.totalCost}`);
   lines.push(`Final Brier Score,${exportData.finalAnalytics.brierScore.toFixed(4)}`);
   lines.push(`Final Log Loss,${exportData.finalAnalytics.logLoss.toFixed(4)}`);
+  lines.push(`Final Infra Brier Score,${exportData.finalAnalytics.infraBrierScore.toFixed(4)}`);
+  lines.push(`Final Infra Log Loss,${exportData.finalAnalytics.infraLogLoss.toFixed(4)}`);
   lines.push(`Calibration Error,${exportData.finalAnalytics.calibrationError.toFixed(4)}`);
   lines.push(`Truth Correlation,${exportData.finalAnalytics.truthCorrelation.toFixed(4)}`);
   lines.push(`Spatial Accuracy,${exportData.finalAnalytics.spatialAccuracy.toFixed(4)}`);
   lines.push(`Total Predictions,${exportData.finalAnalytics.totalPredictions}`);
+  if (exportData.finalAnalytics.playerPredictions > 0) {
+    lines.push(`Player Estimates,${exportData.finalAnalytics.playerPredictions}`);
+    lines.push(`Player Brier Score,${exportData.finalAnalytics.playerBrierScore.toFixed(4)}`);
+    lines.push(`Player Log Loss,${exportData.finalAnalytics.playerLogLoss.toFixed(4)}`);
+    lines.push(`Player Calibration Error,${exportData.finalAnalytics.playerCalibrationError.toFixed(4)}`);
+  }
   
   return lines.join('\n');
 }
@@ -0,0 +1,383 @@
+import { GameConfig, SensorType } from './types';
+import {
+  PolicyType,
+  PolicyRecommendation,
+  getGreedyEVPolicy,
+  getRiskAversePolicy,
+  getReconVOIPolicy,
+  getRolloutPlannerPolicy
+} from './risk-analysis';
+import {
+  EngineState,
+  createEngineState,
+  createCalibrationTrackers,
+  applyRecon,
+  applyStrike,
+  advanceTurn
+} from './game-engine';
+
+/**
+ * Headless batch simulation: plays complete games under automated policies
+ * (no React or Zustand) so policies can be compared across many seeds.
+ */
+
+/**
+ * Inputs a policy sees besides the belief state
+ */
+export interface BatchPolicyContext {
+  sensor: SensorType;
+  riskAversion: number;
+  strikeRadius: number;
+  actionsPerTurn: number;
+}
+
+/**
+ * Pluggable decision policy for headless games
+ */
+export interface BatchPolicy {
+  id: string;
+  name: string;
+  decide: (state: EngineState, context: BatchPolicyContext) => PolicyRecommendation;
+}
+
+/**
+ * Built-in policies wrapping the recommendation functions in risk-analysis
+ */
+export const BUILTIN_BATCH_POLICIES: Record<PolicyType, BatchPolicy> = {
+  greedyEV: {
+    id: 'greedyEV',
+    name: 'Greedy EV',
+    decide: (state, context) =>
+      getGreedyEVPolicy(state.grid, state.config, state.remainingBudget, context.strikeRadius),
+  },
+  riskAverse: {
+    id: 'riskAverse',
+    name: 'Risk Averse (CVaR)',
+    decide: (state, context) =>
+      getRiskAversePolicy(
+        state.grid,
+        state.config,
+        state.remainingBudget,
+        context.riskAversion,
+        context.strikeRadius
+      ),
+  },
+  reconVOI: {
+    id: 'reconVOI',
+    name: 'Recon VOI',
+    // Recon while information pays for itself, then act on the best EV strike
+    decide: (state, context) => {
+      const recon = getReconVOIPolicy(
+        state.grid,
+        state.config,
+        state.remainingBudget,
+        context.sensor,
+        context.strikeRadius,
+        state.currentTurn
+      );
+      if (recon.action !== 'wait') return recon;
+
+      const strike = getGreedyEVPolicy(state.grid, state.config, state.remainingBudget, context.strikeRadius);
+      return { ...strike, type: 'reconVOI' };
+    },
+  },
+  rolloutPlanner: {
+    id: 'rolloutPlanner',
+    name: 'Rollout Planner',
+    // A fixed rollout count (no time budget) keeps batch results reproducible
+    decide: (state, context) =>
+      getRolloutPlannerPolicy(
+        state.grid,
+        state.config,
+        state.remainingBudget,
+        state.currentTurn,
+        context.sensor,
+        context.strikeRadius,
+        { maxRollouts: 300, actionsPerTurn: context.actionsPerTurn }
+      ),
+  },
+};
+
+export interface BatchSimulationOptions {
+  numGames?: number;
+  seedPrefix?: string;
+  gameConfig?: Partial<GameConfig>;
+  actionsPerTurn?: number;
+  sensor?: SensorType;
+  riskAversion?: number;
+  strikeRadius?: number;
+}
+
+/**
+ * Outcome of one headless game
+ */
+export interface HeadlessGameResult {
+  seed: string;
+  score: number;
+  brierScore: number;
+  infraHits: number;
+  hostilesNeutralized: number;
+  meanEVGap: number;
+  totalCost: number;
+  recons: number;
+  strikes: number;
+  blockedStrikes: number;
+}
+
+/**
+ * Summary statistics of a sample
+ */
+export interface DistributionSummary {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  median: number;
+  p05: number;
+  p95: number;
+  ci95: [number, number];
+}
+
+export interface PolicyBatchReport {
+  policyId: string;
+  policyName: string;
+  games: HeadlessGameResult[];
+  score: DistributionSummary;
+  brierScore: DistributionSummary;
+  infraHits: DistributionSummary;
+  evGap: DistributionSummary;
+}
+
+export interface BatchSimulationReport {
+  config: GameConfig;
+  seeds: string[];
+  policies: PolicyBatchReport[];
+}
+
+/**
+ * Paired comparison of two policies on shared seeds
+ */
+export interface PolicyComparison {
+  policyA: string;
+  policyB: string;
+  meanScoreDifference: number;
+  ci95: [number, number];
+  significant: boolean;
+}
+
+const DEFAULT_BATCH_OPTIONS = {
+  numGames: 20,
+  seedPrefix: 'batch',
+  actionsPerTurn: 3,
+  sensor: 'drone' as SensorType,
+  riskAversion: 0.5,
+  strikeRadius: 1,
+};
+
+/**
+ * Mean squared error of the posterior map against the current truth
+ */
+function calculateMapBrierScore(state: EngineState): number {
+  let total = 0;
+  let count = 0;
+
+  for (const row of state.grid) {
+    for (const cell of row) {
+      const outcome = cell.hasHostile ? 1 : 0;
+      total += (cell.posteriorProbability - outcome) ** 2;
+      count++;
+    }
+  }
+
+  return count === 0 ? 0 : total / count;
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Summarise a sample with a normal-approximation 95% CI for the mean
+ */
+export function summarizeDistribution(values: number[]): DistributionSummary {
+  const n = values.length;
+  if (n === 0) {
+    return { mean: 0, std: 0, min: 0, max: 0, median: 0, p05: 0, p95: 0, ci95: [0, 0] };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const variance = n > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)
+    : 0;
+  const std = Math.sqrt(variance);
+  const margin = 1.96 * std / Math.sqrt(n);
+
+  return {
+    mean,
+    std,
+    min: sorted[0],
+    max: sorted[n - 1],
+    median: quantile(sorted, 0.5),
+    p05: quantile(sorted, 0.05),
+    p95: quantile(sorted, 0.95),
+    ci95: [mean - margin, mean + margin],
+  };
+}
+
+/**
+ * Play one complete game under a policy.
+ *
+ * Each turn the policy may act up to `actionsPerTurn` times; a wait, an
+ * unaffordable recon or a blocked strike ends the turn. The EV gap of a turn
+ * is the best strike EV available at its start minus the best EV struck.
+ */
+export function playHeadlessGame(
+  policy: BatchPolicy,
+  config: GameConfig,
+  options: BatchSimulationOptions = {}
+): HeadlessGameResult {
+  const { actionsPerTurn, sensor, riskAversion, strikeRadius } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const context: BatchPolicyContext = { sensor, riskAversion, strikeRadius, actionsPerTurn };
+
+  const state = createEngineState(config);
+  const calibration = createCalibrationTrackers();
+  const evGaps: number[] = [];
+  let recons = 0;
+  let strikes = 0;
+  let blockedStrikes = 0;
+
+  while (!state.gameEnded) {
+    const bestEV = getGreedyEVPolicy(state.grid, state.config, state.remainingBudget, strikeRadius).value;
+    let chosenEV = 0;
+
+    for (let action = 0; action < actionsPerTurn; action++) {
+      const recommendation = policy.decide(state, context);
+      if (recommendation.action === 'wait' || recommendation.x === undefined || recommendation.y === undefined) break;
+
+      if (recommendation.action === 'recon') {
+        const outcome = applyRecon(
+          state,
+          recommendation.x,
+          recommendation.y,
+          recommendation.sensor ?? sensor,
+          calibration
+        );
+        if (!outcome) break;
+        recons++;
+      } else {
+        const attempt = applyStrike(
+          state,
+          recommendation.x,
+          recommendation.y,
+          recommendation.radius ?? strikeRadius
+        );
+        if (!attempt.executed || !attempt.validation) {
+          blockedStrikes++;
+          break;
+        }
+        chosenEV = Math.max(chosenEV, attempt.validation.outcome.expectedValue);
+        strikes++;
+      }
+    }
+
+    evGaps.push(bestEV - chosenEV);
+    advanceTurn(state);
+  }
+
+  return {
+    seed: config.seed,
+    score: state.score,
+    brierScore: calculateMapBrierScore(state),
+    infraHits: state.analytics.infraHits,
+    hostilesNeutralized: state.analytics.hostilesNeutralized,
+    meanEVGap: evGaps.length > 0 ? evGaps.reduce((sum, gap) => sum + gap, 0) / evGaps.length : 0,
+    totalCost: state.analytics.totalCost,
+    recons,
+    strikes,
+    blockedStrikes,
+  };
+}
+
+/**
+ * Run every policy on the same N seeds and summarise the outcome distributions
+ */
+export function runBatchSimulation(
+  baseConfig: GameConfig,
+  policies: BatchPolicy[] = Object.values(BUILTIN_BATCH_POLICIES),
+  options: BatchSimulationOptions = {}
+): BatchSimulationReport {
+  const { numGames, seedPrefix } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const config = { ...baseConfig, ...options.gameConfig };
+  const seeds = Array.from({ length: numGames }, (_, i) => `${seedPrefix}-${i}`);
+
+  const reports = policies.map(policy => {
+    const games = seeds.map(seed => playHeadlessGame(policy, { ...config, seed }, options));
+
+    return {
+      policyId: policy.id,
+      policyName: policy.name,
+      games,
+      score: summarizeDistribution(games.map(game => game.score)),
+      brierScore: summarizeDistribution(games.map(game => game.brierScore)),
+      infraHits: summarizeDistribution(games.map(game => game.infraHits)),
+      evGap: summarizeDistribution(games.map(game => game.meanEVGap)),
+    };
+  });
+
+  return { config, seeds, policies: reports };
+}
+
+/**
+ * Compare two policies' scores using per-seed paired differences
+ */
+export function comparePolicies(
+  report: BatchSimulationReport,
+  policyA: string,
+  policyB: string
+): PolicyComparison | null {
+  const a = report.policies.find(policy => policy.policyId === policyA);
+  const b = report.policies.find(policy => policy.policyId === policyB);
+  if (!a || !b) return null;
+
+  const differences = a.games.map((game, i) => game.score - b.games[i].score);
+  const summary = summarizeDistribution(differences);
+
+  return {
+    policyA,
+    policyB,
+    meanScoreDifference: summary.mean,
+    ci95: summary.ci95,
+    significant: summary.ci95[0] > 0 || summary.ci95[1] < 0,
+  };
+}
+
+/**
+ * Format a batch report as a plain-text table (for console output)
+ */
+export function formatBatchReport(report: BatchSimulationReport): string {
+  const format = (summary: DistributionSummary, digits: number) =>
+    `${summary.mean.toFixed(digits)} ± ${summary.std.toFixed(digits)}`;
+
+  const lines = [
+    `Batch simulation: ${report.seeds.length} games per policy, ${report.config.gridSize}x${report.config.gridSize} grid, ${report.config.maxTurns} turns`,
+    ['Policy', 'Score', 'Score 95% CI', 'Brier', 'Infra Hits', 'EV Gap'].join('\t'),
+  ];
+
+  for (const policy of report.policies) {
+    lines.push([
+      policy.policyName,
+      format(policy.score, 1),
+      `[${policy.score.ci95[0].toFixed(1)}, ${policy.score.ci95[1].toFixed(1)}]`,
+      format(policy.brierScore, 3),
+      format(policy.infraHits, 2),
+      format(policy.evGap, 1),
+    ].join('\t'));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,144 @@
+import { CalibrationDrillConfig, DrillAction, GameConfig, GameEvent, GameState } from './types';
+import { CalibrationMetrics, RunningCalibration, calculateCalibrationMetrics } from './inference';
+
+/**
+ * Calibration drills.
+ *
+ * The analytics score the model's posterior; a drill scores the player. Before
+ * each scan or strike the player gives their own probability that the target
+ * cell holds a hostile. The estimate is logged with the model's belief in the
+ * same cell at the same moment and with the truth, so the player's
+ * calibration is tracked on its own and can be set against the model's over
+ * exactly the same judgements. An estimate only counts once its action has
+ * gone ahead, so it replays with the action's command.
+ */
+
+/**
+ * Default drill: an estimate before every scan and strike
+ */
+export const DEFAULT_CALIBRATION_DRILL_CONFIG: CalibrationDrillConfig = {
+  enabled: true,
+  elicitOn: ['recon', 'strike'],
+};
+
+/**
+ * Whether a config runs a calibration drill
+ */
+export function isCalibrationDrillEnabled(drill: CalibrationDrillConfig | undefined): drill is CalibrationDrillConfig {
+  return drill !== undefined && drill.enabled;
+}
+
+/**
+ * Whether the player is asked for an estimate before an action
+ */
+export function shouldElicitEstimate(config: Pick<GameConfig, 'calibrationDrill'>, action: DrillAction): boolean {
+  return isCalibrationDrillEnabled(config.calibrationDrill) && config.calibrationDrill.elicitOn.includes(action);
+}
+
+/**
+ * One judgement: the player's P(hostile) for a cell, the model's posterior
+ * for it and whether a hostile was there
+ */
+export interface DrillEstimate {
+  turn: number;
+  x: number;
+  y: number;
+  action: DrillAction;
+  estimate: number;
+  modelEstimate: number;
+  hostile: boolean;
+}
+
+/**
+ * Parts of the game an estimate is taken from and logged to
+ */
+export type DrillState = Pick<GameState, 'grid' | 'currentTurn' | 'eventLog' | 'analytics'>;
+
+/**
+ * Take the player's estimate for a cell, with the model's belief and the
+ * truth as they stand before the action
+ */
+export function elicitEstimate(state: DrillState, x: number, y: number, action: DrillAction, estimate: number): DrillEstimate {
+  if (!Number.isFinite(estimate) || estimate < 0 || estimate > 1) {
+    throw new Error(`Estimate must be a probability between 0 and 1, got ${estimate}`);
+  }
+  const cell = state.grid[y][x];
+  return {
+    turn: state.currentTurn,
+    x,
+    y,
+    action,
+    estimate,
+    modelEstimate: cell.posteriorProbability,
+    hostile: cell.hasHostile,
+  };
+}
+
+/**
+ * Log an estimate and score it on the player's calibration
+ */
+export function recordEstimate(state: DrillState, estimate: DrillEstimate, player: RunningCalibration): void {
+  state.eventLog.push({
+    turn: estimate.turn,
+    type: 'estimate',
+    data: { ...estimate },
+    timestamp: Date.now(),
+  });
+
+  player.addPrediction(estimate.estimate, estimate.hostile);
+  const metrics = player.getMetrics();
+  state.analytics.playerBrierScore = metrics.brierScore;
+  state.analytics.playerLogLoss = metrics.logLoss;
+  state.analytics.playerCalibrationError = metrics.calibrationError;
+  state.analytics.playerPredictions++;
+}
+
+/**
+ * Run a scan or strike, logging the player's estimate for its cell (taken
+ * before the action) once the action has gone ahead
+ */
+export function withEstimate(
+  state: DrillState,
+  x: number,
+  y: number,
+  action: DrillAction,
+  estimate: number | undefined,
+  player: RunningCalibration,
+  run: () => boolean
+): boolean {
+  const elicited = estimate === undefined ? null : elicitEstimate(state, x, y, action, estimate);
+  if (!run()) return false;
+  if (elicited) recordEstimate(state, elicited, player);
+  return true;
+}
+
+export function getDrillEstimates(eventLog: GameEvent[]): DrillEstimate[] {
+  return eventLog
+    .filter(event => event.type === 'estimate')
+    .map(event => event.data as unknown as DrillEstimate);
+}
+
+/**
+ * Player and model calibration over the same judgements
+ */
+export interface DrillReport {
+  estimates: DrillEstimate[];
+  player: CalibrationMetrics;
+  model: CalibrationMetrics;
+}
+
+/**
+ * Compare the player's estimates with the model's beliefs at the same
+ * moments, or null before any estimate
+ */
+export function createDrillReport(eventLog: GameEvent[], numBuckets: number = 10): DrillReport | null {
+  const estimates = getDrillEstimates(eventLog);
+  if (estimates.length === 0) return null;
+
+  const outcomes = estimates.map(estimate => estimate.hostile);
+  return {
+    estimates,
+    player: calculateCalibrationMetrics(estimates.map(estimate => estimate.estimate), outcomes, numBuckets),
+    model: calculateCalibrationMetrics(estimates.map(estimate => estimate.modelEstimate), outcomes, numBuckets),
+  };
+}
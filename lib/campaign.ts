@@ -0,0 +1,273 @@
+import { GameAnalytics, MissionDebrief, SensorType } from './types';
+import { SCENARIO_FORMAT, SCENARIO_VERSION, ScenarioFile } from './scenario';
+import { DEFAULT_ENVIRONMENT_CONFIG } from './environment';
+import { DEFAULT_MOVEMENT_CONFIG } from './movement';
+import { DEFAULT_ADVERSARY_CONFIG } from './adversary';
+import { createDefaultLogistics } from './logistics';
+import { DEFAULT_TARGET_CLASS_CONFIG } from './target-classes';
+import { DEFAULT_FUSION_CONFIG } from './fusion';
+
+/**
+ * Campaign mode.
+ *
+ * An ordered list of missions, each a scenario with its own config, sensor
+ * set and objectives, introducing one mechanic at a time. A mission is passed
+ * by meeting its objectives and reaching its score and calibration
+ * thresholds, which unlocks the next
+ * one and pays out its rewards: a sensor that stays available for the rest
+ * of the campaign, or a budget bonus added to every later mission.
+ *
+ * Progress is plain JSON so it can sit in local storage between sessions.
+ */
+
+/**
+ * What passing a mission earns for the rest of the campaign
+ */
+export type CampaignReward =
+  | { type: 'sensorUnlock'; sensor: SensorType }
+  | { type: 'budgetBonus'; amount: number };
+
+/**
+ * Thresholds a finished game must reach to pass a mission
+ */
+export interface MissionRequirements {
+  minScore: number;
+  maxCalibrationError: number;     // Calibration of the hostile beliefs (needs at least one reading)
+}
+
+export interface CampaignMission {
+  id: string;
+  name: string;
+  briefing: string;
+  scenario: ScenarioFile;          // Config, layout and objectives; its availableSensors are the mission's own
+  requirements: MissionRequirements;
+  rewards: CampaignReward[];
+}
+
+/**
+ * How a finished game went against its mission's thresholds
+ */
+export interface MissionResult {
+  missionId: string;
+  score: number;
+  calibrationError: number;
+  readings: number;
+  passed: boolean;
+}
+
+export interface CampaignProgress {
+  version: number;
+  results: Record<string, MissionResult>;  // Best result per mission
+  unlockedSensors: SensorType[];           // Sensors earned so far
+  budgetBonus: number;                     // Budget added to every mission
+}
+
+export const CAMPAIGN_PROGRESS_VERSION = 1;
+
+/**
+ * Local storage key for campaign progress, next to the saved game
+ */
+export const CAMPAIGN_STORAGE_KEY = 'bayesian-forward-operator-campaign';
+
+function mission(
+  id: string,
+  name: string,
+  briefing: string,
+  scenario: Omit<ScenarioFile, 'format' | 'version' | 'name' | 'description'>,
+  requirements: MissionRequirements,
+  rewards: CampaignReward[]
+): CampaignMission {
+  return {
+    id,
+    name,
+    briefing,
+    scenario: { format: SCENARIO_FORMAT, version: SCENARIO_VERSION, name, description: briefing, ...scenario },
+    requirements,
+    rewards,
+  };
+}
+
+export const CAMPAIGN_MISSIONS: CampaignMission[] = [
+  mission(
+    'first-light',
+    'First Light',
+    'A quiet sector and a single drone. Scan before you strike, and keep your beliefs honest.',
+    {
+      config: { seed: 'campaign-first-light', gridSize: 8, initialBudget: 400, maxTurns: 6, availableSensors: ['drone'] },
+      victoryConditions: [{ type: 'neutralizeHostiles', count: 1 }, { type: 'maxInfraHits', count: 0 }],
+    },
+    { minScore: 50, maxCalibrationError: 0.3 },
+    [{ type: 'sensorUnlock', sensor: 'sigint' }]
+  ),
+  mission(
+    'signals',
+    'Signals in the Dark',
+    'Night falls and fronts roll in. SIGINT does not care about the dark; the drone does.',
+    {
+      config: {
+        seed: 'campaign-signals', gridSize: 10, initialBudget: 500, maxTurns: 8,
+        availableSensors: ['drone'], environment: DEFAULT_ENVIRONMENT_CONFIG,
+      },
+      victoryConditions: [{ type: 'neutralizeHostiles', count: 2 }, { type: 'maxInfraHits', count: 0 }],
+    },
+    { minScore: 100, maxCalibrationError: 0.25 },
+    [{ type: 'budgetBonus', amount: 100 }]
+  ),
+  mission(
+    'moving-targets',
+    'Moving Targets',
+    'The enemy no longer sits still. Old readings go stale as hostiles relocate between turns.',
+    {
+      config: {
+        seed: 'campaign-moving-targets', gridSize: 12, initialBudget: 600, maxTurns: 10,
+        availableSensors: ['drone'], movement: DEFAULT_MOVEMENT_CONFIG,
+      },
+      victoryConditions: [{ type: 'neutralizeHostiles', count: 3 }, { type: 'withinTurns', turns: 10 }],
+    },
+    { minScore: 150, maxCalibrationError: 0.25 },
+    [{ type: 'sensorUnlock', sensor: 'ground' }]
+  ),
+  mission(
+    'deception',
+    'Smoke and Mirrors',
+    'Decoys litter the valley and the enemy goes quiet when watched. Your assets fly from real bases now.',
+    {
+      config: {
+        seed: 'campaign-deception', gridSize: 12, initialBudget: 700, maxTurns: 10,
+        availableSensors: ['drone'], adversary: DEFAULT_ADVERSARY_CONFIG, logistics: createDefaultLogistics(12),
+      },
+      victoryConditions: [{ type: 'neutralizeHostiles', count: 3 }, { type: 'maxInfraHits', count: 1 }],
+    },
+    { minScore: 150, maxCalibrationError: 0.2 },
+    [{ type: 'budgetBonus', amount: 150 }]
+  ),
+  mission(
+    'high-value',
+    'High Value Targets',
+    'Command posts are worth hunting. Decide what a contact is, not just whether it is there.',
+    {
+      config: {
+        seed: 'campaign-high-value', gridSize: 14, initialBudget: 800, maxTurns: 12,
+        availableSensors: ['drone'], targetClasses: DEFAULT_TARGET_CLASS_CONFIG, fusion: DEFAULT_FUSION_CONFIG,
+      },
+      victoryConditions: [{ type: 'minScore', score: 250 }, { type: 'maxInfraHits', count: 1 }],
+    },
+    { minScore: 250, maxCalibrationError: 0.2 },
+    []
+  ),
+];
+
+/**
+ * Progress at the start of a campaign
+ */
+export function createCampaignProgress(): CampaignProgress {
+  return { version: CAMPAIGN_PROGRESS_VERSION, results: {}, unlockedSensors: [], budgetBonus: 0 };
+}
+
+export function getMission(missionId: string): CampaignMission | undefined {
+  return CAMPAIGN_MISSIONS.find(candidate => candidate.id === missionId);
+}
+
+/**
+ * Whether a mission can be played: the first always, later ones once the one before is passed
+ */
+export function isMissionUnlocked(progress: CampaignProgress, missionId: string): boolean {
+  const index = CAMPAIGN_MISSIONS.findIndex(candidate => candidate.id === missionId);
+  if (index < 0) return false;
+  return index === 0 || progress.results[CAMPAIGN_MISSIONS[index - 1].id]?.passed === true;
+}
+
+/**
+ * The scenario to load for a mission, with the campaign's sensor unlocks and budget bonus applied
+ */
+export function getMissionScenario(progress: CampaignProgress, missionId: string): ScenarioFile {
+  const found = getMission(missionId);
+  if (!found) throw new Error(`Unknown campaign mission: ${missionId}`);
+
+  const { config } = found.scenario;
+  const sensors = config.availableSensors ?? [];
+  return {
+    ...found.scenario,
+    config: {
+      ...config,
+      availableSensors: [...sensors, ...progress.unlockedSensors.filter(sensor => !sensors.includes(sensor))],
+      ...(config.initialBudget !== undefined && { initialBudget: config.initialBudget + progress.budgetBonus }),
+    },
+  };
+}
+
+/**
+ * Score a finished game against its mission's thresholds and, when it has a debrief, its objectives
+ */
+export function evaluateMission(
+  missionId: string,
+  state: {
+    score: number;
+    analytics: Pick<GameAnalytics, 'calibrationError' | 'totalPredictions'>;
+    debrief?: MissionDebrief | null;
+  }
+): MissionResult {
+  const found = getMission(missionId);
+  if (!found) throw new Error(`Unknown campaign mission: ${missionId}`);
+
+  const { calibrationError, totalPredictions } = state.analytics;
+  return {
+    missionId,
+    score: state.score,
+    calibrationError,
+    readings: totalPredictions,
+    passed: state.score >= found.requirements.minScore &&
+      (state.debrief?.passed ?? true) &&
+      totalPredictions > 0 &&
+      calibrationError <= found.requirements.maxCalibrationError,
+  };
+}
+
+/**
+ * Record a mission result: keep the best result, and pay the rewards the first time it is passed
+ */
+export function recordMissionResult(progress: CampaignProgress, result: MissionResult): CampaignProgress {
+  const found = getMission(result.missionId);
+  if (!found) throw new Error(`Unknown campaign mission: ${result.missionId}`);
+
+  const previous = progress.results[result.missionId];
+  const firstPass = result.passed && !previous?.passed;
+  const better = !previous ||
+    Number(result.passed) > Number(previous.passed) ||
+    (result.passed === previous.passed && result.score > previous.score);
+
+  const next: CampaignProgress = {
+    ...progress,
+    results: better ? { ...progress.results, [result.missionId]: result } : progress.results,
+    unlockedSensors: [...progress.unlockedSensors],
+  };
+
+  if (firstPass) {
+    for (const reward of found.rewards) {
+      if (reward.type === 'sensorUnlock' && !next.unlockedSensors.includes(reward.sensor)) {
+        next.unlockedSensors.push(reward.sensor);
+      } else if (reward.type === 'budgetBonus') {
+        next.budgetBonus += reward.amount;
+      }
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Read saved progress, starting over when it is missing, malformed or from another version
+ */
+export function parseCampaignProgress(json: string | null): CampaignProgress {
+  if (!json) return createCampaignProgress();
+  try {
+    const data = JSON.parse(json) as Partial<CampaignProgress>;
+    if (data.version !== CAMPAIGN_PROGRESS_VERSION || typeof data.results !== 'object' || data.results === null ||
+      !Array.isArray(data.unlockedSensors) || typeof data.budgetBonus !== 'number') {
+      return createCampaignProgress();
+    }
+    return data as CampaignProgress;
+  } catch {
+    return createCampaignProgress();
+  }
+}
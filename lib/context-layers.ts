@@ -0,0 +1,129 @@
+import { GameConfig, HeatmapType, SensorType } from './types';
+import {
+  SensorContext,
+  TerrainType,
+  WeatherCondition,
+  JammingLevel,
+  getCellContext,
+  calculateEffectivePerformance,
+} from './sensors';
+
+/**
+ * Context inspection layers.
+ *
+ * The sensor context of every cell is known before any recon is flown, so
+ * the player can see it: terrain, weather and jamming as categorical map
+ * layers, and the expected TPR of the selected sensor as a banded layer.
+ */
+
+export type ContextHeatmapType = Extract<HeatmapType, 'terrain' | 'weather' | 'jamming' | 'expectedTPR'>;
+
+export const CONTEXT_HEATMAP_TYPES: ContextHeatmapType[] = ['terrain', 'weather', 'jamming', 'expectedTPR'];
+
+export function isContextHeatmapType(type: HeatmapType): type is ContextHeatmapType {
+  return (CONTEXT_HEATMAP_TYPES as HeatmapType[]).includes(type);
+}
+
+/**
+ * One legend entry of a context layer
+ */
+export interface ContextCategory {
+  label: string;
+  color: [number, number, number];
+}
+
+const TERRAIN_CATEGORIES: Record<TerrainType, ContextCategory> = {
+  open: { label: 'Open', color: [190, 220, 120] },
+  desert: { label: 'Desert', color: [230, 200, 120] },
+  urban: { label: 'Urban', color: [160, 160, 170] },
+  forest: { label: 'Forest', color: [40, 130, 70] },
+  mountain: { label: 'Mountain', color: [140, 100, 80] },
+};
+
+// Ordered from least to most degrading
+const WEATHER_CATEGORIES: Record<WeatherCondition, ContextCategory> = {
+  clear: { label: 'Clear', color: [120, 200, 255] },
+  overcast: { label: 'Overcast', color: [150, 160, 180] },
+  rain: { label: 'Rain', color: [60, 110, 220] },
+  fog: { label: 'Fog', color: [210, 210, 220] },
+  storm: { label: 'Storm', color: [120, 50, 160] },
+};
+
+const JAMMING_CATEGORIES: Record<JammingLevel, ContextCategory> = {
+  none: { label: 'None', color: [60, 180, 90] },
+  light: { label: 'Light', color: [230, 210, 80] },
+  moderate: { label: 'Moderate', color: [240, 140, 50] },
+  heavy: { label: 'Heavy', color: [220, 50, 50] },
+};
+
+// Expected TPR bands, lower bound inclusive
+const TPR_BANDS: { min: number; category: ContextCategory }[] = [
+  { min: 0.75, category: { label: '≥ 75%', color: [40, 200, 120] } },
+  { min: 0.5, category: { label: '50–75%', color: [170, 210, 70] } },
+  { min: 0.25, category: { label: '25–50%', color: [240, 170, 50] } },
+  { min: 0, category: { label: '< 25%', color: [220, 60, 60] } },
+];
+
+/**
+ * Legend entries for a context layer
+ */
+export function getContextCategories(type: ContextHeatmapType): ContextCategory[] {
+  switch (type) {
+    case 'terrain':
+      return Object.values(TERRAIN_CATEGORIES);
+    case 'weather':
+      return Object.values(WEATHER_CATEGORIES);
+    case 'jamming':
+      return Object.values(JAMMING_CATEGORIES);
+    case 'expectedTPR':
+      return TPR_BANDS.map(band => band.category);
+  }
+}
+
+/**
+ * Category of a cell on a context layer
+ */
+export function getContextCategory(type: ContextHeatmapType, context: SensorContext, sensor: SensorType): ContextCategory {
+  switch (type) {
+    case 'terrain':
+      return TERRAIN_CATEGORIES[context.terrain];
+    case 'weather':
+      return WEATHER_CATEGORIES[context.weather];
+    case 'jamming':
+      return JAMMING_CATEGORIES[context.jamming];
+    case 'expectedTPR': {
+      const tpr = calculateEffectivePerformance(sensor, context).effectiveTPR;
+      return TPR_BANDS.find(band => tpr >= band.min)!.category;
+    }
+  }
+}
+
+/**
+ * Numeric value of a cell on a context layer: the category index for the
+ * categorical layers (higher is more degrading for weather and jamming),
+ * the effective TPR for expectedTPR
+ */
+export function getContextLayerValue(type: ContextHeatmapType, context: SensorContext, sensor: SensorType): number {
+  switch (type) {
+    case 'terrain':
+      return Object.keys(TERRAIN_CATEGORIES).indexOf(context.terrain);
+    case 'weather':
+      return Object.keys(WEATHER_CATEGORIES).indexOf(context.weather);
+    case 'jamming':
+      return Object.keys(JAMMING_CATEGORIES).indexOf(context.jamming);
+    case 'expectedTPR':
+      return calculateEffectivePerformance(sensor, context).effectiveTPR;
+  }
+}
+
+/**
+ * Sensor context of every cell at a turn, indexed [y][x] like the game grid
+ */
+export function generateContextGrid(
+  config: Pick<GameConfig, 'gridSize' | 'seed' | 'contextOverrides' | 'environment'>,
+  turn: number
+): SensorContext[][] {
+  return Array.from({ length: config.gridSize }, (_, y) =>
+    Array.from({ length: config.gridSize }, (_, x) => getCellContext(x, y, config, turn))
+  );
+}
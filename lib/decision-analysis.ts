@@ -1,7 +1,11 @@
-import { GameCell, GameConfig, SensorType } from './types';
-import { createSubRNG } from './rng';
-import { simulateSensorReading, generateCellContext, calculateEffectivePerformance } from './sensors';
-import { updatePosteriorOdds } from './inference';
+import { GameCell, GameConfig, GameState, RoeVerdict, SensorType, WeaponType } from './types';
+import { SeededRNG, createSubRNG } from './rng';
+import { getCellContext, calculateEffectivePerformance, fuseRate, SensorReading } from './sensors';
+import { updatePosteriorOdds, updateInfraPosteriorOdds, applySpatialDiffusion, DEFAULT_DIFFUSION_CONFIG } from './inference';
+import { WEAPON_CATALOG, calculateDamageProbabilities, getImpactFootprint, sampleImpactPoint } from './weapons';
+import { isTargetClassesEnabled, getExpectedHostileValue, getHostileValue } from './target-classes';
+import { isFusionEnabled, getFusionExposure } from './fusion';
+import { evaluateRoe, RoeState } from './roe';
 
 /**
  * Area of Effect calculation using Manhattan distance
@@ -33,6 +37,32 @@ export function getAoECells(
   return cells;
 }
 
+/**
+ * Cells a strike may destroy with their damage probability. Without a weapon
+ * the legacy Manhattan footprint of the given radius is destroyed outright.
+ */
+export function getStrikeDamageCells(
+  centerX: number,
+  centerY: number,
+  radius: number,
+  gridWidth: number,
+  gridHeight: number,
+  weapon?: WeaponType
+): { x: number; y: number; damageProbability: number }[] {
+  if (weapon) {
+    return calculateDamageProbabilities(weapon, centerX, centerY, gridWidth, gridHeight);
+  }
+  return getAoECells(centerX, centerY, radius, gridWidth, gridHeight)
+    .map(cell => ({ ...cell, damageProbability: 1 }));
+}
+
+/**
+ * Cost of a strike with the given weapon (config.strikeCost for the legacy strike)
+ */
+export function getStrikeCost(config: GameConfig, weapon?: WeaponType): number {
+  return weapon ? WEAPON_CATALOG[weapon].cost : config.strikeCost;
+}
+
 /**
  * Strike outcome prediction
  */
@@ -44,7 +74,8 @@ export interface StrikeOutcome {
   expectedReward: number;
   expectedPenalty: number;
   cost: number;
-  affectedCells: { x: number; y: number }[];
+  weapon?: WeaponType;
+  affectedCells: { x: number; y: number; damageProbability: number }[];
 }
 
 /**
@@ -55,7 +86,8 @@ export function calculateStrikeEV(
   centerX: number,
   centerY: number,
   radius: number,
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType
 ): StrikeOutcome {
   if (grid.length === 0 || grid[0].length === 0) {
     return {
@@ -65,7 +97,8 @@ export function calculateStrikeEV(
       expectedValue: 0,
       expectedReward: 0,
       expectedPenalty: 0,
-      cost: config.strikeCost,
+      cost: getStrikeCost(config, weapon),
+      weapon,
       affectedCells: []
     };
   }
@@ -73,21 +106,28 @@ export function calculateStrikeEV(
   const gridHeight = grid.length;
   const gridWidth = grid[0].length;
   
-  const affectedCells = getAoECells(centerX, centerY, radius, gridWidth, gridHeight);
+  const affectedCells = getStrikeDamageCells(centerX, centerY, radius, gridWidth, gridHeight, weapon);
   
   let expectedHostilesHit = 0;
+  let expectedClassReward = 0;
   let expectedInfraHit = 0;
   let maxInfraProbability = 0;
+  const classesEnabled = isTargetClassesEnabled(config.targetClasses);
   
   // Calculate expected outcomes based on current beliefs
-  for (const { x, y } of affectedCells) {
+  for (const { x, y, damageProbability } of affectedCells) {
     const cell = grid[y][x];
     
-    // Expected hostiles hit = sum of hostile probabilities
-    expectedHostilesHit += cell.posteriorProbability;
+    // Expected hostiles hit = sum of P(hostile) · P(cell destroyed)
+    expectedHostilesHit += cell.posteriorProbability * damageProbability;
+    
+    // With hostile classes each hit is worth the expected value of what might be there
+    if (classesEnabled) {
+      expectedClassReward += cell.posteriorProbability * damageProbability * getExpectedHostileValue(cell, config);
+    }
     
-    // Expected infrastructure hit = sum of infrastructure probabilities
-    const infraProb = cell.infraPriorProbability; // Use prior infrastructure rate
+    // Expected infrastructure hit = sum of P(infra) · P(cell destroyed)
+    const infraProb = cell.infraPosteriorProbability * damageProbability;
     expectedInfraHit += infraProb;
     
     // Track maximum infrastructure probability for constraint checking
@@ -95,9 +135,9 @@ export function calculateStrikeEV(
   }
   
   // Calculate expected rewards and penalties
-  const expectedReward = expectedHostilesHit * config.hostileValue;
+  const expectedReward = classesEnabled ? expectedClassReward : expectedHostilesHit * config.hostileValue;
   const expectedPenalty = expectedInfraHit * config.infraPenalty;
-  const cost = config.strikeCost;
+  const cost = getStrikeCost(config, weapon);
   
   // Calculate expected value
   const expectedValue = expectedReward - expectedPenalty - cost;
@@ -110,6 +150,7 @@ export function calculateStrikeEV(
     expectedReward,
     expectedPenalty,
     cost,
+    weapon,
     affectedCells,
   };
 }
@@ -120,7 +161,8 @@ export function calculateStrikeEV(
 export function generateEVHeatmap(
   grid: GameCell[][],
   radius: number,
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType
 ): number[][] {
   const gridHeight = grid.length;
   const gridWidth = grid[0].length;
@@ -129,7 +171,7 @@ export function generateEVHeatmap(
   
   for (let y = 0; y < gridHeight; y++) {
     for (let x = 0; x < gridWidth; x++) {
-      const outcome = calculateStrikeEV(grid, x, y, radius, config);
+      const outcome = calculateStrikeEV(grid, x, y, radius, config, weapon);
       evHeatmap[y][x] = outcome.expectedValue;
     }
   }
@@ -146,10 +188,42 @@ export interface VOIAnalysis {
   valueOfInformation: number;
   reconCost: number;
   netVOI: number; // VOI minus recon cost
+  probabilityPositive: number; // P(+) = p·TPR + (1−p)·FPR
+  probabilityInfraPositive: number; // Same marginal for the infrastructure channel
 }
 
 /**
- * Approximate Value of Information for a reconnaissance action
+ * Best strike EV available once a hypothetical reading has been folded into the beliefs
+ */
+function bestEVAfterReading(
+  grid: GameCell[][],
+  reconX: number,
+  reconY: number,
+  reading: Pick<SensorReading, 'result' | 'effectiveTPR' | 'effectiveFPR' | 'infraResult' | 'effectiveInfraTPR' | 'effectiveInfraFPR'>,
+  config: GameConfig,
+  strikeRadius: number
+): number {
+  const hypotheticalGrid = grid.map(row => row.map(cell => ({ ...cell })));
+  const targetCell = hypotheticalGrid[reconY][reconX];
+  const newPosterior = updatePosteriorOdds(targetCell.posteriorProbability, reading);
+  
+  // Same order as a real recon: diffuse from the old posterior, then commit the target cell
+  applySpatialDiffusion(hypotheticalGrid, reconX, reconY, newPosterior, DEFAULT_DIFFUSION_CONFIG);
+  targetCell.posteriorProbability = newPosterior;
+  targetCell.infraPosteriorProbability = updateInfraPosteriorOdds(targetCell.infraPosteriorProbability, reading);
+  
+  const evHeatmap = generateEVHeatmap(hypotheticalGrid, strikeRadius, config);
+  return Math.max(...evHeatmap.map(row => Math.max(...row)));
+}
+
+/**
+ * Preposterior Value of Information for a reconnaissance action.
+ *
+ * The hidden truth is never consulted: the reading is marginalised over both
+ * hostile states using the cell's current posterior p, so
+ * P(+) = p·TPR + (1−p)·FPR and E[EV after recon] = P(+)·EV(+) + P(−)·EV(−).
+ * The infrastructure channel is marginalised the same way with q = P(infra),
+ * giving four joint outcomes (the channels are independent given the beliefs).
  */
 export function calculateReconVOI(
   grid: GameCell[][],
@@ -159,53 +233,53 @@ export function calculateReconVOI(
   config: GameConfig,
   strikeRadius: number = 1,
   seed: string,
-  numSamples: number = 50
+  turn: number = 0
 ): VOIAnalysis {
   
   // Current best expected value without reconnaissance
   const currentEVHeatmap = generateEVHeatmap(grid, strikeRadius, config);
   const currentEV = Math.max(...currentEVHeatmap.map(row => Math.max(...row)));
   
-  // Generate context for this recon
-  const contextRng = createSubRNG(seed, `voi-context-${reconX}-${reconY}`);
-  const context = generateCellContext(reconX, reconY, config.gridSize, contextRng);
+  // Use the same context stream as the actual recon so the likelihoods match
+  const context = getCellContext(reconX, reconY, { ...config, seed }, turn);
   const performance = calculateEffectivePerformance(sensor, context);
   const reconCost = performance.effectiveCost;
   
-  // Sample possible outcomes of reconnaissance
+  // Predictive probability of a positive reading under current beliefs
   const targetCell = grid[reconY][reconX];
-  let totalExpectedEV = 0;
-  
-  // Calculate probability of positive and negative readings
-  const hasHostile = targetCell.hasHostile; // We don't actually know this, but need it for sampling
-  const probPositive = hasHostile ? performance.effectiveTPR : performance.effectiveFPR;
-  
-  // Sample both possible sensor readings weighted by their probabilities
-  const sampleRng = createSubRNG(seed, `voi-sample-${reconX}-${reconY}-${sensor}`);
-  
-  for (let sample = 0; sample < numSamples; sample++) {
-    // Simulate a sensor reading
-    const sensorReading = simulateSensorReading(sensor, hasHostile, context, sampleRng);
-    
-    // Create a hypothetical grid state after this reading
-    const hypotheticalGrid = grid.map(row => 
-      row.map(cell => ({ ...cell, posteriorProbability: cell.posteriorProbability }))
-    );
-    
-    // Update the target cell's posterior probability
-    const newPosterior = updatePosteriorOdds(targetCell.posteriorProbability, sensorReading);
-    hypotheticalGrid[reconY][reconX].posteriorProbability = newPosterior;
-    
-    // Calculate EV heatmap after this hypothetical reconnaissance
-    const newEVHeatmap = generateEVHeatmap(hypotheticalGrid, strikeRadius, config);
-    const bestEVAfterRecon = Math.max(...newEVHeatmap.map(row => Math.max(...row)));
-    
-    // Weight by probability of this reading occurring
-    const readingProb = sensorReading.result ? probPositive : (1 - probPositive);
-    totalExpectedEV += bestEVAfterRecon * readingProb;
+  const p = targetCell.posteriorProbability;
+  const q = targetCell.infraPosteriorProbability;
+  const { effectiveInfraTPR, effectiveInfraFPR } = performance;
+  let { effectiveTPR, effectiveFPR } = performance;
+  
+  // A repeat of earlier correlated readings is worth less
+  if (isFusionEnabled(config.fusion)) {
+    const fusion = getFusionExposure(config.fusion, targetCell.reconHistory, sensor, performance.contextSummary);
+    effectiveTPR = fuseRate(effectiveTPR, fusion);
+    effectiveFPR = fuseRate(effectiveFPR, fusion);
+  }
+  const probabilityPositive = p * effectiveTPR + (1 - p) * effectiveFPR;
+  const probabilityInfraPositive = q * effectiveInfraTPR + (1 - q) * effectiveInfraFPR;
+  
+  // All readings are enumerated exactly, so no sampling noise enters the VOI
+  let expectedEVAfterRecon = 0;
+  for (const result of [true, false]) {
+    for (const infraResult of [true, false]) {
+      const probability =
+        (result ? probabilityPositive : 1 - probabilityPositive) *
+        (infraResult ? probabilityInfraPositive : 1 - probabilityInfraPositive);
+      
+      expectedEVAfterRecon += probability * bestEVAfterReading(
+        grid,
+        reconX,
+        reconY,
+        { result, effectiveTPR, effectiveFPR, infraResult, effectiveInfraTPR, effectiveInfraFPR },
+        config,
+        strikeRadius
+      );
+    }
   }
   
-  const expectedEVAfterRecon = totalExpectedEV / numSamples;
   const valueOfInformation = expectedEVAfterRecon - currentEV;
   const netVOI = valueOfInformation - reconCost;
   
@@ -215,6 +289,8 @@ export function calculateReconVOI(
     valueOfInformation,
     reconCost,
     netVOI,
+    probabilityPositive,
+    probabilityInfraPositive,
   };
 }
 
@@ -226,7 +302,8 @@ export function generateVOIHeatmap(
   sensor: SensorType,
   config: GameConfig,
   strikeRadius: number = 1,
-  seed: string
+  seed: string,
+  turn: number = 0
 ): number[][] {
   const gridHeight = grid.length;
   const gridWidth = grid[0].length;
@@ -240,7 +317,7 @@ export function generateVOIHeatmap(
       const recentRecons = cell.reconHistory.filter(r => r.turn >= config.maxTurns - 3).length;
       
       if (recentRecons < 2) { // Allow some repeated reconnaissance
-        const voiAnalysis = calculateReconVOI(grid, x, y, sensor, config, strikeRadius, seed, 20);
+        const voiAnalysis = calculateReconVOI(grid, x, y, sensor, config, strikeRadius, seed, turn);
         voiHeatmap[y][x] = Math.max(0, voiAnalysis.netVOI); // Only show positive VOI
       }
     }
@@ -257,40 +334,57 @@ export interface StrikeValidation {
   requiresConfirmation: boolean;
   reason: string;
   outcome: StrikeOutcome;
+  verdicts: RoeVerdict[];          // One per rule of engagement in force
 }
 
 /**
- * Validate a proposed strike against collateral damage constraints
+ * Validate a proposed strike against the remaining budget and the rules of
+ * engagement. A blocking verdict or a short budget disallows it; an approval
+ * verdict or a negative expected value asks for confirmation.
  */
 export function validateStrike(
-  grid: GameCell[][],
+  state: RoeState & Pick<GameState, 'remainingBudget'>,
   centerX: number,
   centerY: number,
   radius: number,
-  config: GameConfig
+  weapon?: WeaponType
 ): StrikeValidation {
-  const outcome = calculateStrikeEV(grid, centerX, centerY, radius, config);
-  
-  // Check collateral damage constraint
-  if (outcome.infraHitProbability > config.collateralThreshold) {
+  const outcome = calculateStrikeEV(state.grid, centerX, centerY, radius, state.config, weapon);
+  const verdicts = evaluateRoe(state, centerX, centerY, outcome);
+  const blocks = verdicts.filter(verdict => verdict.outcome === 'block');
+  const approvals = verdicts.filter(verdict => verdict.outcome === 'approval');
+
+  if (blocks.length > 0) {
     return {
       allowed: false,
-      requiresConfirmation: true,
-      reason: `High collateral risk: ${(outcome.infraHitProbability * 100).toFixed(1)}% > ${(config.collateralThreshold * 100).toFixed(1)}% threshold`,
+      requiresConfirmation: false,
+      reason: `ROE: ${blocks.map(verdict => verdict.reason).join('; ')}`,
       outcome,
+      verdicts,
     };
   }
-  
+
   // Check if we can afford the strike
-  if (config.strikeCost > config.initialBudget) { // This should check remaining budget
+  if (outcome.cost > state.remainingBudget) {
     return {
       allowed: false,
       requiresConfirmation: false,
-      reason: `Insufficient budget: Strike costs $${config.strikeCost}`,
+      reason: `Insufficient budget: Strike costs $${outcome.cost}, $${state.remainingBudget} remaining`,
       outcome,
+      verdicts,
     };
   }
-  
+
+  if (approvals.length > 0) {
+    return {
+      allowed: true,
+      requiresConfirmation: true,
+      reason: approvals.map(verdict => verdict.reason).join('; '),
+      outcome,
+      verdicts,
+    };
+  }
+
   // Check if strike has positive expected value
   if (outcome.expectedValue < 0) {
     return {
@@ -298,14 +392,16 @@ export function validateStrike(
       requiresConfirmation: true,
       reason: `Negative expected value: ${outcome.expectedValue.toFixed(0)} points`,
       outcome,
+      verdicts,
     };
   }
-  
+
   return {
     allowed: true,
     requiresConfirmation: false,
     reason: 'Strike approved',
     outcome,
+    verdicts,
   };
 }
 
@@ -318,51 +414,73 @@ export interface StrikeResult {
   totalReward: number;
   totalPenalty: number;
   netPoints: number;
-  affectedCells: { x: number; y: number; wasHostile: boolean; wasInfra: boolean }[];
+  impactX: number;
+  impactY: number;
+  weapon?: WeaponType;
+  affectedCells: {
+    x: number;
+    y: number;
+    wasHostile: boolean;
+    wasInfra: boolean;
+    killProbability: number;
+    destroyed: boolean;
+  }[];
 }
 
 /**
- * Execute strike against truth and calculate actual outcomes
+ * Execute strike against truth and calculate actual outcomes.
+ * With a weapon the impact point is drawn from its miss distribution and each
+ * footprint cell is destroyed with its kill probability, using `rng`.
  */
 export function executeStrike(
   grid: GameCell[][],
   centerX: number,
   centerY: number,
   radius: number,
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType,
+  rng?: SeededRNG
 ): StrikeResult {
   const gridHeight = grid.length;
   const gridWidth = grid[0].length;
   
-  const affectedCells = getAoECells(centerX, centerY, radius, gridWidth, gridHeight);
+  const strikeRng = weapon ? rng ?? createSubRNG(config.seed, `strike-${centerX}-${centerY}-${weapon}`) : null;
+  const impact = weapon && strikeRng
+    ? sampleImpactPoint(weapon, centerX, centerY, strikeRng)
+    : { x: centerX, y: centerY };
+  const footprint = weapon
+    ? getImpactFootprint(weapon, impact.x, impact.y, gridWidth, gridHeight)
+    : getAoECells(centerX, centerY, radius, gridWidth, gridHeight).map(cell => ({ ...cell, pk: 1 }));
   
   let hostilesHit = 0;
+  let totalReward = 0;
   let infraHit = 0;
-  const detailedResults: { x: number; y: number; wasHostile: boolean; wasInfra: boolean }[] = [];
+  const detailedResults: StrikeResult['affectedCells'] = [];
   
   // Execute strike against actual truth
-  for (const { x, y } of affectedCells) {
+  for (const { x, y, pk } of footprint) {
     const cell = grid[y][x];
     const wasHostile = cell.hasHostile;
     const wasInfra = cell.hasInfrastructure;
+    const destroyed = pk >= 1 || (strikeRng !== null && strikeRng.bernoulli(pk));
     
-    if (wasHostile) {
+    if (destroyed && wasHostile) {
       hostilesHit++;
+      totalReward += getHostileValue(cell, config);
       cell.hasHostile = false; // Neutralize hostile
     }
     
-    if (wasInfra) {
+    if (destroyed && wasInfra) {
       infraHit++;
       // Infrastructure is destroyed but we don't remove it from display
     }
     
-    detailedResults.push({ x, y, wasHostile, wasInfra });
+    detailedResults.push({ x, y, wasHostile, wasInfra, killProbability: pk, destroyed });
   }
   
-  // Calculate actual rewards and penalties
-  const totalReward = hostilesHit * config.hostileValue;
+  // Calculate actual penalties (rewards are summed per hostile class above)
   const totalPenalty = infraHit * config.infraPenalty;
-  const netPoints = totalReward - totalPenalty - config.strikeCost;
+  const netPoints = totalReward - totalPenalty - getStrikeCost(config, weapon);
   
   return {
     hostilesHit,
@@ -370,6 +488,9 @@ export function executeStrike(
     totalReward,
     totalPenalty,
     netPoints,
+    impactX: impact.x,
+    impactY: impact.y,
+    weapon,
     affectedCells: detailedResults,
   };
 }
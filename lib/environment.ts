@@ -0,0 +1,217 @@
+import { EnvironmentConfig, GameConfig } from './types';
+import { createSubRNG } from './rng';
+import type { JammingLevel, LightingCondition, SensorContext, WeatherCondition } from './sensors';
+
+/**
+ * Spatio-temporal environment.
+ *
+ * Terrain and concealment stay fixed per cell, but lighting, weather and
+ * jamming follow the clock: a day/night cycle driven by the turn number,
+ * weather fronts that drift across the grid (leaving one edge and coming
+ * back in at the other) and jammers that wander and switch on and off.
+ * Everything is drawn from the game seed, so the environment at any cell
+ * and turn is known in advance and can be forecast.
+ */
+
+/**
+ * Default environment: a day is eight turns, starting at dawn
+ */
+export const DEFAULT_ENVIRONMENT_CONFIG: EnvironmentConfig = {
+  enabled: true,
+  turnsPerDay: 8,
+  startHour: 6,
+  weatherFronts: 2,
+  frontSpeed: 1,
+  jammers: 2,
+};
+
+/**
+ * Whether a config uses the turn-by-turn environment
+ */
+export function isEnvironmentEnabled(environment: EnvironmentConfig | undefined): environment is EnvironmentConfig {
+  return environment !== undefined && environment.enabled;
+}
+
+/**
+ * A rain front (storm at its core) or a fog bank
+ */
+export interface WeatherFront {
+  kind: 'rain' | 'fog';
+  x: number;                       // Centre on turn 0
+  y: number;
+  dx: number;                      // Drift in cells per turn
+  dy: number;
+  radius: number;
+}
+
+/**
+ * A jamming emitter that drifts around the grid and runs on a duty cycle
+ */
+export interface Jammer {
+  x: number;                       // Position on turn 0
+  y: number;
+  dx: number;
+  dy: number;
+  radius: number;
+  period: number;                  // Turns in one on/off cycle
+  activeTurns: number;             // Turns per cycle the jammer transmits
+  phase: number;
+}
+
+export interface EnvironmentModel {
+  config: EnvironmentConfig;
+  gridSize: number;
+  fronts: WeatherFront[];
+  jammers: Jammer[];
+}
+
+/**
+ * The time-varying part of a cell's sensor context
+ */
+export type EnvironmentConditions = Pick<SensorContext, 'lighting' | 'weather' | 'jamming'>;
+
+// Ordered from least to most degrading, so overlapping fronts report the worst
+const WEATHER_SEVERITY: WeatherCondition[] = ['clear', 'overcast', 'rain', 'fog', 'storm'];
+const JAMMING_SEVERITY: JammingLevel[] = ['none', 'light', 'moderate', 'heavy'];
+
+/**
+ * Fronts and jammers for a game, drawn from its seed
+ */
+export function createEnvironmentModel(
+  config: Pick<GameConfig, 'gridSize' | 'seed'> & { environment: EnvironmentConfig }
+): EnvironmentModel {
+  const { gridSize, environment } = config;
+  const rng = createSubRNG(config.seed, 'environment');
+
+  const fronts = Array.from({ length: environment.weatherFronts }, (): WeatherFront => {
+    const heading = rng.randFloat(0, Math.PI * 2);
+    const speed = environment.frontSpeed * rng.randFloat(0.7, 1.3);
+    return {
+      kind: rng.bernoulli(0.3) ? 'fog' : 'rain',
+      x: rng.randFloat(0, gridSize),
+      y: rng.randFloat(0, gridSize),
+      dx: Math.cos(heading) * speed,
+      dy: Math.sin(heading) * speed,
+      radius: gridSize * rng.randFloat(0.2, 0.35),
+    };
+  });
+
+  const jammers = Array.from({ length: environment.jammers }, (): Jammer => {
+    const heading = rng.randFloat(0, Math.PI * 2);
+    const period = rng.randInt(3, 7);
+    return {
+      x: rng.randFloat(0, gridSize - 1),
+      y: rng.randFloat(0, gridSize - 1),
+      dx: Math.cos(heading) * 0.5,
+      dy: Math.sin(heading) * 0.5,
+      radius: Math.max(1.5, gridSize * rng.randFloat(0.2, 0.35)),
+      period,
+      activeTurns: rng.randInt(1, period),
+      phase: rng.randInt(0, period),
+    };
+  });
+
+  return { config: environment, gridSize, fronts, jammers };
+}
+
+/**
+ * Hour of day (0-24) at a turn
+ */
+export function getHourOfDay(environment: EnvironmentConfig, turn: number): number {
+  const hour = environment.startHour + turn * 24 / environment.turnsPerDay;
+  return ((hour % 24) + 24) % 24;
+}
+
+/**
+ * Military time for an hour of day, e.g. 1430
+ */
+export function formatHourOfDay(hour: number): string {
+  const minutes = Math.round(hour * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Lighting at a turn: day from 07:00 to 17:00 with two hours of dusk either side
+ */
+export function getLighting(environment: EnvironmentConfig, turn: number): LightingCondition {
+  const hour = getHourOfDay(environment, turn);
+  if (hour >= 7 && hour < 17) return 'day';
+  if (hour >= 5 && hour < 19) return 'dusk';
+  return 'night';
+}
+
+// Fronts wrap around a torus one diameter larger than the grid, so they clear an edge before re-entering
+function wrap(position: number, gridSize: number, margin: number): number {
+  const span = gridSize + 2 * margin;
+  return ((((position + margin) % span) + span) % span) - margin;
+}
+
+// Jammers bounce off the grid edges
+function reflect(position: number, gridSize: number): number {
+  const limit = gridSize - 1;
+  if (limit <= 0) return 0;
+  const folded = ((position % (2 * limit)) + 2 * limit) % (2 * limit);
+  return folded > limit ? 2 * limit - folded : folded;
+}
+
+/**
+ * Front centre at a turn
+ */
+export function getFrontPosition(model: EnvironmentModel, front: WeatherFront, turn: number): { x: number; y: number } {
+  return {
+    x: wrap(front.x + front.dx * turn, model.gridSize, front.radius),
+    y: wrap(front.y + front.dy * turn, model.gridSize, front.radius),
+  };
+}
+
+/**
+ * Jammer position at a turn, or null while it is off
+ */
+export function getJammerPosition(model: EnvironmentModel, jammer: Jammer, turn: number): { x: number; y: number } | null {
+  if ((turn + jammer.phase) % jammer.period >= jammer.activeTurns) return null;
+  return {
+    x: reflect(jammer.x + jammer.dx * turn, model.gridSize),
+    y: reflect(jammer.y + jammer.dy * turn, model.gridSize),
+  };
+}
+
+function frontWeather(front: WeatherFront, intensity: number, lighting: LightingCondition): WeatherCondition {
+  if (front.kind === 'rain') {
+    return intensity > 0.6 ? 'storm' : intensity > 0.3 ? 'rain' : 'overcast';
+  }
+  // Fog burns off to low cloud in daylight
+  return intensity > 0.4 && lighting !== 'day' ? 'fog' : 'overcast';
+}
+
+/**
+ * Lighting, weather and jamming at a cell and turn
+ */
+export function getEnvironmentConditions(
+  model: EnvironmentModel,
+  x: number,
+  y: number,
+  turn: number
+): EnvironmentConditions {
+  const lighting = getLighting(model.config, turn);
+
+  let weather: WeatherCondition = 'clear';
+  for (const front of model.fronts) {
+    const centre = getFrontPosition(model, front, turn);
+    const intensity = 1 - Math.hypot(x - centre.x, y - centre.y) / front.radius;
+    if (intensity <= 0) continue;
+    const candidate = frontWeather(front, intensity, lighting);
+    if (WEATHER_SEVERITY.indexOf(candidate) > WEATHER_SEVERITY.indexOf(weather)) weather = candidate;
+  }
+
+  let jamming: JammingLevel = 'none';
+  for (const jammer of model.jammers) {
+    const position = getJammerPosition(model, jammer, turn);
+    if (!position) continue;
+    const intensity = 1 - Math.hypot(x - position.x, y - position.y) / jammer.radius;
+    if (intensity <= 0) continue;
+    const candidate: JammingLevel = intensity > 0.66 ? 'heavy' : intensity > 0.33 ? 'moderate' : 'light';
+    if (JAMMING_SEVERITY.indexOf(candidate) > JAMMING_SEVERITY.indexOf(jamming)) jamming = candidate;
+  }
+
+  return { lighting, weather, jamming };
+}
@@ -0,0 +1,289 @@
+import { GameCell, GameConfig, GameEvent, InferenceMode, SpatialFieldConfig } from './types';
+import { SeededRNG } from './rng';
+import { isMovementEnabled } from './movement';
+
+/**
+ * Latent-field inference for hostile beliefs.
+ *
+ * Instead of nudging neighbours after each reading, the grid is treated as an
+ * Ising-style Markov random field: every cell has a unary term (prior bias plus
+ * the log-likelihood ratios of all its readings) and 4-neighbours share a
+ * coupling that rewards equal states. Posteriors are the approximate marginals
+ * of that field, recomputed from the full evidence, so repeated scans are
+ * never double counted.
+ */
+
+/**
+ * Solver settings for field inference
+ */
+export interface FieldInferenceConfig {
+  maxIterations: number;   // Loopy BP sweeps
+  damping: number;         // Weight on the previous message (0 = undamped)
+  tolerance: number;       // Largest message change treated as converged
+  gibbsBurnIn: number;     // Sweeps discarded before averaging
+  gibbsSamples: number;    // Sweeps averaged into the marginals
+}
+
+export const DEFAULT_FIELD_INFERENCE_CONFIG: FieldInferenceConfig = {
+  maxIterations: 100,
+  damping: 0.5,
+  tolerance: 1e-6,
+  gibbsBurnIn: 50,
+  gibbsSamples: 200,
+};
+
+/**
+ * Outcome of a field inference run
+ */
+export interface FieldInferenceResult {
+  marginals: number[][];
+  iterations: number;
+  converged: boolean;
+}
+
+// Same bounds as probabilityToOdds, so field posteriors feed the odds updates safely
+const MIN_MARGINAL = 0.001;
+const MAX_MARGINAL = 0.999;
+
+// Floor on a strike's likelihood ratio (a guaranteed kill is not treated as impossible)
+const MIN_STRIKE_LIKELIHOOD_RATIO = 0.001;
+
+const NEIGHBOUR_OFFSETS = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 },
+];
+
+// 90% of the Bethe critical coupling on a 4-regular lattice (spin coupling atanh(1/3))
+const MAX_COUPLING = 0.9 * 2 * Math.atanh(1 / 3);
+
+// Direction that points back along each offset
+const OPPOSITE = [2, 3, 0, 1];
+
+function sigmoid(logOdds: number): number {
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+function clampMarginal(p: number): number {
+  return Math.min(MAX_MARGINAL, Math.max(MIN_MARGINAL, p));
+}
+
+/**
+ * BP message (log-ratio) sent across an edge with coupling J from a node whose
+ * cavity log-odds is a: log[(e^(a+J) + 1) / (e^a + e^J)]
+ */
+function edgeMessage(cavity: number, coupling: number): number {
+  // Written in a numerically stable form for large |a|
+  if (cavity > 0) {
+    return coupling + Math.log1p(Math.exp(-cavity - coupling)) - Math.log1p(Math.exp(coupling - cavity));
+  }
+  return Math.log1p(Math.exp(cavity + coupling)) - Math.log1p(Math.exp(cavity - coupling)) - coupling;
+}
+
+/**
+ * Whether a game uses field inference. Field modes assume static hostiles,
+ * so games with movement keep the diffusion update.
+ */
+export function usesFieldInference(config: GameConfig): boolean {
+  return (config.inferenceMode ?? 'diffusion') !== 'diffusion' && !isMovementEnabled(config.movement);
+}
+
+/**
+ * Neighbour coupling matching the generative smoothing. Gaussian-smoothed
+ * white noise has correlation ρ = exp(−1 / 4σ²) between 4-neighbours; the
+ * arcsine law turns that into a binary correlation r = (2/π)·asin(ρ), which
+ * is spread over the four bonds of a cell. The result is capped below the
+ * Bethe critical coupling so BP keeps a single fixed point.
+ */
+export function deriveFieldCoupling(spatialConfig: SpatialFieldConfig): number {
+  const sigma = Math.max(spatialConfig.smoothingSigma, 1e-3);
+  const latentCorrelation = Math.exp(-1 / (4 * sigma * sigma));
+  const binaryCorrelation = Math.min((2 / Math.PI) * Math.asin(latentCorrelation), 0.999);
+
+  // Equal-state potential J corresponds to a spin coupling of J/2
+  const coupling = 2 * Math.atanh(binaryCorrelation) / NEIGHBOUR_OFFSETS.length;
+  return Math.min(coupling, MAX_COUPLING);
+}
+
+/**
+ * Unary bias that makes the prior marginal of an interior cell (no evidence)
+ * equal priorProbability under homogeneous BP, found by bisection
+ */
+export function calibrateFieldBias(priorProbability: number, coupling: number, degree: number = 4): number {
+  const target = Math.log(priorProbability / (1 - priorProbability));
+
+  const marginalLogOdds = (bias: number) => {
+    let message = 0;
+    for (let i = 0; i < 200; i++) {
+      message = edgeMessage(bias + (degree - 1) * message, coupling);
+    }
+    return bias + degree * message;
+  };
+
+  let low = target - 20;
+  let high = target + 20;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (marginalLogOdds(mid) < target) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Log-likelihood ratio of every cell's evidence: all recon readings plus
+ * strikes, which lower the odds of a surviving hostile by (1 − Pk)
+ */
+export function collectFieldEvidence(grid: GameCell[][], eventLog: GameEvent[]): number[][] {
+  const evidence = grid.map(row => row.map(cell =>
+    cell.reconHistory.reduce((sum, reading) => sum + (reading.result
+      ? Math.log(reading.effectiveTPR / reading.effectiveFPR)
+      : Math.log((1 - reading.effectiveTPR) / (1 - reading.effectiveFPR))), 0)
+  ));
+
+  for (const event of eventLog) {
+    if (event.type !== 'strike') continue;
+    const affectedCells = event.data.affectedCells as { x: number; y: number; killProbability?: number }[] | undefined;
+    for (const { x, y, killProbability = 1 } of affectedCells ?? []) {
+      if (!evidence[y] || evidence[y][x] === undefined) continue;
+      evidence[y][x] += Math.log(Math.max(MIN_STRIKE_LIKELIHOOD_RATIO, 1 - killProbability));
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * Approximate marginals with synchronous, damped loopy belief propagation
+ */
+export function runLoopyBeliefPropagation(
+  unary: number[][],
+  coupling: number,
+  options: FieldInferenceConfig = DEFAULT_FIELD_INFERENCE_CONFIG
+): FieldInferenceResult {
+  const height = unary.length;
+  const width = height > 0 ? unary[0].length : 0;
+  const inside = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+
+  // messages[(cell * 4) + dir] is the log-ratio message from cell to its neighbour in dir
+  let messages = new Float64Array(width * height * 4);
+  let iterations = 0;
+  let converged = false;
+
+  const incoming = (x: number, y: number, dir: number) => {
+    const { dx, dy } = NEIGHBOUR_OFFSETS[dir];
+    const nx = x + dx;
+    const ny = y + dy;
+    return inside(nx, ny) ? messages[(ny * width + nx) * 4 + OPPOSITE[dir]] : 0;
+  };
+
+  while (iterations < options.maxIterations && !converged) {
+    const next = new Float64Array(messages.length);
+    let maxChange = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const total = unary[y][x] + [0, 1, 2, 3].reduce((sum, dir) => sum + incoming(x, y, dir), 0);
+
+        for (let dir = 0; dir < 4; dir++) {
+          const { dx, dy } = NEIGHBOUR_OFFSETS[dir];
+          if (!inside(x + dx, y + dy)) continue;
+
+          const index = (y * width + x) * 4 + dir;
+          const cavity = total - incoming(x, y, dir);
+          const updated = (1 - options.damping) * edgeMessage(cavity, coupling) + options.damping * messages[index];
+          next[index] = updated;
+          maxChange = Math.max(maxChange, Math.abs(updated - messages[index]));
+        }
+      }
+    }
+
+    messages = next;
+    iterations++;
+    converged = maxChange < options.tolerance;
+  }
+
+  const marginals = unary.map((row, y) => row.map((value, x) =>
+    clampMarginal(sigmoid(value + [0, 1, 2, 3].reduce((sum, dir) => sum + incoming(x, y, dir), 0)))
+  ));
+
+  return { marginals, iterations, converged };
+}
+
+/**
+ * Approximate marginals with Gibbs sampling. Each sweep averages the
+ * conditional probabilities (Rao-Blackwellised) rather than the raw states.
+ */
+export function runGibbsSampler(
+  unary: number[][],
+  coupling: number,
+  rng: SeededRNG,
+  options: FieldInferenceConfig = DEFAULT_FIELD_INFERENCE_CONFIG
+): FieldInferenceResult {
+  const height = unary.length;
+  const width = height > 0 ? unary[0].length : 0;
+  const state = unary.map(row => row.map(value => rng.bernoulli(sigmoid(value))));
+  const sums = unary.map(row => row.map(() => 0));
+  const sweeps = options.gibbsBurnIn + options.gibbsSamples;
+
+  for (let sweep = 0; sweep < sweeps; sweep++) {
+    const recording = sweep >= options.gibbsBurnIn;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let logOdds = unary[y][x];
+        for (const { dx, dy } of NEIGHBOUR_OFFSETS) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+            logOdds += state[ny][nx] ? coupling : -coupling;
+          }
+        }
+
+        const probability = sigmoid(logOdds);
+        if (recording) sums[y][x] += probability;
+        state[y][x] = rng.bernoulli(probability);
+      }
+    }
+  }
+
+  const samples = Math.max(1, options.gibbsSamples);
+  return {
+    marginals: sums.map(row => row.map(sum => clampMarginal(sum / samples))),
+    iterations: sweeps,
+    converged: true,
+  };
+}
+
+/**
+ * Recompute every hostile posterior from the field prior and the evidence.
+ * Gibbs sampling needs an RNG so results stay reproducible.
+ */
+export function inferFieldPosteriors(
+  grid: GameCell[][],
+  config: GameConfig,
+  evidence: number[][],
+  mode: Exclude<InferenceMode, 'diffusion'>,
+  rng?: SeededRNG,
+  options: FieldInferenceConfig = DEFAULT_FIELD_INFERENCE_CONFIG
+): FieldInferenceResult {
+  const { hostileAlpha, hostileBeta } = config.betaPriors;
+  const coupling = deriveFieldCoupling(config.spatialField);
+  const bias = calibrateFieldBias(hostileAlpha / (hostileAlpha + hostileBeta), coupling);
+  const unary = evidence.map(row => row.map(value => bias + value));
+
+  let result: FieldInferenceResult;
+  if (mode === 'gibbs') {
+    if (!rng) throw new Error('Gibbs field inference requires a seeded RNG');
+    result = runGibbsSampler(unary, coupling, rng, options);
+  } else {
+    result = runLoopyBeliefPropagation(unary, coupling, options);
+  }
+
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    cell.posteriorProbability = result.marginals[y][x];
+  }));
+
+  return result;
+}
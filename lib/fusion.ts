@@ -0,0 +1,55 @@
+import { FusionConfig, ReconResult, SensorType } from './types';
+import type { FusionExposure } from './sensors';
+
+/**
+ * Correlated sensor fusion.
+ *
+ * A sensor looking at the same cell in the same conditions makes the same
+ * mistakes: the same fog hides the same vehicle, the same clutter fools the
+ * same algorithm. Readings of one (cell, sensor, context) group therefore
+ * share a latent bias, modelled as a Beta-distributed rate around the
+ * sensor's TPR or FPR. A new reading is weighed by its Beta-binomial
+ * predictive given the group's earlier readings, so the tenth drone pass
+ * through the same fog adds little, while a different sensor, or the same
+ * sensor once the weather changes, starts a fresh group and counts in full.
+ * Only the hostile channel is correlated.
+ */
+
+/**
+ * Default fusion: two readings in the same group are correlated at 0.3
+ */
+export const DEFAULT_FUSION_CONFIG: FusionConfig = {
+  enabled: true,
+  correlation: 0.3,
+};
+
+/**
+ * Whether a config correlates repeat readings
+ */
+export function isFusionEnabled(fusion: FusionConfig | undefined): fusion is FusionConfig {
+  return fusion !== undefined && fusion.enabled;
+}
+
+/**
+ * Beta concentration κ for a pairwise correlation ρ = 1 / (κ + 1)
+ */
+export function getFusionConcentration(fusion: FusionConfig): number {
+  return (1 - fusion.correlation) / fusion.correlation;
+}
+
+/**
+ * Earlier readings that share a bias with a new reading by a sensor in a context
+ */
+export function getFusionExposure(
+  fusion: FusionConfig,
+  reconHistory: ReconResult[],
+  sensor: SensorType,
+  contextSummary: string
+): FusionExposure {
+  const group = reconHistory.filter(recon => recon.sensor === sensor && recon.contextSummary === contextSummary);
+  return {
+    readings: group.length,
+    positives: group.filter(recon => recon.result).length,
+    concentration: getFusionConcentration(fusion),
+  };
+}
@@ -0,0 +1,582 @@
+import { GameState, GameConfig, GameAnalytics, SensorType, WeaponType } from './types';
+import { createSubRNG } from './rng';
+import {
+  DEFAULT_SPATIAL_CONFIG,
+  DEFAULT_BETA_PRIORS,
+  generateTruthField,
+  applyTruthPlacements,
+  createEnhancedGameCells,
+  calculateSpatialCorrelation,
+  calculateSpatialAccuracy
+} from './truth-generation';
+import {
+  simulateSensorReading,
+  createReconRNG,
+  getCellContext,
+  calculateEffectivePerformance,
+  SensorReading,
+  EffectiveSensorPerformance
+} from './sensors';
+import {
+  updatePosteriorOdds,
+  updateInfraPosteriorOdds,
+  applySpatialDiffusion,
+  RunningCalibration,
+  DEFAULT_DIFFUSION_CONFIG
+} from './inference';
+import {
+  validateStrike,
+  executeStrike,
+  StrikeValidation,
+  StrikeResult
+} from './decision-analysis';
+import { createStrikeRNG } from './weapons';
+import { isMovementEnabled, buildTransitionKernel, predictBeliefs, moveHostiles, createMovementRNG } from './movement';
+import { usesFieldInference, collectFieldEvidence, inferFieldPosteriors } from './field-inference';
+import { calculateTurnMetrics } from './analytics-export';
+import { isLogisticsEnabled, planSortie, SortiePlan } from './logistics';
+import { isAdversaryEnabled, placeDecoys, getAdversaryExposure, updateDecoyProbability } from './adversary';
+import { isTargetClassesEnabled, assignHostileClasses, getTargetExposure, updateClassCounts } from './target-classes';
+import { isFusionEnabled, getFusionExposure } from './fusion';
+import { hasObjectives, evaluateObjectives, shouldEndEarly } from './objectives';
+
+/**
+ * Pure game rules shared by the Zustand store and headless runners.
+ *
+ * Every function mutates the state it is given, so it works equally on an
+ * immer draft inside the store and on a plain object in Node.
+ */
+
+/**
+ * Subset of GameState the rules operate on (no UI or loading state)
+ */
+export type EngineState = Pick<
+  GameState,
+  'grid' | 'config' | 'currentTurn' | 'remainingBudget' | 'score' | 'actionCount' |
+  'gameEnded' | 'eventLog' | 'analytics' | 'truthField'
+>;
+
+/**
+ * Calibration trackers for hostile and infrastructure beliefs and the player's estimates
+ */
+export interface CalibrationTrackers {
+  hostile: RunningCalibration;
+  infra: RunningCalibration;
+  player: RunningCalibration;      // The player's calibration drill estimates
+}
+
+/**
+ * Posterior floor for cells inside a strike footprint (reached by a guaranteed kill)
+ */
+export const NEUTRALISED_POSTERIOR = 0.001;
+
+/**
+ * Create empty analytics for a new game
+ */
+export function createInitialAnalytics(): GameAnalytics {
+  return {
+    hostilesNeutralized: 0,
+    infraHits: 0,
+    totalCost: 0,
+    brierScore: 0,
+    logLoss: 0,
+    calibrationData: [],
+    evAccuracy: 0,
+    infraBrierScore: 0,
+    infraLogLoss: 0,
+    truthCorrelation: 0,
+    spatialAccuracy: 0,
+    calibrationError: 0,
+    reliability: 0,
+    resolution: 0,
+    uncertainty: 0,
+    totalPredictions: 0,
+    playerBrierScore: 0,
+    playerLogLoss: 0,
+    playerCalibrationError: 0,
+    playerPredictions: 0,
+    timelineData: [],
+  };
+}
+
+/**
+ * Create fresh calibration trackers
+ */
+export function createCalibrationTrackers(): CalibrationTrackers {
+  return {
+    hostile: new RunningCalibration(),
+    infra: new RunningCalibration(),
+    player: new RunningCalibration(),
+  };
+}
+
+/**
+ * Standard rules for a new game, shared by the app and headless runs
+ */
+export function createDefaultConfig(seed: string): GameConfig {
+  return {
+    gridSize: 14,
+    initialBudget: 1000,
+    maxTurns: 10,
+    hostileValue: 100,
+    infraPenalty: 200,
+    strikeCost: 50,
+    reconCost: 10,
+    collateralThreshold: 0.1,
+    riskAversion: 0.5,
+    seed,
+    
+    // Enhanced truth generation config
+    spatialField: DEFAULT_SPATIAL_CONFIG,
+    betaPriors: DEFAULT_BETA_PRIORS,
+    
+    // Development options
+    showTruthOverlay: false,
+  };
+}
+
+/**
+ * Build a new game state (truth field, grid and analytics) from a config
+ */
+export function createEngineState(config: GameConfig): EngineState {
+  const truthField = generateTruthField(
+    config.gridSize,
+    config.gridSize,
+    config.spatialField,
+    config.betaPriors,
+    config.seed
+  );
+  applyTruthPlacements(truthField, config.hostilePlacements, config.infraPlacements);
+
+  const state: EngineState = {
+    grid: createEnhancedGameCells(config.gridSize, config.gridSize, truthField, config.betaPriors),
+    config,
+    currentTurn: 0,
+    remainingBudget: config.initialBudget,
+    score: 0,
+    actionCount: 0,
+    gameEnded: false,
+    eventLog: [],
+    analytics: createInitialAnalytics(),
+    truthField,
+  };
+
+  if (isAdversaryEnabled(config.adversary)) {
+    placeDecoys(state.grid, { seed: config.seed, adversary: config.adversary });
+  }
+  if (isTargetClassesEnabled(config.targetClasses)) {
+    assignHostileClasses(state.grid, { seed: config.seed, spatialField: config.spatialField, targetClasses: config.targetClasses });
+  }
+
+  // Field modes start from the field's own prior marginals
+  if (usesFieldInference(config)) refreshFieldPosteriors(state);
+
+  return state;
+}
+
+/**
+ * Recompute belief/truth correlation and spatial accuracy
+ */
+export function updateSpatialAnalytics(state: EngineState): void {
+  if (state.grid.length === 0) return;
+
+  const posteriorField = state.grid.map(row => row.map(cell => cell.posteriorProbability));
+  const truthField = state.grid.map(row => row.map(cell => cell.hasHostile ? 1 : 0));
+
+  state.analytics.truthCorrelation = calculateSpatialCorrelation(posteriorField, truthField);
+  state.analytics.spatialAccuracy = calculateSpatialAccuracy(posteriorField, truthField);
+}
+
+/**
+ * Recompute every hostile posterior from the latent field and all evidence so far
+ */
+function refreshFieldPosteriors(state: EngineState): void {
+  const mode = state.config.inferenceMode;
+  if (!mode || mode === 'diffusion') return;
+
+  const evidence = collectFieldEvidence(state.grid, state.eventLog);
+  const rng = mode === 'gibbs' ? createSubRNG(state.config.seed, `gibbs-${state.actionCount}`) : undefined;
+  inferFieldPosteriors(state.grid, state.config, evidence, mode, rng);
+}
+
+/**
+ * End the game before its turn limit when the objectives' early-termination rules call for it
+ */
+function checkEarlyTermination(state: EngineState): void {
+  const { objectives } = state.config;
+  if (state.gameEnded || !hasObjectives(objectives) || objectives.earlyTermination.length === 0) return;
+
+  const results = evaluateObjectives(state, objectives);
+  if (!shouldEndEarly(results, objectives)) return;
+
+  state.gameEnded = true;
+  state.eventLog.push({
+    turn: state.currentTurn,
+    type: 'game_end',
+    data: {
+      score: state.score,
+      endedEarly: true,
+      objectivesFailed: results.filter(result => result.status === 'failed').length,
+    },
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Whether the config lets the player task a sensor
+ */
+export function isSensorAvailable(config: Pick<GameConfig, 'availableSensors'>, sensor: SensorType): boolean {
+  return config.availableSensors === undefined || config.availableSensors.includes(sensor);
+}
+
+/**
+ * Result of a completed reconnaissance action
+ */
+export interface ReconOutcome {
+  actionIndex: number;
+  sensorReading: SensorReading;
+  performance: EffectiveSensorPerformance;
+  priorProbability: number;
+  posteriorProbability: number;
+  infraPriorProbability: number;
+  infraPosteriorProbability: number;
+  cost: number;
+  sortie?: SortiePlan;             // Asset that flew the scan, when logistics are enabled
+}
+
+/**
+ * Perform a reconnaissance action: simulate the reading, update beliefs,
+ * charge the budget, track calibration and log the event.
+ * Returns null when the game is over, the cell is out of bounds, the sensor
+ * is unavailable or unaffordable, or (with logistics) no asset of that sensor
+ * can fly the sortie.
+ */
+export function applyRecon(
+  state: EngineState,
+  x: number,
+  y: number,
+  sensor: SensorType,
+  calibration: CalibrationTrackers
+): ReconOutcome | null {
+  if (state.gameEnded) return null;
+  if (!state.grid || state.grid.length === 0 || !state.grid[y] || !state.grid[y][x]) return null;
+  if (!isSensorAvailable(state.config, sensor)) return null;
+
+  const cell = state.grid[y][x];
+
+  // Generate context for this cell
+  const context = getCellContext(x, y, state.config, state.currentTurn);
+  const performance = calculateEffectivePerformance(sensor, context);
+
+  if (state.remainingBudget < performance.effectiveCost) return null;
+
+  const logistics = state.config.logistics;
+  const sortie = isLogisticsEnabled(logistics)
+    ? planSortie(logistics, state.eventLog, state.currentTurn, sensor, x, y)
+    : undefined;
+  if (sortie && !sortie.feasible) return null;
+
+  // Generate sensor reading from this action's own RNG stream
+  const actionIndex = state.actionCount;
+  const readingRng = createReconRNG(state.config.seed, state.currentTurn, actionIndex, x, y, sensor);
+  const adversary = state.config.adversary;
+  const exposure = isAdversaryEnabled(adversary)
+    ? getAdversaryExposure(adversary, cell, state.currentTurn)
+    : undefined;
+  const target = isTargetClassesEnabled(state.config.targetClasses) ? getTargetExposure(cell, sensor) : undefined;
+  const fusion = state.config.fusion;
+  const fusionExposure = isFusionEnabled(fusion)
+    ? getFusionExposure(fusion, cell.reconHistory, sensor, performance.contextSummary)
+    : undefined;
+  const sensorReading = simulateSensorReading(
+    sensor,
+    cell.hasHostile,
+    cell.hasInfrastructure,
+    context,
+    readingRng,
+    exposure,
+    target,
+    fusionExposure
+  );
+  if (exposure) {
+    cell.decoyProbability = updateDecoyProbability(
+      exposure.decoyProbability,
+      sensor,
+      sensorReading.result,
+      performance.effectiveFPR
+    );
+  }
+  if (cell.classCounts && sensorReading.classLabel) {
+    cell.classCounts = updateClassCounts(cell.classCounts, sensor, sensorReading.classLabel, performance.effectiveTPR);
+  }
+
+  // Update hostile posterior and spread the evidence to neighbours (field modes re-infer below)
+  const fieldInference = usesFieldInference(state.config);
+  const priorProbability = cell.posteriorProbability;
+  let posteriorProbability = updatePosteriorOdds(priorProbability, sensorReading);
+  if (!fieldInference) {
+    applySpatialDiffusion(state.grid, x, y, posteriorProbability, DEFAULT_DIFFUSION_CONFIG);
+    cell.posteriorProbability = posteriorProbability;
+  }
+
+  // Infrastructure belief is updated from its own detection channel
+  const infraPriorProbability = cell.infraPosteriorProbability;
+  const infraPosteriorProbability = updateInfraPosteriorOdds(infraPriorProbability, sensorReading);
+  cell.infraPosteriorProbability = infraPosteriorProbability;
+
+  cell.reconHistory.push({
+    sensor,
+    result: sensorReading.result,
+    turn: state.currentTurn,
+    timestamp: Date.now(),
+    effectiveTPR: sensorReading.effectiveTPR,
+    effectiveFPR: sensorReading.effectiveFPR,
+    confidence: sensorReading.confidence,
+    contextSummary: performance.contextSummary,
+    priorProbability,
+    posteriorProbability,
+    infraResult: sensorReading.infraResult,
+    effectiveInfraTPR: sensorReading.effectiveInfraTPR,
+    effectiveInfraFPR: sensorReading.effectiveInfraFPR,
+    infraPriorProbability,
+    infraPosteriorProbability,
+    ...(sensorReading.classLabel && { classLabel: sensorReading.classLabel }),
+  });
+
+  if (fieldInference) {
+    refreshFieldPosteriors(state);
+    posteriorProbability = cell.posteriorProbability;
+    cell.reconHistory[cell.reconHistory.length - 1].posteriorProbability = posteriorProbability;
+  }
+
+  state.actionCount++;
+  state.remainingBudget -= performance.effectiveCost;
+  state.analytics.totalCost += performance.effectiveCost;
+
+  // Track calibration of both belief channels
+  calibration.hostile.addPrediction(posteriorProbability, cell.hasHostile);
+  state.analytics.totalPredictions++;
+
+  const calibrationMetrics = calibration.hostile.getMetrics();
+  state.analytics.brierScore = calibrationMetrics.brierScore;
+  state.analytics.logLoss = calibrationMetrics.logLoss;
+  state.analytics.calibrationError = calibrationMetrics.calibrationError;
+  state.analytics.reliability = calibrationMetrics.reliability;
+  state.analytics.resolution = calibrationMetrics.resolution;
+  state.analytics.uncertainty = calibrationMetrics.uncertainty;
+  state.analytics.calibrationData = calibrationMetrics.buckets.map(bucket => ({
+    predicted: bucket.averagePrediction,
+    actual: bucket.actualRate,
+    count: bucket.count,
+  }));
+
+  calibration.infra.addPrediction(infraPosteriorProbability, cell.hasInfrastructure);
+  const infraAverages = calibration.infra.getRunningAverages();
+  state.analytics.infraBrierScore = infraAverages.brierScore;
+  state.analytics.infraLogLoss = infraAverages.logLoss;
+
+  state.eventLog.push({
+    turn: state.currentTurn,
+    type: 'recon',
+    data: {
+      x,
+      y,
+      sensor,
+      actionIndex,
+      reading: sensorReading.result,
+      posterior: posteriorProbability,
+      prior: priorProbability,
+      infraReading: sensorReading.infraResult,
+      infraPosterior: infraPosteriorProbability,
+      infraPrior: infraPriorProbability,
+      effectiveTPR: sensorReading.effectiveTPR,
+      effectiveFPR: sensorReading.effectiveFPR,
+      confidence: sensorReading.confidence,
+      context: performance.contextSummary,
+      cost: performance.effectiveCost,
+      ...(sortie && {
+        assetId: sortie.assetId,
+        flightTurns: sortie.flightTurns,
+        returnedToBase: sortie.returnsToBase,
+      }),
+      ...(exposure && {
+        silent: exposure.silent,
+        decoyProbability: cell.decoyProbability,
+      }),
+      ...(target && { classLabel: sensorReading.classLabel ?? null }),
+      ...(fusionExposure && { correlatedReadings: fusionExposure.readings }),
+    },
+    timestamp: Date.now(),
+  });
+
+  updateSpatialAnalytics(state);
+  checkEarlyTermination(state);
+
+  return {
+    actionIndex,
+    sensorReading,
+    performance,
+    priorProbability,
+    posteriorProbability,
+    infraPriorProbability,
+    infraPosteriorProbability,
+    cost: performance.effectiveCost,
+    sortie,
+  };
+}
+
+/**
+ * Fold a strike into the hostile beliefs. The impact point is observed, so a
+ * hostile survives in a footprint cell with P(hostile)·(1 − Pk), and a legacy
+ * strike (Pk = 1) leaves its footprint at NEUTRALISED_POSTERIOR. Without this
+ * a struck cell keeps its pre-strike belief, and the EV layer and planners
+ * keep recommending the same kill. Field inference modes take strikes in as
+ * evidence instead.
+ */
+export function observeStrike(state: Pick<EngineState, 'grid'>, result: Pick<StrikeResult, 'affectedCells'>): void {
+  for (const { x, y, killProbability } of result.affectedCells) {
+    const cell = state.grid[y][x];
+    cell.posteriorProbability = Math.max(NEUTRALISED_POSTERIOR, cell.posteriorProbability * (1 - killProbability));
+  }
+}
+
+/**
+ * Outcome of a strike attempt (blocked attempts carry the reason)
+ */
+export interface StrikeAttempt {
+  executed: boolean;
+  reason: string;
+  validation: StrikeValidation | null;
+  result?: StrikeResult;
+}
+
+/**
+ * Validate and, if permitted, execute a strike against the truth.
+ * Without a weapon the legacy strike destroys the radius footprint outright.
+ */
+export function applyStrike(
+  state: EngineState,
+  x: number,
+  y: number,
+  radius: number,
+  forceExecute: boolean = false,
+  weapon?: WeaponType
+): StrikeAttempt {
+  if (!state.grid || state.grid.length === 0) {
+    return { executed: false, reason: 'Game not initialized', validation: null };
+  }
+  if (state.gameEnded) {
+    return { executed: false, reason: 'Game is over', validation: null };
+  }
+
+  const validation = validateStrike(state, x, y, radius, weapon);
+
+  if (state.remainingBudget < validation.outcome.cost) {
+    return { executed: false, reason: 'Insufficient budget for strike', validation };
+  }
+
+  // Approval can be given by forcing the strike; a blocking rule cannot be overridden
+  if (!validation.allowed) {
+    return { executed: false, reason: `Strike blocked: ${validation.reason}`, validation };
+  }
+
+  if (validation.requiresConfirmation && !forceExecute) {
+    return { executed: false, reason: `Strike requires confirmation: ${validation.reason}`, validation };
+  }
+
+  // Miss and kill draws come from this action's own RNG stream
+  const strikeRng = weapon
+    ? createStrikeRNG(state.config.seed, state.currentTurn, state.actionCount, x, y, weapon)
+    : undefined;
+  const result = executeStrike(state.grid, x, y, radius, state.config, weapon, strikeRng);
+
+  const fieldInference = usesFieldInference(state.config);
+  if (!fieldInference) observeStrike(state, result);
+
+  state.actionCount++;
+  state.score += result.netPoints;
+  state.remainingBudget -= validation.outcome.cost;
+  state.analytics.hostilesNeutralized += result.hostilesHit;
+  state.analytics.infraHits += result.infraHit;
+  state.analytics.totalCost += validation.outcome.cost;
+
+  state.eventLog.push({
+    turn: state.currentTurn,
+    type: 'strike',
+    data: {
+      x,
+      y,
+      radius,
+      weapon,
+      impactX: result.impactX,
+      impactY: result.impactY,
+      hostilesHit: result.hostilesHit,
+      infraHit: result.infraHit,
+      totalReward: result.totalReward,
+      totalPenalty: result.totalPenalty,
+      netPoints: result.netPoints,
+      cost: validation.outcome.cost,
+      expectedValue: validation.outcome.expectedValue,
+      actualValue: result.netPoints,
+      affectedCells: result.affectedCells,
+      validation: validation.reason,
+      roeApprovals: validation.verdicts.filter(verdict => verdict.outcome === 'approval').map(verdict => verdict.reason),
+    },
+    timestamp: Date.now(),
+  });
+
+  // Field modes fold the strike in as evidence once it is logged
+  if (fieldInference) refreshFieldPosteriors(state);
+
+  updateSpatialAnalytics(state);
+  checkEarlyTermination(state);
+
+  return { executed: true, reason: validation.reason, validation, result };
+}
+
+/**
+ * Record turn metrics for the current turn from the events logged during it
+ */
+export function recordTurnMetrics(state: EngineState): void {
+  const eventsThisTurn = state.eventLog.filter(event => event.turn === state.currentTurn);
+
+  state.analytics.timelineData.push(calculateTurnMetrics(
+    state.currentTurn,
+    state.grid,
+    state.config,
+    state.score,
+    state.remainingBudget,
+    state.analytics,
+    state.truthField,
+    eventsThisTurn
+  ));
+}
+
+/**
+ * Advance to the next turn, ending the game when the turn limit is reached
+ * or the objectives call for it. With movement enabled, hostiles move and
+ * beliefs take the matching prediction step before any reading of the new turn.
+ */
+export function advanceTurn(state: EngineState): void {
+  state.currentTurn++;
+  if (state.currentTurn >= state.config.maxTurns) {
+    state.gameEnded = true;
+    return;
+  }
+
+  const { movement } = state.config;
+  if (isMovementEnabled(movement) && state.grid.length > 0) {
+    const kernel = buildTransitionKernel(
+      state.truthField.hostileField,
+      state.config.seed,
+      movement,
+      state.config.contextOverrides
+    );
+    predictBeliefs(state.grid, kernel);
+    moveHostiles(state.grid, kernel, createMovementRNG(state.config.seed, state.currentTurn));
+    // Exports, accuracy and scenarios read the truth field, so it follows the hostiles
+    state.truthField.hostileTruth = state.grid.map(row => row.map(cell => cell.hasHostile));
+    updateSpatialAnalytics(state);
+  }
+  checkEarlyTermination(state);
+}
@@ -0,0 +1,244 @@
+import { GameConfig, SensorType, WeaponType } from './types';
+import {
+  EngineState,
+  CalibrationTrackers,
+  createEngineState,
+  createCalibrationTrackers,
+  applyRecon,
+  applyStrike,
+  advanceTurn,
+  recordTurnMetrics
+} from './game-engine';
+import { withEstimate } from './calibration-drill';
+
+/**
+ * Command history with undo/redo and "what-if" branches.
+ *
+ * The engine is deterministic given the config and the actions taken, so a
+ * timeline is just its list of commands. Undo rebuilds the state from the
+ * start without the last command, redo re-applies it, and a branch is a
+ * second command list that shares a prefix with the timeline it forked from.
+ */
+
+/**
+ * A player action that changes the game state
+ */
+export type GameCommand =
+  | { type: 'recon'; x: number; y: number; sensor: SensorType; estimate?: number }  // estimate: the player's P(hostile) in a calibration drill
+  | { type: 'strike'; x: number; y: number; radius: number; weapon?: WeaponType; estimate?: number }
+  | { type: 'nextTurn' };
+
+/**
+ * One timeline of commands. The first `cursor` commands are applied; the
+ * rest were undone and can be redone until a new command replaces them.
+ */
+export interface TimelineBranch {
+  id: string;
+  name: string;
+  parentId: string | null;
+  forkTurn: number;                // Turn this branch diverged from its parent
+  commands: GameCommand[];
+  cursor: number;
+}
+
+export interface GameHistory {
+  branches: TimelineBranch[];
+  activeBranchId: string;
+}
+
+/**
+ * Outcome of a branch, for side-by-side comparison
+ */
+export interface BranchSummary {
+  branchId: string;
+  name: string;
+  forkTurn: number;
+  turn: number;
+  actions: number;
+  score: number;
+  remainingBudget: number;
+  hostilesNeutralized: number;
+  infraHits: number;
+  brierScore: number;
+  logLoss: number;
+  calibrationError: number;
+}
+
+export const MAIN_BRANCH_ID = 'main';
+
+/**
+ * History for a new game: a single empty main timeline
+ */
+export function createGameHistory(): GameHistory {
+  return {
+    branches: [{ id: MAIN_BRANCH_ID, name: 'Main', parentId: null, forkTurn: 0, commands: [], cursor: 0 }],
+    activeBranchId: MAIN_BRANCH_ID,
+  };
+}
+
+export function getActiveBranch(history: GameHistory): TimelineBranch {
+  const branch = history.branches.find(candidate => candidate.id === history.activeBranchId);
+  if (!branch) throw new Error(`Unknown timeline branch: ${history.activeBranchId}`);
+  return branch;
+}
+
+/**
+ * Apply a command through the game engine. Returns false when the command
+ * had no effect (unaffordable recon, blocked strike, game already over).
+ * Strikes are always executed: only confirmed strikes are recorded.
+ */
+export function applyCommand(
+  state: EngineState,
+  command: GameCommand,
+  calibration: CalibrationTrackers,
+  recordMetrics: boolean = true
+): boolean {
+  switch (command.type) {
+    case 'recon':
+      return withEstimate(state, command.x, command.y, 'recon', command.estimate, calibration.player, () =>
+        applyRecon(state, command.x, command.y, command.sensor, calibration) !== null
+      );
+    case 'strike':
+      return withEstimate(state, command.x, command.y, 'strike', command.estimate, calibration.player, () =>
+        applyStrike(state, command.x, command.y, command.radius, true, command.weapon).executed
+      );
+    case 'nextTurn':
+      if (state.gameEnded) return false;
+      advanceTurn(state);
+      if (recordMetrics) recordTurnMetrics(state);
+      return true;
+  }
+}
+
+/**
+ * Rebuild a game from its config and commands. The given calibration
+ * trackers are reset and refilled, so the store can keep its own instances.
+ */
+export function rebuildFromCommands(
+  config: GameConfig,
+  commands: GameCommand[],
+  started: boolean,
+  calibration: CalibrationTrackers = createCalibrationTrackers()
+): EngineState {
+  const state = createEngineState(config);
+  calibration.hostile.reset();
+  calibration.infra.reset();
+  calibration.player.reset();
+
+  if (started) {
+    state.eventLog.push({ turn: 0, type: 'game_start', data: { seed: config.seed }, timestamp: Date.now() });
+    recordTurnMetrics(state);
+  }
+
+  for (const command of commands) {
+    applyCommand(state, command, calibration, started);
+  }
+
+  return state;
+}
+
+/**
+ * Record a new command on the active branch, dropping anything that was undone
+ */
+export function recordCommand(history: GameHistory, command: GameCommand): void {
+  const branch = getActiveBranch(history);
+  branch.commands = [...branch.commands.slice(0, branch.cursor), command];
+  branch.cursor = branch.commands.length;
+}
+
+/**
+ * Number of leading commands that take a game to the start of a turn
+ */
+export function commandsBeforeTurn(commands: GameCommand[], turn: number): number {
+  if (turn <= 0) return 0;
+
+  let turnsSeen = 0;
+  for (let index = 0; index < commands.length; index++) {
+    if (commands[index].type === 'nextTurn' && ++turnsSeen === turn) return index + 1;
+  }
+  return commands.length;
+}
+
+/**
+ * Fork a new branch from the start of a past turn of the active branch and
+ * make it active. The original branch is kept, undone commands included.
+ */
+export function forkBranch(history: GameHistory, turn: number, name?: string): TimelineBranch {
+  const parent = getActiveBranch(history);
+  const prefix = commandsBeforeTurn(parent.commands.slice(0, parent.cursor), turn);
+
+  let suffix = history.branches.length;
+  while (history.branches.some(branch => branch.id === `branch-${suffix}`)) suffix++;
+
+  const branch: TimelineBranch = {
+    id: `branch-${suffix}`,
+    name: name ?? `What-if ${suffix} (turn ${turn})`,
+    parentId: parent.id,
+    forkTurn: turn,
+    commands: parent.commands.slice(0, prefix),
+    cursor: prefix,
+  };
+
+  history.branches.push(branch);
+  history.activeBranchId = branch.id;
+  return branch;
+}
+
+/**
+ * Summaries already worked out, by branch id and cursor. Each entry keeps the
+ * commands and config it was built from: after an undo and a new command the
+ * same id and cursor stand for different commands, and the entry is stale.
+ */
+export type BranchSummaryCache = Map<string, {
+  config: GameConfig;
+  commands: GameCommand[];
+  summary: BranchSummary;
+}>;
+
+export function createBranchSummaryCache(): BranchSummaryCache {
+  return new Map();
+}
+
+function summarizeBranch(config: GameConfig, branch: TimelineBranch): BranchSummary {
+  const state = rebuildFromCommands(config, branch.commands.slice(0, branch.cursor), true);
+
+  return {
+    branchId: branch.id,
+    name: branch.name,
+    forkTurn: branch.forkTurn,
+    turn: state.currentTurn,
+    actions: state.actionCount,
+    score: state.score,
+    remainingBudget: state.remainingBudget,
+    hostilesNeutralized: state.analytics.hostilesNeutralized,
+    infraHits: state.analytics.infraHits,
+    brierScore: state.analytics.brierScore,
+    logLoss: state.analytics.logLoss,
+    calibrationError: state.analytics.calibrationError,
+  };
+}
+
+/**
+ * Score and calibration reached by each branch at its cursor. With a cache,
+ * only branches whose applied commands changed are rebuilt.
+ */
+export function summarizeBranches(
+  config: GameConfig,
+  history: GameHistory,
+  cache?: BranchSummaryCache
+): BranchSummary[] {
+  return history.branches.map(branch => {
+    if (!cache) return summarizeBranch(config, branch);
+
+    const key = `${branch.id}@${branch.cursor}`;
+    const cached = cache.get(key);
+    const applied = (commands: GameCommand[]) =>
+      commands === branch.commands ||
+      commands.slice(0, branch.cursor).every((command, index) => command === branch.commands[index]);
+    if (cached && cached.config === config && applied(cached.commands)) return cached.summary;
+
+    const summary = summarizeBranch(config, branch);
+    cache.set(key, { config, commands: branch.commands, summary });
+    return summary;
+  });
+}
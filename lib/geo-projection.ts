@@ -0,0 +1,379 @@
+/**
+ * Georeferenced game grid.
+ *
+ * The grid is laid out as square cells in a single UTM zone, so every cell
+ * is the same size on the ground. In 'utm' alignment the square is fitted to
+ * the area of operations; in 'mgrs' alignment the cell size and origin are
+ * snapped to the MGRS grid, so each cell is exactly one MGRS square (1 km,
+ * 100 m, ...). Row 0 is the southern edge, matching the heatmap layout.
+ *
+ * Positions are [lng, lat] to match deck.gl.
+ */
+
+export type LngLat = [number, number];
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export type GridAlignment = 'utm' | 'mgrs';
+
+/**
+ * Where the grid is placed: the lat/lng extent to cover and how cells align
+ */
+export interface AreaOfOperations {
+  bounds: GeoBounds;
+  alignment: GridAlignment;
+}
+
+export interface UTMCoordinate {
+  zone: number;
+  hemisphere: 'N' | 'S';
+  easting: number;
+  northing: number;
+}
+
+/**
+ * A grid of `gridSize` square cells placed in one UTM zone
+ */
+export interface GridProjection {
+  gridSize: number;
+  alignment: GridAlignment;
+  zone: number;
+  hemisphere: 'N' | 'S';
+  originEasting: number;     // South-west corner of cell (0, 0)
+  originNorthing: number;
+  cellSize: number;          // Metres
+  bounds: GeoBounds;         // Lat/lng envelope of the whole grid
+}
+
+export const DEFAULT_AREA_OF_OPERATIONS: AreaOfOperations = {
+  bounds: { north: 40.7829, south: 40.7489, east: -73.9441, west: -73.9901 },
+  alignment: 'utm',
+};
+
+// WGS84 ellipsoid and UTM scale factor
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+const MGRS_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV';
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const centralMeridian = (zone: number) => toRadians((zone - 1) * 6 - 180 + 3);
+
+/**
+ * UTM zone for a position, including the Norway and Svalbard exceptions
+ */
+export function utmZoneFor(lat: number, lng: number): number {
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+    if (lng < 9) return 31;
+    if (lng < 21) return 33;
+    if (lng < 33) return 35;
+    return 37;
+  }
+  return Math.min(60, Math.floor((lng + 180) / 6) + 1);
+}
+
+function projectToZone(lat: number, lng: number, zone: number, hemisphere: 'N' | 'S'): UTMCoordinate {
+  const phi = toRadians(lat);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * (toRadians(lng) - centralMeridian(zone));
+
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const m = A * (
+    (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi
+    - (3 * E2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi)
+    + (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi)
+    - (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+
+  const easting = FALSE_EASTING + K0 * n * (
+    a
+    + (1 - t + c) * a ** 3 / 6
+    + (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120
+  );
+  const northing = K0 * (m + n * tanPhi * (
+    a * a / 2
+    + (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24
+    + (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720
+  ));
+
+  return {
+    zone,
+    hemisphere,
+    easting,
+    northing: hemisphere === 'S' ? northing + FALSE_NORTHING_SOUTH : northing,
+  };
+}
+
+/**
+ * Project a position to UTM in its own zone
+ */
+export function latLngToUTM(lat: number, lng: number): UTMCoordinate {
+  return projectToZone(lat, lng, utmZoneFor(lat, lng), lat < 0 ? 'S' : 'N');
+}
+
+/**
+ * Inverse UTM projection, returned as [lng, lat]
+ */
+export function utmToLngLat(utm: UTMCoordinate): LngLat {
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const northing = utm.hemisphere === 'S' ? utm.northing - FALSE_NORTHING_SOUTH : utm.northing;
+
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const mu = northing / K0 / (A * (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256));
+  const phi1 = mu
+    + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+    + (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+    + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+    + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const t1 = tanPhi1 * tanPhi1;
+  const n1 = A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const r1 = A * (1 - E2) / Math.pow(1 - E2 * sinPhi1 * sinPhi1, 1.5);
+  const d = (utm.easting - FALSE_EASTING) / (n1 * K0);
+
+  const phi = phi1 - (n1 * tanPhi1 / r1) * (
+    d * d / 2
+    - (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24
+    + (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720
+  );
+  const lambda = centralMeridian(utm.zone) + (
+    d
+    - (1 + 2 * t1 + c1) * d ** 3 / 6
+    + (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120
+  ) / cosPhi1;
+
+  return [toDegrees(lambda), toDegrees(phi)];
+}
+
+function formatMGRS(utm: UTMCoordinate, lat: number, precision: number): string {
+  if (lat < -80 || lat > 84) {
+    throw new Error(`MGRS is not defined at latitude ${lat} (polar regions use UPS)`);
+  }
+  if (!Number.isInteger(precision) || precision < 0 || precision > 5) {
+    throw new Error(`MGRS precision must be an integer from 0 to 5, got ${precision}`);
+  }
+
+  const band = MGRS_BANDS[Math.min(MGRS_BANDS.length - 1, Math.floor((lat + 80) / 8))];
+  const columnSet = MGRS_COLUMN_SETS[(utm.zone - 1) % 3];
+  const column = columnSet[Math.floor(utm.easting / 100000) - 1];
+  const row = MGRS_ROWS[(Math.floor(utm.northing / 100000) + (utm.zone % 2 === 0 ? 5 : 0)) % MGRS_ROWS.length];
+
+  const square = `${utm.zone}${band} ${column}${row}`;
+  if (precision === 0) return square;
+
+  const divisor = 10 ** (5 - precision);
+  const digits = (value: number) => String(Math.floor((value % 100000) / divisor)).padStart(precision, '0');
+  return `${square} ${digits(utm.easting)} ${digits(utm.northing)}`;
+}
+
+/**
+ * MGRS reference for a position, e.g. "18T WL 855 116" at 100 m precision.
+ * `precision` is the number of digits per axis (5 = 1 m, 0 = 100 km square).
+ */
+export function latLngToMGRS(lat: number, lng: number, precision: number = 5): string {
+  return formatMGRS(latLngToUTM(lat, lng), lat, precision);
+}
+
+/**
+ * Fit a square grid to an area of operations
+ */
+export function createGridProjection(
+  gridSize: number,
+  area: AreaOfOperations = DEFAULT_AREA_OF_OPERATIONS
+): GridProjection {
+  const { bounds, alignment } = area;
+  if (!(bounds.north > bounds.south) || !(bounds.east > bounds.west)) {
+    throw new Error('Area of operations must have north > south and east > west');
+  }
+
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLng = (bounds.east + bounds.west) / 2;
+  const zone = utmZoneFor(centerLat, centerLng);
+  const hemisphere = centerLat < 0 ? 'S' : 'N';
+
+  const southWest = projectToZone(bounds.south, bounds.west, zone, hemisphere);
+  const northEast = projectToZone(bounds.north, bounds.east, zone, hemisphere);
+  const center = projectToZone(centerLat, centerLng, zone, hemisphere);
+  const extent = Math.min(northEast.easting - southWest.easting, northEast.northing - southWest.northing);
+
+  let cellSize = extent / gridSize;
+  let originEasting = center.easting - extent / 2;
+  let originNorthing = center.northing - extent / 2;
+
+  if (alignment === 'mgrs') {
+    // Largest MGRS square size that still fits the grid inside the area
+    cellSize = 10 ** Math.min(5, Math.max(0, Math.floor(Math.log10(cellSize) + 1e-9)));
+    const span = cellSize * gridSize;
+    originEasting = Math.floor((center.easting - span / 2) / cellSize) * cellSize;
+    originNorthing = Math.floor((center.northing - span / 2) / cellSize) * cellSize;
+  }
+
+  const projection: GridProjection = {
+    gridSize,
+    alignment,
+    zone,
+    hemisphere,
+    originEasting,
+    originNorthing,
+    cellSize,
+    bounds: { north: -90, south: 90, east: -180, west: 180 },
+  };
+
+  for (const [gridX, gridY] of [[0, 0], [gridSize, 0], [0, gridSize], [gridSize, gridSize]]) {
+    const [lng, lat] = gridPointToLngLat(projection, gridX, gridY);
+    projection.bounds.north = Math.max(projection.bounds.north, lat);
+    projection.bounds.south = Math.min(projection.bounds.south, lat);
+    projection.bounds.east = Math.max(projection.bounds.east, lng);
+    projection.bounds.west = Math.min(projection.bounds.west, lng);
+  }
+
+  return projection;
+}
+
+/**
+ * Position of a fractional grid coordinate: (0, 0) is the south-west corner
+ * of the grid and (gridSize, gridSize) the north-east corner
+ */
+export function gridPointToLngLat(projection: GridProjection, gridX: number, gridY: number): LngLat {
+  return utmToLngLat({
+    zone: projection.zone,
+    hemisphere: projection.hemisphere,
+    easting: projection.originEasting + gridX * projection.cellSize,
+    northing: projection.originNorthing + gridY * projection.cellSize,
+  });
+}
+
+/**
+ * 3D position of a point given as fractions (0-1) of the grid's width and
+ * height, for overlays and entities laid out relative to the grid
+ */
+export function gridFractionToPosition(
+  projection: GridProjection,
+  fractionX: number,
+  fractionY: number,
+  altitude: number
+): [number, number, number] {
+  return [...gridPointToLngLat(projection, fractionX * projection.gridSize, fractionY * projection.gridSize), altitude];
+}
+
+export function cellCenter(projection: GridProjection, x: number, y: number): LngLat {
+  return gridPointToLngLat(projection, x + 0.5, y + 0.5);
+}
+
+/**
+ * Cell outline, counter-clockwise from the south-west corner
+ */
+export function cellToPolygon(projection: GridProjection, x: number, y: number): LngLat[] {
+  return [
+    gridPointToLngLat(projection, x, y),
+    gridPointToLngLat(projection, x + 1, y),
+    gridPointToLngLat(projection, x + 1, y + 1),
+    gridPointToLngLat(projection, x, y + 1),
+  ];
+}
+
+/**
+ * Cell containing a position, or null outside the grid
+ */
+export function pointToCell(projection: GridProjection, lng: number, lat: number): { x: number; y: number } | null {
+  const utm = projectToZone(lat, lng, projection.zone, projection.hemisphere);
+  const x = Math.floor((utm.easting - projection.originEasting) / projection.cellSize);
+  const y = Math.floor((utm.northing - projection.originNorthing) / projection.cellSize);
+
+  if (x < 0 || y < 0 || x >= projection.gridSize || y >= projection.gridSize) return null;
+  return { x, y };
+}
+
+/**
+ * Fractional grid coordinate of a position, which may lie outside the grid
+ */
+function lngLatToGridPoint(projection: GridProjection, lng: number, lat: number): [number, number] {
+  const utm = projectToZone(lat, lng, projection.zone, projection.hemisphere);
+  return [
+    (utm.easting - projection.originEasting) / projection.cellSize,
+    (utm.northing - projection.originNorthing) / projection.cellSize,
+  ];
+}
+
+function cellsWhere(projection: GridProjection, test: (centerX: number, centerY: number) => boolean): { x: number; y: number }[] {
+  const cells: { x: number; y: number }[] = [];
+  for (let y = 0; y < projection.gridSize; y++) {
+    for (let x = 0; x < projection.gridSize; x++) {
+      if (test(x + 0.5, y + 0.5)) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells whose centre lies inside a polygon of [lng, lat, ...] points
+ */
+export function polygonToCells(projection: GridProjection, polygon: readonly (readonly number[])[]): { x: number; y: number }[] {
+  const points = polygon.map(([lng, lat]) => lngLatToGridPoint(projection, lng, lat));
+  return cellsWhere(projection, (px, py) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [xi, yi] = points[i];
+      const [xj, yj] = points[j];
+      if ((yi > py) !== (yj > py) && px < (xj - xi) * (py - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  });
+}
+
+/**
+ * Cells whose centre lies within `buffer` cells of a path of [lng, lat, ...]
+ * points, plus the cells the path runs through
+ */
+export function pathToCells(projection: GridProjection, path: readonly (readonly number[])[], buffer: number = 0): { x: number; y: number }[] {
+  const points = path.map(([lng, lat]) => lngLatToGridPoint(projection, lng, lat));
+  const reach = buffer + Math.SQRT1_2;
+  return cellsWhere(projection, (px, py) => points.slice(1).some(([bx, by], index) => {
+    const [ax, ay] = points[index];
+    const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared)) : 0;
+    return Math.hypot(px - (ax + t * (bx - ax)), py - (ay + t * (by - ay))) <= reach;
+  }));
+}
+
+/**
+ * MGRS label for a cell, at the precision of the largest MGRS square that
+ * fits inside it. With 'mgrs' alignment this is exactly the cell's square.
+ */
+export function cellToMGRS(projection: GridProjection, x: number, y: number): string {
+  const precision = Math.min(5, Math.max(0, 5 - Math.floor(Math.log10(projection.cellSize) + 1e-9)));
+  const [, lat] = cellCenter(projection, x, y);
+
+  return formatMGRS({
+    zone: projection.zone,
+    hemisphere: projection.hemisphere,
+    easting: projection.originEasting + (x + 0.5) * projection.cellSize,
+    northing: projection.originNorthing + (y + 0.5) * projection.cellSize,
+  }, lat, precision);
+}
@@ -1,5 +1,6 @@
 import { scaleLinear } from 'd3-scale';
 import { GameCell, HeatmapType } from './types';
+import { GridProjection, cellCenter } from './geo-projection';
 import { COLOR_SCHEMES } from '@/components/ui/HeatmapLegend';
 
 export interface HeatmapDataPoint {
@@ -80,21 +81,11 @@ function getColorSchemeForHeatmapType(heatmapType: HeatmapType): keyof typeof CO
   }
 }
 
-// Convert grid coordinates to geographic bounds
-function gridToGeoBounds(
-  gridSize: number,
-  mapBounds: { north: number; south: number; east: number; west: number }
-): { cellWidth: number; cellHeight: number } {
-  const cellWidth = (mapBounds.east - mapBounds.west) / gridSize;
-  const cellHeight = (mapBounds.north - mapBounds.south) / gridSize;
-  return { cellWidth, cellHeight };
-}
-
 // Main heatmap processing function
 export function processHeatmapData(
   grid: GameCell[][],
   heatmapType: HeatmapType,
-  mapBounds: { north: number; south: number; east: number; west: number },
+  projection: GridProjection,
   options: {
     fadeOpacity?: number;
     minOpacity?: number;
@@ -104,7 +95,6 @@ export function processHeatmapData(
   const { fadeOpacity = 0.8, minOpacity = 0.1, maxOpacity = 0.9 } = options;
   
   const gridSize = grid.length;
-  const { cellWidth, cellHeight } = gridToGeoBounds(gridSize, mapBounds);
   const colorScheme = getColorSchemeForHeatmapType(heatmapType);
   const colorInterpolator = getColorInterpolator(colorScheme);
   
@@ -137,12 +127,8 @@ export function processHeatmapData(
     const alpha = Math.round((minOpacity + (maxOpacity - minOpacity) * normalizedValue) * fadeOpacity * 255);
     const color = hexToRgba(hexColor, alpha);
     
-    // Convert grid position to geographic coordinates (center of cell)
-    const lng = mapBounds.west + (x + 0.5) * cellWidth;
-    const lat = mapBounds.south + (y + 0.5) * cellHeight;
-    
     return {
-      position: [lng, lat] as [number, number],
+      position: cellCenter(projection, x, y),
       value,
       normalizedValue,
       color,
@@ -154,10 +140,7 @@ export function processHeatmapData(
   const bounds: HeatmapBounds = {
     minValue,
     maxValue,
-    north: mapBounds.north,
-    south: mapBounds.south,
-    east: mapBounds.east,
-    west: mapBounds.west
+    ...projection.bounds
   };
   
   return {
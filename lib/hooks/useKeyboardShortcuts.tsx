@@ -24,6 +24,8 @@ export interface KeyboardShortcuts {
   // Interface shortcuts
   'ctrl+d': () => void; // Debug panel
   'ctrl+h': () => void; // Help/shortcuts
+  'ctrl+z': () => void; // Undo
+  'ctrl+shift+z': () => void; // Redo
   'space': () => void; // Play/pause
 }
 
@@ -36,6 +38,8 @@ export interface UseKeyboardShortcutsProps {
   onToggleHelp?: () => void;
   onPlayPause?: () => void;
   onCancel?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   enabled?: boolean;
 }
 
@@ -51,7 +55,11 @@ export const KEYBOARD_SHORTCUTS_HELP = {
     { key: 'V', action: 'VOI/Variance', description: 'Show uncertainty/variance' },
     { key: 'R', action: 'Risk Level', description: 'Show risk assessment overlay' },
     { key: 'P', action: 'Posterior', description: 'Show posterior probability' },
-    { key: 'T', action: 'Truth', description: 'Show ground truth overlay' }
+    { key: 'T', action: 'Truth', description: 'Show ground truth overlay' },
+    { key: 'G', action: 'Terrain', description: 'Show terrain of each cell' },
+    { key: 'W', action: 'Weather', description: 'Show weather this turn' },
+    { key: 'J', action: 'Jamming', description: 'Show jamming this turn' },
+    { key: 'D', action: 'Detection', description: 'Show expected TPR of the selected sensor' }
   ],
   actions: [
     { key: 'S', action: 'Strike Mode', description: 'Enter kinetic strike mode' },
@@ -61,7 +69,9 @@ export const KEYBOARD_SHORTCUTS_HELP = {
   ],
   interface: [
     { key: 'Ctrl+D', action: 'Debug Panel', description: 'Toggle performance debug panel' },
-    { key: 'Ctrl+H', action: 'Help', description: 'Show keyboard shortcuts' }
+    { key: 'Ctrl+H', action: 'Help', description: 'Show keyboard shortcuts' },
+    { key: 'Ctrl+Z', action: 'Undo', description: 'Undo the last action' },
+    { key: 'Ctrl+Shift+Z', action: 'Redo', description: 'Redo an undone action' }
   ]
 };
 
@@ -74,6 +84,8 @@ export function useKeyboardShortcuts({
   onToggleHelp,
   onPlayPause,
   onCancel,
+  onUndo,
+  onRedo,
   enabled = true
 }: UseKeyboardShortcutsProps) {
 
@@ -103,9 +115,17 @@ export function useKeyboardShortcuts({
         case 'h':
           onToggleHelp?.();
           break;
+        case 'z':
+          onUndo?.();
+          break;
+        case 'y':
+          onRedo?.();
+          break;
         default:
           preventDefault = false;
       }
+    } else if (isCtrl && isShift && !isAlt && key === 'z') {
+      onRedo?.();
     } else if (!isCtrl && !isShift && !isAlt) {
       switch (key) {
         // Sensor shortcuts
@@ -135,6 +155,18 @@ export function useKeyboardShortcuts({
         case 't':
           onViewModeChange?.('truth' as HeatmapType);
           break;
+        case 'g':
+          onViewModeChange?.('terrain');
+          break;
+        case 'w':
+          onViewModeChange?.('weather');
+          break;
+        case 'j':
+          onViewModeChange?.('jamming');
+          break;
+        case 'd':
+          onViewModeChange?.('expectedTPR');
+          break;
 
         // Action shortcuts
         case 's':
@@ -161,7 +193,7 @@ export function useKeyboardShortcuts({
       event.preventDefault();
       event.stopPropagation();
     }
-  }, [enabled, onSensorChange, onViewModeChange, onStrikeMode, onToggleLabels, onToggleDebug, onToggleHelp, onPlayPause, onCancel]);
+  }, [enabled, onSensorChange, onViewModeChange, onStrikeMode, onToggleLabels, onToggleDebug, onToggleHelp, onPlayPause, onCancel, onUndo, onRedo]);
 
   useEffect(() => {
     if (!enabled) return;
@@ -26,7 +26,7 @@ export function oddsToProbability(odds: number): number {
  */
 export function updatePosteriorOdds(
   priorProbability: number,
-  sensorReading: SensorReading
+  sensorReading: Pick<SensorReading, 'result' | 'effectiveTPR' | 'effectiveFPR'>
 ): number {
   // Convert prior to odds
   const priorOdds = probabilityToOdds(priorProbability);
@@ -50,6 +50,21 @@ export function updatePosteriorOdds(
   return oddsToProbability(posteriorOdds);
 }
 
+/**
+ * Update infrastructure posterior from the infra-detection channel of a reading.
+ * Infrastructure placement is spatially independent, so no diffusion is applied.
+ */
+export function updateInfraPosteriorOdds(
+  priorProbability: number,
+  sensorReading: Pick<SensorReading, 'infraResult' | 'effectiveInfraTPR' | 'effectiveInfraFPR'>
+): number {
+  return updatePosteriorOdds(priorProbability, {
+    result: sensorReading.infraResult,
+    effectiveTPR: sensorReading.effectiveInfraTPR,
+    effectiveFPR: sensorReading.effectiveInfraFPR,
+  });
+}
+
 /**
  * Spatial diffusion kernel for neighboring cell updates
  */
@@ -0,0 +1,206 @@
+import { GameCell, GameEvent, LogEvent, TrackClassification, TrackEntity } from './types';
+import { GridProjection, cellCenter, cellToMGRS } from './geo-projection';
+
+/**
+ * Adapters from game state to the live event log and entity panel.
+ *
+ * Log entries are derived from GameState.eventLog, so their deltas are the
+ * real belief and score changes. Tracks are derived from the grid: any cell
+ * whose hostile posterior has crossed a classification threshold becomes an
+ * entity the operator can select.
+ */
+
+/**
+ * Posterior thresholds for classifying a cell as a track
+ */
+export interface ClassificationThresholds {
+  hostile: number;   // P(hostile) at or above: hostile
+  suspect: number;   // P(hostile) at or above: suspect
+  cleared: number;   // P(hostile) at or below, once observed: cleared
+}
+
+export const DEFAULT_CLASSIFICATION_THRESHOLDS: ClassificationThresholds = {
+  hostile: 0.7,
+  suspect: 0.4,
+  cleared: 0.05,
+};
+
+/**
+ * Track id for a grid cell, short enough for the log's entity column
+ */
+export function cellTrackId(x: number, y: number): string {
+  return `X${String(x).padStart(2, '0')}Y${String(y).padStart(2, '0')}`;
+}
+
+/**
+ * Classification of a posterior, or null while it is between the thresholds
+ * (or has never been observed, for the cleared band)
+ */
+export function classifyPosterior(
+  posterior: number,
+  observed: boolean,
+  thresholds: ClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS
+): TrackClassification | null {
+  if (posterior >= thresholds.hostile) return 'hostile';
+  if (posterior >= thresholds.suspect) return 'suspect';
+  if (observed && posterior <= thresholds.cleared) return 'cleared';
+  return null;
+}
+
+function reconLogEvents(event: GameEvent, id: string, thresholds: ClassificationThresholds): LogEvent[] {
+  const { x, y, sensor, reading, prior, posterior, cost, context } = event.data as {
+    x: number; y: number; sensor: string; reading: boolean;
+    prior: number; posterior: number; cost: number; context?: string;
+  };
+  const entity = cellTrackId(x, y);
+
+  const entries: LogEvent[] = [{
+    id,
+    timestamp: event.timestamp,
+    type: 'recon',
+    action: `${sensor.toUpperCase()}_SCAN_${reading ? 'POSITIVE' : 'NEGATIVE'}`,
+    entity,
+    deltaScore: posterior - prior,
+    details: `P ${prior.toFixed(2)}→${posterior.toFixed(2)}, $${cost}${context ? `, ${context}` : ''}`,
+    severity: reading ? 'warning' : 'info',
+  }];
+
+  // A reading that moves the cell into a new band is a classification change
+  const before = classifyPosterior(prior, true, thresholds);
+  const after = classifyPosterior(posterior, true, thresholds);
+  if (after !== before) {
+    entries.push({
+      id: `${id}_cls`,
+      timestamp: event.timestamp,
+      type: 'classification',
+      action: after ? `RECLASSIFIED_${after.toUpperCase()}` : 'CLASSIFICATION_DROPPED',
+      entity,
+      deltaScore: posterior - prior,
+      details: `${before ?? 'unclassified'} → ${after ?? 'unclassified'}`,
+      severity: after === 'hostile' ? 'warning' : 'info',
+    });
+  }
+
+  return entries;
+}
+
+function strikeLogEvent(event: GameEvent, id: string): LogEvent {
+  const { x, y, weapon, impactX, impactY, hostilesHit, infraHit, netPoints, cost } = event.data as {
+    x: number; y: number; weapon?: string; impactX?: number; impactY?: number;
+    hostilesHit: number; infraHit: number; netPoints: number; cost: number;
+  };
+  const missed = impactX !== undefined && impactY !== undefined && (impactX !== x || impactY !== y);
+
+  return {
+    id,
+    timestamp: event.timestamp,
+    type: 'strike',
+    action: `${(weapon ?? 'kinetic').toUpperCase()}_STRIKE_EXECUTED`,
+    entity: cellTrackId(x, y),
+    deltaScore: netPoints,
+    details: `${hostilesHit} hostile, ${infraHit} infra, $${cost}${missed ? `, impact (${impactX}, ${impactY})` : ''}`,
+    severity: infraHit > 0 ? 'error' : hostilesHit > 0 ? 'success' : 'warning',
+  };
+}
+
+/**
+ * Log entries for a game's event log, oldest first. Ids are positional, so
+ * they stay stable as new events arrive.
+ */
+export function toLogEvents(
+  eventLog: GameEvent[],
+  thresholds: ClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS
+): LogEvent[] {
+  return eventLog.flatMap((event, index): LogEvent[] => {
+    const id = `game_${index}`;
+
+    switch (event.type) {
+      case 'recon':
+        return reconLogEvents(event, id, thresholds);
+      case 'strike':
+        return [strikeLogEvent(event, id)];
+      case 'game_start':
+        return [{
+          id,
+          timestamp: event.timestamp,
+          type: 'system',
+          action: 'MISSION_START',
+          details: `Seed ${String(event.data.seed ?? '')}`,
+          severity: 'info',
+        }];
+      case 'game_end':
+        return [{
+          id,
+          timestamp: event.timestamp,
+          type: 'system',
+          action: 'MISSION_END',
+          deltaScore: Number(event.data.score ?? 0),
+          details: `Turn ${event.turn}`,
+          severity: 'info',
+        }];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Tracks for every classified cell. Cells inside a strike footprint are
+ * reported as destroyed (engaged) and are cleared once their posterior drops.
+ */
+export function deriveTrackEntities(
+  grid: GameCell[][],
+  eventLog: GameEvent[],
+  projection: GridProjection,
+  thresholds: ClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS
+): TrackEntity[] {
+  const struckAt = new Map<string, number>();
+  for (const event of eventLog) {
+    if (event.type !== 'strike') continue;
+    const affectedCells = event.data.affectedCells as { x: number; y: number }[] | undefined;
+    for (const cell of affectedCells ?? []) {
+      struckAt.set(cellTrackId(cell.x, cell.y), event.timestamp);
+    }
+  }
+
+  const tracks: TrackEntity[] = [];
+  for (const row of grid) {
+    for (const cell of row) {
+      const id = cellTrackId(cell.x, cell.y);
+      const struck = struckAt.get(id);
+
+      // A strike observes its footprint, so engaged cells stay on the board
+      const observed = cell.reconHistory.length > 0 || struck !== undefined;
+      const classification = classifyPosterior(cell.posteriorProbability, observed, thresholds);
+      if (!classification) continue;
+
+      const lastReading = cell.reconHistory[cell.reconHistory.length - 1];
+      const [lng, lat] = cellCenter(projection, cell.x, cell.y);
+
+      tracks.push({
+        id,
+        name: cellToMGRS(projection, cell.x, cell.y),
+        type: 'ground',
+        classification,
+        position: [lat, lng],
+        lastSeen: Math.max(lastReading?.timestamp ?? 0, struck ?? 0),
+        confidence: classification === 'cleared' ? 1 - cell.posteriorProbability : cell.posteriorProbability,
+        priority: classification === 'hostile' ? 'high' : classification === 'suspect' ? 'medium' : 'low',
+        status: struck !== undefined ? 'destroyed' : 'active',
+        attributes: {
+          gridX: cell.x,
+          gridY: cell.y,
+          posterior: cell.posteriorProbability,
+          observations: cell.reconHistory.length,
+          scans: cell.reconHistory.map(reading => ({
+            sensor: reading.sensor,
+            result: reading.result,
+            timestamp: reading.timestamp,
+          })),
+        },
+      });
+    }
+  }
+
+  return tracks;
+}
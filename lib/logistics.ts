@@ -0,0 +1,212 @@
+import { GameEvent, LogisticsConfig, SensorAssetConfig, SensorType } from './types';
+
+/**
+ * Sensor asset logistics.
+ *
+ * Each sensor type is provided by one or more assets with a base, a speed,
+ * an endurance and a per-turn scan limit. A recon order is given to the
+ * asset that can reach the cell soonest; the reading comes back at once,
+ * but a distant target keeps the asset in the air for the turns it takes to
+ * get there. An asset that could no longer fly a full turn and still make
+ * it home returns to base and refuels for its cooldown.
+ *
+ * Asset state is never stored: it is replayed from the recon events, so
+ * undo, branches and replays all see the same positions and fuel.
+ */
+
+/**
+ * Default assets for a grid: air assets at the middle of the southern edge,
+ * a ground team that starts further forward but moves slowly
+ */
+export function createDefaultLogistics(gridSize: number): LogisticsConfig {
+  const centre = Math.floor(gridSize / 2);
+  return {
+    enabled: true,
+    assets: [
+      { id: 'drone-1', name: 'Drone Alpha', sensor: 'drone', base: { x: centre, y: 0 }, speed: 6, endurance: 30, cooldown: 1, scansPerTurn: 2 },
+      { id: 'sigint-1', name: 'SIGINT Bravo', sensor: 'sigint', base: { x: 0, y: 0 }, speed: 10, endurance: 40, cooldown: 2, scansPerTurn: 1 },
+      { id: 'ground-1', name: 'Ground Team Charlie', sensor: 'ground', base: { x: centre, y: Math.floor(gridSize / 4) }, speed: 2, endurance: 12, cooldown: 1, scansPerTurn: 1 },
+    ],
+  };
+}
+
+/**
+ * Whether a config limits recon by asset logistics
+ */
+export function isLogisticsEnabled(logistics: LogisticsConfig | undefined): logistics is LogisticsConfig {
+  return logistics !== undefined && logistics.enabled;
+}
+
+/**
+ * Where an asset is and what it can still do
+ */
+export interface SensorAssetStatus {
+  id: string;
+  name: string;
+  sensor: SensorType;
+  x: number;
+  y: number;
+  enduranceRemaining: number;
+  availableFromTurn: number;       // First turn it can be tasked again
+  scansThisTurn: number;
+  refuelling: boolean;             // Back at base and grounded until availableFromTurn
+}
+
+/**
+ * An asset's answer to a recon order
+ */
+export interface SortiePlan {
+  feasible: boolean;
+  reason: string;
+  assetId?: string;
+  distance: number;                // Cells flown to reach the target
+  flightTurns: number;             // Turns the flight takes (0 when already overhead)
+  returnsToBase: boolean;          // Endurance runs low, so the asset heads home after the scan
+}
+
+function distanceBetween(x1: number, y1: number, x2: number, y2: number): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+function createStatus(asset: SensorAssetConfig): SensorAssetStatus {
+  return {
+    id: asset.id,
+    name: asset.name,
+    sensor: asset.sensor,
+    x: asset.base.x,
+    y: asset.base.y,
+    enduranceRemaining: asset.endurance,
+    availableFromTurn: 0,
+    scansThisTurn: 0,
+    refuelling: false,
+  };
+}
+
+function planForAsset(
+  asset: SensorAssetConfig,
+  status: SensorAssetStatus,
+  x: number,
+  y: number,
+  turn: number
+): SortiePlan {
+  const distance = distanceBetween(status.x, status.y, x, y);
+  const distanceHome = distanceBetween(x, y, asset.base.x, asset.base.y);
+  const flightTurns = Math.ceil(distance / asset.speed);
+  const infeasible = (reason: string): SortiePlan => ({
+    feasible: false, reason, assetId: asset.id, distance, flightTurns, returnsToBase: false,
+  });
+
+  if (status.availableFromTurn > turn) {
+    return infeasible(`${asset.name} is ${status.refuelling ? 'refuelling' : 'in transit'} until turn ${status.availableFromTurn}`);
+  }
+  if (status.scansThisTurn >= asset.scansPerTurn) {
+    return infeasible(`${asset.name} has made its ${asset.scansPerTurn} scan(s) this turn`);
+  }
+  if (distance + distanceHome > status.enduranceRemaining) {
+    return infeasible(`${asset.name} lacks the endurance to reach (${x}, ${y}) and return`);
+  }
+
+  return {
+    feasible: true,
+    reason: `${asset.name} tasked`,
+    assetId: asset.id,
+    distance,
+    flightTurns,
+    returnsToBase: status.enduranceRemaining - distance - distanceHome < asset.speed,
+  };
+}
+
+function applySortie(
+  asset: SensorAssetConfig,
+  status: SensorAssetStatus,
+  plan: SortiePlan,
+  x: number,
+  y: number,
+  turn: number
+): void {
+  status.x = x;
+  status.y = y;
+  status.enduranceRemaining -= plan.distance;
+  status.availableFromTurn = turn + Math.max(0, plan.flightTurns - 1);
+  status.scansThisTurn++;
+  status.refuelling = false;
+
+  if (plan.returnsToBase) {
+    const flightHome = Math.ceil(distanceBetween(x, y, asset.base.x, asset.base.y) / asset.speed);
+    status.x = asset.base.x;
+    status.y = asset.base.y;
+    status.enduranceRemaining = asset.endurance;
+    status.availableFromTurn += flightHome + asset.cooldown;
+    status.refuelling = true;
+  }
+}
+
+/**
+ * Asset positions, fuel and availability at a turn, replayed from the recon events
+ */
+export function getAssetStatuses(
+  logistics: LogisticsConfig,
+  eventLog: GameEvent[],
+  turn: number
+): SensorAssetStatus[] {
+  const statuses = logistics.assets.map(createStatus);
+  let scanTurn = -1;
+
+  for (const event of eventLog) {
+    if (event.type !== 'recon' || typeof event.data.assetId !== 'string') continue;
+
+    // Scan counts are per turn
+    if (event.turn !== scanTurn) {
+      scanTurn = event.turn;
+      for (const status of statuses) status.scansThisTurn = 0;
+    }
+
+    const index = logistics.assets.findIndex(asset => asset.id === event.data.assetId);
+    if (index < 0) continue;
+
+    const x = event.data.x as number;
+    const y = event.data.y as number;
+    const plan = planForAsset(logistics.assets[index], statuses[index], x, y, event.turn);
+    applySortie(logistics.assets[index], statuses[index], plan, x, y, event.turn);
+  }
+
+  if (scanTurn !== turn) {
+    for (const status of statuses) status.scansThisTurn = 0;
+  }
+  for (const status of statuses) {
+    if (status.refuelling && status.availableFromTurn <= turn) status.refuelling = false;
+  }
+
+  return statuses;
+}
+
+/**
+ * Pick the asset for a recon order: the one of the right sensor type that
+ * reaches the cell in the fewest turns, then the shortest flight. When none
+ * can go, the plan carries the reason from the nearest asset.
+ */
+export function planSortie(
+  logistics: LogisticsConfig,
+  eventLog: GameEvent[],
+  turn: number,
+  sensor: SensorType,
+  x: number,
+  y: number
+): SortiePlan {
+  const statuses = getAssetStatuses(logistics, eventLog, turn);
+  const plans = logistics.assets
+    .map((asset, index) => ({ asset, plan: planForAsset(asset, statuses[index], x, y, turn) }))
+    .filter(({ asset }) => asset.sensor === sensor)
+    .map(({ plan }) => plan)
+    .sort((a, b) =>
+      Number(b.feasible) - Number(a.feasible) || a.flightTurns - b.flightTurns || a.distance - b.distance
+    );
+
+  return plans[0] ?? {
+    feasible: false,
+    reason: `No ${sensor} asset is assigned to this mission`,
+    distance: 0,
+    flightTurns: 0,
+    returnsToBase: false,
+  };
+}
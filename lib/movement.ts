@@ -0,0 +1,210 @@
+import { CellContextOverride, GameCell, HostileClass, MovementConfig } from './types';
+import { SeededRNG, createSubRNG } from './rng';
+import { getCellContext, TerrainType } from './sensors';
+
+/**
+ * Hostile movement between turns.
+ *
+ * Hostiles follow a Markov transition kernel over the grid: each turn a
+ * hostile stays put or steps to a 4-neighbour, with moves shaped by terrain
+ * mobility and attracted towards cells with a high hostile field θ(x,y).
+ * Beliefs get the matching prediction step, which turns recon into a Bayes
+ * filter: predict on every turn, then update on each reading.
+ */
+
+/**
+ * Default movement configuration
+ */
+export const DEFAULT_MOVEMENT_CONFIG: MovementConfig = {
+  enabled: true,
+  stayProbability: 0.6,
+  priorAttraction: 1.5,
+};
+
+/**
+ * How easily hostiles move through each terrain (1 = unimpeded)
+ */
+export const TERRAIN_MOBILITY: Record<TerrainType, number> = {
+  urban: 0.8,
+  forest: 0.6,
+  desert: 1.0,
+  mountain: 0.3,
+  open: 1.0,
+};
+
+/**
+ * One destination of a transition
+ */
+export interface Transition {
+  x: number;
+  y: number;
+  probability: number;
+}
+
+/**
+ * Transition kernel: transitions[y * width + x] lists where a hostile at (x, y) goes next turn
+ */
+export interface TransitionKernel {
+  width: number;
+  height: number;
+  transitions: Transition[][];
+}
+
+// Beliefs stay strictly inside (0, 1) so later odds updates remain finite
+const MIN_PREDICTED_PROBABILITY = 0.001;
+const MAX_PREDICTED_PROBABILITY = 0.999;
+
+const NEIGHBOUR_OFFSETS = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 },
+];
+
+/**
+ * Whether a config moves hostiles between turns
+ */
+export function isMovementEnabled(movement: MovementConfig | undefined): movement is MovementConfig {
+  return movement !== undefined && movement.enabled;
+}
+
+/**
+ * Build the transition kernel for a game. Terrain comes from the same
+ * per-cell context stream the sensors use, so a mountain for the sensors is
+ * a mountain for the hostiles too, including cells fixed by a scenario.
+ */
+export function buildTransitionKernel(
+  hostileField: number[][],
+  seed: string,
+  config: MovementConfig,
+  contextOverrides?: CellContextOverride[]
+): TransitionKernel {
+  const height = hostileField.length;
+  const width = height > 0 ? hostileField[0].length : 0;
+
+  const mobility: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const context = getCellContext(x, y, { gridSize: width, seed, contextOverrides });
+      mobility.push(TERRAIN_MOBILITY[context.terrain]);
+    }
+  }
+
+  const transitions: Transition[][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Rough terrain makes leaving a cell less likely
+      const moveProbability = (1 - config.stayProbability) * mobility[y * width + x];
+
+      const neighbours = NEIGHBOUR_OFFSETS
+        .map(({ dx, dy }) => ({ x: x + dx, y: y + dy }))
+        .filter(cell => cell.x >= 0 && cell.x < width && cell.y >= 0 && cell.y < height)
+        .map(cell => ({
+          ...cell,
+          weight: mobility[cell.y * width + cell.x] * Math.pow(hostileField[cell.y][cell.x], config.priorAttraction),
+        }));
+      const totalWeight = neighbours.reduce((sum, cell) => sum + cell.weight, 0);
+
+      const cellTransitions: Transition[] = [];
+      let stayProbability = 1;
+      if (totalWeight > 0) {
+        for (const cell of neighbours) {
+          const probability = moveProbability * cell.weight / totalWeight;
+          cellTransitions.push({ x: cell.x, y: cell.y, probability });
+          stayProbability -= probability;
+        }
+      }
+      cellTransitions.push({ x, y, probability: stayProbability });
+      transitions.push(cellTransitions);
+    }
+  }
+
+  return { width, height, transitions };
+}
+
+/**
+ * Prediction step of the Bayes filter: push every cell's posterior through the kernel.
+ * Hostiles are treated as moving independently, so a cell is occupied after
+ * the move with probability 1 − Π_i (1 − p_i·K(i → cell)).
+ */
+export function predictBeliefs(grid: GameCell[][], kernel: TransitionKernel): void {
+  const { width, height, transitions } = kernel;
+  const emptyProbability: number[] = Array(width * height).fill(1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = grid[y][x].posteriorProbability;
+      for (const transition of transitions[y * width + x]) {
+        emptyProbability[transition.y * width + transition.x] *= 1 - p * transition.probability;
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      grid[y][x].posteriorProbability = Math.min(
+        MAX_PREDICTED_PROBABILITY,
+        Math.max(MIN_PREDICTED_PROBABILITY, 1 - emptyProbability[y * width + x])
+      );
+    }
+  }
+}
+
+/**
+ * Move every hostile in the grid one step. A hostile whose destination is
+ * already taken falls back to its most likely free destination; two hostiles
+ * only merge when every destination is taken.
+ */
+export function moveHostiles(grid: GameCell[][], kernel: TransitionKernel, rng: SeededRNG): void {
+  const { width, height, transitions } = kernel;
+  const occupied: boolean[] = Array(width * height).fill(false);
+  const classes: (HostileClass | undefined)[] = Array(width * height).fill(undefined);
+  const movers: { x: number; y: number }[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grid[y][x].hasHostile) movers.push({ x, y });
+    }
+  }
+
+  for (const { x, y } of movers) {
+    const options = transitions[y * width + x];
+    let remaining = rng.random();
+    let destination = options[options.length - 1];
+    for (const option of options) {
+      remaining -= option.probability;
+      if (remaining < 0) {
+        destination = option;
+        break;
+      }
+    }
+
+    if (occupied[destination.y * width + destination.x]) {
+      const free = [...options]
+        .sort((a, b) => b.probability - a.probability)
+        .find(option => !occupied[option.y * width + option.x]);
+      destination = free ?? destination;
+    }
+
+    occupied[destination.y * width + destination.x] = true;
+    classes[destination.y * width + destination.x] = grid[y][x].hostileClass;
+  }
+
+  // Hostile classes travel with their hostiles
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = grid[y][x];
+      cell.hasHostile = occupied[y * width + x];
+      const hostileClass = classes[y * width + x];
+      if (hostileClass) cell.hostileClass = hostileClass;
+      else delete cell.hostileClass;
+    }
+  }
+}
+
+/**
+ * RNG for the hostile moves at the start of a turn
+ */
+export function createMovementRNG(seed: string, turn: number): SeededRNG {
+  return createSubRNG(seed, `movement-${turn}`);
+}
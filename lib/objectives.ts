@@ -0,0 +1,220 @@
+import {
+  AreaOfInterest,
+  GameConfig,
+  GameState,
+  GridPlacement,
+  MissionDebrief,
+  ObjectiveMetric,
+  ObjectiveResult,
+  ObjectiveStatus,
+  ObjectivesConfig,
+  VictoryCondition,
+} from './types';
+import { createGridProjection, polygonToCells } from './geo-projection';
+
+/**
+ * Mission objectives.
+ *
+ * A scenario's victory conditions are tracked through the game, each as
+ * achieved, holding, pending or failed. Conditions can refer to the
+ * scenario's areas of interest (a cell belongs to an area when its centre
+ * lies inside the polygon) and bound its analytics, so a mission can ask for
+ * kills in one target area, a clean record, honest beliefs or a protected
+ * objective rather than points alone. A withinTurns condition is a
+ * deadline: strikes after it do not count, and anything still pending when
+ * it passes has failed.
+ *
+ * When the game ends, holding conditions are achieved and pending ones have
+ * failed; the mission passes when every condition is achieved.
+ */
+
+/**
+ * Parts of the game the objectives are judged on
+ */
+export type ObjectiveState = Pick<GameState, 'config' | 'currentTurn' | 'score' | 'gameEnded' | 'eventLog' | 'analytics'>;
+
+export const OBJECTIVE_METRICS: Record<ObjectiveMetric, string> = {
+  brierScore: 'Brier score',
+  logLoss: 'log loss',
+  calibrationError: 'calibration error',
+  infraBrierScore: 'infrastructure Brier score',
+};
+
+/**
+ * Whether a config has objectives to track
+ */
+export function hasObjectives(objectives: ObjectivesConfig | undefined): objectives is ObjectivesConfig {
+  return objectives !== undefined && objectives.conditions.length > 0;
+}
+
+/**
+ * Grid cells whose centre lies inside an area's polygon
+ */
+export function getAreaCells(
+  config: Pick<GameConfig, 'gridSize' | 'areaOfOperations'>,
+  area: AreaOfInterest
+): GridPlacement[] {
+  return polygonToCells(createGridProjection(config.gridSize, config.areaOfOperations), area.polygon);
+}
+
+function areaName(areas: AreaOfInterest[], areaId: string): string {
+  return areas.find(area => area.id === areaId)?.name ?? areaId;
+}
+
+/**
+ * One-line description of a condition
+ */
+export function describeObjective(condition: VictoryCondition, areas: AreaOfInterest[] = []): string {
+  switch (condition.type) {
+    case 'neutralizeHostiles': {
+      const where = condition.areaId ? ` in ${areaName(areas, condition.areaId)}` : '';
+      return `Neutralize ${condition.count} hostile${condition.count === 1 ? '' : 's'}${where}`;
+    }
+    case 'maxInfraHits': {
+      const where = condition.areaId ? ` in ${areaName(areas, condition.areaId)}` : '';
+      return condition.count === 0
+        ? `No infrastructure hits${where}`
+        : `At most ${condition.count} infrastructure hits${where}`;
+    }
+    case 'minScore':
+      return `Score at least ${condition.score}`;
+    case 'withinTurns':
+      return `Within ${condition.turns} turns`;
+    case 'maxMetric':
+      return `Keep ${OBJECTIVE_METRICS[condition.metric]} at or below ${condition.value}`;
+    case 'protectArea':
+      return `Keep strikes out of ${areaName(areas, condition.areaId)}`;
+  }
+}
+
+interface StrikeCell {
+  x: number;
+  y: number;
+  wasHostile: boolean;
+  wasInfra: boolean;
+  destroyed: boolean;
+}
+
+/**
+ * Footprint cells destroyed by the strikes logged before a turn
+ */
+function destroyedCells(state: ObjectiveState, beforeTurn: number): StrikeCell[] {
+  return state.eventLog
+    .filter(event => event.type === 'strike' && event.turn < beforeTurn)
+    .flatMap(event => (event.data.affectedCells as StrikeCell[] | undefined) ?? [])
+    .filter(cell => cell.destroyed);
+}
+
+function inArea(cells: GridPlacement[] | null, cell: GridPlacement): boolean {
+  return cells === null || cells.some(candidate => candidate.x === cell.x && candidate.y === cell.y);
+}
+
+/**
+ * Status of a condition the player works towards (a count, a score)
+ */
+function towards(met: boolean, final: boolean, locked: boolean): ObjectiveStatus {
+  if (met) return locked || final ? 'achieved' : 'holding';
+  return final ? 'failed' : 'pending';
+}
+
+/**
+ * Status of a condition the player must not break (a limit, a protected area)
+ */
+function keeping(broken: boolean, final: boolean): ObjectiveStatus {
+  if (broken) return 'failed';
+  return final ? 'achieved' : 'holding';
+}
+
+/**
+ * Where the game stands against each objective
+ */
+export function evaluateObjectives(state: ObjectiveState, objectives: ObjectivesConfig): ObjectiveResult[] {
+  const deadline = objectives.conditions.reduce(
+    (turns, condition) => condition.type === 'withinTurns' ? Math.min(turns, condition.turns) : turns,
+    Infinity
+  );
+  const pastDeadline = state.currentTurn >= deadline;
+  const final = state.gameEnded || pastDeadline;
+  const cells = destroyedCells(state, deadline);
+  const areaCells = (areaId: string | undefined): GridPlacement[] | null => {
+    if (!areaId) return null;
+    const area = objectives.areas.find(candidate => candidate.id === areaId);
+    return area ? getAreaCells(state.config, area) : [];
+  };
+
+  const results: ObjectiveResult[] = objectives.conditions.map(condition => {
+    const description = describeObjective(condition, objectives.areas);
+    switch (condition.type) {
+      case 'neutralizeHostiles': {
+        const area = areaCells(condition.areaId);
+        const count = cells.filter(cell => cell.wasHostile && inArea(area, cell)).length;
+        return { condition, description, status: towards(count >= condition.count, final, true), progress: `${count}/${condition.count}` };
+      }
+      case 'maxInfraHits': {
+        const area = areaCells(condition.areaId);
+        const count = destroyedCells(state, Infinity).filter(cell => cell.wasInfra && inArea(area, cell)).length;
+        return { condition, description, status: keeping(count > condition.count, state.gameEnded), progress: `${count} of ${condition.count} allowed` };
+      }
+      case 'minScore':
+        return { condition, description, status: towards(state.score >= condition.score, final, false), progress: `${state.score}/${condition.score}` };
+      case 'maxMetric': {
+        const value = state.analytics[condition.metric];
+        const met = state.analytics.totalPredictions > 0 && value <= condition.value;
+        return {
+          condition,
+          description,
+          status: towards(met, state.gameEnded, false),
+          progress: state.analytics.totalPredictions > 0 ? `${value.toFixed(3)} / ${condition.value}` : 'no readings yet',
+        };
+      }
+      case 'protectArea': {
+        const area = areaCells(condition.areaId);
+        const hit = destroyedCells(state, Infinity).some(cell => inArea(area, cell));
+        return { condition, description, status: keeping(hit, state.gameEnded), progress: hit ? 'struck' : 'clear' };
+      }
+      case 'withinTurns':
+        // Settled below, once the other conditions are known
+        return { condition, description, status: 'pending', progress: `turn ${state.currentTurn}/${condition.turns}` };
+    }
+  });
+
+  const others = results.filter(result => result.condition.type !== 'withinTurns');
+  const allMet = others.every(result => result.status === 'achieved' || result.status === 'holding');
+  for (const result of results) {
+    if (result.condition.type !== 'withinTurns') continue;
+    if (allMet && others.some(other => other.status === 'achieved')) result.status = 'achieved';
+    else if (pastDeadline || state.gameEnded) result.status = 'failed';
+  }
+
+  return results;
+}
+
+/**
+ * Whether the objectives call for the game to end now, under the config's
+ * early-termination rules. Success needs every objective met and at least
+ * one achieved for good, so a mission of limits alone runs its course.
+ */
+export function shouldEndEarly(results: ObjectiveResult[], objectives: ObjectivesConfig): boolean {
+  if (objectives.earlyTermination.includes('onFailure') && results.some(result => result.status === 'failed')) {
+    return true;
+  }
+  return objectives.earlyTermination.includes('onSuccess') &&
+    results.every(result => result.status === 'achieved' || result.status === 'holding') &&
+    results.some(result => result.status === 'achieved');
+}
+
+/**
+ * Pass/fail summary of a game against its objectives, or null without any
+ */
+export function createDebrief(state: ObjectiveState): MissionDebrief | null {
+  const { objectives } = state.config;
+  if (!hasObjectives(objectives)) return null;
+
+  const results = evaluateObjectives(state, objectives);
+  return {
+    passed: state.gameEnded && results.every(result => result.status === 'achieved'),
+    endedEarly: state.eventLog.some(event => event.type === 'game_end' && event.data.endedEarly === true),
+    turn: state.currentTurn,
+    objectives: results,
+  };
+}
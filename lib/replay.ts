@@ -0,0 +1,253 @@
+import { GameEvent, GameRunExport, SensorType, WeaponType } from './types';
+import {
+  EngineState,
+  CalibrationTrackers,
+  createEngineState,
+  createCalibrationTrackers,
+  applyRecon,
+  applyStrike,
+  advanceTurn
+} from './game-engine';
+import { DrillEstimate, recordEstimate } from './calibration-drill';
+import { isMovementEnabled } from './movement';
+
+/**
+ * Deterministic replay of an exported game.
+ *
+ * The truth field and every sensor reading are derived from the seed, so
+ * re-applying the recorded actions through the game engine rebuilds the
+ * exact state at every step and lets us check it against the recording.
+ */
+
+/**
+ * Comparison of a replayed action against the recorded event
+ */
+export interface ReplayCheck {
+  index: number;
+  turn: number;
+  type: 'recon' | 'strike';
+  matches: boolean;
+  mismatches: string[];
+}
+
+/**
+ * Summary of a full replay verification
+ */
+export interface ReplayVerification {
+  truthMatches: boolean;
+  finalScoreMatches: boolean;
+  checks: ReplayCheck[];
+  mismatchCount: number;
+}
+
+const PROBABILITY_TOLERANCE = 1e-9;
+
+function compareValue(
+  mismatches: string[],
+  label: string,
+  recorded: unknown,
+  replayed: unknown
+): void {
+  // Fields missing from older exports are not checked
+  if (recorded === undefined) return;
+
+  const equal = typeof recorded === 'number' && typeof replayed === 'number'
+    ? Math.abs(recorded - replayed) <= PROBABILITY_TOLERANCE
+    : recorded === replayed;
+
+  if (!equal) {
+    mismatches.push(`${label}: recorded ${String(recorded)}, replayed ${String(replayed)}`);
+  }
+}
+
+function truthFieldMatches(state: EngineState, exportData: GameRunExport): boolean {
+  const recorded = exportData.truthField.hostiles;
+  const replayed = state.truthField.hostileTruth;
+
+  return recorded.length === replayed.length && recorded.every((row, y) =>
+    row.length === replayed[y].length && row.every((value, x) => value === replayed[y][x])
+  );
+}
+
+/**
+ * Step-by-step replay of a GameRunExport.
+ * Position 0 is the initial state; position i is the state after events[i - 1].
+ */
+export class ReplaySession {
+  readonly exportData: GameRunExport;
+  private engineState: EngineState;
+  private calibration: CalibrationTrackers;
+  private cursor = 0;
+  private replayChecks: ReplayCheck[] = [];
+
+  constructor(exportData: GameRunExport) {
+    this.exportData = exportData;
+    this.engineState = createEngineState(exportData.gameConfig);
+    this.calibration = createCalibrationTrackers();
+  }
+
+  get state(): EngineState {
+    return this.engineState;
+  }
+
+  get position(): number {
+    return this.cursor;
+  }
+
+  get length(): number {
+    return this.exportData.events.length;
+  }
+
+  get isAtEnd(): boolean {
+    return this.cursor >= this.length;
+  }
+
+  /** Most recently applied event, if any */
+  get currentEvent(): GameEvent | null {
+    return this.cursor > 0 ? this.exportData.events[this.cursor - 1] : null;
+  }
+
+  /** Checks for all actions replayed so far */
+  get checks(): ReplayCheck[] {
+    return this.replayChecks;
+  }
+
+  /**
+   * Whether the replayed truth field matches the recording. The recording holds the
+   * final truth, so with moving hostiles this is null until the replay reaches the end.
+   */
+  get truthMatches(): boolean | null {
+    if (isMovementEnabled(this.exportData.gameConfig.movement) && !this.isAtEnd) return null;
+    return truthFieldMatches(this.engineState, this.exportData);
+  }
+
+  /**
+   * Return to the initial state
+   */
+  reset(): void {
+    this.engineState = createEngineState(this.exportData.gameConfig);
+    this.calibration = createCalibrationTrackers();
+    this.cursor = 0;
+    this.replayChecks = [];
+  }
+
+  /**
+   * Apply the next recorded event; returns its check for recon and strike events
+   */
+  step(): ReplayCheck | null {
+    if (this.isAtEnd) return null;
+
+    const index = this.cursor;
+    const event = this.exportData.events[index];
+    this.cursor++;
+
+    // Turns without actions leave no events, so catch up to the event's turn
+    while (this.engineState.currentTurn < event.turn) {
+      advanceTurn(this.engineState);
+    }
+
+    let check: ReplayCheck | null = null;
+    if (event.type === 'recon') {
+      check = this.replayRecon(index, event);
+    } else if (event.type === 'strike') {
+      check = this.replayStrike(index, event);
+    } else if (event.type === 'estimate') {
+      // The player's estimate is not derived from the game, so it is re-logged as recorded
+      recordEstimate(this.engineState, event.data as unknown as DrillEstimate, this.calibration.player);
+    } else if (event.type === 'game_end') {
+      this.engineState.gameEnded = true;
+    }
+
+    if (check) this.replayChecks.push(check);
+
+    if (this.isAtEnd) {
+      while (this.engineState.currentTurn < this.exportData.totalTurns) {
+        advanceTurn(this.engineState);
+      }
+    }
+
+    return check;
+  }
+
+  /**
+   * Move to any position, replaying from the start when scrubbing backwards
+   */
+  seek(position: number): void {
+    const target = Math.max(0, Math.min(this.length, Math.round(position)));
+    if (target < this.cursor) this.reset();
+    while (this.cursor < target) this.step();
+  }
+
+  private replayRecon(index: number, event: GameEvent): ReplayCheck {
+    const { x, y, sensor } = event.data as { x: number; y: number; sensor: SensorType };
+    const mismatches: string[] = [];
+    const outcome = applyRecon(this.engineState, x, y, sensor, this.calibration);
+
+    if (!outcome) {
+      mismatches.push('recon could not be applied (out of bounds or unaffordable)');
+    } else {
+      compareValue(mismatches, 'actionIndex', event.data.actionIndex, outcome.actionIndex);
+      compareValue(mismatches, 'reading', event.data.reading, outcome.sensorReading.result);
+      compareValue(mismatches, 'prior', event.data.prior, outcome.priorProbability);
+      compareValue(mismatches, 'posterior', event.data.posterior, outcome.posteriorProbability);
+      compareValue(mismatches, 'infraReading', event.data.infraReading, outcome.sensorReading.infraResult);
+      compareValue(mismatches, 'infraPosterior', event.data.infraPosterior, outcome.infraPosteriorProbability);
+      compareValue(mismatches, 'cost', event.data.cost, outcome.cost);
+    }
+
+    return { index, turn: event.turn, type: 'recon', matches: mismatches.length === 0, mismatches };
+  }
+
+  private replayStrike(index: number, event: GameEvent): ReplayCheck {
+    const { x, y, radius, weapon } = event.data as { x: number; y: number; radius: number; weapon?: WeaponType };
+    const mismatches: string[] = [];
+
+    // The recorded strike was executed, so any confirmation was already given
+    const attempt = applyStrike(this.engineState, x, y, radius, true, weapon);
+
+    if (!attempt.executed || !attempt.result || !attempt.validation) {
+      mismatches.push(`strike could not be applied (${attempt.reason})`);
+    } else {
+      compareValue(mismatches, 'impactX', event.data.impactX, attempt.result.impactX);
+      compareValue(mismatches, 'impactY', event.data.impactY, attempt.result.impactY);
+      compareValue(mismatches, 'hostilesHit', event.data.hostilesHit, attempt.result.hostilesHit);
+      compareValue(mismatches, 'infraHit', event.data.infraHit, attempt.result.infraHit);
+      compareValue(mismatches, 'netPoints', event.data.netPoints, attempt.result.netPoints);
+      compareValue(mismatches, 'cost', event.data.cost, attempt.validation.outcome.cost);
+      compareValue(mismatches, 'expectedValue', event.data.expectedValue, attempt.validation.outcome.expectedValue);
+    }
+
+    return { index, turn: event.turn, type: 'strike', matches: mismatches.length === 0, mismatches };
+  }
+}
+
+/**
+ * Replay an entire export and report every divergence from the recording
+ */
+export function verifyReplay(exportData: GameRunExport): ReplayVerification {
+  const session = new ReplaySession(exportData);
+  session.seek(session.length);
+
+  return {
+    truthMatches: truthFieldMatches(session.state, exportData),
+    finalScoreMatches: session.state.score === exportData.finalScore,
+    checks: session.checks,
+    mismatchCount: session.checks.filter(check => !check.matches).length,
+  };
+}
+
+/**
+ * Parse a JSON game run export, rejecting files that cannot be replayed
+ */
+export function parseGameRunExport(json: string): GameRunExport {
+  const data = JSON.parse(json) as GameRunExport;
+
+  if (!data || typeof data !== 'object' || !data.gameConfig || !Array.isArray(data.events)) {
+    throw new Error('Not a game run export: missing gameConfig or events');
+  }
+  if (!data.truthField || !Array.isArray(data.truthField.hostiles)) {
+    throw new Error('Not a game run export: missing truth field');
+  }
+
+  return data;
+}
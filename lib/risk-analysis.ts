@@ -1,7 +1,8 @@
-import { GameCell, GameConfig, SensorType } from './types';
-import { createSubRNG } from './rng';
-import { calculateStrikeEV, getAoECells } from './decision-analysis';
+import { GameCell, GameConfig, SensorType, WeaponType } from './types';
+import { SeededRNG, createSubRNG } from './rng';
+import { calculateStrikeEV, getAoECells, getStrikeDamageCells, getStrikeCost } from './decision-analysis';
 import { calculateReconVOI } from './decision-analysis';
+import { getCellContext, calculateEffectivePerformance } from './sensors';
 
 /**
  * Represents a sampled possible world state
@@ -77,13 +78,13 @@ export function generateMonteCarloSamples(
         const hasHostile = rng.random() < cell.posteriorProbability;
         hostileStates[y][x] = hasHostile;
         
-        // Sample infrastructure state (using prior probability)
-        const hasInfra = rng.random() < cell.infraPriorProbability;
+        // Sample infrastructure state from its posterior
+        const hasInfra = rng.random() < cell.infraPosteriorProbability;
         infraStates[y][x] = hasInfra;
         
         // Update likelihood (probability of this specific configuration)
         likelihood *= hasHostile ? cell.posteriorProbability : (1 - cell.posteriorProbability);
-        likelihood *= hasInfra ? cell.infraPriorProbability : (1 - cell.infraPriorProbability);
+        likelihood *= hasInfra ? cell.infraPosteriorProbability : (1 - cell.infraPosteriorProbability);
       }
     }
     
@@ -143,11 +144,11 @@ export function generateImportanceSamples(
         const hasHostile = rng.random() < hostileProb;
         hostileStates[y][x] = hasHostile;
         
-        const hasInfra = rng.random() < cell.infraPriorProbability;
+        const hasInfra = rng.random() < cell.infraPosteriorProbability;
         infraStates[y][x] = hasInfra;
         
         likelihood *= hasHostile ? cell.posteriorProbability : (1 - cell.posteriorProbability);
-        likelihood *= hasInfra ? cell.infraPriorProbability : (1 - cell.infraPriorProbability);
+        likelihood *= hasInfra ? cell.infraPosteriorProbability : (1 - cell.infraPosteriorProbability);
       }
     }
     
@@ -165,33 +166,39 @@ export function generateImportanceSamples(
 }
 
 /**
- * Evaluate strike outcomes across Monte Carlo samples
+ * Evaluate strike outcomes across Monte Carlo samples.
+ * A weapon's miss and kill randomness enters through its expected damage
+ * probabilities, so the spread reflects uncertainty about the world only.
  */
 export function evaluateStrikeRisk(
   centerX: number,
   centerY: number,
   radius: number,
   samples: SampledWorld[],
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType
 ): RiskMetrics {
   const outcomes: number[] = [];
   const weightedOutcomes: { value: number; weight: number }[] = [];
   
+  const affectedCells = samples.length > 0
+    ? getStrikeDamageCells(centerX, centerY, radius,
+      samples[0].hostileStates[0].length, samples[0].hostileStates.length, weapon)
+    : [];
+  const cost = getStrikeCost(config, weapon);
+  
   for (const world of samples) {
-    const affectedCells = getAoECells(centerX, centerY, radius, 
-      world.hostileStates[0].length, world.hostileStates.length);
-    
     let hostilesHit = 0;
     let infraHit = 0;
     
-    for (const { x, y } of affectedCells) {
-      if (world.hostileStates[y][x]) hostilesHit++;
-      if (world.infraStates[y][x]) infraHit++;
+    for (const { x, y, damageProbability } of affectedCells) {
+      if (world.hostileStates[y][x]) hostilesHit += damageProbability;
+      if (world.infraStates[y][x]) infraHit += damageProbability;
     }
     
     const netValue = hostilesHit * config.hostileValue - 
                     infraHit * config.infraPenalty - 
-                    config.strikeCost;
+                    cost;
     
     outcomes.push(netValue);
     weightedOutcomes.push({ value: netValue, weight: world.likelihood });
@@ -243,7 +250,8 @@ export function generateRiskAverseHeatmap(
   grid: GameCell[][],
   radius: number,
   config: GameConfig,
-  riskAversion: number = 0.5 // Lambda parameter for risk aversion
+  riskAversion: number = 0.5, // Lambda parameter for risk aversion
+  weapon?: WeaponType
 ): number[][] {
   const height = grid.length;
   const width = grid[0].length;
@@ -261,7 +269,7 @@ export function generateRiskAverseHeatmap(
   
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config);
+      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config, weapon);
       
       // Risk-averse utility: U = EV - λ * CVaR_α
       const utility = riskMetrics.expectedValue - riskAversion * Math.abs(riskMetrics.cvar95);
@@ -278,7 +286,8 @@ export function generateRiskAverseHeatmap(
 export function generateVarianceHeatmap(
   grid: GameCell[][],
   radius: number,
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType
 ): number[][] {
   const height = grid.length;
   const width = grid[0].length;
@@ -295,7 +304,7 @@ export function generateVarianceHeatmap(
   
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config);
+      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config, weapon);
       varianceHeatmap[y][x] = riskMetrics.standardDeviation;
     }
   }
@@ -306,7 +315,21 @@ export function generateVarianceHeatmap(
 /**
  * Policy recommendation types
  */
-export type PolicyType = 'greedyEV' | 'riskAverse' | 'reconVOI';
+export type PolicyType = 'greedyEV' | 'riskAverse' | 'reconVOI' | 'rolloutPlanner';
+
+/**
+ * One step of a multi-step plan
+ */
+export interface PlannedAction {
+  step: number;
+  turn: number;
+  action: 'recon' | 'strike';
+  x: number;
+  y: number;
+  sensor?: SensorType;
+  radius?: number;
+  frequency: number; // Share of rollouts that followed this step
+}
 
 export interface PolicyRecommendation {
   type: PolicyType;
@@ -319,6 +342,10 @@ export interface PolicyRecommendation {
   reasoning: string;
   value: number; // EV, utility, or VOI
   alternatives?: { x: number; y: number; value: number }[];
+  // Multi-step planners only
+  plan?: PlannedAction[];
+  expectedReturn?: number;
+  returnCI?: [number, number];
 }
 
 /**
@@ -464,7 +491,8 @@ export function getReconVOIPolicy(
   config: GameConfig,
   remainingBudget: number,
   selectedSensor: SensorType,
-  strikeRadius: number = 1
+  strikeRadius: number = 1,
+  currentTurn: number = 0
 ): PolicyRecommendation {
   const height = grid.length;
   const width = grid[0].length;
@@ -485,7 +513,7 @@ export function getReconVOIPolicy(
       if (recentRecons >= 2) continue;
       
       try {
-        const voiAnalysis = calculateReconVOI(grid, x, y, selectedSensor, config, strikeRadius, config.seed, 20);
+        const voiAnalysis = calculateReconVOI(grid, x, y, selectedSensor, config, strikeRadius, config.seed, currentTurn);
         
         if (voiAnalysis.reconCost <= remainingBudget && voiAnalysis.netVOI > bestVOI) {
           if (bestX !== -1) {
@@ -530,6 +558,467 @@ export function getReconVOIPolicy(
   };
 }
 
+/**
+ * Options for the rollout planner
+ */
+export interface RolloutPlannerOptions {
+  timeBudgetMs?: number;   // Wall-clock cut-off, for interactive use only
+  maxRollouts: number;
+  numWorlds: number;       // Worlds sampled from the posterior
+  candidateCount: number;  // Root strikes and recons considered (each)
+  actionsPerTurn: number;
+  planLength: number;
+  onProgress?: (progress: number, stage: string) => void;
+}
+
+export const DEFAULT_ROLLOUT_PLANNER_OPTIONS: RolloutPlannerOptions = {
+  maxRollouts: 2000,
+  numWorlds: 64,
+  candidateCount: 6,
+  actionsPerTurn: 3,
+  planLength: 6,
+};
+
+/**
+ * Statistics for one root action of the planner
+ */
+export interface PlannerCandidate {
+  action: 'recon' | 'strike';
+  x: number;
+  y: number;
+  visits: number;
+  meanReturn: number;
+}
+
+export interface RolloutPlanResult {
+  best: PlannerCandidate | null;
+  plan: PlannedAction[];
+  expectedReturn: number;
+  returnCI: [number, number];
+  candidates: PlannerCandidate[];
+  rollouts: number;
+  horizonTurns: number;
+  computationTime: number;
+}
+
+interface PlannerStep {
+  action: 'recon' | 'strike';
+  cell: number;
+}
+
+/**
+ * Flattened game model used inside rollouts
+ */
+interface PlannerModel {
+  width: number;
+  footprints: number[][];
+  reconTPR: Float64Array;
+  reconFPR: Float64Array;
+  reconInfraTPR: Float64Array;
+  reconInfraFPR: Float64Array;
+  reconCost: Float64Array;
+  config: GameConfig;
+}
+
+interface RolloutState {
+  posterior: Float64Array;
+  infraPosterior: Float64Array;
+  hostiles: Uint8Array;
+  infra: Uint8Array;
+  budget: number;
+}
+
+const PLANNER_NEUTRALISED_POSTERIOR = 0.001;
+
+function buildPlannerModel(
+  grid: GameCell[][],
+  config: GameConfig,
+  sensor: SensorType,
+  strikeRadius: number,
+  currentTurn: number
+): PlannerModel {
+  const height = grid.length;
+  const width = grid[0].length;
+  const size = width * height;
+  const model: PlannerModel = {
+    width,
+    footprints: [],
+    reconTPR: new Float64Array(size),
+    reconFPR: new Float64Array(size),
+    reconInfraTPR: new Float64Array(size),
+    reconInfraFPR: new Float64Array(size),
+    reconCost: new Float64Array(size),
+    config,
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      model.footprints[index] = getAoECells(x, y, strikeRadius, width, height).map(c => c.y * width + c.x);
+
+      // Same per-cell context as the game, so rollouts see the real sensor performance
+      // (as of the current turn: the environment is held fixed over the rollout horizon)
+      const context = getCellContext(x, y, config, currentTurn);
+      const performance = calculateEffectivePerformance(sensor, context);
+      model.reconTPR[index] = performance.effectiveTPR;
+      model.reconFPR[index] = performance.effectiveFPR;
+      model.reconInfraTPR[index] = performance.effectiveInfraTPR;
+      model.reconInfraFPR[index] = performance.effectiveInfraFPR;
+      model.reconCost[index] = performance.effectiveCost;
+    }
+  }
+
+  return model;
+}
+
+function modelStrikeEV(model: PlannerModel, state: RolloutState, center: number): number | null {
+  const { config } = model;
+  let expectedValue = -config.strikeCost;
+
+  for (const cell of model.footprints[center]) {
+    // Strikes over the collateral threshold need approval under the default rules of engagement
+    if (state.infraPosterior[cell] > config.collateralThreshold) return null;
+    expectedValue += state.posterior[cell] * config.hostileValue - state.infraPosterior[cell] * config.infraPenalty;
+  }
+
+  return expectedValue;
+}
+
+function bestModelStrike(model: PlannerModel, state: RolloutState): { cell: number; value: number } | null {
+  if (state.budget < model.config.strikeCost) return null;
+
+  let best: { cell: number; value: number } | null = null;
+  for (let center = 0; center < model.footprints.length; center++) {
+    const value = modelStrikeEV(model, state, center);
+    if (value !== null && (!best || value > best.value)) {
+      best = { cell: center, value };
+    }
+  }
+  return best;
+}
+
+function bayesUpdate(prior: number, positive: boolean, tpr: number, fpr: number): number {
+  const likelihoodRatio = positive ? tpr / fpr : (1 - tpr) / (1 - fpr);
+  const odds = (prior / (1 - prior)) * likelihoodRatio;
+  return Math.max(0.001, Math.min(0.999, odds / (1 + odds)));
+}
+
+/**
+ * Apply an action to a rollout state and return its realised score change
+ */
+function applyModelAction(model: PlannerModel, state: RolloutState, step: PlannerStep, rng: SeededRNG): number {
+  const { config } = model;
+
+  if (step.action === 'recon') {
+    const cell = step.cell;
+    const reading = rng.bernoulli(state.hostiles[cell] ? model.reconTPR[cell] : model.reconFPR[cell]);
+    const infraReading = rng.bernoulli(state.infra[cell] ? model.reconInfraTPR[cell] : model.reconInfraFPR[cell]);
+    state.posterior[cell] = bayesUpdate(state.posterior[cell], reading, model.reconTPR[cell], model.reconFPR[cell]);
+    state.infraPosterior[cell] = bayesUpdate(
+      state.infraPosterior[cell], infraReading, model.reconInfraTPR[cell], model.reconInfraFPR[cell]
+    );
+    state.budget -= model.reconCost[cell];
+    return 0;
+  }
+
+  let points = -config.strikeCost;
+  for (const cell of model.footprints[step.cell]) {
+    if (state.hostiles[cell]) points += config.hostileValue;
+    if (state.infra[cell]) points -= config.infraPenalty;
+    state.hostiles[cell] = 0;
+    state.posterior[cell] = PLANNER_NEUTRALISED_POSTERIOR;
+  }
+  state.budget -= config.strikeCost;
+  return points;
+}
+
+/**
+ * Default rollout policy: take a profitable strike, otherwise scan the most
+ * uncertain cell of the best strike footprint while that could still make it pay
+ */
+function defaultRolloutStep(model: PlannerModel, state: RolloutState): PlannerStep | null {
+  const strike = bestModelStrike(model, state);
+  if (strike && strike.value > 0) return { action: 'strike', cell: strike.cell };
+  if (!strike) return null;
+
+  let reconCell = -1;
+  let bestUncertainty = 0.05;
+  for (const cell of model.footprints[strike.cell]) {
+    const p = state.posterior[cell];
+    const uncertainty = p * (1 - p);
+    const optimisticValue = strike.value + (1 - p) * model.config.hostileValue;
+    if (uncertainty > bestUncertainty && optimisticValue > 0 && model.reconCost[cell] <= state.budget) {
+      bestUncertainty = uncertainty;
+      reconCell = cell;
+    }
+  }
+
+  return reconCell >= 0 ? { action: 'recon', cell: reconCell } : null;
+}
+
+function selectRootCandidates(
+  model: PlannerModel,
+  state: RolloutState,
+  candidateCount: number
+): PlannerStep[] {
+  const strikes: { cell: number; score: number }[] = [];
+  const recons: { cell: number; score: number }[] = [];
+
+  for (let center = 0; center < model.footprints.length; center++) {
+    const value = state.budget >= model.config.strikeCost ? modelStrikeEV(model, state, center) : null;
+    if (value !== null) strikes.push({ cell: center, score: value });
+
+    // Recon is worth considering where resolving the cell could make its strike pay
+    if (model.reconCost[center] <= state.budget) {
+      const p = state.posterior[center];
+      let stake = 0;
+      for (const strikeCenter of model.footprints[center]) {
+        const strikeValue = modelStrikeEV(model, state, strikeCenter);
+        if (strikeValue !== null) stake = Math.max(stake, strikeValue + (1 - p) * model.config.hostileValue);
+      }
+      const score = p * (1 - p) * stake;
+      if (score > 0) recons.push({ cell: center, score });
+    }
+  }
+
+  strikes.sort((a, b) => b.score - a.score);
+  recons.sort((a, b) => b.score - a.score);
+
+  return [
+    ...strikes.slice(0, candidateCount).map(c => ({ action: 'strike' as const, cell: c.cell })),
+    ...recons.slice(0, candidateCount).map(c => ({ action: 'recon' as const, cell: c.cell })),
+  ];
+}
+
+/**
+ * Plan over the remaining turns and budget with Monte Carlo rollouts.
+ *
+ * Worlds are sampled from the posterior with generateMonteCarloSamples; root
+ * actions are chosen by UCB1 and each is followed by the default rollout
+ * policy to the horizon. Rollouts update only the scanned cell (no spatial
+ * diffusion), which keeps them cheap enough for thousands per decision.
+ *
+ * Planning stops after maxRollouts, so a plan depends only on its inputs. A
+ * timeBudgetMs cuts it short on wall-clock time instead, which makes the plan
+ * depend on machine load: pass one only where responsiveness matters more.
+ */
+export function planWithRollouts(
+  grid: GameCell[][],
+  config: GameConfig,
+  remainingBudget: number,
+  currentTurn: number,
+  selectedSensor: SensorType,
+  strikeRadius: number = 1,
+  options: Partial<RolloutPlannerOptions> = {}
+): RolloutPlanResult {
+  const startTime = performance.now();
+  const opts = { ...DEFAULT_ROLLOUT_PLANNER_OPTIONS, ...options };
+  const horizonTurns = Math.max(0, config.maxTurns - currentTurn);
+  const horizonActions = horizonTurns * opts.actionsPerTurn;
+
+  const model = buildPlannerModel(grid, config, selectedSensor, strikeRadius, currentTurn);
+  const rootState: RolloutState = {
+    posterior: Float64Array.from(grid.flat().map(cell => cell.posteriorProbability)),
+    infraPosterior: Float64Array.from(grid.flat().map(cell => cell.infraPosteriorProbability)),
+    hostiles: new Uint8Array(grid.length * model.width),
+    infra: new Uint8Array(grid.length * model.width),
+    budget: remainingBudget,
+  };
+
+  const roots = horizonActions > 0 ? selectRootCandidates(model, rootState, opts.candidateCount) : [];
+  const returns: number[][] = roots.map(() => []);
+  const trajectories: PlannerStep[][][] = roots.map(() => []);
+
+  const worlds = roots.length > 0
+    ? generateMonteCarloSamples(grid, {
+        numSamples: opts.numWorlds,
+        seed: config.seed + '-planner',
+        useImportanceSampling: false,
+        spatialCorrelation: false,
+      })
+    : [];
+  const worldTruths = worlds.map(world => ({
+    hostiles: Uint8Array.from(world.hostileStates.flat().map(Number)),
+    infra: Uint8Array.from(world.infraStates.flat().map(Number)),
+  }));
+  const rng = createSubRNG(config.seed, `planner-${currentTurn}-${remainingBudget}`);
+  const explorationScale = config.hostileValue;
+
+  let rollouts = 0;
+  while (roots.length > 0 && rollouts < opts.maxRollouts) {
+    const elapsed = performance.now() - startTime;
+    if (opts.timeBudgetMs !== undefined && elapsed >= opts.timeBudgetMs) break;
+
+    // UCB1 over root actions (each is tried once first)
+    let rootIndex = returns.findIndex(r => r.length === 0);
+    if (rootIndex < 0) {
+      let bestScore = -Infinity;
+      returns.forEach((r, i) => {
+        const mean = r.reduce((sum, v) => sum + v, 0) / r.length;
+        const score = mean + explorationScale * Math.sqrt(2 * Math.log(rollouts) / r.length);
+        if (score > bestScore) {
+          bestScore = score;
+          rootIndex = i;
+        }
+      });
+    }
+
+    const world = worldTruths[rollouts % worldTruths.length];
+    const state: RolloutState = {
+      posterior: rootState.posterior.slice(),
+      infraPosterior: rootState.infraPosterior.slice(),
+      hostiles: world.hostiles.slice(),
+      infra: world.infra.slice(),
+      budget: rootState.budget,
+    };
+
+    const trajectory: PlannerStep[] = [roots[rootIndex]];
+    let total = applyModelAction(model, state, roots[rootIndex], rng);
+    for (let step = 1; step < horizonActions; step++) {
+      const next = defaultRolloutStep(model, state);
+      if (!next) break;
+      total += applyModelAction(model, state, next, rng);
+      if (trajectory.length < opts.planLength) trajectory.push(next);
+    }
+
+    returns[rootIndex].push(total);
+    trajectories[rootIndex].push(trajectory);
+    rollouts++;
+
+    if (rollouts % 50 === 0) {
+      const progress = Math.max(opts.timeBudgetMs ? elapsed / opts.timeBudgetMs : 0, rollouts / opts.maxRollouts);
+      opts.onProgress?.(Math.min(0.99, progress), `Rollout ${rollouts}`);
+    }
+  }
+
+  const candidates: PlannerCandidate[] = roots.map((root, i) => ({
+    action: root.action,
+    x: root.cell % model.width,
+    y: Math.floor(root.cell / model.width),
+    visits: returns[i].length,
+    meanReturn: returns[i].length > 0 ? returns[i].reduce((sum, v) => sum + v, 0) / returns[i].length : 0,
+  }));
+
+  let bestIndex = -1;
+  candidates.forEach((candidate, i) => {
+    if (candidate.visits > 0 && (bestIndex < 0 || candidate.meanReturn > candidates[bestIndex].meanReturn)) {
+      bestIndex = i;
+    }
+  });
+
+  opts.onProgress?.(1.0, 'Planning complete');
+
+  if (bestIndex < 0) {
+    return {
+      best: null,
+      plan: [],
+      expectedReturn: 0,
+      returnCI: [0, 0],
+      candidates,
+      rollouts,
+      horizonTurns,
+      computationTime: performance.now() - startTime,
+    };
+  }
+
+  const bestReturns = returns[bestIndex];
+  const n = bestReturns.length;
+  const mean = candidates[bestIndex].meanReturn;
+  const variance = n > 1 ? bestReturns.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+  const margin = 1.96 * Math.sqrt(variance / n);
+
+  // The plan follows the most common continuation among the best root's rollouts
+  const plan: PlannedAction[] = [];
+  let following = trajectories[bestIndex];
+  for (let step = 0; step < opts.planLength && following.length > 0; step++) {
+    const counts = new Map<string, { step: PlannerStep; count: number }>();
+    for (const trajectory of following) {
+      if (trajectory.length <= step) continue;
+      const key = `${trajectory[step].action}-${trajectory[step].cell}`;
+      const entry = counts.get(key) ?? { step: trajectory[step], count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    if (counts.size === 0) break;
+
+    const modal = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+    plan.push({
+      step,
+      turn: currentTurn + Math.floor(step / opts.actionsPerTurn),
+      action: modal.step.action,
+      x: modal.step.cell % model.width,
+      y: Math.floor(modal.step.cell / model.width),
+      sensor: modal.step.action === 'recon' ? selectedSensor : undefined,
+      radius: modal.step.action === 'strike' ? strikeRadius : undefined,
+      frequency: modal.count / n,
+    });
+    following = following.filter(t => t.length > step && t[step].action === modal.step.action && t[step].cell === modal.step.cell);
+  }
+
+  return {
+    best: candidates[bestIndex],
+    plan,
+    expectedReturn: mean,
+    returnCI: [mean - margin, mean + margin],
+    candidates,
+    rollouts,
+    horizonTurns,
+    computationTime: performance.now() - startTime,
+  };
+}
+
+/**
+ * Non-myopic policy: recommend the first action of the best rollout plan
+ */
+export function getRolloutPlannerPolicy(
+  grid: GameCell[][],
+  config: GameConfig,
+  remainingBudget: number,
+  currentTurn: number,
+  selectedSensor: SensorType,
+  strikeRadius: number = 1,
+  options: Partial<RolloutPlannerOptions> = {}
+): PolicyRecommendation {
+  const result = planWithRollouts(grid, config, remainingBudget, currentTurn, selectedSensor, strikeRadius, options);
+
+  if (!result.best || result.expectedReturn <= 0) {
+    return {
+      type: 'rolloutPlanner',
+      action: 'wait',
+      confidence: 0.5,
+      reasoning: `No plan over ${result.horizonTurns} turns beats holding (${result.rollouts} rollouts)`,
+      value: 0,
+      plan: [],
+      expectedReturn: 0,
+      returnCI: [0, 0],
+    };
+  }
+
+  const { best } = result;
+  const alternatives = result.candidates
+    .filter(candidate => candidate !== best && candidate.visits > 0)
+    .sort((a, b) => b.meanReturn - a.meanReturn)
+    .slice(0, 3)
+    .map(candidate => ({ x: candidate.x, y: candidate.y, value: candidate.meanReturn }));
+
+  return {
+    type: 'rolloutPlanner',
+    action: best.action,
+    x: best.x,
+    y: best.y,
+    sensor: best.action === 'recon' ? selectedSensor : undefined,
+    radius: best.action === 'strike' ? strikeRadius : undefined,
+    // UCB1 concentrates visits on the action it trusts most
+    confidence: Math.min(0.95, Math.max(0.3, best.visits / Math.max(1, result.rollouts))),
+    reasoning: `${result.plan.length}-step plan over ${result.horizonTurns} turns: +${result.expectedReturn.toFixed(0)} expected (95% CI ${result.returnCI[0].toFixed(0)} to ${result.returnCI[1].toFixed(0)}, ${result.rollouts} rollouts)`,
+    value: result.expectedReturn,
+    alternatives,
+    plan: result.plan,
+    expectedReturn: result.expectedReturn,
+    returnCI: result.returnCI,
+  };
+}
+
 /**
  * Get comprehensive policy recommendations
  */
@@ -546,7 +1035,10 @@ export function getAllPolicyRecommendations(
   return {
     greedyEV: getGreedyEVPolicy(grid, config, remainingBudget, strikeRadius),
     riskAverse: getRiskAversePolicy(grid, config, remainingBudget, riskAversion, strikeRadius),
-    reconVOI: getReconVOIPolicy(grid, config, remainingBudget, selectedSensor, strikeRadius),
+    reconVOI: getReconVOIPolicy(grid, config, remainingBudget, selectedSensor, strikeRadius, currentTurn),
+    rolloutPlanner: getRolloutPlannerPolicy(
+      grid, config, remainingBudget, currentTurn, selectedSensor, strikeRadius, { maxRollouts: 300 }
+    ),
   };
 }
 
@@ -556,7 +1048,8 @@ export function getAllPolicyRecommendations(
 export function generateLossRiskHeatmap(
   grid: GameCell[][],
   radius: number,
-  config: GameConfig
+  config: GameConfig,
+  weapon?: WeaponType
 ): number[][] {
   const height = grid.length;
   const width = grid[0].length;
@@ -573,7 +1066,7 @@ export function generateLossRiskHeatmap(
   
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config);
+      const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config, weapon);
       lossRiskHeatmap[y][x] = riskMetrics.probabilityOfLoss;
     }
   }
@@ -0,0 +1,113 @@
+import { AreaOfInterest, GameConfig, GameState, GridPlacement, RoeConfig, RoeRule, RoeVerdict, TacticalBoundary } from './types';
+import type { StrikeOutcome } from './decision-analysis';
+import { createGridProjection, pathToCells, polygonToCells } from './geo-projection';
+
+/**
+ * Rules of engagement.
+ *
+ * A declarative rule set every strike is checked against before it goes in.
+ * Each rule gives a verdict: pass, approval (the strike may go ahead once the
+ * named approver signs off) or block (it may not go ahead at all). No-strike
+ * zones are scenario boundaries or areas of interest: a ROZ or area covers
+ * the cells inside it, a FEBA, FLOT or phase line the cells it runs through,
+ * and a buffer widens either by that many cells. Confirmations count
+ * different sensors, since repeat readings from one sensor are not
+ * independent.
+ *
+ * Without a rule set, strikes whose collateral risk exceeds
+ * collateralThreshold need the commander's approval.
+ */
+
+/**
+ * Parts of the game a strike is checked against
+ */
+export type RoeState = Pick<GameState, 'grid' | 'config' | 'currentTurn' | 'eventLog'>;
+
+export const DEFAULT_APPROVER = 'commander';
+
+/**
+ * The rule set in force: the config's rules, or the collateral approval tier
+ */
+export function getRoeRules(config: Pick<GameConfig, 'roe' | 'collateralThreshold'>): RoeRule[] {
+  return config.roe?.rules ?? [
+    { type: 'approvalTier', collateralRisk: config.collateralThreshold, approver: DEFAULT_APPROVER },
+  ];
+}
+
+function findZone(roe: RoeConfig | undefined, zoneId: string): TacticalBoundary | AreaOfInterest | undefined {
+  return roe?.boundaries.find(boundary => boundary.id === zoneId) ?? roe?.areas.find(area => area.id === zoneId);
+}
+
+/**
+ * Grid cells a no-strike zone covers, buffer included
+ */
+export function getZoneCells(
+  config: Pick<GameConfig, 'gridSize' | 'areaOfOperations'>,
+  zone: TacticalBoundary | AreaOfInterest,
+  buffer: number = 0
+): GridPlacement[] {
+  const projection = createGridProjection(config.gridSize, config.areaOfOperations);
+  if ('path' in zone && zone.type !== 'ROZ') return pathToCells(projection, zone.path, buffer);
+
+  const polygon = 'path' in zone ? zone.path : zone.polygon;
+  const cells = polygonToCells(projection, polygon);
+  if (buffer <= 0) return cells;
+
+  // The buffer is measured from the outline, closed back to its first point
+  const ring = pathToCells(projection, [...polygon, polygon[0]], buffer);
+  return [...cells, ...ring.filter(cell => !cells.some(inside => inside.x === cell.x && inside.y === cell.y))];
+}
+
+function percent(probability: number): string {
+  return `${(probability * 100).toFixed(1)}%`;
+}
+
+function judge(state: RoeState, rule: RoeRule, x: number, y: number, outcome: StrikeOutcome): RoeVerdict {
+  switch (rule.type) {
+    case 'noStrikeZone': {
+      const zone = findZone(state.config.roe, rule.zoneId);
+      const zoneName = zone?.name ?? rule.zoneId;
+      const zoneCells = zone ? getZoneCells(state.config, zone, rule.buffer) : [];
+      const inside = outcome.affectedCells.filter(cell =>
+        zoneCells.some(zoneCell => zoneCell.x === cell.x && zoneCell.y === cell.y)
+      );
+      const where = rule.buffer ? `within ${rule.buffer} cell${rule.buffer === 1 ? '' : 's'} of` : 'inside';
+      return inside.length > 0
+        ? { rule, outcome: 'block', reason: `${inside.length} footprint cell${inside.length === 1 ? '' : 's'} ${where} no-strike zone ${zoneName}` }
+        : { rule, outcome: 'pass', reason: `Footprint clear of ${zoneName}` };
+    }
+    case 'minPosterior': {
+      const posterior = state.grid[y][x].posteriorProbability;
+      return posterior < rule.probability
+        ? { rule, outcome: 'block', reason: `P(hostile) ${percent(posterior)} is below the ${percent(rule.probability)} needed to engage` }
+        : { rule, outcome: 'pass', reason: `P(hostile) ${percent(posterior)} meets ${percent(rule.probability)}` };
+    }
+    case 'confirmations': {
+      const since = rule.withinTurns === undefined ? -Infinity : state.currentTurn - rule.withinTurns;
+      const sensors = new Set(state.grid[y][x].reconHistory
+        .filter(recon => recon.result && recon.turn > since)
+        .map(recon => recon.sensor));
+      const period = rule.withinTurns === undefined ? '' : ` in the last ${rule.withinTurns} turns`;
+      return sensors.size < rule.count
+        ? { rule, outcome: 'block', reason: `${sensors.size} of ${rule.count} independent sensor confirmations${period}` }
+        : { rule, outcome: 'pass', reason: `Confirmed by ${[...sensors].join(', ')}${period}` };
+    }
+    case 'strikesPerTurn': {
+      const strikes = state.eventLog.filter(event => event.type === 'strike' && event.turn === state.currentTurn).length;
+      return strikes >= rule.max
+        ? { rule, outcome: 'block', reason: `Strike cap reached: ${strikes} of ${rule.max} this turn` }
+        : { rule, outcome: 'pass', reason: `${strikes} of ${rule.max} strikes used this turn` };
+    }
+    case 'approvalTier':
+      return outcome.infraHitProbability > rule.collateralRisk
+        ? { rule, outcome: 'approval', reason: `Collateral risk ${percent(outcome.infraHitProbability)} over ${percent(rule.collateralRisk)} needs ${rule.approver} approval` }
+        : { rule, outcome: 'pass', reason: `Collateral risk ${percent(outcome.infraHitProbability)} within ${rule.approver} tier (${percent(rule.collateralRisk)})` };
+  }
+}
+
+/**
+ * Verdict of every rule in force on a strike aimed at (x, y)
+ */
+export function evaluateRoe(state: RoeState, x: number, y: number, outcome: StrikeOutcome): RoeVerdict[] {
+  return getRoeRules(state.config).map(rule => judge(state, rule, x, y, outcome));
+}
@@ -0,0 +1,584 @@
+import {
+  AreaOfInterest,
+  CellContextOverride,
+  EarlyTermination,
+  GameConfig,
+  GameState,
+  GridPlacement,
+  RoeRule,
+  TacticalBoundary,
+  VictoryCondition
+} from './types';
+import { SENSOR_CATALOG, SensorContext } from './sensors';
+import { OBJECTIVE_METRICS } from './objectives';
+
+/**
+ * Versioned JSON scenario files.
+ *
+ * A scenario pins down everything a training exercise needs to be repeatable:
+ * the game config and seed, hand-placed hostiles and infrastructure, fixed
+ * per-cell sensor context, map overlays and the victory conditions. Loading
+ * one folds the layout and objectives into the GameConfig, so replays, batch
+ * runs and the simulation worker all see the same world.
+ */
+
+export const SCENARIO_FORMAT = 'bayesian-forward-operator/scenario';
+export const SCENARIO_VERSION = 1;
+
+/**
+ * Scenario file contents (version 1)
+ */
+export interface ScenarioFile {
+  format: typeof SCENARIO_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  config: Partial<GameConfig> & Pick<GameConfig, 'seed' | 'gridSize'>;
+  hostiles?: GridPlacement[];               // Complete hostile layout (sampled from the seed when absent)
+  infrastructure?: GridPlacement[];         // Complete infrastructure layout (sampled when absent)
+  cellContexts?: CellContextOverride[];     // Sensor context fixed for individual cells
+  boundaries?: TacticalBoundary[];
+  areasOfInterest?: AreaOfInterest[];
+  victoryConditions?: VictoryCondition[];   // Objectives (score is the only goal when absent)
+  earlyTermination?: EarlyTermination[];    // When objectives end the game before maxTurns (never when absent)
+  rulesOfEngagement?: RoeRule[];            // Strike rules (collateral approval at collateralThreshold when absent)
+}
+
+/**
+ * Authoring details added when exporting the current game as a scenario
+ */
+export interface ScenarioDetails {
+  name: string;
+  description?: string;
+  boundaries?: TacticalBoundary[];
+  areasOfInterest?: AreaOfInterest[];
+  victoryConditions?: VictoryCondition[];
+  rulesOfEngagement?: RoeRule[];
+}
+
+const CONTEXT_VALUES: Record<keyof SensorContext, readonly string[]> = {
+  terrain: ['urban', 'forest', 'desert', 'mountain', 'open'],
+  lighting: ['day', 'dusk', 'night', 'infrared'],
+  weather: ['clear', 'overcast', 'rain', 'fog', 'storm'],
+  concealment: ['none', 'light', 'moderate', 'heavy'],
+  jamming: ['none', 'light', 'moderate', 'heavy'],
+};
+
+const NUMERIC_CONFIG_KEYS = [
+  'initialBudget', 'maxTurns', 'hostileValue', 'infraPenalty',
+  'strikeCost', 'reconCost', 'collateralThreshold', 'riskAversion',
+] as const;
+
+const SPATIAL_FIELD_KEYS = [
+  'noiseScale', 'smoothingSigma', 'logisticSteepness', 'hostileBaseProbability', 'infraBaseProbability',
+] as const;
+
+const BETA_PRIOR_KEYS = ['hostileAlpha', 'hostileBeta', 'infraAlpha', 'infraBeta'] as const;
+
+// Numeric field of each condition type (protectArea has none)
+const VICTORY_CONDITION_FIELDS: Record<VictoryCondition['type'], string | null> = {
+  neutralizeHostiles: 'count',
+  maxInfraHits: 'count',
+  minScore: 'score',
+  withinTurns: 'turns',
+  maxMetric: 'value',
+  protectArea: null,
+};
+
+const EARLY_TERMINATIONS = ['onFailure', 'onSuccess'];
+
+// Numeric fields each rule of engagement requires
+const ROE_RULE_FIELDS: Record<RoeRule['type'], readonly string[]> = {
+  noStrikeZone: [],
+  minPosterior: ['probability'],
+  confirmations: ['count'],
+  strikesPerTurn: ['max'],
+  approvalTier: ['collateralRisk'],
+};
+
+const BOUNDARY_TYPES = ['FEBA', 'ROZ', 'FLOT', 'PL'];
+const AOI_TYPES = ['NAI', 'TAI', 'EA', 'OBJECTIVE'];
+const AOI_PRIORITIES = ['HIGH', 'MEDIUM', 'LOW'];
+const INFERENCE_MODES = ['diffusion', 'loopyBP', 'gibbs'];
+const GRID_ALIGNMENTS = ['utm', 'mgrs'];
+
+const ENVIRONMENT_KEYS = ['turnsPerDay', 'startHour', 'weatherFronts', 'frontSpeed', 'jammers'] as const;
+
+const EMISSION_CONTROLS = ['none', 'reactive', 'strict'];
+
+const DRILL_ACTIONS = ['recon', 'strike'];
+
+const SENSOR_ASSET_KEYS = ['speed', 'endurance', 'cooldown', 'scansPerTurn'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isCoordinateList(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+}
+
+function checkNumberFields(errors: string[], path: string, value: unknown, keys: readonly string[], required: boolean): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  for (const key of keys) {
+    if (value[key] === undefined && !required) continue;
+    if (!isFiniteNumber(value[key])) errors.push(`${path}.${key}: must be a number`);
+  }
+}
+
+function checkAreaOfOperations(errors: string[], area: unknown): void {
+  if (!isObject(area)) {
+    errors.push('config.areaOfOperations: must be an object');
+    return;
+  }
+  checkNumberFields(errors, 'config.areaOfOperations.bounds', area.bounds, ['north', 'south', 'east', 'west'], true);
+  if (isObject(area.bounds)) {
+    const { north, south, east, west } = area.bounds as Record<string, number>;
+    if (!(north > south) || !(east > west)) {
+      errors.push('config.areaOfOperations.bounds: must have north > south and east > west');
+    } else if (south < -80 || north > 84) {
+      errors.push('config.areaOfOperations.bounds: must lie between 80°S and 84°N (the MGRS/UTM range)');
+    }
+  }
+  if (!GRID_ALIGNMENTS.includes(area.alignment as string)) {
+    errors.push(`config.areaOfOperations.alignment: must be one of ${GRID_ALIGNMENTS.join(', ')}`);
+  }
+}
+
+function checkLogistics(errors: string[], logistics: unknown, gridSize: number | null): void {
+  if (!isObject(logistics) || typeof logistics.enabled !== 'boolean' || !Array.isArray(logistics.assets)) {
+    errors.push('config.logistics: must have a boolean enabled and an assets array');
+    return;
+  }
+
+  const ids = new Set<string>();
+  logistics.assets.forEach((asset: unknown, index: number) => {
+    const path = `config.logistics.assets[${index}]`;
+    checkNumberFields(errors, path, asset, SENSOR_ASSET_KEYS, true);
+    if (!isObject(asset)) return;
+
+    if (typeof asset.id !== 'string' || asset.id.length === 0) {
+      errors.push(`${path}.id: must be a non-empty string`);
+    } else if (ids.has(asset.id)) {
+      errors.push(`${path}.id: '${asset.id}' is used twice`);
+    } else {
+      ids.add(asset.id);
+    }
+    if (typeof asset.name !== 'string') errors.push(`${path}.name: must be a string`);
+    if (typeof asset.sensor !== 'string' || !(asset.sensor in SENSOR_CATALOG)) {
+      errors.push(`${path}.sensor: must be one of ${Object.keys(SENSOR_CATALOG).join(', ')}`);
+    }
+    checkCell(errors, `${path}.base`, asset.base, gridSize);
+    for (const key of SENSOR_ASSET_KEYS) {
+      if (isFiniteNumber(asset[key]) && (asset[key] as number) < 0) errors.push(`${path}.${key}: must not be negative`);
+    }
+    if (isFiniteNumber(asset.speed) && asset.speed <= 0) errors.push(`${path}.speed: must be positive`);
+  });
+}
+
+function checkConfig(errors: string[], config: unknown): number | null {
+  if (!isObject(config)) {
+    errors.push('config: must be an object');
+    return null;
+  }
+
+  if (typeof config.seed !== 'string' || config.seed.length === 0) {
+    errors.push('config.seed: must be a non-empty string');
+  }
+
+  let gridSize: number | null = null;
+  if (!Number.isInteger(config.gridSize) || (config.gridSize as number) < 2) {
+    errors.push('config.gridSize: must be an integer of at least 2');
+  } else {
+    gridSize = config.gridSize as number;
+  }
+
+  checkNumberFields(errors, 'config', config, NUMERIC_CONFIG_KEYS, false);
+  if (config.maxTurns !== undefined && (!Number.isInteger(config.maxTurns) || (config.maxTurns as number) < 1)) {
+    errors.push('config.maxTurns: must be a positive integer');
+  }
+  if (config.spatialField !== undefined) {
+    checkNumberFields(errors, 'config.spatialField', config.spatialField, SPATIAL_FIELD_KEYS, true);
+  }
+  if (config.betaPriors !== undefined) {
+    checkNumberFields(errors, 'config.betaPriors', config.betaPriors, BETA_PRIOR_KEYS, true);
+  }
+  if (config.movement !== undefined) {
+    checkNumberFields(errors, 'config.movement', config.movement, ['stayProbability', 'priorAttraction'], true);
+    if (isObject(config.movement) && typeof config.movement.enabled !== 'boolean') {
+      errors.push('config.movement.enabled: must be a boolean');
+    }
+  }
+  if (config.environment !== undefined) {
+    checkNumberFields(errors, 'config.environment', config.environment, ENVIRONMENT_KEYS, true);
+    if (isObject(config.environment) && typeof config.environment.enabled !== 'boolean') {
+      errors.push('config.environment.enabled: must be a boolean');
+    }
+    if (isObject(config.environment) && isFiniteNumber(config.environment.turnsPerDay) && config.environment.turnsPerDay <= 0) {
+      errors.push('config.environment.turnsPerDay: must be positive');
+    }
+  }
+  if (config.adversary !== undefined) {
+    checkNumberFields(errors, 'config.adversary', config.adversary, ['decoyDensity', 'silenceTurns'], true);
+    if (isObject(config.adversary)) {
+      const { adversary } = config;
+      if (typeof adversary.enabled !== 'boolean') errors.push('config.adversary.enabled: must be a boolean');
+      if (isFiniteNumber(adversary.decoyDensity) && (adversary.decoyDensity < 0 || adversary.decoyDensity > 1)) {
+        errors.push('config.adversary.decoyDensity: must be between 0 and 1');
+      }
+      if (!EMISSION_CONTROLS.includes(adversary.emissionControl as string)) {
+        errors.push(`config.adversary.emissionControl: must be one of ${EMISSION_CONTROLS.join(', ')}`);
+      }
+    }
+  }
+  if (config.targetClasses !== undefined) {
+    checkNumberFields(errors, 'config.targetClasses', config.targetClasses, ['concentration'], true);
+    if (isObject(config.targetClasses) && typeof config.targetClasses.enabled !== 'boolean') {
+      errors.push('config.targetClasses.enabled: must be a boolean');
+    }
+    if (isObject(config.targetClasses) && isFiniteNumber(config.targetClasses.concentration) && config.targetClasses.concentration <= 0) {
+      errors.push('config.targetClasses.concentration: must be positive');
+    }
+  }
+  if (config.fusion !== undefined) {
+    checkNumberFields(errors, 'config.fusion', config.fusion, ['correlation'], true);
+    if (isObject(config.fusion) && typeof config.fusion.enabled !== 'boolean') {
+      errors.push('config.fusion.enabled: must be a boolean');
+    }
+    if (isObject(config.fusion) && isFiniteNumber(config.fusion.correlation) &&
+      (config.fusion.correlation <= 0 || config.fusion.correlation >= 1)) {
+      errors.push('config.fusion.correlation: must be between 0 and 1 (exclusive)');
+    }
+  }
+  if (config.calibrationDrill !== undefined) {
+    if (!isObject(config.calibrationDrill)) {
+      errors.push('config.calibrationDrill: must be an object');
+    } else {
+      const { calibrationDrill } = config;
+      if (typeof calibrationDrill.enabled !== 'boolean') errors.push('config.calibrationDrill.enabled: must be a boolean');
+      if (!Array.isArray(calibrationDrill.elicitOn) || !calibrationDrill.elicitOn.every(action => DRILL_ACTIONS.includes(action as string))) {
+        errors.push(`config.calibrationDrill.elicitOn: must be a list of ${DRILL_ACTIONS.join(', ')}`);
+      }
+    }
+  }
+  if (config.availableSensors !== undefined && (
+    !Array.isArray(config.availableSensors) ||
+    !config.availableSensors.every(sensor => typeof sensor === 'string' && sensor in SENSOR_CATALOG)
+  )) {
+    errors.push(`config.availableSensors: must be a list of ${Object.keys(SENSOR_CATALOG).join(', ')}`);
+  }
+  if (config.inferenceMode !== undefined && !INFERENCE_MODES.includes(config.inferenceMode as string)) {
+    errors.push(`config.inferenceMode: must be one of ${INFERENCE_MODES.join(', ')}`);
+  } else if (config.inferenceMode !== undefined && config.inferenceMode !== 'diffusion' &&
+    isObject(config.movement) && config.movement.enabled === true) {
+    // The latent field assumes static hostiles; the engine would quietly fall back to diffusion
+    errors.push(`config.inferenceMode: ${config.inferenceMode} needs static hostiles, so it cannot be used with config.movement enabled`);
+  }
+  if (config.areaOfOperations !== undefined) checkAreaOfOperations(errors, config.areaOfOperations);
+  if (config.logistics !== undefined) checkLogistics(errors, config.logistics, gridSize);
+  if (config.showTruthOverlay !== undefined && typeof config.showTruthOverlay !== 'boolean') {
+    errors.push('config.showTruthOverlay: must be a boolean');
+  }
+
+  // Layouts belong at the top level of the scenario, where they are validated
+  for (const key of ['hostilePlacements', 'infraPlacements', 'contextOverrides']) {
+    if (config[key] !== undefined) errors.push(`config.${key}: not allowed in a scenario config`);
+  }
+
+  return gridSize;
+}
+
+function checkCell(errors: string[], path: string, value: unknown, gridSize: number | null): string | null {
+  if (!isObject(value) || !Number.isInteger(value.x) || !Number.isInteger(value.y)) {
+    errors.push(`${path}: must have integer x and y`);
+    return null;
+  }
+
+  const x = value.x as number;
+  const y = value.y as number;
+  if (gridSize !== null && (x < 0 || x >= gridSize || y < 0 || y >= gridSize)) {
+    errors.push(`${path}: (${x}, ${y}) is outside the ${gridSize}x${gridSize} grid`);
+  }
+  return `${x},${y}`;
+}
+
+function checkPlacements(errors: string[], path: string, value: unknown, gridSize: number | null): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return;
+  }
+
+  const seen = new Set<string>();
+  value.forEach((entry, index) => {
+    const key = checkCell(errors, `${path}[${index}]`, entry, gridSize);
+    if (key && seen.has(key)) errors.push(`${path}[${index}]: cell (${key}) is listed twice`);
+    if (key) seen.add(key);
+  });
+}
+
+function checkCellContexts(errors: string[], value: unknown, gridSize: number | null): void {
+  if (!Array.isArray(value)) {
+    errors.push('cellContexts: must be an array');
+    return;
+  }
+
+  const seen = new Set<string>();
+  value.forEach((entry, index) => {
+    const path = `cellContexts[${index}]`;
+    const key = checkCell(errors, path, entry, gridSize);
+    if (key && seen.has(key)) errors.push(`${path}: cell (${key}) is listed twice`);
+    if (key) seen.add(key);
+
+    if (!isObject(entry) || !isObject(entry.context)) {
+      errors.push(`${path}.context: must be an object`);
+      return;
+    }
+    for (const [factor, level] of Object.entries(entry.context)) {
+      const allowed = CONTEXT_VALUES[factor as keyof SensorContext];
+      if (!allowed) {
+        errors.push(`${path}.context.${factor}: unknown context factor`);
+      } else if (!allowed.includes(level as string)) {
+        errors.push(`${path}.context.${factor}: must be one of ${allowed.join(', ')}`);
+      }
+    }
+  });
+}
+
+function checkBoundaries(errors: string[], value: unknown): void {
+  if (!Array.isArray(value)) {
+    errors.push('boundaries: must be an array');
+    return;
+  }
+
+  value.forEach((boundary, index) => {
+    const path = `boundaries[${index}]`;
+    if (!isObject(boundary)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (typeof boundary.id !== 'string' || typeof boundary.name !== 'string') {
+      errors.push(`${path}: must have string id and name`);
+    }
+    if (!BOUNDARY_TYPES.includes(boundary.type as string)) {
+      errors.push(`${path}.type: must be one of ${BOUNDARY_TYPES.join(', ')}`);
+    }
+    if (!Array.isArray(boundary.path) || boundary.path.length < 2 || !boundary.path.every(point => isCoordinateList(point, 3))) {
+      errors.push(`${path}.path: must list at least two [lng, lat, altitude] points`);
+    }
+    if (!isCoordinateList(boundary.color, 4)) errors.push(`${path}.color: must be [r, g, b, a]`);
+    if (!isFiniteNumber(boundary.dashLength)) errors.push(`${path}.dashLength: must be a number`);
+    if (typeof boundary.animated !== 'boolean') errors.push(`${path}.animated: must be a boolean`);
+  });
+}
+
+function checkAreasOfInterest(errors: string[], value: unknown): void {
+  if (!Array.isArray(value)) {
+    errors.push('areasOfInterest: must be an array');
+    return;
+  }
+
+  value.forEach((area, index) => {
+    const path = `areasOfInterest[${index}]`;
+    if (!isObject(area)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    if (typeof area.id !== 'string' || typeof area.name !== 'string') {
+      errors.push(`${path}: must have string id and name`);
+    }
+    if (!AOI_TYPES.includes(area.type as string)) {
+      errors.push(`${path}.type: must be one of ${AOI_TYPES.join(', ')}`);
+    }
+    if (!AOI_PRIORITIES.includes(area.priority as string)) {
+      errors.push(`${path}.priority: must be one of ${AOI_PRIORITIES.join(', ')}`);
+    }
+    if (!Array.isArray(area.polygon) || area.polygon.length < 3 || !area.polygon.every(point => isCoordinateList(point, 3))) {
+      errors.push(`${path}.polygon: must list at least three [lng, lat, altitude] points`);
+    }
+    if (area.description !== undefined && typeof area.description !== 'string') {
+      errors.push(`${path}.description: must be a string`);
+    }
+  });
+}
+
+function checkVictoryConditions(errors: string[], value: unknown, areaIds: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push('victoryConditions: must be an array');
+    return;
+  }
+
+  value.forEach((condition, index) => {
+    const path = `victoryConditions[${index}]`;
+    if (!isObject(condition) || !(condition.type as string in VICTORY_CONDITION_FIELDS)) {
+      errors.push(`${path}.type: must be one of ${Object.keys(VICTORY_CONDITION_FIELDS).join(', ')}`);
+      return;
+    }
+    const field = VICTORY_CONDITION_FIELDS[condition.type as VictoryCondition['type']];
+    if (field && !isFiniteNumber(condition[field])) errors.push(`${path}.${field}: must be a number`);
+    if (condition.type === 'maxMetric' && !(condition.metric as string in OBJECTIVE_METRICS)) {
+      errors.push(`${path}.metric: must be one of ${Object.keys(OBJECTIVE_METRICS).join(', ')}`);
+    }
+    if (condition.areaId !== undefined || condition.type === 'protectArea') {
+      if (!areaIds.includes(condition.areaId as string)) errors.push(`${path}.areaId: must name one of the areasOfInterest`);
+    }
+  });
+}
+
+function checkRulesOfEngagement(errors: string[], value: unknown, zoneIds: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push('rulesOfEngagement: must be an array');
+    return;
+  }
+
+  value.forEach((rule, index) => {
+    const path = `rulesOfEngagement[${index}]`;
+    if (!isObject(rule) || !(rule.type as string in ROE_RULE_FIELDS)) {
+      errors.push(`${path}.type: must be one of ${Object.keys(ROE_RULE_FIELDS).join(', ')}`);
+      return;
+    }
+    checkNumberFields(errors, path, rule, ROE_RULE_FIELDS[rule.type as RoeRule['type']], true);
+    if (rule.type === 'noStrikeZone') {
+      if (!zoneIds.includes(rule.zoneId as string)) errors.push(`${path}.zoneId: must name one of the boundaries or areasOfInterest`);
+      checkNumberFields(errors, path, rule, ['buffer'], false);
+    }
+    if (rule.type === 'confirmations') checkNumberFields(errors, path, rule, ['withinTurns'], false);
+    if (rule.type === 'approvalTier' && typeof rule.approver !== 'string') errors.push(`${path}.approver: must be a string`);
+  });
+}
+
+/**
+ * Check a parsed scenario against the format. Returns one message per
+ * problem (prefixed with its path); an empty list means the scenario is valid.
+ */
+export function validateScenario(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(data)) return ['scenario: must be a JSON object'];
+
+  if (data.format !== SCENARIO_FORMAT) {
+    errors.push(`format: must be "${SCENARIO_FORMAT}"`);
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    errors.push('version: must be a positive integer');
+  } else if ((data.version as number) > SCENARIO_VERSION) {
+    errors.push(`version: ${data.version} is newer than the supported version ${SCENARIO_VERSION}`);
+  }
+  if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+    errors.push('name: must be a non-empty string');
+  }
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push('description: must be a string');
+  }
+
+  const gridSize = checkConfig(errors, data.config);
+
+  if (data.hostiles !== undefined) checkPlacements(errors, 'hostiles', data.hostiles, gridSize);
+  if (data.infrastructure !== undefined) checkPlacements(errors, 'infrastructure', data.infrastructure, gridSize);
+  if (data.cellContexts !== undefined) checkCellContexts(errors, data.cellContexts, gridSize);
+  if (data.boundaries !== undefined) checkBoundaries(errors, data.boundaries);
+  if (data.areasOfInterest !== undefined) checkAreasOfInterest(errors, data.areasOfInterest);
+  const idsOf = (list: unknown): string[] => Array.isArray(list)
+    ? list.flatMap(item => isObject(item) && typeof item.id === 'string' ? [item.id] : [])
+    : [];
+  if (data.victoryConditions !== undefined) {
+    checkVictoryConditions(errors, data.victoryConditions, idsOf(data.areasOfInterest));
+  }
+  if (data.rulesOfEngagement !== undefined) {
+    checkRulesOfEngagement(errors, data.rulesOfEngagement, [...idsOf(data.boundaries), ...idsOf(data.areasOfInterest)]);
+  }
+  if (data.earlyTermination !== undefined && (
+    !Array.isArray(data.earlyTermination) ||
+    !data.earlyTermination.every(rule => EARLY_TERMINATIONS.includes(rule as string))
+  )) {
+    errors.push(`earlyTermination: must be a list of ${EARLY_TERMINATIONS.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a scenario file, throwing with every problem found
+ */
+export function parseScenario(json: string): ScenarioFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Scenario is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors = validateScenario(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario:\n${errors.join('\n')}`);
+  }
+
+  return data as ScenarioFile;
+}
+
+/**
+ * Config overrides for initializeGame: the scenario config with its layouts, objectives and rules folded in
+ */
+export function scenarioToConfig(scenario: ScenarioFile): Partial<GameConfig> {
+  return {
+    ...scenario.config,
+    hostilePlacements: scenario.hostiles,
+    infraPlacements: scenario.infrastructure,
+    contextOverrides: scenario.cellContexts,
+    objectives: scenario.victoryConditions && {
+      conditions: scenario.victoryConditions,
+      areas: scenario.areasOfInterest ?? [],
+      earlyTermination: scenario.earlyTermination ?? [],
+    },
+    roe: scenario.rulesOfEngagement && {
+      rules: scenario.rulesOfEngagement,
+      boundaries: scenario.boundaries ?? [],
+      areas: scenario.areasOfInterest ?? [],
+    },
+  };
+}
+
+/**
+ * Capture the current game as a scenario. The truth layout is written out
+ * cell by cell, so the exercise no longer depends on how the seed is sampled.
+ */
+export function createScenarioFromGame(
+  state: Pick<GameState, 'config' | 'truthField'>,
+  details: ScenarioDetails
+): ScenarioFile {
+  const config: Partial<GameConfig> = { ...state.config };
+  delete config.hostilePlacements;
+  delete config.infraPlacements;
+  delete config.contextOverrides;
+  delete config.objectives;
+  delete config.roe;
+
+  const cellsWhere = (truth: boolean[][]) => truth.flatMap((row, y) =>
+    row.flatMap((value, x) => value ? [{ x, y }] : [])
+  );
+
+  const scenario: ScenarioFile = {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    name: details.name,
+    description: details.description,
+    config: config as ScenarioFile['config'],
+    hostiles: cellsWhere(state.truthField.hostileTruth),
+    infrastructure: cellsWhere(state.truthField.infraTruth),
+    cellContexts: state.config.contextOverrides,
+    boundaries: details.boundaries ?? state.config.roe?.boundaries,
+    areasOfInterest: details.areasOfInterest ?? state.config.objectives?.areas ?? state.config.roe?.areas,
+    victoryConditions: details.victoryConditions ?? state.config.objectives?.conditions,
+    earlyTermination: state.config.objectives?.earlyTermination,
+    rulesOfEngagement: details.rulesOfEngagement ?? state.config.roe?.rules,
+  };
+
+  // Unused sections are left out of the file rather than written as null
+  return JSON.parse(JSON.stringify(scenario)) as ScenarioFile;
+}
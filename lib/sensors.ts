@@ -1,5 +1,6 @@
-import { SeededRNG } from './rng';
-import { SensorType } from './types';
+import { SeededRNG, createSubRNG } from './rng';
+import { ClassDistribution, GameConfig, HostileClass, SensorType } from './types';
+import { createEnvironmentModel, getEnvironmentConditions, getHourOfDay, isEnvironmentEnabled } from './environment';
 
 /**
  * Context factors that modify sensor performance
@@ -28,6 +29,10 @@ export interface EnhancedSensorConfig {
   baseFPR: number;
   baseCost: number;
   
+  // Infrastructure detection (structures are not concealed, so no concealment modifier)
+  baseInfraTPR: number;
+  baseInfraFPR: number;
+  
   // Context multipliers for TPR (detection capability)
   terrainTPRModifiers: Record<TerrainType, number>;
   lightingTPRModifiers: Record<LightingCondition, number>;
@@ -45,6 +50,13 @@ export interface EnhancedSensorConfig {
   // Cost multipliers
   terrainCostModifiers: Record<TerrainType, number>;
   weatherCostModifiers: Record<WeatherCondition, number>;
+  
+  // Adversary deception (only applies when the adversary model is enabled)
+  decoySusceptibility: number;     // P(a decoy triggers a positive the sensor would otherwise miss)
+  silentTPRModifier: number;       // TPR multiplier against hostiles under emissions control
+  
+  // Target classification (only applies when hostile classes are enabled)
+  classificationAccuracy: number;  // P(a detection reports the true class), errors spread evenly over the rest
 }
 
 /**
@@ -53,6 +65,8 @@ export interface EnhancedSensorConfig {
 export interface EffectiveSensorPerformance {
   effectiveTPR: number;
   effectiveFPR: number;
+  effectiveInfraTPR: number;
+  effectiveInfraFPR: number;
   effectiveCost: number;
   contextSummary: string;
 }
@@ -65,6 +79,10 @@ export interface SensorReading {
   confidence: number;           // sensor confidence in reading (0-1)
   effectiveTPR: number;         // actual TPR used
   effectiveFPR: number;         // actual FPR used
+  infraResult: boolean;         // true = infrastructure detected
+  effectiveInfraTPR: number;    // actual infra TPR used
+  effectiveInfraFPR: number;    // actual infra FPR used
+  classLabel?: HostileClass;    // reported class of a positive reading (target classes only)
   contextFactors: SensorContext;
   rawSignal: number;            // internal signal strength
 }
@@ -79,6 +97,8 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
     baseTPR: 0.85,
     baseFPR: 0.15,
     baseCost: 10,
+    baseInfraTPR: 0.90,   // Structures are easy to image
+    baseInfraFPR: 0.08,
     
     terrainTPRModifiers: {
       urban: 0.9,     // Buildings provide some cover but good for signatures
@@ -160,6 +180,10 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
       fog: 1.5,       // Extended flight time
       storm: 2.0,     // High risk operation
     },
+    
+    decoySusceptibility: 0.6,   // Inflatable and painted decoys look real from above
+    silentTPRModifier: 1.0,     // Imagery does not depend on emissions
+    classificationAccuracy: 0.7,  // Vehicle shapes are distinctive, camouflaged sites less so
   },
   
   sigint: {
@@ -168,6 +192,8 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
     baseTPR: 0.60,
     baseFPR: 0.05,
     baseCost: 15,
+    baseInfraTPR: 0.45,   // Only emitting infrastructure is visible
+    baseInfraFPR: 0.10,
     
     terrainTPRModifiers: {
       urban: 1.2,     // Many electronic signatures
@@ -249,6 +275,10 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
       fog: 1.0,       // No effect
       storm: 1.3,     // Complex atmospheric processing
     },
+    
+    decoySusceptibility: 0.35,  // Emitter decoys replay known signatures
+    silentTPRModifier: 0.3,     // Nothing to intercept once radios go quiet
+    classificationAccuracy: 0.55, // Emitter types overlap between classes
   },
   
   ground: {
@@ -257,6 +287,8 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
     baseTPR: 0.75,
     baseFPR: 0.10,
     baseCost: 20,
+    baseInfraTPR: 0.85,   // Spotters can confirm occupancy and use
+    baseInfraFPR: 0.05,
     
     terrainTPRModifiers: {
       urban: 1.1,     // Good for human intel
@@ -338,6 +370,10 @@ export const SENSOR_CATALOG: Record<SensorType, EnhancedSensorConfig> = {
       fog: 1.4,       // Navigation difficulty
       storm: 2.2,     // Dangerous conditions
     },
+    
+    decoySusceptibility: 0.1,   // Hard to fool up close
+    silentTPRModifier: 0.95,    // Quieter units are slightly harder to spot
+    classificationAccuracy: 0.9,  // Eyes on the target
   },
 };
 
@@ -368,6 +404,21 @@ export function calculateEffectivePerformance(
   effectiveFPR *= config.jammingFPRModifiers[context.jamming];
   effectiveFPR = Math.max(0.01, Math.min(0.99, effectiveFPR));
   
+  // Infrastructure detection shares the environmental modifiers but ignores concealment
+  let effectiveInfraTPR = config.baseInfraTPR;
+  effectiveInfraTPR *= config.terrainTPRModifiers[context.terrain];
+  effectiveInfraTPR *= config.lightingTPRModifiers[context.lighting];
+  effectiveInfraTPR *= config.weatherTPRModifiers[context.weather];
+  effectiveInfraTPR *= config.jammingTPRModifiers[context.jamming];
+  effectiveInfraTPR = Math.max(0.01, Math.min(0.99, effectiveInfraTPR));
+  
+  let effectiveInfraFPR = config.baseInfraFPR;
+  effectiveInfraFPR *= config.terrainFPRModifiers[context.terrain];
+  effectiveInfraFPR *= config.lightingFPRModifiers[context.lighting];
+  effectiveInfraFPR *= config.weatherFPRModifiers[context.weather];
+  effectiveInfraFPR *= config.jammingFPRModifiers[context.jamming];
+  effectiveInfraFPR = Math.max(0.01, Math.min(0.99, effectiveInfraFPR));
+  
   // Calculate effective cost
   let effectiveCost = config.baseCost;
   effectiveCost *= config.terrainCostModifiers[context.terrain];
@@ -380,6 +431,8 @@ export function calculateEffectivePerformance(
   return {
     effectiveTPR,
     effectiveFPR,
+    effectiveInfraTPR,
+    effectiveInfraFPR,
     effectiveCost,
     contextSummary,
   };
@@ -418,37 +471,259 @@ export function generateCellContext(
 }
 
 /**
- * Simulate a sensor reading given truth and context
+ * Sensor context of a cell in a game: the seeded draw, with the turn's
+ * lighting, weather and jamming when the environment is enabled, and any
+ * scenario override for that cell applied on top
+ */
+export function getCellContext(
+  x: number,
+  y: number,
+  config: Pick<GameConfig, 'gridSize' | 'seed' | 'contextOverrides' | 'environment'>,
+  turn: number = 0
+): SensorContext {
+  let context = generateCellContext(x, y, config.gridSize, createSubRNG(config.seed, `context-${x}-${y}`));
+  if (isEnvironmentEnabled(config.environment)) {
+    const model = createEnvironmentModel({ ...config, environment: config.environment });
+    context = { ...context, ...getEnvironmentConditions(model, x, y, turn) };
+  }
+  const override = config.contextOverrides?.find(entry => entry.x === x && entry.y === y);
+  return override ? { ...context, ...override.context } : context;
+}
+
+/**
+ * Effective performance of every sensor under one context, for side-by-side comparison
+ */
+export function compareSensors(context: SensorContext): Record<SensorType, EffectiveSensorPerformance> {
+  return Object.fromEntries(
+    (Object.keys(SENSOR_CATALOG) as SensorType[]).map(sensor => [sensor, calculateEffectivePerformance(sensor, context)])
+  ) as Record<SensorType, EffectiveSensorPerformance>;
+}
+
+/**
+ * Most informative sensor under a context: the largest TPR − FPR gap
+ */
+export function bestSensorFor(performance: Record<SensorType, EffectiveSensorPerformance>): SensorType {
+  const informativeness = (sensor: SensorType) => performance[sensor].effectiveTPR - performance[sensor].effectiveFPR;
+  return (Object.keys(performance) as SensorType[])
+    .reduce((best, sensor) => informativeness(sensor) > informativeness(best) ? sensor : best);
+}
+
+/**
+ * Expected performance of every sensor at a cell over the coming turns
+ */
+export interface SensorForecast {
+  turn: number;
+  hour: number | null;             // Hour of day (null without the environment model)
+  context: SensorContext;
+  performance: Record<SensorType, EffectiveSensorPerformance>;
+  bestSensor: SensorType;          // Largest TPR − FPR gap, i.e. the most informative reading
+}
+
+/**
+ * Forecast sensor performance at a cell for `horizon` turns from `fromTurn`,
+ * so recon can be timed for the sensor that suits the conditions
+ */
+export function forecastSensorPerformance(
+  x: number,
+  y: number,
+  config: Pick<GameConfig, 'gridSize' | 'seed' | 'contextOverrides' | 'environment' | 'maxTurns'>,
+  fromTurn: number,
+  horizon: number
+): SensorForecast[] {
+  const lastTurn = Math.min(fromTurn + horizon, config.maxTurns);
+  const forecast: SensorForecast[] = [];
+
+  for (let turn = fromTurn; turn < lastTurn; turn++) {
+    const context = getCellContext(x, y, config, turn);
+    const performance = compareSensors(context);
+
+    forecast.push({
+      turn,
+      hour: isEnvironmentEnabled(config.environment) ? getHourOfDay(config.environment, turn) : null,
+      context,
+      performance,
+      bestSensor: bestSensorFor(performance),
+    });
+  }
+
+  return forecast;
+}
+
+/**
+ * RNG for a single recon reading, shared by the store and the simulation worker.
+ * The per-game action index keeps repeated scans of a cell within a turn independent.
+ */
+export function createReconRNG(
+  seed: string,
+  turn: number,
+  actionIndex: number,
+  x: number,
+  y: number,
+  sensor: SensorType
+): SeededRNG {
+  return createSubRNG(seed, `recon-${turn}-${actionIndex}-${x}-${y}-${sensor}`);
+}
+
+/**
+ * What the adversary does to one reading: whether the cell holds a decoy
+ * (truth, hidden from the player), whether its hostile has gone silent
+ * (known from the scan history) and the player's current P(decoy | no hostile)
+ */
+export interface AdversaryExposure {
+  decoy: boolean;
+  silent: boolean;
+  decoyProbability: number;
+}
+
+/**
+ * P(positive | decoy, no hostile): the usual false alarms plus the decoys that fool the sensor
+ */
+export function decoyPositiveRate(sensorType: SensorType, effectiveFPR: number): number {
+  return effectiveFPR + (1 - effectiveFPR) * SENSOR_CATALOG[sensorType].decoySusceptibility;
+}
+
+/**
+ * A cell's hostile class as the reading sees it: the true class (when there
+ * is a hostile), the player's P(class | hostile) and each class's TPR
+ * multiplier for the scanning sensor
+ */
+export interface TargetExposure {
+  hostileClass?: HostileClass;
+  classProbabilities: ClassDistribution;
+  signatures: ClassDistribution;
+}
+
+/**
+ * TPR against one hostile class
+ */
+export function signatureTPR(effectiveTPR: number, signature: number): number {
+  return Math.min(0.99, effectiveTPR * signature);
+}
+
+/**
+ * P(sensor reports label | hostile of the given class)
+ */
+export function classLabelLikelihood(
+  sensorType: SensorType,
+  label: HostileClass,
+  hostileClass: HostileClass,
+  classCount: number
+): number {
+  const accuracy = SENSOR_CATALOG[sensorType].classificationAccuracy;
+  return label === hostileClass ? accuracy : (1 - accuracy) / (classCount - 1);
+}
+
+/**
+ * Earlier readings of the same cell by the same sensor in the same context.
+ * Such readings share a latent bias: their rate is Beta-distributed around
+ * the sensor's TPR (or FPR) with the given concentration.
+ */
+export interface FusionExposure {
+  readings: number;
+  positives: number;
+  concentration: number;
+}
+
+/**
+ * P(positive | earlier correlated readings) for a sensor rate: the Beta-binomial predictive
+ */
+export function fuseRate(rate: number, fusion: FusionExposure): number {
+  return (fusion.concentration * rate + fusion.positives) / (fusion.concentration + fusion.readings);
+}
+
+/**
+ * Simulate a sensor reading given truth and context.
+ *
+ * With an adversary the reading is drawn against the true decoy and silence
+ * state, while the returned TPR/FPR are the likelihoods the player should
+ * update with: the silence-adjusted TPR, and the FPR marginalised over the
+ * player's decoy belief. With hostile classes the detection uses the true
+ * class's signature, the returned TPR is marginalised over the player's
+ * class belief and a positive reading also reports a class. With fusion every
+ * rate is conditioned on the earlier correlated readings, so repeats move the
+ * belief less and less.
  */
 export function simulateSensorReading(
   sensorType: SensorType,
   hasHostile: boolean,
+  hasInfrastructure: boolean,
   context: SensorContext,
-  rng: SeededRNG
+  rng: SeededRNG,
+  adversary?: AdversaryExposure,
+  target?: TargetExposure,
+  fusion?: FusionExposure
 ): SensorReading {
   const performance = calculateEffectivePerformance(sensorType, context);
   
+  let effectiveTPR = performance.effectiveTPR;
+  let effectiveFPR = performance.effectiveFPR;
+  let trueFPR = effectiveFPR;
+  if (adversary) {
+    const decoyRate = decoyPositiveRate(sensorType, performance.effectiveFPR);
+    if (adversary.silent) {
+      effectiveTPR = Math.max(0.01, effectiveTPR * SENSOR_CATALOG[sensorType].silentTPRModifier);
+    }
+    trueFPR = adversary.decoy ? decoyRate : performance.effectiveFPR;
+    effectiveFPR = performance.effectiveFPR + adversary.decoyProbability * (decoyRate - performance.effectiveFPR);
+  }
+  
+  let trueTPR = effectiveTPR;
+  const classes = target ? Object.keys(target.signatures) as HostileClass[] : [];
+  if (target) {
+    const baseTPR = effectiveTPR;
+    if (target.hostileClass) trueTPR = signatureTPR(baseTPR, target.signatures[target.hostileClass]);
+    effectiveTPR = classes.reduce(
+      (sum, hostileClass) => sum + target.classProbabilities[hostileClass] * signatureTPR(baseTPR, target.signatures[hostileClass]),
+      0
+    );
+  }
+  
+  if (fusion) {
+    trueTPR = fuseRate(trueTPR, fusion);
+    trueFPR = fuseRate(trueFPR, fusion);
+    effectiveTPR = fuseRate(effectiveTPR, fusion);
+    effectiveFPR = fuseRate(effectiveFPR, fusion);
+  }
+  
   // Generate raw signal strength (for internal use)
   const rawSignal = rng.normal(hasHostile ? 1 : 0, 0.3);
   
   // Determine reading based on TPR/FPR
   let result: boolean;
   if (hasHostile) {
-    result = rng.bernoulli(performance.effectiveTPR);
+    result = rng.bernoulli(trueTPR);
   } else {
-    result = rng.bernoulli(performance.effectiveFPR);
+    result = rng.bernoulli(trueFPR);
+  }
+  
+  // Infrastructure channel is drawn after the hostile channel so hostile readings are unchanged
+  const infraResult = rng.bernoulli(
+    hasInfrastructure ? performance.effectiveInfraTPR : performance.effectiveInfraFPR
+  );
+  
+  // Detections also report a class; false alarms report one at random
+  let classLabel: HostileClass | undefined;
+  if (target && result) {
+    const trueClass = hasHostile ? target.hostileClass : undefined;
+    classLabel = trueClass
+      ? rng.weightedChoice(classes, classes.map(label => classLabelLikelihood(sensorType, label, trueClass, classes.length)))
+      : rng.choice(classes);
   }
   
   // Calculate confidence based on signal strength and sensor reliability
-  const baseConfidence = hasHostile ? performance.effectiveTPR : (1 - performance.effectiveFPR);
+  const baseConfidence = hasHostile ? effectiveTPR : (1 - effectiveFPR);
   const signalConfidence = Math.abs(rawSignal) / 2; // 0-1 based on signal strength
   const confidence = Math.max(0.1, Math.min(0.9, (baseConfidence + signalConfidence) / 2));
   
   return {
     result,
     confidence,
-    effectiveTPR: performance.effectiveTPR,
-    effectiveFPR: performance.effectiveFPR,
+    effectiveTPR,
+    effectiveFPR,
+    infraResult,
+    effectiveInfraTPR: performance.effectiveInfraTPR,
+    effectiveInfraFPR: performance.effectiveInfraFPR,
+    ...(classLabel && { classLabel }),
     contextFactors: context,
     rawSignal,
   };
@@ -1,24 +1,18 @@
 import { TacticalBoundary, AreaOfInterest, SensorCone, SensorType } from '@/lib/types';
+import { GridProjection, gridFractionToPosition } from '@/lib/geo-projection';
 
 // Generate sample tactical boundaries (FEBA/ROZ lines)
-export function generateSampleBoundaries(
-  bounds: { north: number; south: number; east: number; west: number }
-): TacticalBoundary[] {
+export function generateSampleBoundaries(projection: GridProjection): TacticalBoundary[] {
   const boundaries: TacticalBoundary[] = [];
   
-  const centerLat = (bounds.north + bounds.south) / 2;
-  const areaWidth = bounds.east - bounds.west;
-  const areaHeight = bounds.north - bounds.south;
-  
   // FEBA (Forward Edge of Battle Area) - red dashed line
   const febaPath: [number, number, number][] = [];
-  const febaY = centerLat - areaHeight * 0.1; // Slightly south of center
+  const febaY = 0.4; // Slightly south of center
   const segments = 8;
   
   for (let i = 0; i <= segments; i++) {
-    const x = bounds.west + (i / segments) * areaWidth;
-    const y = febaY + Math.sin((i / segments) * Math.PI * 3) * areaHeight * 0.05; // Wavy line
-    febaPath.push([x, y, 100]); // 100m altitude
+    const y = febaY + Math.sin((i / segments) * Math.PI * 3) * 0.05; // Wavy line
+    febaPath.push(gridFractionToPosition(projection, i / segments, y, 100)); // 100m altitude
   }
   
   boundaries.push({
@@ -33,12 +27,11 @@ export function generateSampleBoundaries(
   
   // ROZ (Restricted Operating Zone) - orange dashed line
   const rozPath: [number, number, number][] = [];
-  const rozY = centerLat + areaHeight * 0.2; // North of center
+  const rozY = 0.7; // North of center
   
   for (let i = 0; i <= segments; i++) {
-    const x = bounds.west + (i / segments) * areaWidth;
-    const y = rozY + Math.cos((i / segments) * Math.PI * 2) * areaHeight * 0.03; // Gentle curve
-    rozPath.push([x, y, 150]); // 150m altitude
+    const y = rozY + Math.cos((i / segments) * Math.PI * 2) * 0.03; // Gentle curve
+    rozPath.push(gridFractionToPosition(projection, i / segments, y, 150)); // 150m altitude
   }
   
   boundaries.push({
@@ -53,8 +46,8 @@ export function generateSampleBoundaries(
   
   // Phase Line - static blue dashed line
   const plPath: [number, number, number][] = [
-    [bounds.west + areaWidth * 0.2, bounds.south + areaHeight * 0.3, 80],
-    [bounds.west + areaWidth * 0.8, bounds.south + areaHeight * 0.7, 80]
+    gridFractionToPosition(projection, 0.2, 0.3, 80),
+    gridFractionToPosition(projection, 0.8, 0.7, 80)
   ];
   
   boundaries.push({
@@ -71,22 +64,15 @@ export function generateSampleBoundaries(
 }
 
 // Generate sample Areas of Interest (AOIs)
-export function generateSampleAOIs(
-  bounds: { north: number; south: number; east: number; west: number }
-): AreaOfInterest[] {
+export function generateSampleAOIs(projection: GridProjection): AreaOfInterest[] {
   const aois: AreaOfInterest[] = [];
   
-  const centerLng = (bounds.east + bounds.west) / 2;
-  const centerLat = (bounds.north + bounds.south) / 2;
-  const areaWidth = bounds.east - bounds.west;
-  const areaHeight = bounds.north - bounds.south;
-  
   // High Priority NAI (Named Area of Interest)
   const nai1Polygon: [number, number, number][] = [
-    [centerLng - areaWidth * 0.15, centerLat - areaHeight * 0.1, 50],
-    [centerLng + areaWidth * 0.05, centerLat - areaHeight * 0.1, 50],
-    [centerLng + areaWidth * 0.05, centerLat + areaHeight * 0.05, 50],
-    [centerLng - areaWidth * 0.15, centerLat + areaHeight * 0.05, 50]
+    gridFractionToPosition(projection, 0.35, 0.4, 50),
+    gridFractionToPosition(projection, 0.55, 0.4, 50),
+    gridFractionToPosition(projection, 0.55, 0.55, 50),
+    gridFractionToPosition(projection, 0.35, 0.55, 50)
   ];
   
   aois.push({
@@ -100,16 +86,16 @@ export function generateSampleAOIs(
   
   // Medium Priority TAI (Target Area of Interest)
   const tai1Polygon: [number, number, number][] = [];
-  const centerX = centerLng + areaWidth * 0.2;
-  const centerY = centerLat + areaHeight * 0.15;
-  const radius = areaWidth * 0.08;
+  const centerX = 0.7;
+  const centerY = 0.65;
+  const radius = 0.08;
   
   // Circular TAI
   for (let i = 0; i <= 12; i++) {
     const angle = (i / 12) * Math.PI * 2;
     const x = centerX + Math.cos(angle) * radius;
     const y = centerY + Math.sin(angle) * radius * 0.7; // Elliptical
-    tai1Polygon.push([x, y, 60]);
+    tai1Polygon.push(gridFractionToPosition(projection, x, y, 60));
   }
   
   aois.push({
@@ -123,10 +109,10 @@ export function generateSampleAOIs(
   
   // Low Priority Engagement Area
   const ea1Polygon: [number, number, number][] = [
-    [centerLng - areaWidth * 0.25, centerLat + areaHeight * 0.2, 40],
-    [centerLng - areaWidth * 0.1, centerLat + areaHeight * 0.25, 40],
-    [centerLng - areaWidth * 0.05, centerLat + areaHeight * 0.35, 40],
-    [centerLng - areaWidth * 0.2, centerLat + areaHeight * 0.35, 40]
+    gridFractionToPosition(projection, 0.25, 0.7, 40),
+    gridFractionToPosition(projection, 0.4, 0.75, 40),
+    gridFractionToPosition(projection, 0.45, 0.85, 40),
+    gridFractionToPosition(projection, 0.3, 0.85, 40)
   ];
   
   aois.push({
@@ -143,25 +129,16 @@ export function generateSampleAOIs(
 
 // Generate sample sensor cones
 export function generateSampleSensorCones(
-  bounds: { north: number; south: number; east: number; west: number },
+  projection: GridProjection,
   _infrastructure: unknown[] = []
 ): SensorCone[] {
   const sensorCones: SensorCone[] = [];
   
-  const centerLng = (bounds.east + bounds.west) / 2;
-  const centerLat = (bounds.north + bounds.south) / 2;
-  const areaWidth = bounds.east - bounds.west;
-  const areaHeight = bounds.north - bounds.south;
-  
   // Tower-based radar sensor
   sensorCones.push({
     id: 'radar-1',
     sensorId: 'tower-radar-alpha',
-    position: [
-      centerLng - areaWidth * 0.3,
-      centerLat - areaHeight * 0.2,
-      120 // 120m altitude
-    ],
+    position: gridFractionToPosition(projection, 0.2, 0.3, 120), // 120m altitude
     bearing: Math.PI / 4, // 45 degrees (NE)
     fieldOfView: Math.PI / 3, // 60 degrees FOV
     range: 2000, // 2km range
@@ -174,11 +151,7 @@ export function generateSampleSensorCones(
   sensorCones.push({
     id: 'thermal-1',
     sensorId: 'dome-thermal-bravo',
-    position: [
-      centerLng + areaWidth * 0.25,
-      centerLat + areaHeight * 0.1,
-      80 // 80m altitude
-    ],
+    position: gridFractionToPosition(projection, 0.75, 0.6, 80), // 80m altitude
     bearing: -Math.PI / 6, // -30 degrees (NW)
     fieldOfView: Math.PI / 4, // 45 degrees FOV
     range: 1500, // 1.5km range
@@ -192,11 +165,7 @@ export function generateSampleSensorCones(
   sensorCones.push({
     id: 'visual-1',
     sensorId: 'op-visual-charlie',
-    position: [
-      centerLng,
-      centerLat + areaHeight * 0.25,
-      60 // 60m altitude
-    ],
+    position: gridFractionToPosition(projection, 0.5, 0.75, 60), // 60m altitude
     bearing: Math.PI, // 180 degrees (South)
     fieldOfView: Math.PI / 2, // 90 degrees FOV
     range: 800, // 800m range
@@ -209,11 +178,7 @@ export function generateSampleSensorCones(
   sensorCones.push({
     id: 'acoustic-1',
     sensorId: 'building-acoustic-delta',
-    position: [
-      centerLng - areaWidth * 0.1,
-      centerLat + areaHeight * 0.3,
-      40 // 40m altitude
-    ],
+    position: gridFractionToPosition(projection, 0.4, 0.8, 40), // 40m altitude
     bearing: -Math.PI / 2, // -90 degrees (West)
     fieldOfView: Math.PI / 1.5, // 120 degrees FOV
     range: 1200, // 1.2km range
@@ -0,0 +1,210 @@
+import {
+  ClassDistribution,
+  GameCell,
+  GameConfig,
+  HostileClass,
+  SensorType,
+  SpatialFieldConfig,
+  TargetClassConfig,
+} from './types';
+import { createSubRNG } from './rng';
+import { TargetExposure, classLabelLikelihood, signatureTPR } from './sensors';
+
+/**
+ * Multi-class hostile targets.
+ *
+ * Each hostile is armor, air defense, a command post or logistics. Classes
+ * differ in strike value, in where they tend to be (one smooth prior field
+ * per class) and in how visible they are to each sensor. The binary
+ * "is something there?" belief is unchanged; "what is it?" is a separate
+ * categorical belief per cell, P(class | hostile), held as Dirichlet
+ * pseudo-counts. Every detection reports a class, and the counts take the
+ * reading's responsibilities over the classes as one soft observation.
+ * A negative reading says little about what is there, so only detections
+ * update the counts.
+ */
+
+/**
+ * Value, prevalence and sensor signature of a hostile class
+ */
+export interface HostileClassProfile {
+  name: string;
+  valueMultiplier: number;         // Strike reward as a multiple of config.hostileValue
+  prevalence: number;              // Share of hostiles of this class across the grid
+  signature: Record<SensorType, number>; // TPR multiplier against this class per sensor
+}
+
+export const HOSTILE_CLASS_CATALOG: Record<HostileClass, HostileClassProfile> = {
+  armor: {
+    name: 'Armor',
+    valueMultiplier: 1,
+    prevalence: 0.4,
+    signature: { drone: 1.1, sigint: 0.6, ground: 1.0 },   // Large thermal and visual signature, few emitters
+  },
+  airDefense: {
+    name: 'Air Defense',
+    valueMultiplier: 1.5,
+    prevalence: 0.2,
+    signature: { drone: 0.8, sigint: 1.3, ground: 0.9 },   // Search radars give them away
+  },
+  commandPost: {
+    name: 'Command Post',
+    valueMultiplier: 2.5,
+    prevalence: 0.1,
+    signature: { drone: 0.7, sigint: 1.4, ground: 0.8 },   // Well hidden, but radio-heavy
+  },
+  logistics: {
+    name: 'Logistics',
+    valueMultiplier: 0.6,
+    prevalence: 0.3,
+    signature: { drone: 1.0, sigint: 0.5, ground: 1.1 },   // Trucks on roads, little traffic
+  },
+};
+
+export const HOSTILE_CLASSES = Object.keys(HOSTILE_CLASS_CATALOG) as HostileClass[];
+
+/**
+ * Default classification: each cell's class prior is worth two observations
+ */
+export const DEFAULT_TARGET_CLASS_CONFIG: TargetClassConfig = {
+  enabled: true,
+  concentration: 2,
+};
+
+/**
+ * Whether a config distinguishes hostile classes
+ */
+export function isTargetClassesEnabled(targetClasses: TargetClassConfig | undefined): targetClasses is TargetClassConfig {
+  return targetClasses !== undefined && targetClasses.enabled;
+}
+
+function mapClasses(value: (hostileClass: HostileClass) => number): ClassDistribution {
+  return Object.fromEntries(HOSTILE_CLASSES.map(hostileClass => [hostileClass, value(hostileClass)])) as ClassDistribution;
+}
+
+/**
+ * P(class | hostile) at every cell: each class's prevalence scaled by its own
+ * smoothed noise field, indexed [y][x] like the game grid
+ */
+export function generateClassPriorField(
+  width: number,
+  height: number,
+  spatialField: SpatialFieldConfig,
+  seed: string
+): ClassDistribution[][] {
+  const logWeights = Object.fromEntries(HOSTILE_CLASSES.map(hostileClass => {
+    const rng = createSubRNG(seed, `class-field-${hostileClass}`);
+    const noise = rng.gaussianField(width, height, 0, spatialField.noiseScale);
+    return [hostileClass, rng.smoothField(noise, spatialField.smoothingSigma)];
+  })) as Record<HostileClass, number[][]>;
+
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => {
+      const weights = mapClasses(hostileClass =>
+        HOSTILE_CLASS_CATALOG[hostileClass].prevalence * Math.exp(logWeights[hostileClass][y][x])
+      );
+      const total = HOSTILE_CLASSES.reduce((sum, hostileClass) => sum + weights[hostileClass], 0);
+      return mapClasses(hostileClass => weights[hostileClass] / total);
+    })
+  );
+}
+
+/**
+ * Draw a class for every hostile from its cell's prior and start every
+ * cell's class belief at that prior
+ */
+export function assignHostileClasses(
+  grid: GameCell[][],
+  config: Pick<GameConfig, 'seed' | 'spatialField'> & { targetClasses: TargetClassConfig }
+): void {
+  const height = grid.length;
+  const width = height > 0 ? grid[0].length : 0;
+  const priorField = generateClassPriorField(width, height, config.spatialField, config.seed);
+  const rng = createSubRNG(config.seed, 'class-sampling');
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = grid[y][x];
+      const prior = priorField[y][x];
+      // Draw for every cell so classes do not shift with hostile placement
+      const drawn = rng.weightedChoice(HOSTILE_CLASSES, HOSTILE_CLASSES.map(hostileClass => prior[hostileClass]));
+      if (cell.hasHostile) cell.hostileClass = drawn;
+      cell.classPrior = prior;
+      cell.classCounts = mapClasses(hostileClass => prior[hostileClass] * config.targetClasses.concentration);
+    }
+  }
+}
+
+/**
+ * Posterior mean of a class belief, P(class | hostile, readings)
+ */
+export function getClassProbabilities(classCounts: ClassDistribution): ClassDistribution {
+  const total = HOSTILE_CLASSES.reduce((sum, hostileClass) => sum + classCounts[hostileClass], 0);
+  return mapClasses(hostileClass => total > 0 ? classCounts[hostileClass] / total : 1 / HOSTILE_CLASSES.length);
+}
+
+/**
+ * The class a belief favours
+ */
+export function getMostLikelyClass(classCounts: ClassDistribution): HostileClass {
+  return HOSTILE_CLASSES.reduce((best, hostileClass) =>
+    classCounts[hostileClass] > classCounts[best] ? hostileClass : best
+  );
+}
+
+/**
+ * What the next reading with a sensor sees of a cell's class
+ */
+export function getTargetExposure(cell: GameCell, sensor: SensorType): TargetExposure {
+  return {
+    hostileClass: cell.hasHostile ? cell.hostileClass : undefined,
+    classProbabilities: cell.classCounts
+      ? getClassProbabilities(cell.classCounts)
+      : mapClasses(hostileClass => HOSTILE_CLASS_CATALOG[hostileClass].prevalence),
+    signatures: mapClasses(hostileClass => HOSTILE_CLASS_CATALOG[hostileClass].signature[sensor]),
+  };
+}
+
+/**
+ * Dirichlet update of a class belief with a detection's reported class.
+ * The detection counts as one observation split over the classes by
+ * P(class | hostile) · P(detect | class) · P(label | class); effectiveTPR is
+ * the sensor's TPR in context before the class signature.
+ */
+export function updateClassCounts(
+  classCounts: ClassDistribution,
+  sensor: SensorType,
+  label: HostileClass,
+  effectiveTPR: number
+): ClassDistribution {
+  const probabilities = getClassProbabilities(classCounts);
+  const weights = mapClasses(hostileClass =>
+    probabilities[hostileClass] *
+    signatureTPR(effectiveTPR, HOSTILE_CLASS_CATALOG[hostileClass].signature[sensor]) *
+    classLabelLikelihood(sensor, label, hostileClass, HOSTILE_CLASSES.length)
+  );
+  const total = HOSTILE_CLASSES.reduce((sum, hostileClass) => sum + weights[hostileClass], 0);
+  if (total <= 0) return classCounts;
+  return mapClasses(hostileClass => classCounts[hostileClass] + weights[hostileClass] / total);
+}
+
+/**
+ * Strike value of a hostile on the cell, should there be one, given the class belief
+ */
+export function getExpectedHostileValue(cell: GameCell, config: Pick<GameConfig, 'hostileValue'>): number {
+  if (!cell.classCounts) return config.hostileValue;
+  const probabilities = getClassProbabilities(cell.classCounts);
+  return HOSTILE_CLASSES.reduce(
+    (sum, hostileClass) => sum + probabilities[hostileClass] * config.hostileValue * HOSTILE_CLASS_CATALOG[hostileClass].valueMultiplier,
+    0
+  );
+}
+
+/**
+ * Strike value of the hostile actually on the cell
+ */
+export function getHostileValue(cell: GameCell, config: Pick<GameConfig, 'hostileValue'>): number {
+  return cell.hostileClass
+    ? config.hostileValue * HOSTILE_CLASS_CATALOG[cell.hostileClass].valueMultiplier
+    : config.hostileValue;
+}
@@ -1,5 +1,5 @@
 import { SeededRNG, createSubRNG } from './rng';
-import { TruthField, SpatialFieldConfig, BetaPriorConfig, GameCell } from './types';
+import { TruthField, SpatialFieldConfig, BetaPriorConfig, GameCell, GridPlacement } from './types';
 
 /**
  * Generate spatial hostile probability field θ(x,y) using Gaussian-smoothed noise
@@ -134,6 +134,27 @@ export function generateTruthField(
   };
 }
 
+/**
+ * Replace sampled truth with hand-placed hostiles and/or infrastructure.
+ * A placement list, when given, is the complete set for its layer; the
+ * probability fields are kept so priors and movement still follow θ(x,y).
+ */
+export function applyTruthPlacements(
+  truthField: TruthField,
+  hostilePlacements?: GridPlacement[],
+  infraPlacements?: GridPlacement[]
+): void {
+  const place = (truth: boolean[][], placements: GridPlacement[]) => {
+    truth.forEach(row => row.fill(false));
+    for (const { x, y } of placements) {
+      if (truth[y] && truth[y][x] !== undefined) truth[y][x] = true;
+    }
+  };
+
+  if (hostilePlacements) place(truthField.hostileTruth, hostilePlacements);
+  if (infraPlacements) place(truthField.infraTruth, infraPlacements);
+}
+
 /**
  * Create game cells with enhanced truth and prior information
  */
@@ -156,6 +177,7 @@ export function createEnhancedGameCells(
         hasHostile: truthField.hostileTruth[y][x],
         hasInfrastructure: truthField.infraTruth[y][x],
         posteriorProbability: hostilePriors[y][x], // Start with Beta prior mean
+        infraPosteriorProbability: truthField.infraField[y][x], // Start with infra rate
         reconHistory: [],
         hostilePriorProbability: truthField.hostileField[y][x], // Store θ(x,y)
         infraPriorProbability: truthField.infraField[y][x],     // Store infra rate
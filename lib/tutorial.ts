@@ -0,0 +1,191 @@
+import { GameState, HeatmapType, SensorType } from './types';
+import { SCENARIO_FORMAT, SCENARIO_VERSION, ScenarioFile } from './scenario';
+
+/**
+ * Interactive tutorial.
+ *
+ * A scripted walk through one fixed scenario. Each step highlights a region
+ * of the interface and waits for one action: acknowledging the step,
+ * starting the game, picking a sensor, scanning a cell, opening the Bayes
+ * explanation or switching the map layer. The step only completes once the
+ * game state shows the action took effect, so a scan refused for budget does
+ * not count. While a step waits for a scan, scans and strikes elsewhere are
+ * refused, so the script cannot be derailed.
+ */
+
+/**
+ * Interface regions a step can highlight; components mark themselves with a
+ * matching data-tutorial attribute
+ */
+export type TutorialRegion = 'map' | 'missionControl' | 'sensorPicker' | 'layerToggle' | 'explainBayes';
+
+/**
+ * Something the player does. Steps wait for one; the store and the game page
+ * report them as they happen.
+ */
+export type TutorialAction =
+  | { type: 'acknowledge' }
+  | { type: 'startGame' }
+  | { type: 'selectSensor'; sensor: SensorType }
+  | { type: 'recon'; x: number; y: number; sensor: SensorType }
+  | { type: 'strike'; x: number; y: number }
+  | { type: 'openExplanation' }
+  | { type: 'selectLayer'; layer: HeatmapType };
+
+export interface TutorialStep {
+  id: string;
+  title: string;
+  instruction: string;
+  highlight?: TutorialRegion;
+  waitFor: TutorialAction;
+}
+
+/**
+ * The parts of the game a step checks once its action is reported
+ */
+export type TutorialState = Pick<GameState, 'grid' | 'gameStarted' | 'eventLog'>;
+
+export interface TutorialProgress {
+  stepIndex: number;               // Step being played; TUTORIAL_STEPS.length once finished
+}
+
+/**
+ * The fixed exercise: one hostile at (3,4) in clear open ground, with
+ * infrastructure two cells east of it
+ */
+export const TUTORIAL_SCENARIO: ScenarioFile = {
+  format: SCENARIO_FORMAT,
+  version: SCENARIO_VERSION,
+  name: 'Tutorial',
+  description: 'A guided first mission on a small, quiet grid.',
+  config: { seed: 'tutorial', gridSize: 8, initialBudget: 300, maxTurns: 10, availableSensors: ['drone', 'sigint', 'ground'] },
+  hostiles: [{ x: 3, y: 4 }],
+  infrastructure: [{ x: 5, y: 4 }],
+  cellContexts: [
+    { x: 3, y: 4, context: { terrain: 'open', lighting: 'day', weather: 'clear', concealment: 'none', jamming: 'none' } },
+  ],
+};
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: 'welcome',
+    title: 'Welcome, analyst',
+    instruction: 'Each cell on the map carries a belief: the probability that a hostile is there. Your job is to sharpen those beliefs before you strike.',
+    highlight: 'map',
+    waitFor: { type: 'acknowledge' },
+  },
+  {
+    id: 'start',
+    title: 'Start the mission',
+    instruction: 'Open Mission Control and start the game.',
+    highlight: 'missionControl',
+    waitFor: { type: 'startGame' },
+  },
+  {
+    id: 'sensor',
+    title: 'Pick a sensor',
+    instruction: 'Select the drone. Each sensor has its own true and false positive rates, and they shift with terrain, light and weather.',
+    highlight: 'sensorPicker',
+    waitFor: { type: 'selectSensor', sensor: 'drone' },
+  },
+  {
+    id: 'recon',
+    title: 'Scan a cell',
+    instruction: 'Click cell (3,4) to fly the drone over it.',
+    highlight: 'map',
+    waitFor: { type: 'recon', x: 3, y: 4, sensor: 'drone' },
+  },
+  {
+    id: 'explain',
+    title: 'Read the update',
+    instruction: 'Expand the analytics tray and press EXPLAIN BAYES to see how the reading moved the belief.',
+    highlight: 'explainBayes',
+    waitFor: { type: 'openExplanation' },
+  },
+  {
+    id: 'expected-value',
+    title: 'Weigh a strike',
+    instruction: 'Switch the map to the EV layer: the expected payoff of striking each cell given the current beliefs.',
+    highlight: 'layerToggle',
+    waitFor: { type: 'selectLayer', layer: 'expectedValue' },
+  },
+  {
+    id: 'done',
+    title: 'Ready',
+    instruction: 'Scan until a strike is worth it, and keep your beliefs calibrated. The campaign is waiting.',
+    waitFor: { type: 'acknowledge' },
+  },
+];
+
+export function createTutorialProgress(): TutorialProgress {
+  return { stepIndex: 0 };
+}
+
+/**
+ * The step being played, or undefined once the tutorial is finished
+ */
+export function getTutorialStep(progress: TutorialProgress): TutorialStep | undefined {
+  return TUTORIAL_STEPS[progress.stepIndex];
+}
+
+export function isTutorialComplete(progress: TutorialProgress): boolean {
+  return progress.stepIndex >= TUTORIAL_STEPS.length;
+}
+
+function matchesAction(expected: TutorialAction, action: TutorialAction): boolean {
+  switch (expected.type) {
+    case 'selectSensor':
+      return action.type === 'selectSensor' && action.sensor === expected.sensor;
+    case 'recon':
+      return action.type === 'recon' && action.x === expected.x && action.y === expected.y && action.sensor === expected.sensor;
+    case 'strike':
+      return action.type === 'strike' && action.x === expected.x && action.y === expected.y;
+    case 'selectLayer':
+      return action.type === 'selectLayer' && action.layer === expected.layer;
+    default:
+      return action.type === expected.type;
+  }
+}
+
+/**
+ * Whether the game state shows a step's action took effect
+ */
+function checkState(expected: TutorialAction, state: TutorialState): boolean {
+  switch (expected.type) {
+    case 'startGame':
+      return state.gameStarted;
+    case 'recon':
+      return state.grid[expected.y]?.[expected.x]?.reconHistory.some(recon => recon.sensor === expected.sensor) ?? false;
+    case 'strike':
+      return state.eventLog.some(event => event.type === 'strike' && event.data.x === expected.x && event.data.y === expected.y);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Move past the current step if the action is the one it waits for and the
+ * game state confirms it
+ */
+export function advanceTutorial(
+  progress: TutorialProgress,
+  action: TutorialAction,
+  state: TutorialState
+): TutorialProgress {
+  const step = getTutorialStep(progress);
+  if (!step || !matchesAction(step.waitFor, action) || !checkState(step.waitFor, state)) return progress;
+  return { stepIndex: progress.stepIndex + 1 };
+}
+
+/**
+ * Whether a scan or strike may go ahead: while a step waits for a scan or
+ * strike, only that one is allowed, and strikes wait until the script asks
+ * for one
+ */
+export function isTutorialActionAllowed(progress: TutorialProgress, action: TutorialAction): boolean {
+  const step = getTutorialStep(progress);
+  if (!step) return true;
+  if (action.type === 'recon' && step.waitFor.type === 'recon') return matchesAction(step.waitFor, action);
+  if (action.type === 'strike') return matchesAction(step.waitFor, action);
+  return true;
+}
@@ -1,15 +1,33 @@
+import type { SensorContext } from './sensors';
+import type { AreaOfOperations } from './geo-projection';
+
 export interface GameCell {
   x: number;
   y: number;
   hasHostile: boolean;
   hasInfrastructure: boolean;
   posteriorProbability: number; // P(hostile | observations)
+  infraPosteriorProbability: number; // P(infrastructure | observations)
   reconHistory: ReconResult[];
   // Enhanced truth generation fields
   hostilePriorProbability: number; // θ(x,y) from spatial field
   infraPriorProbability: number;   // Base rate for infrastructure
+  // Adversary deception fields
+  hasDecoy?: boolean;              // Truth: a decoy that mimics a hostile (never on a hostile cell)
+  decoyProbability?: number;       // P(decoy | no hostile) given the readings so far
+  // Target classification fields
+  hostileClass?: HostileClass;     // Truth: what the hostile on this cell is
+  classPrior?: ClassDistribution;  // P(class | hostile) from the class prior fields
+  classCounts?: ClassDistribution; // Dirichlet pseudo-counts of the class belief
 }
 
+/**
+ * Kinds of hostile target, each with its own value and sensor signature
+ */
+export type HostileClass = 'armor' | 'airDefense' | 'commandPost' | 'logistics';
+
+export type ClassDistribution = Record<HostileClass, number>;
+
 export interface TruthField {
   hostileField: number[][];        // θ(x,y) values before sampling
   infraField: number[][];          // Infrastructure probability field
@@ -25,6 +43,151 @@ export interface SpatialFieldConfig {
   infraBaseProbability: number;    // Base probability for infrastructure
 }
 
+export type InferenceMode = 'diffusion' | 'loopyBP' | 'gibbs';
+
+export interface GridPlacement {
+  x: number;
+  y: number;
+}
+
+export interface CellContextOverride {
+  x: number;
+  y: number;
+  context: Partial<SensorContext>; // Factors fixed for this cell (the rest stay seeded)
+}
+
+export type VictoryCondition =
+  | { type: 'neutralizeHostiles'; count: number; areaId?: string } // At least this many hostiles neutralised (inside the area if given)
+  | { type: 'maxInfraHits'; count: number; areaId?: string }       // No more than this many infrastructure hits (inside the area if given)
+  | { type: 'minScore'; score: number }             // Final score at least this high
+  | { type: 'withinTurns'; turns: number }          // Other conditions met by this turn
+  | { type: 'maxMetric'; metric: ObjectiveMetric; value: number } // Analytics metric kept at or below a value
+  | { type: 'protectArea'; areaId: string };        // No strike lands inside the area
+
+/**
+ * GameAnalytics fields an objective can bound
+ */
+export type ObjectiveMetric = 'brierScore' | 'logLoss' | 'calibrationError' | 'infraBrierScore';
+
+/**
+ * When a game with objectives ends before its turn limit: as soon as an
+ * objective fails, or as soon as none is left undecided
+ */
+export type EarlyTermination = 'onFailure' | 'onSuccess';
+
+export interface ObjectivesConfig {
+  conditions: VictoryCondition[];
+  areas: AreaOfInterest[];         // Areas the conditions refer to by id
+  earlyTermination: EarlyTermination[];
+}
+
+/**
+ * One rule of engagement. Zones are the id of a scenario boundary or area of
+ * interest; the default rules are a single approval tier at collateralThreshold.
+ */
+export type RoeRule =
+  | { type: 'noStrikeZone'; zoneId: string; buffer?: number }       // No footprint cell inside the zone or within `buffer` cells of it
+  | { type: 'minPosterior'; probability: number }                    // P(hostile) at the aim point at least this high
+  | { type: 'confirmations'; count: number; withinTurns?: number }   // Positive readings at the aim point from this many different sensors (in the last withinTurns turns)
+  | { type: 'strikesPerTurn'; max: number }                          // At most this many strikes in one turn
+  | { type: 'approvalTier'; collateralRisk: number; approver: string }; // Collateral risk above this needs the approver's sign-off
+
+/**
+ * A rule's ruling on one strike: cleared, cleared once approved, or refused
+ */
+export type RoeOutcome = 'pass' | 'approval' | 'block';
+
+export interface RoeVerdict {
+  rule: RoeRule;
+  outcome: RoeOutcome;
+  reason: string;
+}
+
+export interface RoeConfig {
+  rules: RoeRule[];
+  boundaries: TacticalBoundary[];  // Zones the rules refer to by id
+  areas: AreaOfInterest[];
+}
+
+/**
+ * Actions a calibration drill asks the player's P(hostile) before
+ */
+export type DrillAction = 'recon' | 'strike';
+
+export interface CalibrationDrillConfig {
+  enabled: boolean;
+  elicitOn: DrillAction[];         // Actions that ask for an estimate of the target cell first
+}
+
+export interface MovementConfig {
+  enabled: boolean;
+  stayProbability: number;         // P(hostile stays in its cell for a turn)
+  priorAttraction: number;         // Exponent on θ(x,y) weighting destinations
+}
+
+/**
+ * Lighting, weather and jamming that change from turn to turn
+ */
+export interface EnvironmentConfig {
+  enabled: boolean;
+  turnsPerDay: number;             // Turns in one day/night cycle
+  startHour: number;               // Hour of day (0-24) on turn 0
+  weatherFronts: number;           // Rain fronts and fog banks drifting across the grid
+  frontSpeed: number;              // Cells a front travels per turn
+  jammers: number;                 // Mobile jamming emitters with on/off duty cycles
+}
+
+/**
+ * A sensor unit that flies (or drives) from its base to each recon target
+ */
+export interface SensorAssetConfig {
+  id: string;
+  name: string;
+  sensor: SensorType;
+  base: GridPlacement;             // Home cell, where it refuels
+  speed: number;                   // Cells covered per turn
+  endurance: number;               // Cells it can cover before refuelling, including the trip home
+  cooldown: number;                // Turns on the ground to refuel
+  scansPerTurn: number;            // Scans it can make in one turn
+}
+
+export interface LogisticsConfig {
+  enabled: boolean;
+  assets: SensorAssetConfig[];
+}
+
+/**
+ * How hostiles react to being scanned: 'reactive' units go quiet for a few
+ * turns after a scan, 'strict' units never transmit
+ */
+export type EmissionControl = 'none' | 'reactive' | 'strict';
+
+/**
+ * Decoys and emissions control that work against the player's sensors
+ */
+export interface AdversaryConfig {
+  enabled: boolean;
+  decoyDensity: number;            // Share of hostile-free cells holding a decoy
+  emissionControl: EmissionControl;
+  silenceTurns: number;            // Turns a reactive hostile stays quiet after a scan
+}
+
+/**
+ * Hostile classes instead of a single kind of hostile
+ */
+export interface TargetClassConfig {
+  enabled: boolean;
+  concentration: number;           // Dirichlet pseudo-counts behind each cell's class prior
+}
+
+/**
+ * Correlation between repeated readings of one cell by one sensor in one context
+ */
+export interface FusionConfig {
+  enabled: boolean;
+  correlation: number;             // Correlation of two such readings (0-1, exclusive)
+}
+
 export interface BetaPriorConfig {
   hostileAlpha: number;            // Beta prior α for hostiles
   hostileBeta: number;             // Beta prior β for hostiles
@@ -43,6 +206,16 @@ export interface ReconResult {
   contextSummary: string;      // Description of context factors
   priorProbability: number;    // Probability before this reading
   posteriorProbability: number; // Probability after this reading
+  
+  // Infrastructure detection channel
+  infraResult: boolean;              // true = infrastructure detected
+  effectiveInfraTPR: number;         // Actual infra TPR used for this reading
+  effectiveInfraFPR: number;         // Actual infra FPR used for this reading
+  infraPriorProbability: number;     // P(infra) before this reading
+  infraPosteriorProbability: number; // P(infra) after this reading
+  
+  // Target classification channel
+  classLabel?: HostileClass;         // Class the sensor reported with a positive reading
 }
 
 export interface SensorConfig {
@@ -55,6 +228,8 @@ export interface SensorConfig {
 
 export type SensorType = 'drone' | 'sigint' | 'ground';
 
+export type WeaponType = 'precision' | 'area' | 'strafe' | 'cluster';
+
 export interface StrikeAction {
   x: number;
   y: number;
@@ -79,6 +254,21 @@ export interface GameConfig {
   // Enhanced truth generation config
   spatialField: SpatialFieldConfig;
   betaPriors: BetaPriorConfig;
+  movement?: MovementConfig;       // Hostile movement between turns (static when absent)
+  environment?: EnvironmentConfig; // Turn-by-turn lighting, weather and jamming (fixed per cell when absent)
+  logistics?: LogisticsConfig;     // Sensor asset positions and endurance (instant recon anywhere when absent)
+  adversary?: AdversaryConfig;     // Decoys and emissions control (a passive adversary when absent)
+  targetClasses?: TargetClassConfig; // Hostile classes with their own values (one kind worth hostileValue when absent)
+  fusion?: FusionConfig;           // Correlated repeat readings (every reading independent when absent)
+  availableSensors?: SensorType[]; // Sensors the player may task (all of them when absent)
+  objectives?: ObjectivesConfig;   // Mission objectives from a scenario (score is the only goal when absent)
+  calibrationDrill?: CalibrationDrillConfig; // Player estimates before actions (no estimates asked when absent)
+  roe?: RoeConfig;                 // Rules of engagement from a scenario (strikes over collateralThreshold need approval when absent)
+  inferenceMode?: InferenceMode;   // Hostile belief update (diffusion when absent; field modes need static hostiles)
+  hostilePlacements?: GridPlacement[];      // Hand-placed hostiles (sampled from the seed when absent)
+  infraPlacements?: GridPlacement[];        // Hand-placed infrastructure (sampled from the seed when absent)
+  contextOverrides?: CellContextOverride[]; // Per-cell sensor context fixed by a scenario
+  areaOfOperations?: AreaOfOperations;      // Where the grid sits on the map (DEFAULT_AREA_OF_OPERATIONS when absent)
   
   // Development options
   showTruthOverlay: boolean;       // Developer mode: show hidden truth
@@ -90,6 +280,7 @@ export interface GameState {
   currentTurn: number;
   remainingBudget: number;
   score: number;
+  actionCount: number;             // Recon and strike actions taken this game
   gameStarted: boolean;
   gameEnded: boolean;
   eventLog: GameEvent[];
@@ -111,7 +302,7 @@ export interface GameState {
 
 export interface GameEvent {
   turn: number;
-  type: 'recon' | 'strike' | 'game_start' | 'game_end';
+  type: 'recon' | 'strike' | 'estimate' | 'game_start' | 'game_end';
   data: Record<string, unknown>;
   timestamp: number;
 }
@@ -125,6 +316,10 @@ export interface GameAnalytics {
   calibrationData: CalibrationPoint[];
   evAccuracy: number;
   
+  // Infrastructure belief calibration
+  infraBrierScore: number;
+  infraLogLoss: number;
+  
   // Enhanced analytics for truth comparison
   truthCorrelation: number;        // Correlation between beliefs and truth
   spatialAccuracy: number;         // How well spatial patterns were detected
@@ -136,6 +331,12 @@ export interface GameAnalytics {
   uncertainty: number;             // Uncertainty component of Brier score
   totalPredictions: number;        // Total number of predictions made
   
+  // Player calibration from drill estimates
+  playerBrierScore: number;
+  playerLogLoss: number;
+  playerCalibrationError: number;
+  playerPredictions: number;       // Estimates the player has made
+  
   // Per-turn timeline data
   timelineData: TurnMetrics[];
 }
@@ -147,6 +348,7 @@ export interface TurnMetrics {
   remainingBudget: number;
   brierScore: number;
   logLoss: number;
+  infraBrierScore: number;
   hostilesNeutralized: number;
   infraHits: number;
   totalCost: number;
@@ -181,7 +383,8 @@ export interface HeatmapData {
   priorField: number[][];          // θ(x,y) field visualization
 }
 
-export type HeatmapType = 'posterior' | 'expectedValue' | 'valueOfInformation' | 'riskAverse' | 'variance' | 'lossRisk' | 'truth' | 'priorField';
+export type HeatmapType = 'posterior' | 'expectedValue' | 'valueOfInformation' | 'riskAverse' | 'variance' | 'lossRisk' | 'truth' | 'priorField'
+  | 'terrain' | 'weather' | 'jamming' | 'expectedTPR';
 
 export interface PolicyAction {
   type: 'recon' | 'strike';
@@ -192,6 +395,29 @@ export interface PolicyAction {
   risk: number;
 }
 
+export type ObjectiveStatus =
+  | 'achieved'                     // Met for good
+  | 'holding'                      // Met so far, but can still be lost
+  | 'pending'                      // Not met yet, but still can be
+  | 'failed';                      // Lost for good
+
+export interface ObjectiveResult {
+  condition: VictoryCondition;
+  status: ObjectiveStatus;
+  description: string;
+  progress: string;                // Where the game stands against the condition, e.g. "2/3"
+}
+
+/**
+ * Pass/fail summary of a game against its objectives
+ */
+export interface MissionDebrief {
+  passed: boolean;
+  endedEarly: boolean;
+  turn: number;
+  objectives: ObjectiveResult[];
+}
+
 export interface GameRunExport {
   // Metadata
   exportTimestamp: number;
@@ -224,6 +450,9 @@ export interface GameRunExport {
     flightPaths: FlightPath[];
   };
   
+  // Objective outcomes, for games played with objectives
+  debrief?: MissionDebrief;
+  
   // Performance metrics
   performanceMetrics: {
     totalComputationTime: number;
@@ -242,6 +471,7 @@ export interface InfrastructureEntity {
   isDestroyed: boolean;
   gridX: number;
   gridY: number;
+  revealedAt?: number;                // When a sensor or strike first observed it
 }
 
 export interface AircraftEntity {
@@ -268,6 +498,36 @@ export interface FlightWaypoint {
   speed: number;
 }
 
+// Live feed types for the event log and entity panel
+export interface LogEvent {
+  id: string;
+  timestamp: number;
+  type: 'recon' | 'strike' | 'detection' | 'classification' | 'system' | 'user';
+  action: string;
+  entity?: string;
+  deltaScore?: number;
+  details?: string;
+  severity: 'info' | 'warning' | 'error' | 'success';
+}
+
+export type TrackClassification = 'friendly' | 'hostile' | 'suspect' | 'cleared' | 'unknown';
+
+export interface TrackEntity {
+  id: string;
+  name: string;
+  type: 'aircraft' | 'ground' | 'infrastructure' | 'sensor';
+  classification: TrackClassification;
+  position: [number, number];
+  altitude?: number;
+  speed?: number;
+  heading?: number;
+  lastSeen: number;
+  confidence: number;
+  priority: 'high' | 'medium' | 'low';
+  status: 'active' | 'inactive' | 'destroyed';
+  attributes?: Record<string, unknown>;
+}
+
 // Tactical Overlay Types
 export interface TacticalBoundary {
   id: string;
@@ -0,0 +1,252 @@
+import { SeededRNG, createSubRNG } from './rng';
+import { WeaponType } from './types';
+
+/**
+ * Footprint shapes, measured in grid cells around the impact point
+ */
+export type WeaponFootprint =
+  | { shape: 'circular'; radius: number }
+  | { shape: 'linear'; length: number; orientation: 'horizontal' | 'vertical' }
+  | { shape: 'cross'; armLength: number };
+
+/**
+ * Strike weapon profile
+ */
+export interface WeaponProfile {
+  name: string;
+  description: string;
+  footprint: WeaponFootprint;
+  pkCenter: number;   // Probability of kill at the impact cell
+  pkEdge: number;     // Probability of kill at the footprint edge (linear falloff)
+  cost: number;
+  cep: number;        // Circular error probable in cells (half of impacts land within this radius)
+}
+
+/**
+ * Kill probability of one footprint cell relative to the impact point
+ */
+export interface FootprintCell {
+  dx: number;
+  dy: number;
+  pk: number;
+}
+
+/**
+ * Probability that the weapon lands at an offset from the aim point
+ */
+export interface MissOffset {
+  dx: number;
+  dy: number;
+  probability: number;
+}
+
+export const WEAPON_CATALOG: Record<WeaponType, WeaponProfile> = {
+  precision: {
+    name: 'Precision Guided',
+    description: 'Laser-guided munition that hits a single cell with little scatter',
+    footprint: { shape: 'circular', radius: 0 },
+    pkCenter: 0.95,
+    pkEdge: 0.95,
+    cost: 40,
+    cep: 0.3,
+  },
+  area: {
+    name: 'Area Effect',
+    description: 'Heavy blast munition covering a 3x3 area, lethal at the centre',
+    footprint: { shape: 'circular', radius: 1.5 },
+    pkCenter: 0.9,
+    pkEdge: 0.6,
+    cost: 80,
+    cep: 0.7,
+  },
+  strafe: {
+    name: 'Strafing Run',
+    description: 'Gun run along a five-cell east-west line',
+    footprint: { shape: 'linear', length: 5, orientation: 'horizontal' },
+    pkCenter: 0.75,
+    pkEdge: 0.55,
+    cost: 60,
+    cep: 0.5,
+  },
+  cluster: {
+    name: 'Cluster Munition',
+    description: 'Submunitions dispersed along two crossing axes',
+    footprint: { shape: 'cross', armLength: 2 },
+    pkCenter: 0.7,
+    pkEdge: 0.5,
+    cost: 70,
+    cep: 0.9,
+  },
+};
+
+// CEP = σ·√(2 ln 2) for a circular normal miss distribution
+const CEP_TO_SIGMA = 1 / Math.sqrt(2 * Math.log(2));
+
+// Miss offsets below this probability are dropped (and the rest renormalised)
+const MIN_MISS_PROBABILITY = 1e-4;
+
+const footprintCache = new Map<WeaponType, FootprintCell[]>();
+const missCache = new Map<WeaponType, MissOffset[]>();
+
+function pkAt(profile: WeaponProfile, normalisedDistance: number): number {
+  return profile.pkCenter + (profile.pkEdge - profile.pkCenter) * normalisedDistance;
+}
+
+/**
+ * Kill probability pattern of a weapon relative to its impact cell
+ */
+export function getFootprintPattern(weapon: WeaponType): FootprintCell[] {
+  const cached = footprintCache.get(weapon);
+  if (cached) return cached;
+
+  const profile = WEAPON_CATALOG[weapon];
+  const { footprint } = profile;
+  const cells: FootprintCell[] = [];
+
+  switch (footprint.shape) {
+    case 'circular': {
+      const extent = Math.floor(footprint.radius);
+      for (let dy = -extent; dy <= extent; dy++) {
+        for (let dx = -extent; dx <= extent; dx++) {
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          if (distance <= footprint.radius) {
+            cells.push({ dx, dy, pk: pkAt(profile, footprint.radius > 0 ? distance / footprint.radius : 0) });
+          }
+        }
+      }
+      break;
+    }
+    case 'linear': {
+      const half = Math.floor(footprint.length / 2);
+      for (let offset = -half; offset <= half; offset++) {
+        const pk = pkAt(profile, half > 0 ? Math.abs(offset) / half : 0);
+        cells.push(footprint.orientation === 'horizontal'
+          ? { dx: offset, dy: 0, pk }
+          : { dx: 0, dy: offset, pk });
+      }
+      break;
+    }
+    case 'cross': {
+      cells.push({ dx: 0, dy: 0, pk: profile.pkCenter });
+      for (let step = 1; step <= footprint.armLength; step++) {
+        const pk = pkAt(profile, step / footprint.armLength);
+        cells.push({ dx: step, dy: 0, pk }, { dx: -step, dy: 0, pk }, { dx: 0, dy: step, pk }, { dx: 0, dy: -step, pk });
+      }
+      break;
+    }
+  }
+
+  footprintCache.set(weapon, cells);
+  return cells;
+}
+
+/**
+ * Discretised miss distribution: a circular normal with the weapon's CEP,
+ * evaluated at whole-cell offsets from the aim point
+ */
+export function getMissDistribution(weapon: WeaponType): MissOffset[] {
+  const cached = missCache.get(weapon);
+  if (cached) return cached;
+
+  const sigma = WEAPON_CATALOG[weapon].cep * CEP_TO_SIGMA;
+  let offsets: MissOffset[] = [{ dx: 0, dy: 0, probability: 1 }];
+
+  if (sigma > 0) {
+    const extent = Math.ceil(3 * sigma);
+    const weights: MissOffset[] = [];
+    for (let dy = -extent; dy <= extent; dy++) {
+      for (let dx = -extent; dx <= extent; dx++) {
+        weights.push({ dx, dy, probability: Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma)) });
+      }
+    }
+
+    const total = weights.reduce((sum, offset) => sum + offset.probability, 0);
+    const kept = weights.filter(offset => offset.probability / total >= MIN_MISS_PROBABILITY);
+    const keptTotal = kept.reduce((sum, offset) => sum + offset.probability, 0);
+    offsets = kept.map(offset => ({ ...offset, probability: offset.probability / keptTotal }));
+  }
+
+  missCache.set(weapon, offsets);
+  return offsets;
+}
+
+/**
+ * Cells hit by a weapon landing at an impact point, clipped to the grid
+ */
+export function getImpactFootprint(
+  weapon: WeaponType,
+  impactX: number,
+  impactY: number,
+  gridWidth: number,
+  gridHeight: number
+): { x: number; y: number; pk: number }[] {
+  return getFootprintPattern(weapon)
+    .map(({ dx, dy, pk }) => ({ x: impactX + dx, y: impactY + dy, pk }))
+    .filter(({ x, y }) => x >= 0 && x < gridWidth && y >= 0 && y < gridHeight);
+}
+
+/**
+ * Probability that each cell is destroyed when aiming at (aimX, aimY),
+ * marginalised over the miss distribution. Impacts off the grid still
+ * damage the in-grid part of their footprint.
+ */
+export function calculateDamageProbabilities(
+  weapon: WeaponType,
+  aimX: number,
+  aimY: number,
+  gridWidth: number,
+  gridHeight: number
+): { x: number; y: number; damageProbability: number }[] {
+  const damage = new Map<number, number>();
+
+  for (const miss of getMissDistribution(weapon)) {
+    for (const { x, y, pk } of getImpactFootprint(weapon, aimX + miss.dx, aimY + miss.dy, gridWidth, gridHeight)) {
+      const key = y * gridWidth + x;
+      damage.set(key, (damage.get(key) ?? 0) + miss.probability * pk);
+    }
+  }
+
+  return Array.from(damage.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, damageProbability]) => ({
+      x: key % gridWidth,
+      y: Math.floor(key / gridWidth),
+      damageProbability,
+    }));
+}
+
+/**
+ * RNG for a single strike's miss and kill draws, keyed like recon readings
+ * so replays reproduce every strike outcome
+ */
+export function createStrikeRNG(
+  seed: string,
+  turn: number,
+  actionIndex: number,
+  x: number,
+  y: number,
+  weapon: WeaponType
+): SeededRNG {
+  return createSubRNG(seed, `strike-${turn}-${actionIndex}-${x}-${y}-${weapon}`);
+}
+
+/**
+ * Draw where a weapon aimed at (aimX, aimY) actually lands
+ */
+export function sampleImpactPoint(
+  weapon: WeaponType,
+  aimX: number,
+  aimY: number,
+  rng: SeededRNG
+): { x: number; y: number } {
+  const offsets = getMissDistribution(weapon);
+  let remaining = rng.random();
+
+  for (const offset of offsets) {
+    remaining -= offset.probability;
+    if (remaining < 0) return { x: aimX + offset.dx, y: aimY + offset.dy };
+  }
+
+  const last = offsets[offsets.length - 1];
+  return { x: aimX + last.dx, y: aimY + last.dy };
+}
@@ -1,5 +1,5 @@
 import * as Comlink from 'comlink';
-import { GameCell, GameConfig, SensorType } from './types';
+import { GameCell, GameConfig, SensorType, WeaponType } from './types';
 import { PolicyType, PolicyRecommendation, MonteCarloConfig } from './risk-analysis';
 
 // Import types from the worker
@@ -21,18 +21,26 @@ export interface SimulationWorkerAPI {
       y: number,
       sensor: SensorType,
       config: GameConfig,
+      turn: number,
+      actionIndex: number,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<{
       newPosterior: number;
+      newInfraPosterior: number;
       sensorReading: {
         result: boolean;
         confidence: number;
         effectiveTPR: number;
         effectiveFPR: number;
+        infraResult: boolean;
+        effectiveInfraTPR: number;
+        effectiveInfraFPR: number;
       };
       spatialUpdates: { x: number; y: number; newPosterior: number }[];
       brierContribution: number;
       logLossContribution: number;
+      infraBrierContribution: number;
+      infraLogLossContribution: number;
     }>>;
   };
   
@@ -41,6 +49,7 @@ export interface SimulationWorkerAPI {
       grid: GameCell[][],
       radius: number,
       config: GameConfig,
+      weapon?: WeaponType,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<number[][]>>;
     
@@ -49,6 +58,7 @@ export interface SimulationWorkerAPI {
       sensor: SensorType,
       config: GameConfig,
       strikeRadius?: number,
+      turn?: number,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<number[][]>>;
   };
@@ -66,6 +76,7 @@ export interface SimulationWorkerAPI {
       config: GameConfig,
       riskAversion?: number,
       numSamples?: number,
+      weapon?: WeaponType,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<number[][]>>;
     
@@ -74,6 +85,7 @@ export interface SimulationWorkerAPI {
       radius: number,
       config: GameConfig,
       numSamples?: number,
+      weapon?: WeaponType,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<number[][]>>;
     
@@ -82,6 +94,7 @@ export interface SimulationWorkerAPI {
       radius: number,
       config: GameConfig,
       numSamples?: number,
+      weapon?: WeaponType,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<number[][]>>;
     
@@ -94,6 +107,16 @@ export interface SimulationWorkerAPI {
       riskAversion?: number,
       onProgress?: ProgressCallback
     ): Promise<ComputationResult<Record<PolicyType, PolicyRecommendation>>>;
+    
+    planWithRolloutsComputation(
+      grid: GameCell[][],
+      config: GameConfig,
+      remainingBudget: number,
+      currentTurn: number,
+      selectedSensor: SensorType,
+      timeBudgetMs?: number,
+      onProgress?: ProgressCallback
+    ): Promise<ComputationResult<PolicyRecommendation>>;
   };
   
   clearCaches(): Promise<void>;
@@ -251,24 +274,32 @@ export class WorkerManager {
     x: number,
     y: number,
     sensor: SensorType,
-    config: GameConfig
+    config: GameConfig,
+    turn: number,
+    actionIndex: number
   ): Promise<ComputationResult<{
     newPosterior: number;
+    newInfraPosterior: number;
     sensorReading: {
       result: boolean;
       confidence: number;
       effectiveTPR: number;
       effectiveFPR: number;
+      infraResult: boolean;
+      effectiveInfraTPR: number;
+      effectiveInfraFPR: number;
     };
     spatialUpdates: { x: number; y: number; newPosterior: number }[];
     brierContribution: number;
     logLossContribution: number;
+    infraBrierContribution: number;
+    infraLogLossContribution: number;
   }>> {
     return this.executeWithLoading(
       'Reconnaissance',
       100, // Expected duration in ms
       (onProgress) => this.workerApi!.inference.performReconComputation(
-        grid, x, y, sensor, config, onProgress
+        grid, x, y, sensor, config, turn, actionIndex, onProgress
       )
     );
   }
@@ -279,13 +310,14 @@ export class WorkerManager {
   async generateEVHeatmap(
     grid: GameCell[][],
     radius: number = 1,
-    config: GameConfig
+    config: GameConfig,
+    weapon?: WeaponType
   ): Promise<ComputationResult<number[][]>> {
     return this.executeWithLoading(
       'Expected Value Analysis',
       500, // Expected duration in ms
       (onProgress) => this.workerApi!.decisionAnalysis.generateEVHeatmapComputation(
-        grid, radius, config, onProgress
+        grid, radius, config, weapon, onProgress
       )
     );
   }
@@ -297,13 +329,14 @@ export class WorkerManager {
     grid: GameCell[][],
     sensor: SensorType,
     config: GameConfig,
-    strikeRadius: number = 1
+    strikeRadius: number = 1,
+    turn: number = 0
   ): Promise<ComputationResult<number[][]>> {
     return this.executeWithLoading(
       'Value of Information Analysis',
       2000, // Expected duration in ms
       (onProgress) => this.workerApi!.decisionAnalysis.generateVOIHeatmapComputation(
-        grid, sensor, config, strikeRadius, onProgress
+        grid, sensor, config, strikeRadius, turn, onProgress
       )
     );
   }
@@ -316,13 +349,14 @@ export class WorkerManager {
     radius: number = 1,
     config: GameConfig,
     riskAversion: number = 0.5,
-    numSamples: number = 256
+    numSamples: number = 256,
+    weapon?: WeaponType
   ): Promise<ComputationResult<number[][]>> {
     return this.executeWithLoading(
       'Risk Analysis (256 samples)',
       3000, // Expected duration in ms
       (onProgress) => this.workerApi!.riskAnalysis.generateRiskAverseHeatmapComputation(
-        grid, radius, config, riskAversion, numSamples, onProgress
+        grid, radius, config, riskAversion, numSamples, weapon, onProgress
       )
     );
   }
@@ -334,13 +368,14 @@ export class WorkerManager {
     grid: GameCell[][],
     radius: number = 1,
     config: GameConfig,
-    numSamples: number = 256
+    numSamples: number = 256,
+    weapon?: WeaponType
   ): Promise<ComputationResult<number[][]>> {
     return this.executeWithLoading(
       'Variance Analysis (256 samples)',
       2500, // Expected duration in ms
       (onProgress) => this.workerApi!.riskAnalysis.generateVarianceHeatmapComputation(
-        grid, radius, config, numSamples, onProgress
+        grid, radius, config, numSamples, weapon, onProgress
       )
     );
   }
@@ -352,13 +387,14 @@ export class WorkerManager {
     grid: GameCell[][],
     radius: number = 1,
     config: GameConfig,
-    numSamples: number = 256
+    numSamples: number = 256,
+    weapon?: WeaponType
   ): Promise<ComputationResult<number[][]>> {
     return this.executeWithLoading(
       'Loss Risk Analysis (256 samples)',
       2500, // Expected duration in ms
       (onProgress) => this.workerApi!.riskAnalysis.generateLossRiskHeatmapComputation(
-        grid, radius, config, numSamples, onProgress
+        grid, radius, config, numSamples, weapon, onProgress
       )
     );
   }
@@ -383,6 +419,26 @@ export class WorkerManager {
     );
   }
 
+  /**
+   * Run the non-myopic rollout planner with a time budget
+   */
+  async planWithRollouts(
+    grid: GameCell[][],
+    config: GameConfig,
+    remainingBudget: number,
+    currentTurn: number,
+    selectedSensor: SensorType,
+    timeBudgetMs: number = 2000
+  ): Promise<ComputationResult<PolicyRecommendation>> {
+    return this.executeWithLoading(
+      'Rollout Planning',
+      timeBudgetMs,
+      (onProgress) => this.workerApi!.riskAnalysis.planWithRolloutsComputation(
+        grid, config, remainingBudget, currentTurn, selectedSensor, timeBudgetMs, onProgress
+      )
+    );
+  }
+
   /**
    * Clear all computation caches
    */
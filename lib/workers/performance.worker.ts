@@ -189,6 +189,7 @@ class PerformanceCalculator {
             x: cell.x,
             y: cell.y,
             posteriorProbability: cell.posteriorProbability,
+            infraPosteriorProbability: cell.infraPosteriorProbability,
             hasHostile: cell.hasHostile,
             hasInfrastructure: cell.hasInfrastructure,
             reconHistory: cell.reconHistory,
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Headless batch simulation from the command line.
+ *
+ *   npm run simulate:batch -- --seed batch --games 20 --policy greedyEV,reconVOI
+ *
+ * Plays every chosen policy on the same seeds and prints the batch report,
+ * followed by paired score comparisons between the policies.
+ */
+
+import { parseArgs } from 'util';
+import { PolicyType } from '../lib/risk-analysis';
+import { createDefaultConfig } from '../lib/game-engine';
+import {
+  BUILTIN_BATCH_POLICIES,
+  runBatchSimulation,
+  comparePolicies,
+  formatBatchReport
+} from '../lib/batch-simulation';
+
+// Same rules as a new game in the app, minus the daily seed
+const BASE_CONFIG = createDefaultConfig('batch');
+
+const USAGE = `Usage: batch-simulate [--seed <prefix>] [--games <n>] [--policy <id>[,<id>...]]
+
+Policies: ${Object.keys(BUILTIN_BATCH_POLICIES).join(', ')} (default: all)`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string', default: 'batch' },
+      games: { type: 'string', default: '20' },
+      policy: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const numGames = Number(values.games);
+  if (!Number.isInteger(numGames) || numGames < 1) fail(`--games must be a positive integer, got ${values.games}`);
+
+  const policyIds = values.policy
+    ? values.policy.split(',').map(id => id.trim())
+    : Object.keys(BUILTIN_BATCH_POLICIES);
+  const policies = policyIds.map(id => {
+    const policy = BUILTIN_BATCH_POLICIES[id as PolicyType];
+    if (!policy) fail(`Unknown policy: ${id}`);
+    return policy;
+  });
+
+  const report = runBatchSimulation(BASE_CONFIG, policies, { numGames, seedPrefix: values.seed });
+  console.log(formatBatchReport(report));
+
+  for (let i = 0; i < policies.length; i++) {
+    for (let j = i + 1; j < policies.length; j++) {
+      const comparison = comparePolicies(report, policies[i].id, policies[j].id);
+      if (!comparison) continue;
+      console.log(
+        `${policies[i].name} vs ${policies[j].name}: ${comparison.meanScoreDifference.toFixed(1)} ` +
+        `[${comparison.ci95[0].toFixed(1)}, ${comparison.ci95[1].toFixed(1)}]` +
+        (comparison.significant ? ' (significant)' : '')
+      );
+    }
+  }
+}
+
+main();
@@ -1,62 +1,65 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { GameState, GameConfig, GameCell, SensorType, ReconResult, GameEvent, TruthField } from '@/lib/types';
-import { SeededRNG, getDailySeed, generateRandomSeed, createSubRNG } from '@/lib/rng';
-import { 
-  generateTruthField, 
-  createEnhancedGameCells, 
-  calculateSpatialCorrelation, 
-  calculateSpatialAccuracy,
-  DEFAULT_SPATIAL_CONFIG,
-  DEFAULT_BETA_PRIORS
-} from '@/lib/truth-generation';
-import {
-  simulateSensorReading,
-  generateCellContext,
-  calculateEffectivePerformance,
-  DEFAULT_CONTEXT
-} from '@/lib/sensors';
-import {
-  updatePosteriorOdds,
-  applySpatialDiffusion,
-  RunningCalibration,
-  DEFAULT_DIFFUSION_CONFIG
-} from '@/lib/inference';
-import {
-  calculateStrikeEV,
-  validateStrike,
-  executeStrike
-} from '@/lib/decision-analysis';
+import { GameState, GameConfig, SensorType, WeaponType, TruthField } from '@/lib/types';
+import { getDailySeed, generateRandomSeed } from '@/lib/rng';
+import { validateStrike } from '@/lib/decision-analysis';
 import {
   PolicyType,
   PolicyRecommendation
 } from '@/lib/risk-analysis';
 import { getWorkerManager, LoadingState } from '@/lib/worker-manager';
 import { 
-  calculateTurnMetrics, 
   generateGameRunExport, 
-  exportGameRun 
+  exportGameRun,
+  downloadFile
 } from '@/lib/analytics-export';
+import { ScenarioFile, ScenarioDetails, scenarioToConfig, createScenarioFromGame } from '@/lib/scenario';
+import {
+  CAMPAIGN_STORAGE_KEY,
+  CampaignProgress,
+  MissionResult,
+  createCampaignProgress,
+  evaluateMission,
+  getMissionScenario,
+  isMissionUnlocked,
+  parseCampaignProgress,
+  recordMissionResult
+} from '@/lib/campaign';
+import { createDebrief } from '@/lib/objectives';
+import { withEstimate } from '@/lib/calibration-drill';
+import {
+  TUTORIAL_SCENARIO,
+  TutorialAction,
+  TutorialProgress,
+  advanceTutorial,
+  createTutorialProgress,
+  isTutorialActionAllowed,
+  isTutorialComplete
+} from '@/lib/tutorial';
+import {
+  GameCommand,
+  GameHistory,
+  BranchSummary,
+  createGameHistory,
+  getActiveBranch,
+  applyCommand,
+  rebuildFromCommands,
+  recordCommand,
+  forkBranch,
+  summarizeBranches,
+  createBranchSummaryCache
+} from '@/lib/game-history';
+import {
+  createEngineState,
+  createInitialAnalytics,
+  createCalibrationTrackers,
+  applyStrike,
+  createDefaultConfig,
+  recordTurnMetrics as recordEngineTurnMetrics,
+  updateSpatialAnalytics as updateEngineSpatialAnalytics
+} from '@/lib/game-engine';
 
-const DEFAULT_CONFIG: GameConfig = {
-  gridSize: 14,
-  initialBudget: 1000,
-  maxTurns: 10,
-  hostileValue: 100,
-  infraPenalty: 200,
-  strikeCost: 50,
-  reconCost: 10,
-  collateralThreshold: 0.1,
-  riskAversion: 0.5,
-  seed: getDailySeed(),
-  
-  // Enhanced truth generation config
-  spatialField: DEFAULT_SPATIAL_CONFIG,
-  betaPriors: DEFAULT_BETA_PRIORS,
-  
-  // Development options
-  showTruthOverlay: false,
-};
+const DEFAULT_CONFIG: GameConfig = createDefaultConfig(getDailySeed());
 
 const createInitialTruthField = (size: number): TruthField => {
   // Create empty truth field for initial state
@@ -71,8 +74,11 @@ const createInitialTruthField = (size: number): TruthField => {
   };
 };
 
-// Global running calibration tracker
-const runningCalibration = new RunningCalibration();
+// Global running calibration trackers (hostile and infrastructure beliefs)
+const calibration = createCalibrationTrackers();
+
+// Branch outcomes, rebuilt only when a branch's applied commands change
+const branchSummaries = createBranchSummaryCache();
 
 const createInitialState = (): GameState => ({
   grid: [],
@@ -80,26 +86,11 @@ const createInitialState = (): GameState => ({
   currentTurn: 0,
   remainingBudget: DEFAULT_CONFIG.initialBudget,
   score: 0,
+  actionCount: 0,
   gameStarted: false,
   gameEnded: false,
   eventLog: [],
-  analytics: {
-    hostilesNeutralized: 0,
-    infraHits: 0,
-    totalCost: 0,
-    brierScore: 0,
-    logLoss: 0,
-    calibrationData: [],
-    evAccuracy: 0,
-    truthCorrelation: 0,
-    spatialAccuracy: 0,
-    calibrationError: 0,
-    reliability: 0,
-    resolution: 0,
-    uncertainty: 0,
-    totalPredictions: 0,
-    timelineData: [],
-  },
+  analytics: createInitialAnalytics(),
   truthField: createInitialTruthField(DEFAULT_CONFIG.gridSize),
   loadingState: {
     isLoading: false,
@@ -110,18 +101,48 @@ const createInitialState = (): GameState => ({
 });
 
 interface GameStore extends GameState {
+  // Scenario the current game was loaded from (null for seeded games)
+  scenario: ScenarioFile | null;
+  
+  // Recorded commands for undo/redo and what-if branches
+  history: GameHistory;
+  
+  // Campaign progress, the mission being played (null in free play) and its result once finished
+  campaign: CampaignProgress;
+  activeMissionId: string | null;
+  missionResult: MissionResult | null;
+  
+  // Tutorial progress while the tutorial is running
+  tutorial: TutorialProgress | null;
+  
   // Actions
   initializeGame: (config?: Partial<GameConfig>) => void;
+  reconfigureGame: (config: Partial<GameConfig>) => void;
+  loadScenario: (scenario: ScenarioFile) => void;
+  exportScenario: (details: ScenarioDetails) => void;
+  startMission: (missionId: string) => void;
+  finishMission: () => void;
+  resetCampaign: () => void;
+  startTutorial: () => void;
+  recordTutorialAction: (action: TutorialAction) => void;
+  exitTutorial: () => void;
   startGame: () => void;
   endGame: () => void;
   resetGame: () => void;
   useDailySeed: () => void;
   useRandomSeed: () => void;
-  performRecon: (x: number, y: number, sensor: SensorType) => void;
-  performStrike: (x: number, y: number, radius: number, forceExecute?: boolean) => void;
+  performRecon: (x: number, y: number, sensor: SensorType, estimate?: number) => void;
+  performStrike: (x: number, y: number, radius: number, forceExecute?: boolean, weapon?: WeaponType, estimate?: number) => void;
   nextTurn: () => void;
   updateConfig: (config: Partial<GameConfig>) => void;
   
+  // Command history
+  undo: () => void;
+  redo: () => void;
+  forkWhatIf: (turn: number, name?: string) => void;
+  switchBranch: (branchId: string) => void;
+  getBranchSummaries: () => BranchSummary[];
+  
   // Truth overlay for development
   toggleTruthOverlay: () => void;
   
@@ -129,15 +150,16 @@ interface GameStore extends GameState {
   updateSpatialAnalytics: () => void;
   
   // Decision analysis
-  getEVHeatmap: (radius?: number) => Promise<number[][]>;
+  getEVHeatmap: (radius?: number, weapon?: WeaponType) => Promise<number[][]>;
   getVOIHeatmap: (sensor: SensorType, radius?: number) => Promise<number[][]>;
-  validateStrikeAction: (x: number, y: number, radius: number) => any;
+  validateStrikeAction: (x: number, y: number, radius: number, weapon?: WeaponType) => any;
   
   // Risk analysis
-  getRiskAverseHeatmap: (radius?: number, riskAversion?: number) => Promise<number[][]>;
-  getVarianceHeatmap: (radius?: number) => Promise<number[][]>;
-  getLossRiskHeatmap: (radius?: number) => Promise<number[][]>;
+  getRiskAverseHeatmap: (radius?: number, riskAversion?: number, weapon?: WeaponType) => Promise<number[][]>;
+  getVarianceHeatmap: (radius?: number, weapon?: WeaponType) => Promise<number[][]>;
+  getLossRiskHeatmap: (radius?: number, weapon?: WeaponType) => Promise<number[][]>;
   getPolicyRecommendations: (sensor: SensorType, riskAversion?: number) => Promise<Record<PolicyType, PolicyRecommendation>>;
+  getRolloutPlan: (sensor: SensorType, timeBudgetMs?: number) => Promise<PolicyRecommendation | null>;
   
   // Loading state management
   updateLoadingState: (updates: Partial<LoadingState>) => void;
@@ -149,60 +171,110 @@ interface GameStore extends GameState {
   // Persistence
   saveToLocalStorage: () => void;
   loadFromLocalStorage: () => boolean;
+  saveCampaignProgress: () => void;
+  loadCampaignProgress: () => void;
 }
 
 export const useGameStore = create<GameStore>()(
   immer((set, get) => ({
     ...createInitialState(),
+    scenario: null,
+    history: createGameHistory(),
+    campaign: createCampaignProgress(),
+    activeMissionId: null,
+    missionResult: null,
+    tutorial: null,
     
     initializeGame: (configOverrides = {}) => {
       set((state) => {
-        const newConfig = { ...DEFAULT_CONFIG, ...configOverrides };
-        state.config = newConfig;
-        
-        // Generate enhanced truth field using Gaussian-smoothed noise
-        state.truthField = generateTruthField(
-          newConfig.gridSize,
-          newConfig.gridSize,
-          newConfig.spatialField,
-          newConfig.betaPriors,
-          newConfig.seed
-        );
-        
-        // Create game cells with enhanced truth and Beta priors
-        state.grid = createEnhancedGameCells(
-          newConfig.gridSize,
-          newConfig.gridSize,
-          state.truthField,
-          newConfig.betaPriors
-        );
-        
-        state.currentTurn = 0;
-        state.remainingBudget = newConfig.initialBudget;
-        state.score = 0;
+        // Generate truth field, Beta-prior grid and empty analytics
+        Object.assign(state, createEngineState({ ...DEFAULT_CONFIG, ...configOverrides }));
         state.gameStarted = false;
-        state.gameEnded = false;
-        state.eventLog = [];
-        state.analytics = {
-          hostilesNeutralized: 0,
-          infraHits: 0,
-          totalCost: 0,
-          brierScore: 0,
-          logLoss: 0,
-          calibrationData: [],
-          evAccuracy: 0,
-          truthCorrelation: 0,
-          spatialAccuracy: 0,
-          calibrationError: 0,
-          reliability: 0,
-          resolution: 0,
-          uncertainty: 0,
-          totalPredictions: 0,
-          timelineData: [],
-        };
+        state.scenario = null;
+        state.history = createGameHistory();
+        state.activeMissionId = null;
+        state.missionResult = null;
+        state.tutorial = null;
         
-        // Reset calibration tracker
-        runningCalibration.reset();
+        // Reset calibration trackers
+        calibration.hostile.reset();
+        calibration.infra.reset();
+        calibration.player.reset();
+      });
+    },
+    
+    // Deal a fresh board with the current config plus the changes, keeping any loaded scenario
+    reconfigureGame: (configOverrides) => {
+      const { config, scenario } = get();
+      get().initializeGame({ ...config, ...configOverrides });
+      set((state) => {
+        state.scenario = scenario;
+      });
+    },
+    
+    loadScenario: (scenario: ScenarioFile) => {
+      get().initializeGame(scenarioToConfig(scenario));
+      set((state) => {
+        state.scenario = scenario;
+      });
+    },
+    
+    exportScenario: (details: ScenarioDetails) => {
+      const state = get();
+      const scenario = createScenarioFromGame(state, details);
+      const slug = details.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+      downloadFile(JSON.stringify(scenario, null, 2), `${slug}.scenario.json`, 'application/json');
+    },
+    
+    startMission: (missionId: string) => {
+      const { campaign } = get();
+      if (!isMissionUnlocked(campaign, missionId)) return;
+      
+      get().loadScenario(getMissionScenario(campaign, missionId));
+      set((state) => {
+        state.activeMissionId = missionId;
+      });
+    },
+    
+    finishMission: () => {
+      const { activeMissionId, gameEnded, missionResult } = get();
+      if (!activeMissionId || !gameEnded || missionResult) return;
+      
+      set((state) => {
+        const result = evaluateMission(activeMissionId, { ...state, debrief: createDebrief(state) });
+        state.missionResult = result;
+        state.campaign = recordMissionResult(state.campaign, result);
+      });
+      get().saveCampaignProgress();
+    },
+    
+    resetCampaign: () => {
+      set((state) => {
+        state.campaign = createCampaignProgress();
+      });
+      get().saveCampaignProgress();
+    },
+    
+    startTutorial: () => {
+      get().loadScenario(TUTORIAL_SCENARIO);
+      set((state) => {
+        state.tutorial = createTutorialProgress();
+      });
+    },
+    
+    recordTutorialAction: (action: TutorialAction) => {
+      const { tutorial } = get();
+      if (!tutorial) return;
+      
+      set((state) => {
+        const progress = advanceTutorial(tutorial, action, state);
+        state.tutorial = isTutorialComplete(progress) ? null : progress;
+      });
+    },
+    
+    exitTutorial: () => {
+      set((state) => {
+        state.tutorial = null;
       });
     },
     
@@ -218,6 +290,7 @@ export const useGameStore = create<GameStore>()(
           timestamp: Date.now(),
         });
       });
+      get().recordTutorialAction({ type: 'startGame' });
       
       // Record initial metrics
       setTimeout(() => recordTurnMetrics(), 100); // Small delay to ensure state is updated
@@ -233,12 +306,15 @@ export const useGameStore = create<GameStore>()(
           timestamp: Date.now(),
         });
       });
+      get().finishMission();
     },
     
     resetGame: () => {
       set((state) => {
         const newState = createInitialState();
         Object.assign(state, newState);
+        state.scenario = null;
+        state.history = createGameHistory();
       });
     },
     
@@ -254,184 +330,97 @@ export const useGameStore = create<GameStore>()(
       });
     },
     
-    performRecon: (x: number, y: number, sensor: SensorType) => {
+    performRecon: (x: number, y: number, sensor: SensorType, estimate?: number) => {
+      const { tutorial } = get();
+      if (tutorial && !isTutorialActionAllowed(tutorial, { type: 'recon', x, y, sensor })) return;
+      
       set((state) => {
-        // Add bounds checking before grid access - check grid exists and has proper dimensions
-        if (!state.grid || state.grid.length === 0 || !state.grid[y] || !state.grid[y][x]) return;
-        
-        const cell = state.grid[y][x];
-        
-        // Generate context for this cell
-        const contextRng = createSubRNG(state.config.seed, `context-${x}-${y}`);
-        const context = generateCellContext(x, y, state.config.gridSize, contextRng);
-        
-        // Calculate effective sensor performance
-        const performance = calculateEffectivePerformance(sensor, context);
-        
-        // Check if we can afford the recon
-        if (state.remainingBudget < performance.effectiveCost) return;
-        
-        // Generate sensor reading
-        const readingRng = createSubRNG(
-          state.config.seed, 
-          `recon-${state.currentTurn}-${x}-${y}-${sensor}`
-        );
-        const sensorReading = simulateSensorReading(
-          sensor, 
-          cell.hasHostile, 
-          context, 
-          readingRng
-        );
-        
-        // Store prior probability for calibration tracking
-        const priorProbability = cell.posteriorProbability;
-        
-        // Update posterior using Bayesian inference
-        const posteriorProbability = updatePosteriorOdds(priorProbability, sensorReading);
-        
-        // Apply spatial diffusion to neighboring cells
-        applySpatialDiffusion(state.grid, x, y, posteriorProbability, DEFAULT_DIFFUSION_CONFIG);
-        
-        // Update the target cell
-        cell.posteriorProbability = posteriorProbability;
-        
-        // Add to recon history with full context
-        cell.reconHistory.push({
-          sensor,
-          result: sensorReading.result,
-          turn: state.currentTurn,
-          timestamp: Date.now(),
-          effectiveTPR: sensorReading.effectiveTPR,
-          effectiveFPR: sensorReading.effectiveFPR,
-          confidence: sensorReading.confidence,
-          contextSummary: performance.contextSummary,
-          priorProbability,
-          posteriorProbability,
-        });
-        
-        // Update budget and costs
-        state.remainingBudget -= performance.effectiveCost;
-        state.analytics.totalCost += performance.effectiveCost;
-        
-        // Track calibration - add prediction before we know the outcome
-        runningCalibration.addPrediction(posteriorProbability, cell.hasHostile);
-        state.analytics.totalPredictions++;
-        
-        // Update calibration metrics
-        const calibrationMetrics = runningCalibration.getMetrics();
-        state.analytics.brierScore = calibrationMetrics.brierScore;
-        state.analytics.logLoss = calibrationMetrics.logLoss;
-        state.analytics.calibrationError = calibrationMetrics.calibrationError;
-        state.analytics.reliability = calibrationMetrics.reliability;
-        state.analytics.resolution = calibrationMetrics.resolution;
-        state.analytics.uncertainty = calibrationMetrics.uncertainty;
-        
-        // Update calibration data for plotting
-        state.analytics.calibrationData = calibrationMetrics.buckets.map(bucket => ({
-          predicted: bucket.averagePrediction,
-          actual: bucket.actualRate,
-          count: bucket.count,
-        }));
-        
-        // Log event with enhanced data
-        state.eventLog.push({
-          turn: state.currentTurn,
-          type: 'recon',
-          data: { 
-            x, 
-            y, 
-            sensor, 
-            reading: sensorReading.result,
-            posterior: posteriorProbability,
-            prior: priorProbability,
-            effectiveTPR: sensorReading.effectiveTPR,
-            effectiveFPR: sensorReading.effectiveFPR,
-            confidence: sensorReading.confidence,
-            context: performance.contextSummary,
-            cost: performance.effectiveCost,
-          },
-          timestamp: Date.now(),
-        });
-        
-        // Update spatial analytics after each recon
-        get().updateSpatialAnalytics();
+        const command: GameCommand = { type: 'recon', x, y, sensor, ...(estimate !== undefined && { estimate }) };
+        if (applyCommand(state, command, calibration)) {
+          recordCommand(state.history, command);
+        }
       });
+      get().recordTutorialAction({ type: 'recon', x, y, sensor });
+      get().finishMission();
     },
     
-    performStrike: (x: number, y: number, radius: number, forceExecute: boolean = false) => {
+    performStrike: (x: number, y: number, radius: number, forceExecute: boolean = false, weapon?: WeaponType, estimate?: number) => {
+      const { tutorial } = get();
+      if (tutorial && !isTutorialActionAllowed(tutorial, { type: 'strike', x, y })) return;
+      
       set((state) => {
-        // Add bounds checking before grid access - ensure grid is properly initialized
-        if (!state.grid || state.grid.length === 0) return;
-        
-        // Validate strike constraints
-        const validation = validateStrike(state.grid, x, y, radius, state.config);
-        
-        // Check budget
-        if (state.remainingBudget < validation.outcome.cost) {
-          console.warn('Insufficient budget for strike');
-          return;
-        }
-        
-        // Check collateral damage constraints
-        if (!validation.allowed && !forceExecute) {
-          console.warn('Strike blocked:', validation.reason);
-          return;
-        }
-        
-        if (validation.requiresConfirmation && !forceExecute) {
-          console.warn('Strike requires confirmation:', validation.reason);
-          return;
-        }
-        
-        // Execute the strike against truth
-        const result = executeStrike(state.grid, x, y, radius, state.config);
-        
-        // Update game state with actual results
-        state.score += result.netPoints;
-        state.remainingBudget -= validation.outcome.cost;
-        state.analytics.hostilesNeutralized += result.hostilesHit;
-        state.analytics.infraHits += result.infraHit;
-        state.analytics.totalCost += validation.outcome.cost;
-        
-        // Log detailed strike event
-        state.eventLog.push({
-          turn: state.currentTurn,
-          type: 'strike',
-          data: { 
-            x, 
-            y, 
-            radius,
-            hostilesHit: result.hostilesHit,
-            infraHit: result.infraHit,
-            totalReward: result.totalReward,
-            totalPenalty: result.totalPenalty,
-            netPoints: result.netPoints,
-            cost: validation.outcome.cost,
-            expectedValue: validation.outcome.expectedValue,
-            actualValue: result.netPoints,
-            affectedCells: result.affectedCells,
-            validation: validation.reason,
-          },
-          timestamp: Date.now(),
+        const executed = withEstimate(state, x, y, 'strike', estimate, calibration.player, () => {
+          const attempt = applyStrike(state, x, y, radius, forceExecute, weapon);
+          if (!attempt.executed) console.warn(attempt.reason);
+          return attempt.executed;
         });
-        
-        // Update spatial analytics after strike
-        get().updateSpatialAnalytics();
+        if (!executed) return;
+        recordCommand(state.history, { type: 'strike', x, y, radius, weapon, ...(estimate !== undefined && { estimate }) });
       });
+      get().recordTutorialAction({ type: 'strike', x, y });
+      get().finishMission();
     },
     
     nextTurn: () => {
       const { recordTurnMetrics } = get();
       
       set((state) => {
-        state.currentTurn++;
-        if (state.currentTurn >= state.config.maxTurns) {
-          state.gameEnded = true;
+        const command: GameCommand = { type: 'nextTurn' };
+        if (applyCommand(state, command, calibration, false)) {
+          recordCommand(state.history, command);
         }
       });
       
       // Record metrics for the completed turn
       recordTurnMetrics();
+      get().finishMission();
+    },
+    
+    undo: () => {
+      const { history, config, gameStarted } = get();
+      const branch = getActiveBranch(history);
+      if (branch.cursor === 0) return;
+      
+      // Rebuild from the start without the last command
+      const rebuilt = rebuildFromCommands(config, branch.commands.slice(0, branch.cursor - 1), gameStarted, calibration);
+      set((state) => {
+        Object.assign(state, rebuilt);
+        getActiveBranch(state.history).cursor--;
+      });
+    },
+    
+    redo: () => {
+      set((state) => {
+        const branch = getActiveBranch(state.history);
+        if (branch.cursor >= branch.commands.length) return;
+        
+        applyCommand(state, branch.commands[branch.cursor], calibration, state.gameStarted);
+        branch.cursor++;
+      });
+    },
+    
+    forkWhatIf: (turn: number, name?: string) => {
+      set((state) => {
+        forkBranch(state.history, turn, name);
+      });
+      get().switchBranch(get().history.activeBranchId);
+    },
+    
+    switchBranch: (branchId: string) => {
+      const { history, config, gameStarted } = get();
+      const branch = history.branches.find(candidate => candidate.id === branchId);
+      if (!branch) return;
+      
+      const rebuilt = rebuildFromCommands(config, branch.commands.slice(0, branch.cursor), gameStarted, calibration);
+      set((state) => {
+        Object.assign(state, rebuilt);
+        state.history.activeBranchId = branchId;
+      });
+    },
+    
+    getBranchSummaries: () => {
+      const { history, config } = get();
+      return summarizeBranches(config, history, branchSummaries);
     },
     
     updateConfig: (configOverrides) => {
@@ -448,27 +437,18 @@ export const useGameStore = create<GameStore>()(
     
     updateSpatialAnalytics: () => {
       set((state) => {
-        // Calculate correlation between posterior beliefs and truth
-        const posteriorField = state.grid.map(row => 
-          row.map(cell => cell.posteriorProbability)
-        );
-        const truthField = state.grid.map(row => 
-          row.map(cell => cell.hasHostile ? 1 : 0)
-        );
-        
-        state.analytics.truthCorrelation = calculateSpatialCorrelation(posteriorField, truthField);
-        state.analytics.spatialAccuracy = calculateSpatialAccuracy(posteriorField, truthField);
+        updateEngineSpatialAnalytics(state);
       });
     },
     
-    getEVHeatmap: async (radius = 1) => {
+    getEVHeatmap: async (radius = 1, weapon?: WeaponType) => {
       const state = get();
       // Add bounds checking before grid access
       if (!state.grid || state.grid.length === 0) {
         return Array(state.config.gridSize).fill(null).map(() => Array(state.config.gridSize).fill(0));
       }
       const workerManager = getWorkerManager();
-      const result = await workerManager.generateEVHeatmap(state.grid, radius, state.config);
+      const result = await workerManager.generateEVHeatmap(state.grid, radius, state.config, weapon);
       return result.result;
     },
     
@@ -479,20 +459,20 @@ export const useGameStore = create<GameStore>()(
         return Array(state.config.gridSize).fill(null).map(() => Array(state.config.gridSize).fill(0));
       }
       const workerManager = getWorkerManager();
-      const result = await workerManager.generateVOIHeatmap(state.grid, sensor, state.config, radius);
+      const result = await workerManager.generateVOIHeatmap(state.grid, sensor, state.config, radius, state.currentTurn);
       return result.result;
     },
     
-    validateStrikeAction: (x: number, y: number, radius: number) => {
+    validateStrikeAction: (x: number, y: number, radius: number, weapon?: WeaponType) => {
       const state = get();
       // Add bounds checking before grid access
       if (!state.grid || state.grid.length === 0) {
-        return { allowed: false, requiresConfirmation: false, reason: 'Game not initialized', outcome: null };
+        return { allowed: false, requiresConfirmation: false, reason: 'Game not initialized', outcome: null, verdicts: [] };
       }
-      return validateStrike(state.grid, x, y, radius, state.config);
+      return validateStrike(state, x, y, radius, weapon);
     },
     
-    getRiskAverseHeatmap: async (radius = 1, riskAversion = 0.5) => {
+    getRiskAverseHeatmap: async (radius = 1, riskAversion = 0.5, weapon?: WeaponType) => {
       const state = get();
       // Add bounds checking before grid access
       if (!state.grid || state.grid.length === 0) {
@@ -500,12 +480,12 @@ export const useGameStore = create<GameStore>()(
       }
       const workerManager = getWorkerManager();
       const result = await workerManager.generateRiskAverseHeatmap(
-        state.grid, radius, state.config, riskAversion, 256
+        state.grid, radius, state.config, riskAversion, 256, weapon
       );
       return result.result;
     },
     
-    getVarianceHeatmap: async (radius = 1) => {
+    getVarianceHeatmap: async (radius = 1, weapon?: WeaponType) => {
       const state = get();
       // Add bounds checking before grid access
       if (!state.grid || state.grid.length === 0) {
@@ -513,12 +493,12 @@ export const useGameStore = create<GameStore>()(
       }
       const workerManager = getWorkerManager();
       const result = await workerManager.generateVarianceHeatmap(
-        state.grid, radius, state.config, 256
+        state.grid, radius, state.config, 256, weapon
       );
       return result.result;
     },
     
-    getLossRiskHeatmap: async (radius = 1) => {
+    getLossRiskHeatmap: async (radius = 1, weapon?: WeaponType) => {
       const state = get();
       // Add bounds checking before grid access
       if (!state.grid || state.grid.length === 0) {
@@ -526,7 +506,7 @@ export const useGameStore = create<GameStore>()(
       }
       const workerManager = getWorkerManager();
       const result = await workerManager.generateLossRiskHeatmap(
-        state.grid, radius, state.config, 256
+        state.grid, radius, state.config, 256, weapon
       );
       return result.result;
     },
@@ -549,6 +529,24 @@ export const useGameStore = create<GameStore>()(
       return result.result;
     },
     
+    getRolloutPlan: async (sensor: SensorType, timeBudgetMs = 2000) => {
+      const state = get();
+      // Add bounds checking before grid access
+      if (!state.grid || state.grid.length === 0) {
+        return null;
+      }
+      const workerManager = getWorkerManager();
+      const result = await workerManager.planWithRollouts(
+        state.grid,
+        state.config,
+        state.remainingBudget,
+        state.currentTurn,
+        sensor,
+        timeBudgetMs
+      );
+      return result.result;
+    },
+    
     updateLoadingState: (updates: Partial<LoadingState>) => {
       set((state) => {
         state.loadingState = { ...state.loadingState, ...updates };
@@ -556,26 +554,10 @@ export const useGameStore = create<GameStore>()(
     },
     
     recordTurnMetrics: () => {
-      const state = get();
-      if (!state.gameStarted) return;
-      
-      // Get events from current turn
-      const currentTurnEvents = state.eventLog.filter(event => event.turn === state.currentTurn);
-      
-      // Calculate turn metrics
-      const turnMetrics = calculateTurnMetrics(
-        state.currentTurn,
-        state.grid,
-        state.config,
-        state.score,
-        state.remainingBudget,
-        state.analytics,
-        state.truthField,
-        currentTurnEvents
-      );
+      if (!get().gameStarted) return;
       
       set((state) => {
-        state.analytics.timelineData.push(turnMetrics);
+        recordEngineTurnMetrics(state);
       });
     },
     
@@ -605,6 +587,25 @@ export const useGameStore = create<GameStore>()(
       exportGameRun(exportData);
     },
     
+    saveCampaignProgress: () => {
+      try {
+        localStorage.setItem(CAMPAIGN_STORAGE_KEY, JSON.stringify(get().campaign));
+      } catch (error) {
+        console.error('Failed to save campaign progress:', error);
+      }
+    },
+    
+    loadCampaignProgress: () => {
+      try {
+        const campaign = parseCampaignProgress(localStorage.getItem(CAMPAIGN_STORAGE_KEY));
+        set((state) => {
+          state.campaign = campaign;
+        });
+      } catch (error) {
+        console.error('Failed to load campaign progress:', error);
+      }
+    },
+    
     saveToLocalStorage: () => {
       const state = get();
       try {
@@ -619,6 +620,13 @@ export const useGameStore = create<GameStore>()(
         const saved = localStorage.getItem('bayesian-forward-operator-game');
         if (saved) {
           const state = JSON.parse(saved);
+          // Saves from before command history start with an empty timeline
+          state.history = state.history ?? createGameHistory();
+          state.activeMissionId = state.activeMissionId ?? null;
+          state.missionResult = state.missionResult ?? null;
+          state.tutorial = state.tutorial ?? null;
+          // Campaign progress has its own save, which is always newer
+          state.campaign = get().campaign;
           set(state);
           
           // Ensure grid is properly initialized - if empty, initialize the game
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { useGameStore } from '@/state/useGameStore';
 import { GameConfig } from '@/lib/types';
+import { PolicyType, PolicyRecommendation } from '@/lib/risk-analysis';
+import GamePage from '@/app/game/page';
+import { ThemeProvider } from '@/lib/contexts/theme-context';
 
 // Mock the worker manager to avoid Web Worker issues in tests
 vi.mock('@/lib/worker-manager', () => ({
@@ -17,6 +20,10 @@ vi.mock('@/lib/worker-manager', () => ({
   }),
 }));
 
+// The map views need WebGL, which jsdom does not have
+vi.mock('@/components/MapScene', () => ({ default: () => null }));
+vi.mock('@/app/game/GameCanvas', () => ({ default: () => null }));
+
 // Mock next/navigation
 vi.mock('next/navigation', () => ({
   useRouter: () => ({
@@ -382,5 +389,115 @@ describe('Component Tests', () => {
   });
 });
 
+describe('Game Page', () => {
+  beforeEach(() => {
+    useGameStore.getState().resetGame();
+    useGameStore.getState().initializeGame();
+  });
+
+  const openTab = async (user: ReturnType<typeof userEvent.setup>, tab: string) => {
+    await user.click(screen.getByRole('button', { name: 'Show analytics' }));
+    const analytics = screen.getByRole('heading', { name: 'Analytics & Timeline' }).parentElement!.parentElement!;
+    await user.click(within(analytics).getByRole('button', { name: tab }));
+  };
+
+  it('should offer scenario load and export in the settings tab', async () => {
+    const user = userEvent.setup();
+    render(<ThemeProvider><GamePage /></ThemeProvider>);
+    await openTab(user, 'Settings');
+
+    expect(screen.getByText('Load Scenario').querySelector('input[type="file"]')).not.toBeNull();
+    expect(screen.getByRole('button', { name: /Export Scenario/ })).toBeEnabled();
+  });
+
+  it('should apply game settings from the settings tab to a fresh board', async () => {
+    const user = userEvent.setup();
+    render(<ThemeProvider><GamePage /></ThemeProvider>);
+    await openTab(user, 'Settings');
+    const seed = useGameStore.getState().config.seed;
+
+    await user.selectOptions(screen.getByLabelText('Belief Inference'), 'gibbs');
+    expect(useGameStore.getState().config.inferenceMode).toBe('gibbs');
+
+    await user.click(screen.getByRole('checkbox', { name: 'Moving hostiles' }));
+    expect(useGameStore.getState().config.movement?.enabled).toBe(true);
+    expect(useGameStore.getState().config.inferenceMode).toBe('diffusion');
+    expect(screen.getByLabelText('Belief Inference')).toBeDisabled();
+    expect(useGameStore.getState().config.seed).toBe(seed);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Adversary deception (decoys)' }));
+    await user.selectOptions(screen.getByLabelText('Emissions Control'), 'strict');
+    expect(useGameStore.getState().config.adversary).toMatchObject({ enabled: true, emissionControl: 'strict' });
+
+    await user.click(screen.getByRole('checkbox', { name: 'Hostile classes' }));
+    expect(useGameStore.getState().config.targetClasses?.enabled).toBe(true);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Correlated repeat readings' }));
+    expect(useGameStore.getState().config.fusion?.enabled).toBe(true);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Calibration drill (estimate before each action)' }));
+    expect(useGameStore.getState().config.calibrationDrill?.enabled).toBe(true);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Sensor logistics' }));
+    expect(useGameStore.getState().config.logistics?.enabled).toBe(true);
+
+    expect(screen.queryByText('Local Time')).toBeNull();
+    await user.click(screen.getByRole('checkbox', { name: 'Dynamic weather and daylight' }));
+    expect(useGameStore.getState().config.environment?.enabled).toBe(true);
+    expect(screen.getByText('Local Time')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Start Mission/ }));
+    expect(screen.getByRole('checkbox', { name: 'Moving hostiles' })).toBeDisabled();
+    expect(screen.getByText('Sensor Assets')).toBeInTheDocument();
+  });
+
+  it('should undo from mission control and redo from the keyboard', async () => {
+    const user = userEvent.setup();
+    render(<ThemeProvider><GamePage /></ThemeProvider>);
+
+    await user.click(screen.getByRole('button', { name: /Start Mission/ }));
+    act(() => useGameStore.getState().performRecon(1, 1, 'drone'));
+    expect(useGameStore.getState().actionCount).toBe(1);
+
+    await user.click(screen.getByRole('button', { name: /Undo/ }));
+    expect(useGameStore.getState().actionCount).toBe(0);
+
+    await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+    expect(useGameStore.getState().actionCount).toBe(1);
+  });
+
+  it('should run the rollout planner from the policy advisor', async () => {
+    const { getPolicyRecommendations, getRolloutPlan } = useGameStore.getState();
+    const recommend = (type: PolicyType, x: number): PolicyRecommendation => ({
+      type, action: 'recon', x, y: 2, sensor: 'drone', confidence: 0.8, reasoning: type, value: 10,
+    });
+    const plan = vi.fn().mockResolvedValue(recommend('rolloutPlanner', 5));
+    useGameStore.setState({
+      getPolicyRecommendations: async () => ({
+        greedyEV: recommend('greedyEV', 1),
+        riskAverse: recommend('riskAverse', 2),
+        reconVOI: recommend('reconVOI', 3),
+        rolloutPlanner: recommend('rolloutPlanner', 4),
+      }),
+      getRolloutPlan: plan,
+    });
+
+    try {
+      const user = userEvent.setup();
+      render(<ThemeProvider><GamePage /></ThemeProvider>);
+      await user.click(screen.getByRole('button', { name: /Start Mission/ }));
+
+      await user.click(await screen.findByRole('button', { name: /Rollout Planner/ }));
+      expect(screen.getByText('(04, 02)')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /Plan deeper/ }));
+      expect(plan).toHaveBeenCalledWith('drone', 3000);
+      expect(await screen.findByText('RECON at (5, 2)')).toBeInTheDocument();
+    } finally {
+      useGameStore.setState({ getPolicyRecommendations, getRolloutPlan });
+    }
+  });
+});
+
 // Add React import for the TestHeatmapControls component
 import React from 'react';
\ No newline at end of file
@@ -1,6 +1,35 @@
-import { describe, it, expect } from 'vitest';
-import { updatePosteriorOdds, calculateBrierScore, calculateLogLoss } from '@/lib/inference';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { updatePosteriorOdds, updateInfraPosteriorOdds, calculateBrierScore, calculateLogLoss } from '@/lib/inference';
 import { useGameStore } from '@/state/useGameStore';
+import { runBatchSimulation, comparePolicies, BUILTIN_BATCH_POLICIES } from '@/lib/batch-simulation';
+import { DEFAULT_SPATIAL_CONFIG, DEFAULT_BETA_PRIORS } from '@/lib/truth-generation';
+import { planWithRollouts, getAllPolicyRecommendations } from '@/lib/risk-analysis';
+import { generateGameRunExport } from '@/lib/analytics-export';
+import { createGameHistory, createBranchSummaryCache, recordCommand, summarizeBranches } from '@/lib/game-history';
+import { ReplaySession, verifyReplay, parseGameRunExport } from '@/lib/replay';
+import { InferenceWorker } from '@/workers/sim.worker';
+import { WEAPON_CATALOG, getFootprintPattern, getMissDistribution } from '@/lib/weapons';
+import { calculateStrikeEV, executeStrike, validateStrike } from '@/lib/decision-analysis';
+import { createEngineState, createCalibrationTrackers, applyRecon, applyStrike, advanceTurn, observeStrike, NEUTRALISED_POSTERIOR } from '@/lib/game-engine';
+import { DEFAULT_MOVEMENT_CONFIG, buildTransitionKernel, predictBeliefs } from '@/lib/movement';
+import { SCENARIO_FORMAT, SCENARIO_VERSION, validateScenario, parseScenario, scenarioToConfig, createScenarioFromGame } from '@/lib/scenario';
+import { getCellContext, forecastSensorPerformance, compareSensors, bestSensorFor, calculateEffectivePerformance, simulateSensorReading, decoyPositiveRate, fuseRate } from '@/lib/sensors';
+import { DEFAULT_FUSION_CONFIG, getFusionExposure } from '@/lib/fusion';
+import { getAreaCells, evaluateObjectives, createDebrief } from '@/lib/objectives';
+import { getZoneCells } from '@/lib/roe';
+import { DEFAULT_CALIBRATION_DRILL_CONFIG, elicitEstimate, withEstimate, createDrillReport, shouldElicitEstimate } from '@/lib/calibration-drill';
+import type { AreaOfInterest, ObjectivesConfig, ReconResult, RoeRule, TacticalBoundary } from '@/lib/types';
+import { TUTORIAL_SCENARIO, TUTORIAL_STEPS, createTutorialProgress, advanceTutorial, isTutorialActionAllowed } from '@/lib/tutorial';
+import { CAMPAIGN_MISSIONS, createCampaignProgress, isMissionUnlocked, getMissionScenario, evaluateMission, recordMissionResult, parseCampaignProgress } from '@/lib/campaign';
+import { DEFAULT_ADVERSARY_CONFIG, updateDecoyProbability } from '@/lib/adversary';
+import { DEFAULT_TARGET_CLASS_CONFIG, HOSTILE_CLASSES, HOSTILE_CLASS_CATALOG, getClassProbabilities, updateClassCounts, getTargetExposure } from '@/lib/target-classes';
+import { createSubRNG } from '@/lib/rng';
+import { generateContextGrid, getContextCategory, getContextCategories, getContextLayerValue, isContextHeatmapType } from '@/lib/context-layers';
+import { DEFAULT_ENVIRONMENT_CONFIG, createEnvironmentModel, getEnvironmentConditions, getLighting } from '@/lib/environment';
+import { toLogEvents, deriveTrackEntities, cellTrackId } from '@/lib/live-feed';
+import { deriveInfrastructureEntities, deriveAirAssets } from '@/lib/3d-entities';
+import { getAssetStatuses, planSortie } from '@/lib/logistics';
+import { createGridProjection, gridFractionToPosition, cellCenter, cellToPolygon, pointToCell, cellToMGRS, latLngToMGRS, latLngToUTM, utmToLngLat } from '@/lib/geo-projection';
 
 describe('Core Functionality Tests', () => {
   describe('Bayesian Inference', () => {
@@ -50,6 +79,1364 @@ describe('Core Functionality Tests', () => {
     });
   });
 
+  describe('Infrastructure Beliefs', () => {
+    it('should update infrastructure posterior from its own channel', () => {
+      const sensorReading = {
+        result: false,
+        effectiveTPR: 0.8,
+        effectiveFPR: 0.2,
+        infraResult: true,
+        effectiveInfraTPR: 0.9,
+        effectiveInfraFPR: 0.1
+      };
+
+      // odds = 1 * (0.9 / 0.1) = 9 → posterior = 0.9, regardless of the hostile channel
+      expect(updateInfraPosteriorOdds(0.5, sensorReading)).toBeCloseTo(0.9, 3);
+    });
+
+    it('should carry the infrastructure posterior through recon', () => {
+      useGameStore.getState().initializeGame({ seed: 'infra-belief-test' });
+      const before = useGameStore.getState().grid[3][4].infraPosteriorProbability;
+
+      useGameStore.getState().performRecon(4, 3, 'drone');
+
+      const cell = useGameStore.getState().grid[3][4];
+      const latest = cell.reconHistory[cell.reconHistory.length - 1];
+      expect(latest.infraPriorProbability).toBeCloseTo(before, 10);
+      expect(cell.infraPosteriorProbability).toBeCloseTo(latest.infraPosteriorProbability, 10);
+      expect(cell.infraPosteriorProbability).not.toBeCloseTo(before, 5);
+    });
+  });
+
+  describe('Headless Batch Simulation', () => {
+    const config = {
+      gridSize: 6,
+      initialBudget: 400,
+      maxTurns: 3,
+      hostileValue: 100,
+      infraPenalty: 200,
+      strikeCost: 50,
+      reconCost: 10,
+      collateralThreshold: 0.3,
+      riskAversion: 0.5,
+      seed: 'unused',
+      spatialField: DEFAULT_SPATIAL_CONFIG,
+      betaPriors: DEFAULT_BETA_PRIORS,
+      showTruthOverlay: false,
+    };
+
+    it('should play every policy on the same seeds reproducibly', () => {
+      const policies = [BUILTIN_BATCH_POLICIES.greedyEV, BUILTIN_BATCH_POLICIES.reconVOI];
+      const first = runBatchSimulation(config, policies, { numGames: 3, seedPrefix: 'batch-test' });
+      const second = runBatchSimulation(config, policies, { numGames: 3, seedPrefix: 'batch-test' });
+
+      expect(first.seeds).toEqual(['batch-test-0', 'batch-test-1', 'batch-test-2']);
+      expect(first.policies.map(policy => policy.policyId)).toEqual(['greedyEV', 'reconVOI']);
+
+      first.policies.forEach((policy, i) => {
+        expect(policy.games.map(game => game.seed)).toEqual(first.seeds);
+        expect(policy.games.map(game => game.score)).toEqual(second.policies[i].games.map(game => game.score));
+        expect(policy.score.min).toBeLessThanOrEqual(policy.score.mean);
+        expect(policy.score.max).toBeGreaterThanOrEqual(policy.score.mean);
+        expect(policy.brierScore.mean).toBeGreaterThanOrEqual(0);
+      });
+
+      const comparison = comparePolicies(first, 'greedyEV', 'reconVOI');
+      expect(comparison?.ci95[0]).toBeLessThanOrEqual(comparison!.meanScoreDifference);
+    });
+
+    it('should stop the rollout planner on its rollout count, not the clock', () => {
+      const state = createEngineState({ ...config, seed: 'planner-clock' });
+      let now = 0;
+      vi.spyOn(performance, 'now').mockImplementation(() => (now += 1000));
+
+      const plan = planWithRollouts(state.grid, state.config, state.remainingBudget, 0, 'drone', 1, { maxRollouts: 100 });
+      const recommendations = getAllPolicyRecommendations(state.grid, state.config, state.remainingBudget, 0, 'drone');
+      const interactive = planWithRollouts(state.grid, state.config, state.remainingBudget, 0, 'drone', 1, { maxRollouts: 100, timeBudgetMs: 2000 });
+      vi.restoreAllMocks();
+
+      expect(plan.rollouts).toBe(100);
+      expect(recommendations.rolloutPlanner.plan).toEqual(
+        getAllPolicyRecommendations(state.grid, state.config, state.remainingBudget, 0, 'drone').rolloutPlanner.plan
+      );
+      expect(interactive.rollouts).toBeLessThan(100);
+    });
+  });
+
+  describe('Strike Beliefs', () => {
+    const strikeState = () => createEngineState({
+      ...useGameStore.getState().config,
+      seed: 'strike-beliefs',
+      gridSize: 6,
+      hostilePlacements: [{ x: 2, y: 2 }],
+      infraPlacements: [],
+    });
+
+    it('should leave a legacy strike footprint neutralised and the rest of the grid untouched', () => {
+      const state = strikeState();
+      const before = state.grid.map(row => row.map(cell => cell.posteriorProbability));
+      const attempt = applyStrike(state, 2, 2, 1, true);
+      const footprint = attempt.result!.affectedCells;
+
+      expect(footprint).toHaveLength(5);
+      state.grid.forEach((row, y) => row.forEach((cell, x) => {
+        const struck = footprint.some(affected => affected.x === x && affected.y === y);
+        expect(cell.posteriorProbability).toBe(struck ? NEUTRALISED_POSTERIOR : before[y][x]);
+      }));
+    });
+
+    it('should discount beliefs by the kill probability', () => {
+      const state = strikeState();
+      state.grid[0][0].posteriorProbability = 0.6;
+      state.grid[0][1].posteriorProbability = 0.6;
+      observeStrike(state, { affectedCells: [
+        { x: 0, y: 0, killProbability: 0.5, wasHostile: false, wasInfra: false, destroyed: false },
+        { x: 1, y: 0, killProbability: 1, wasHostile: false, wasInfra: false, destroyed: true },
+      ] });
+      expect(state.grid[0][0].posteriorProbability).toBeCloseTo(0.3, 10);
+      expect(state.grid[0][1].posteriorProbability).toBe(NEUTRALISED_POSTERIOR);
+    });
+  });
+
+  describe('Deterministic Replay', () => {
+    afterEach(() => {
+      useGameStore.getState().resetGame();
+    });
+
+    const playRecordedGame = () => {
+      const store = useGameStore.getState();
+      store.initializeGame({ seed: 'replay-test' });
+      store.performRecon(2, 2, 'drone');
+      store.performRecon(5, 4, 'sigint');
+      store.performStrike(2, 2, 1, true);
+      store.performStrike(6, 5, 1, true, 'strafe');
+      store.nextTurn();
+      store.performRecon(7, 7, 'ground');
+
+      const state = useGameStore.getState();
+      const exportData = generateGameRunExport(
+        state.config, state.analytics, state.eventLog, state.truthField, state.score, state.currentTurn
+      );
+      return parseGameRunExport(JSON.stringify(exportData));
+    };
+
+    it('should reproduce every recorded reading and strike result', () => {
+      const verification = verifyReplay(playRecordedGame());
+
+      expect(verification.truthMatches).toBe(true);
+      expect(verification.finalScoreMatches).toBe(true);
+      expect(verification.checks.map(check => check.type)).toEqual(['recon', 'recon', 'strike', 'strike', 'recon']);
+      expect(verification.mismatchCount).toBe(0);
+    });
+
+    it('should flag tampered events and scrub back to identical states', () => {
+      const exportData = playRecordedGame();
+      exportData.events[0].data.reading = !exportData.events[0].data.reading;
+
+      const session = new ReplaySession(exportData);
+      session.seek(3);
+      const posteriors = session.state.grid.map(row => row.map(cell => cell.posteriorProbability));
+      session.seek(session.length);
+      session.seek(3);
+
+      expect(session.checks[0].matches).toBe(false);
+      expect(session.checks[0].mismatches[0]).toContain('reading');
+      expect(session.state.grid.map(row => row.map(cell => cell.posteriorProbability))).toEqual(posteriors);
+    });
+  });
+
+  describe('Command History', () => {
+    afterEach(() => {
+      useGameStore.getState().resetGame();
+    });
+
+    const snapshot = () => {
+      const { grid, score, remainingBudget, currentTurn, actionCount, analytics } = useGameStore.getState();
+      return {
+        posteriors: grid.map(row => row.map(cell => cell.posteriorProbability)),
+        score,
+        remainingBudget,
+        currentTurn,
+        actionCount,
+        brierScore: analytics.brierScore,
+      };
+    };
+
+    it('should undo and redo actions back to identical states', () => {
+      const store = useGameStore.getState();
+      store.initializeGame({ seed: 'history-test' });
+      store.startGame();
+      store.performRecon(2, 2, 'drone');
+      const afterRecon = snapshot();
+
+      store.performStrike(2, 2, 1, true, 'precision');
+      store.nextTurn();
+      const afterTurn = snapshot();
+
+      useGameStore.getState().undo();
+      useGameStore.getState().undo();
+      expect(snapshot()).toEqual(afterRecon);
+
+      useGameStore.getState().redo();
+      useGameStore.getState().redo();
+      expect(snapshot()).toEqual(afterTurn);
+
+      // A new action replaces everything that was undone
+      useGameStore.getState().undo();
+      useGameStore.getState().performRecon(4, 4, 'sigint');
+      const branch = useGameStore.getState().history.branches[0];
+      expect(branch.commands.map(command => command.type)).toEqual(['recon', 'strike', 'recon']);
+      expect(branch.cursor).toBe(3);
+    });
+
+    it('should fork a what-if branch and compare it with the original', () => {
+      const store = useGameStore.getState();
+      store.initializeGame({ seed: 'history-test' });
+      store.startGame();
+      store.performRecon(2, 2, 'drone');
+      store.nextTurn();
+      store.performStrike(3, 3, 1, true, 'area');
+      const main = snapshot();
+
+      useGameStore.getState().forkWhatIf(1);
+      expect(useGameStore.getState().currentTurn).toBe(1);
+      expect(useGameStore.getState().actionCount).toBe(1);
+
+      useGameStore.getState().performRecon(3, 3, 'ground');
+      const summaries = useGameStore.getState().getBranchSummaries();
+      expect(summaries.map(summary => summary.actions)).toEqual([2, 2]);
+      expect(summaries[0].score).toBe(main.score);
+      expect(summaries[1].forkTurn).toBe(1);
+
+      useGameStore.getState().switchBranch('main');
+      expect(snapshot()).toEqual(main);
+    });
+
+    it('should only rebuild branches whose applied commands changed', () => {
+      const config = { ...useGameStore.getState().config, seed: 'branch-cache' };
+      const history = createGameHistory();
+      const cache = createBranchSummaryCache();
+
+      recordCommand(history, { type: 'recon', x: 1, y: 1, sensor: 'drone' });
+      const [first] = summarizeBranches(config, history, cache);
+      expect(summarizeBranches(config, history, cache)[0]).toBe(first);
+
+      // Undo and a different command: same branch and cursor, different outcome
+      history.branches[0].cursor = 0;
+      recordCommand(history, { type: 'strike', x: 1, y: 1, radius: 1 });
+      const [replaced] = summarizeBranches(config, history, cache);
+      expect(replaced).not.toBe(first);
+      expect(replaced).toEqual(summarizeBranches(config, history)[0]);
+    });
+  });
+
+  describe('Live Feed', () => {
+    const projection = createGridProjection(useGameStore.getState().config.gridSize);
+
+    it('should log real belief deltas and classification changes', () => {
+      const state = createEngineState({ ...useGameStore.getState().config, seed: 'live-feed' });
+      state.grid[4][4].posteriorProbability = 0.6;
+      state.eventLog.push({
+        turn: 0,
+        type: 'recon',
+        data: { x: 4, y: 4, sensor: 'drone', reading: true, prior: 0.6, posterior: 0.85, cost: 10 },
+        timestamp: 1000,
+      });
+
+      const events = toLogEvents(state.eventLog);
+      expect(events.map(event => event.action)).toEqual(['DRONE_SCAN_POSITIVE', 'RECLASSIFIED_HOSTILE']);
+      expect(events[0].entity).toBe(cellTrackId(4, 4));
+      expect(events[0].deltaScore).toBeCloseTo(0.25, 10);
+    });
+
+    it('should derive tracks from posteriors and strike footprints', () => {
+      const state = createEngineState({ ...useGameStore.getState().config, seed: 'live-feed' });
+      for (const row of state.grid) {
+        for (const cell of row) cell.posteriorProbability = 0.2;
+      }
+      state.grid[1][2].posteriorProbability = 0.9;
+      state.grid[3][3].posteriorProbability = 0.5;
+      applyStrike(state, 2, 1, 0, true, 'precision');
+      const affectedCells = state.eventLog[state.eventLog.length - 1].data.affectedCells as { x: number; y: number }[];
+
+      const tracks = deriveTrackEntities(state.grid, state.eventLog, projection);
+      const byId = Object.fromEntries(tracks.map(track => [track.id, track]));
+      expect(byId[cellTrackId(3, 3)].classification).toBe('suspect');
+      expect(byId[cellTrackId(3, 3)].status).toBe('active');
+      for (const cell of affectedCells) {
+        expect(byId[cellTrackId(cell.x, cell.y)].status).toBe('destroyed');
+      }
+      expect(byId[cellTrackId(3, 3)].name).toBe(cellToMGRS(projection, 3, 3));
+      expect(byId[cellTrackId(3, 3)].position).toEqual([...cellCenter(projection, 3, 3)].reverse());
+    });
+  });
+
+  describe('Map Entities', () => {
+    it('should reveal infrastructure once observed and mark struck entities destroyed', () => {
+      const config = {
+        ...useGameStore.getState().config,
+        seed: 'map-entities',
+        infraPlacements: [{ x: 2, y: 2 }, { x: 6, y: 6 }],
+      };
+      const state = createEngineState(config);
+      const projection = createGridProjection(config.gridSize);
+
+      expect(deriveInfrastructureEntities(state.truthField, state.eventLog, projection)).toEqual([]);
+      expect(deriveInfrastructureEntities(state.truthField, state.eventLog, projection, true)).toHaveLength(2);
+
+      applyRecon(state, 2, 2, 'drone', createCalibrationTrackers());
+      const revealed = deriveInfrastructureEntities(state.truthField, state.eventLog, projection);
+      expect(revealed.map(entity => [entity.gridX, entity.gridY])).toEqual([[2, 2]]);
+      expect(revealed[0].isDestroyed).toBe(false);
+
+      applyStrike(state, 6, 6, 0, true, 'area');
+      const strike = state.eventLog[state.eventLog.length - 1];
+      const hit = (strike.data.affectedCells as { x: number; y: number; destroyed?: boolean }[])
+        .find(cell => cell.x === 6 && cell.y === 6);
+      const struck = deriveInfrastructureEntities(state.truthField, state.eventLog, projection)
+        .find(entity => entity.gridX === 6 && entity.gridY === 6);
+      expect(struck?.isDestroyed ?? false).toBe(hit?.destroyed ?? false);
+    });
+
+    it('should fly airborne recon assets to their tasked cells', () => {
+      const state = createEngineState({ ...useGameStore.getState().config, seed: 'map-entities' });
+      const projection = createGridProjection(state.config.gridSize);
+      const calibration = createCalibrationTrackers();
+      applyRecon(state, 1, 1, 'drone', calibration);
+      applyRecon(state, 4, 3, 'ground', calibration);
+      applyRecon(state, 5, 5, 'drone', calibration);
+
+      const { aircraft, flightPaths } = deriveAirAssets(state.eventLog, projection);
+      expect(aircraft.map(craft => craft.id)).toEqual(['drone-asset']);
+      expect(flightPaths[0].waypoints).toHaveLength(3);
+      expect(aircraft[0].position.slice(0, 2)).toEqual(cellCenter(projection, 5, 5));
+    });
+  });
+
+  describe('Sensor Logistics', () => {
+    const createLogisticsState = (speed: number, endurance: number, scansPerTurn: number) => createEngineState({
+      ...useGameStore.getState().config,
+      seed: 'logistics',
+      initialBudget: 10000,
+      logistics: {
+        enabled: true,
+        assets: [{ id: 'uav', name: 'UAV', sensor: 'drone', base: { x: 0, y: 0 }, speed, endurance, cooldown: 1, scansPerTurn }],
+      },
+    });
+
+    it('should limit scans per turn and only task assets of the ordered sensor', () => {
+      const state = createLogisticsState(20, 100, 2);
+      const calibration = createCalibrationTrackers();
+
+      expect(applyRecon(state, 1, 1, 'drone', calibration)?.sortie?.assetId).toBe('uav');
+      expect(applyRecon(state, 2, 1, 'drone', calibration)).not.toBeNull();
+      expect(applyRecon(state, 3, 1, 'drone', calibration)).toBeNull();
+      expect(applyRecon(state, 3, 1, 'sigint', calibration)).toBeNull();
+      expect(state.eventLog.filter(event => event.type === 'recon')).toHaveLength(2);
+
+      advanceTurn(state);
+      expect(applyRecon(state, 3, 1, 'drone', calibration)).not.toBeNull();
+    });
+
+    it('should keep an asset in transit while it flies to a distant cell', () => {
+      const state = createLogisticsState(2, 100, 3);
+      const calibration = createCalibrationTrackers();
+
+      expect(applyRecon(state, 6, 0, 'drone', calibration)?.sortie?.flightTurns).toBe(3);
+      const plan = planSortie(state.config.logistics!, state.eventLog, state.currentTurn + 1, 'drone', 6, 1);
+      expect(plan.feasible).toBe(false);
+      expect(plan.reason).toContain('in transit until turn 2');
+
+      advanceTurn(state);
+      advanceTurn(state);
+      expect(applyRecon(state, 6, 1, 'drone', calibration)?.sortie?.distance).toBe(1);
+    });
+
+    it('should send an asset home to refuel when its endurance runs low', () => {
+      const state = createLogisticsState(5, 20, 3);
+      const calibration = createCalibrationTrackers();
+
+      expect(planSortie(state.config.logistics!, state.eventLog, 0, 'drone', 9, 9).reason).toContain('endurance');
+      expect(applyRecon(state, 8, 0, 'drone', calibration)?.sortie?.returnsToBase).toBe(true);
+
+      const [status] = getAssetStatuses(state.config.logistics!, state.eventLog, 1);
+      expect(status).toMatchObject({ x: 0, y: 0, enduranceRemaining: 20, availableFromTurn: 4, refuelling: true });
+
+      const { flightPaths } = deriveAirAssets(state.eventLog, createGridProjection(state.config.gridSize), state.config.logistics);
+      expect(flightPaths[0].waypoints).toHaveLength(3);
+    });
+  });
+
+  describe('Environment', () => {
+    const baseConfig = () => ({ ...useGameStore.getState().config, seed: 'environment' });
+
+    it('should drive lighting from the turn without touching terrain or scenario overrides', () => {
+      expect([0, 1, 4, 5].map(turn => getLighting(DEFAULT_ENVIRONMENT_CONFIG, turn))).toEqual(['dusk', 'day', 'dusk', 'night']);
+
+      const config = {
+        ...baseConfig(),
+        environment: DEFAULT_ENVIRONMENT_CONFIG,
+        contextOverrides: [{ x: 2, y: 2, context: { lighting: 'infrared' as const } }],
+      };
+      const fixed = getCellContext(1, 1, baseConfig());
+      const night = getCellContext(1, 1, config, 5);
+      expect(night.lighting).toBe('night');
+      expect(night.terrain).toBe(fixed.terrain);
+      expect(night.concealment).toBe(fixed.concealment);
+      expect(getCellContext(2, 2, config, 5).lighting).toBe('infrared');
+    });
+
+    it('should move weather fronts and jammers deterministically across turns', () => {
+      const config = { ...baseConfig(), environment: { ...DEFAULT_ENVIRONMENT_CONFIG, weatherFronts: 3, jammers: 3 } };
+      const model = createEnvironmentModel(config);
+      const snapshot = (turn: number) => Array.from({ length: config.gridSize * config.gridSize }, (_, index) =>
+        getEnvironmentConditions(model, index % config.gridSize, Math.floor(index / config.gridSize), turn)
+      );
+
+      expect(createEnvironmentModel(config)).toEqual(model);
+      const turns = [0, 1, 2, 3, 4, 5].map(snapshot);
+      expect(new Set(turns.map(cells => cells.map(cell => cell.weather).join())).size).toBeGreaterThan(1);
+      expect(new Set(turns.map(cells => cells.map(cell => cell.jamming).join())).size).toBeGreaterThan(1);
+    });
+
+    it('should forecast which sensor suits each coming turn', () => {
+      const config = { ...baseConfig(), environment: { ...DEFAULT_ENVIRONMENT_CONFIG, weatherFronts: 0, jammers: 0 } };
+      const forecast = forecastSensorPerformance(3, 3, config, 1, 5);
+
+      expect(forecast.map(entry => entry.turn)).toEqual([1, 2, 3, 4, 5]);
+      expect(forecast[0].hour).toBe(9);
+      const night = forecast[4];
+      expect(night.context.lighting).toBe('night');
+      expect(night.performance.drone.effectiveTPR).toBeLessThan(forecast[0].performance.drone.effectiveTPR);
+      expect(night.bestSensor).toBe('sigint');
+      expect(forecastSensorPerformance(3, 3, config, config.maxTurns - 2, 5)).toHaveLength(2);
+    });
+  });
+
+  describe('Context Layers', () => {
+    it('should expose the same per-cell context the engine scans with', () => {
+      const config = { ...useGameStore.getState().config, seed: 'context-layers', environment: DEFAULT_ENVIRONMENT_CONFIG };
+      const contextGrid = generateContextGrid(config, 3);
+
+      expect(contextGrid).toHaveLength(config.gridSize);
+      expect(contextGrid[4][2]).toEqual(getCellContext(2, 4, config, 3));
+
+      const state = createEngineState(config);
+      state.currentTurn = 3;
+      const outcome = applyRecon(state, 2, 4, 'sigint', createCalibrationTrackers());
+      expect(outcome?.performance).toEqual(calculateEffectivePerformance('sigint', contextGrid[4][2]));
+    });
+
+    it('should band expected TPR and compare all sensors for a cell', () => {
+      expect(isContextHeatmapType('weather')).toBe(true);
+      expect(isContextHeatmapType('posterior')).toBe(false);
+
+      const context = { terrain: 'open', lighting: 'night', weather: 'clear', concealment: 'none', jamming: 'none' } as const;
+      const performance = compareSensors(context);
+      expect(Object.keys(performance)).toEqual(['drone', 'sigint', 'ground']);
+      expect(performance.drone.effectiveTPR).toBeCloseTo(0.85 * 1.2 * 0.3);
+      expect(bestSensorFor(performance)).toBe('sigint');
+
+      const tpr = getContextLayerValue('expectedTPR', context, 'drone');
+      expect(tpr).toBe(performance.drone.effectiveTPR);
+      expect(getContextCategory('expectedTPR', context, 'drone').label).toBe('25–50%');
+      expect(getContextCategories('jamming').map(category => category.label)).toEqual(['None', 'Light', 'Moderate', 'Heavy']);
+    });
+  });
+
+  describe('Adversary', () => {
+    const clearContext = { terrain: 'open', lighting: 'day', weather: 'clear', concealment: 'none', jamming: 'none' } as const;
+
+    it('should place decoys on hostile-free cells and fool sensors at their susceptibility', () => {
+      const config = { ...useGameStore.getState().config, seed: 'decoys', adversary: { ...DEFAULT_ADVERSARY_CONFIG, decoyDensity: 0.3 } };
+      const cells = createEngineState(config).grid.flat();
+      expect(cells.some(cell => cell.hasDecoy)).toBe(true);
+      expect(cells.every(cell => !(cell.hasDecoy && cell.hasHostile))).toBe(true);
+      expect(cells.every(cell => cell.decoyProbability === 0.3)).toBe(true);
+
+      const fpr = calculateEffectivePerformance('drone', clearContext).effectiveFPR;
+      const exposure = { decoy: true, silent: false, decoyProbability: 0.3 };
+      const rng = createSubRNG('decoy-rate', 'test');
+      let positives = 0;
+      for (let i = 0; i < 4000; i++) {
+        if (simulateSensorReading('drone', false, false, clearContext, rng, exposure).result) positives++;
+      }
+      expect(positives / 4000).toBeCloseTo(decoyPositiveRate('drone', fpr), 1);
+      expect(decoyPositiveRate('drone', fpr)).toBeGreaterThan(decoyPositiveRate('ground', fpr));
+    });
+
+    it('should silence SIGINT targets after a scan under reactive emissions control', () => {
+      const config = { ...useGameStore.getState().config, seed: 'emcon', adversary: { ...DEFAULT_ADVERSARY_CONFIG, decoyDensity: 0 } };
+      const state = createEngineState(config);
+      const calibration = createCalibrationTrackers();
+
+      const first = applyRecon(state, 3, 3, 'sigint', calibration)!;
+      const rescan = applyRecon(state, 3, 3, 'sigint', calibration)!;
+      expect(rescan.sensorReading.effectiveTPR).toBeCloseTo(first.sensorReading.effectiveTPR * 0.3);
+      expect(state.eventLog[1].data.silent).toBe(true);
+
+      state.currentTurn = DEFAULT_ADVERSARY_CONFIG.silenceTurns;
+      const recovered = applyRecon(state, 3, 3, 'sigint', calibration)!;
+      expect(recovered.sensorReading.effectiveTPR).toBeCloseTo(first.sensorReading.effectiveTPR);
+    });
+
+    it('should discount repeated positives from a decoy-prone sensor', () => {
+      const fpr = calculateEffectivePerformance('drone', clearContext).effectiveFPR;
+      let decoyProbability = 0.1;
+      let posterior = 0.1;
+      let naivePosterior = 0.1;
+      const effectiveFPRs: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const exposure = { decoy: true, silent: false, decoyProbability };
+        const reading = simulateSensorReading('drone', false, false, clearContext, createSubRNG('spam', `${i}`), exposure);
+        effectiveFPRs.push(reading.effectiveFPR);
+        posterior = updatePosteriorOdds(posterior, { ...reading, result: true });
+        naivePosterior = updatePosteriorOdds(naivePosterior, { ...reading, result: true, effectiveFPR: fpr });
+        decoyProbability = updateDecoyProbability(decoyProbability, 'drone', true, fpr);
+      }
+
+      // Each positive makes a decoy more likely, so the next positive is worth less
+      expect(decoyProbability).toBeGreaterThan(0.9);
+      for (let i = 1; i < effectiveFPRs.length; i++) expect(effectiveFPRs[i]).toBeGreaterThan(effectiveFPRs[i - 1]);
+      expect(posterior).toBeLessThan(naivePosterior);
+    });
+  });
+
+  describe('Hostile Classes', () => {
+    const classConfig = () => ({ ...useGameStore.getState().config, seed: 'classes', targetClasses: DEFAULT_TARGET_CLASS_CONFIG });
+
+    it('should give every hostile a class and every cell a class prior', () => {
+      const cells = createEngineState(classConfig()).grid.flat();
+      expect(cells.some(cell => cell.hasHostile)).toBe(true);
+      for (const cell of cells) {
+        expect(cell.hostileClass !== undefined).toBe(cell.hasHostile);
+        const total = HOSTILE_CLASSES.reduce((sum, hostileClass) => sum + cell.classCounts![hostileClass], 0);
+        expect(total).toBeCloseTo(DEFAULT_TARGET_CLASS_CONFIG.concentration);
+        expect(getClassProbabilities(cell.classCounts!).armor).toBeCloseTo(cell.classPrior!.armor);
+      }
+    });
+
+    it('should shift the class belief towards the reported class one observation at a time', () => {
+      const uniform = { armor: 0.5, airDefense: 0.5, commandPost: 0.5, logistics: 0.5 };
+      let counts = uniform;
+      for (let i = 0; i < 4; i++) counts = updateClassCounts(counts, 'ground', 'commandPost', 0.8);
+
+      const total = HOSTILE_CLASSES.reduce((sum, hostileClass) => sum + counts[hostileClass], 0);
+      expect(total).toBeCloseTo(2 + 4);
+      expect(getClassProbabilities(counts).commandPost).toBeGreaterThan(0.6);
+
+      // SIGINT labels are less reliable, so the same reports move the belief less
+      let sigintCounts = uniform;
+      for (let i = 0; i < 4; i++) sigintCounts = updateClassCounts(sigintCounts, 'sigint', 'logistics', 0.8);
+      let groundCounts = uniform;
+      for (let i = 0; i < 4; i++) groundCounts = updateClassCounts(groundCounts, 'ground', 'logistics', 0.8);
+      expect(getClassProbabilities(sigintCounts).logistics).toBeLessThan(getClassProbabilities(groundCounts).logistics);
+    });
+
+    it('should value strikes by class in expectation and in truth', () => {
+      const state = createEngineState(classConfig());
+      const cell = state.grid.flat().find(candidate => candidate.hasHostile)!;
+      cell.posteriorProbability = 1;
+      cell.classCounts = { armor: 0, airDefense: 0, commandPost: 10, logistics: 0 };
+
+      const outcome = calculateStrikeEV(state.grid, cell.x, cell.y, 0, state.config);
+      const commandPostValue = state.config.hostileValue * HOSTILE_CLASS_CATALOG.commandPost.valueMultiplier;
+      expect(outcome.expectedReward).toBeCloseTo(commandPostValue);
+
+      const exposure = getTargetExposure(cell, 'sigint');
+      expect(exposure.hostileClass).toBe(cell.hostileClass);
+      expect(exposure.classProbabilities.commandPost).toBe(1);
+
+      const result = executeStrike(state.grid, cell.x, cell.y, 0, state.config);
+      expect(result.totalReward).toBe(state.config.hostileValue * HOSTILE_CLASS_CATALOG[cell.hostileClass!].valueMultiplier);
+    });
+  });
+
+  describe('Correlated Fusion', () => {
+    const rainContext = { terrain: 'open', lighting: 'day', weather: 'rain', concealment: 'none', jamming: 'none' } as const;
+
+    it('should give repeated readings in the same context diminishing weight', () => {
+      const { effectiveTPR, effectiveFPR } = calculateEffectivePerformance('drone', rainContext);
+      const concentration = getFusionExposure(DEFAULT_FUSION_CONFIG, [], 'drone', '').concentration;
+
+      let independent = 0.1;
+      let fused = 0.1;
+      const likelihoodRatios: number[] = [];
+      for (let positives = 0; positives < 10; positives++) {
+        const fusion = { readings: positives, positives, concentration };
+        likelihoodRatios.push(fuseRate(effectiveTPR, fusion) / fuseRate(effectiveFPR, fusion));
+        independent = updatePosteriorOdds(independent, { result: true, effectiveTPR, effectiveFPR });
+        fused = updatePosteriorOdds(fused, { result: true, effectiveTPR: fuseRate(effectiveTPR, fusion), effectiveFPR: fuseRate(effectiveFPR, fusion) });
+      }
+
+      for (let i = 1; i < likelihoodRatios.length; i++) expect(likelihoodRatios[i]).toBeLessThan(likelihoodRatios[i - 1]);
+      expect(independent).toBeGreaterThan(0.999);
+      expect(fused).toBeLessThan(0.99);
+    });
+
+    it('should simulate readings that repeat their group bias', () => {
+      const { effectiveFPR } = calculateEffectivePerformance('drone', rainContext);
+      const fusion = { readings: 1, positives: 1, concentration: 1 / 0.3 - 1 };
+      const rng = createSubRNG('fusion-rate', 'test');
+      let positives = 0;
+      for (let i = 0; i < 4000; i++) {
+        if (simulateSensorReading('drone', false, false, rainContext, rng, undefined, undefined, fusion).result) positives++;
+      }
+      expect(positives / 4000).toBeCloseTo(fuseRate(effectiveFPR, fusion), 1);
+      expect(fuseRate(effectiveFPR, fusion)).toBeGreaterThan(effectiveFPR + 0.2);
+    });
+
+    it('should only correlate readings by the same sensor in the same context', () => {
+      const config = { ...useGameStore.getState().config, seed: 'fusion', fusion: DEFAULT_FUSION_CONFIG };
+      const state = createEngineState(config);
+      const calibration = createCalibrationTrackers();
+
+      const first = applyRecon(state, 4, 4, 'drone', calibration)!;
+      const repeat = applyRecon(state, 4, 4, 'drone', calibration)!;
+      const other = applyRecon(state, 4, 4, 'sigint', calibration)!;
+
+      const history = { readings: 1, positives: first.sensorReading.result ? 1 : 0, concentration: 1 / 0.3 - 1 };
+      expect(repeat.sensorReading.effectiveTPR).toBeCloseTo(fuseRate(first.performance.effectiveTPR, history));
+      expect(other.sensorReading.effectiveTPR).toBeCloseTo(other.performance.effectiveTPR);
+      expect(state.eventLog.map(event => event.data.correlatedReadings)).toEqual([0, 1, 0]);
+    });
+  });
+
+  describe('Campaign', () => {
+    const [first, second] = CAMPAIGN_MISSIONS;
+    const passing = { score: 500, analytics: { calibrationError: 0, totalPredictions: 5 } };
+
+    it('should unlock missions in order and pay rewards on the first pass only', () => {
+      let progress = createCampaignProgress();
+      expect(isMissionUnlocked(progress, first.id)).toBe(true);
+      expect(isMissionUnlocked(progress, second.id)).toBe(false);
+
+      progress = recordMissionResult(progress, evaluateMission(first.id, { ...passing, score: 0 }));
+      expect(isMissionUnlocked(progress, second.id)).toBe(false);
+      expect(progress.unlockedSensors).toEqual([]);
+
+      progress = recordMissionResult(progress, evaluateMission(first.id, passing));
+      progress = recordMissionResult(progress, evaluateMission(first.id, { ...passing, score: 600 }));
+      expect(isMissionUnlocked(progress, second.id)).toBe(true);
+      expect(progress.unlockedSensors).toEqual(['sigint']);
+      expect(progress.results[first.id].score).toBe(600);
+
+      progress = recordMissionResult(progress, evaluateMission(second.id, passing));
+      progress = recordMissionResult(progress, evaluateMission(second.id, passing));
+      expect(progress.budgetBonus).toBe(100);
+    });
+
+    it('should apply unlocks to mission scenarios and reject unavailable sensors', () => {
+      const progress = { ...createCampaignProgress(), unlockedSensors: ['sigint' as const], budgetBonus: 100 };
+      const scenario = getMissionScenario(progress, second.id);
+      expect(validateScenario(scenario)).toEqual([]);
+      expect(scenario.config.availableSensors).toEqual(['drone', 'sigint']);
+      expect(scenario.config.initialBudget).toBe(second.scenario.config.initialBudget! + 100);
+
+      const state = createEngineState({ ...useGameStore.getState().config, ...scenarioToConfig(scenario) });
+      const calibration = createCalibrationTrackers();
+      expect(applyRecon(state, 2, 2, 'ground', calibration)).toBeNull();
+      expect(state.eventLog).toHaveLength(0);
+      expect(applyRecon(state, 2, 2, 'sigint', calibration)).not.toBeNull();
+    });
+
+    it('should require readings to pass and start over on unreadable progress', () => {
+      expect(evaluateMission(first.id, { score: 500, analytics: { calibrationError: 0, totalPredictions: 0 } }).passed).toBe(false);
+      expect(parseCampaignProgress(null)).toEqual(createCampaignProgress());
+      expect(parseCampaignProgress('{not json')).toEqual(createCampaignProgress());
+      expect(parseCampaignProgress(JSON.stringify({ ...createCampaignProgress(), version: 0 }))).toEqual(createCampaignProgress());
+
+      const saved = recordMissionResult(createCampaignProgress(), evaluateMission(first.id, passing));
+      expect(parseCampaignProgress(JSON.stringify(saved))).toEqual(saved);
+    });
+  });
+
+  describe('Tutorial', () => {
+    afterEach(() => {
+      useGameStore.getState().resetGame();
+    });
+
+    it('should walk the scripted steps through the store', () => {
+      const store = useGameStore.getState();
+      store.startTutorial();
+      expect(useGameStore.getState().config.gridSize).toBe(TUTORIAL_SCENARIO.config.gridSize);
+      expect(useGameStore.getState().grid[4][3].hasHostile).toBe(true);
+
+      store.recordTutorialAction({ type: 'acknowledge' });
+      store.startGame();
+      store.recordTutorialAction({ type: 'selectSensor', sensor: 'sigint' });
+      expect(useGameStore.getState().tutorial?.stepIndex).toBe(2);
+
+      store.recordTutorialAction({ type: 'selectSensor', sensor: 'drone' });
+      store.performRecon(0, 0, 'drone');
+      expect(useGameStore.getState().eventLog.filter(event => event.type === 'recon')).toHaveLength(0);
+      store.performRecon(3, 4, 'drone');
+      expect(useGameStore.getState().tutorial?.stepIndex).toBe(4);
+
+      store.recordTutorialAction({ type: 'openExplanation' });
+      store.recordTutorialAction({ type: 'selectLayer', layer: 'expectedValue' });
+      store.recordTutorialAction({ type: 'acknowledge' });
+      expect(useGameStore.getState().tutorial).toBeNull();
+    });
+
+    it('should only complete a step once the game state confirms it', () => {
+      const reconStep = TUTORIAL_STEPS.findIndex(step => step.waitFor.type === 'recon');
+      const progress = { stepIndex: reconStep };
+      const state = createEngineState({ ...useGameStore.getState().config, ...scenarioToConfig(TUTORIAL_SCENARIO) });
+      const action = { type: 'recon', x: 3, y: 4, sensor: 'drone' } as const;
+
+      // Reported, but refused by the game (e.g. out of budget)
+      expect(advanceTutorial(progress, action, { ...state, gameStarted: true })).toBe(progress);
+      applyRecon(state, 3, 4, 'drone', createCalibrationTrackers());
+      expect(advanceTutorial(progress, action, { ...state, gameStarted: true }).stepIndex).toBe(reconStep + 1);
+    });
+
+    it('should gate scans and strikes to the script', () => {
+      expect(validateScenario(TUTORIAL_SCENARIO)).toEqual([]);
+      const progress = createTutorialProgress();
+      expect(isTutorialActionAllowed(progress, { type: 'recon', x: 0, y: 0, sensor: 'drone' })).toBe(true);
+      expect(isTutorialActionAllowed(progress, { type: 'strike', x: 3, y: 4 })).toBe(false);
+
+      const reconStep = { stepIndex: TUTORIAL_STEPS.findIndex(step => step.waitFor.type === 'recon') };
+      expect(isTutorialActionAllowed(reconStep, { type: 'recon', x: 3, y: 4, sensor: 'drone' })).toBe(true);
+      expect(isTutorialActionAllowed(reconStep, { type: 'recon', x: 3, y: 4, sensor: 'ground' })).toBe(false);
+      expect(isTutorialActionAllowed({ stepIndex: TUTORIAL_STEPS.length }, { type: 'strike', x: 3, y: 4 })).toBe(true);
+    });
+  });
+
+  describe('Mission Objectives', () => {
+    const projection = createGridProjection(8);
+    const area = (id: string, from: number, to: number): AreaOfInterest => ({
+      id,
+      name: id.toUpperCase(),
+      type: 'TAI',
+      priority: 'HIGH',
+      polygon: [[from, from], [to, from], [to, to], [from, to]].map(([fx, fy]) => gridFractionToPosition(projection, fx, fy, 0)),
+    });
+    const areas = [area('tai-bravo', 0, 0.5), area('objective', 0.5, 1)];
+    const objectiveConfig = (objectives: Omit<ObjectivesConfig, 'areas'>) => ({
+      ...useGameStore.getState().config,
+      seed: 'objectives',
+      gridSize: 8,
+      hostilePlacements: [{ x: 1, y: 1 }, { x: 6, y: 6 }],
+      infraPlacements: [{ x: 2, y: 5 }],
+      objectives: { ...objectives, areas },
+    });
+
+    it('should scope conditions to areas and end early once the mission is won', () => {
+      expect(getAreaCells({ gridSize: 8 }, areas[0])).toHaveLength(16);
+      expect(getAreaCells({ gridSize: 8 }, areas[0]).every(cell => cell.x < 4 && cell.y < 4)).toBe(true);
+
+      const state = createEngineState(objectiveConfig({
+        conditions: [{ type: 'neutralizeHostiles', count: 1, areaId: 'tai-bravo' }, { type: 'protectArea', areaId: 'objective' }],
+        earlyTermination: ['onSuccess'],
+      }));
+      expect(evaluateObjectives(state, state.config.objectives!).map(result => result.status)).toEqual(['pending', 'holding']);
+
+      applyStrike(state, 1, 1, 0, true);
+      expect(state.gameEnded).toBe(true);
+      expect(state.eventLog[state.eventLog.length - 1]).toMatchObject({ type: 'game_end', data: { endedEarly: true } });
+      expect(createDebrief(state)).toMatchObject({ passed: true, endedEarly: true });
+      expect(applyRecon(state, 0, 0, 'drone', createCalibrationTrackers())).toBeNull();
+    });
+
+    it('should fail on broken limits, missed deadlines and unmet metrics', () => {
+      const state = createEngineState(objectiveConfig({
+        conditions: [{ type: 'maxInfraHits', count: 0 }, { type: 'maxMetric', metric: 'brierScore', value: 0.15 }],
+        earlyTermination: ['onFailure'],
+      }));
+      applyStrike(state, 6, 6, 0, true);
+      expect(state.gameEnded).toBe(false);
+      applyStrike(state, 2, 5, 0, true);
+      expect(state.gameEnded).toBe(true);
+      expect(createDebrief(state)!.objectives.map(result => result.status)).toEqual(['failed', 'failed']);
+
+      const late = createEngineState(objectiveConfig({
+        conditions: [{ type: 'neutralizeHostiles', count: 1 }, { type: 'withinTurns', turns: 2 }],
+        earlyTermination: [],
+      }));
+      advanceTurn(late);
+      advanceTurn(late);
+      applyStrike(late, 1, 1, 0, true);
+      expect(evaluateObjectives(late, late.config.objectives!).map(result => result.status)).toEqual(['failed', 'failed']);
+    });
+
+    it('should validate objectives in scenarios and carry the debrief into exports', () => {
+      const scenario = {
+        format: SCENARIO_FORMAT,
+        version: SCENARIO_VERSION,
+        name: 'Objectives',
+        config: { seed: 'objectives', gridSize: 8 },
+        areasOfInterest: areas,
+        victoryConditions: [{ type: 'protectArea', areaId: 'objective' }, { type: 'maxMetric', metric: 'brierScore', value: 0.15 }],
+        earlyTermination: ['onFailure'],
+      };
+      expect(validateScenario(scenario)).toEqual([]);
+      expect(validateScenario({
+        ...scenario,
+        victoryConditions: [{ type: 'protectArea', areaId: 'nowhere' }, { type: 'maxMetric', metric: 'score', value: 1 }],
+        earlyTermination: ['never'],
+      })).toEqual([
+        'victoryConditions[0].areaId: must name one of the areasOfInterest',
+        'victoryConditions[1].metric: must be one of brierScore, logLoss, calibrationError, infraBrierScore',
+        'earlyTermination: must be a list of onFailure, onSuccess',
+      ]);
+
+      const config = { ...useGameStore.getState().config, ...scenarioToConfig(parseScenario(JSON.stringify(scenario))) };
+      expect(config.objectives?.areas).toHaveLength(2);
+      const state = createEngineState(config);
+      const exportData = generateGameRunExport(state.config, state.analytics, state.eventLog, state.truthField, state.score, config.maxTurns);
+      expect(exportData.debrief?.objectives.map(result => result.status)).toEqual(['achieved', 'failed']);
+    });
+  });
+
+  describe('Rules of Engagement', () => {
+    const projection = createGridProjection(8);
+    const flot: TacticalBoundary = {
+      id: 'flot',
+      type: 'FLOT',
+      name: 'FLOT Blue',
+      path: [[0, 0.9375], [1, 0.9375]].map(([fx, fy]) => gridFractionToPosition(projection, fx, fy, 0)),
+      color: [0, 0, 255, 255],
+      dashLength: 0,
+      animated: false,
+    };
+    const roz: TacticalBoundary = {
+      ...flot,
+      id: 'roz',
+      type: 'ROZ',
+      name: 'ROZ Hawk',
+      path: [[0.5, 0], [1, 0], [1, 0.25], [0.5, 0.25]].map(([fx, fy]) => gridFractionToPosition(projection, fx, fy, 0)),
+    };
+    const roeState = (rules: RoeRule[]) => createEngineState({
+      ...useGameStore.getState().config,
+      seed: 'roe',
+      gridSize: 8,
+      hostilePlacements: [{ x: 1, y: 1 }],
+      infraPlacements: [{ x: 3, y: 3 }],
+      roe: { rules, boundaries: [flot, roz], areas: [] },
+    });
+
+    it('should check the remaining budget and ask for approval over the collateral threshold', () => {
+      const state = createEngineState({
+        ...useGameStore.getState().config,
+        seed: 'roe',
+        gridSize: 8,
+        hostilePlacements: [{ x: 1, y: 1 }],
+        infraPlacements: [{ x: 3, y: 3 }],
+      });
+      state.grid[3][3].infraPosteriorProbability = 0.9;
+
+      const approval = validateStrike(state, 3, 3, 0);
+      expect(approval.verdicts).toEqual([expect.objectContaining({ outcome: 'approval', rule: expect.objectContaining({ approver: 'commander' }) })]);
+      expect(approval).toMatchObject({ allowed: true, requiresConfirmation: true });
+      expect(applyStrike(state, 3, 3, 0).executed).toBe(false);
+      expect(applyStrike(state, 3, 3, 0, true).executed).toBe(true);
+      expect(state.eventLog[state.eventLog.length - 1].data.roeApprovals).toHaveLength(1);
+
+      state.remainingBudget = state.config.strikeCost - 1;
+      expect(state.config.initialBudget).toBeGreaterThan(state.config.strikeCost);
+      expect(validateStrike(state, 1, 1, 0)).toMatchObject({ allowed: false, reason: expect.stringContaining('Insufficient budget') });
+    });
+
+    it('should block strikes near zones, below the posterior, short of confirmations and over the turn cap', () => {
+      expect(getZoneCells({ gridSize: 8 }, flot, 1).every(cell => cell.y >= 6)).toBe(true);
+      expect(getZoneCells({ gridSize: 8 }, flot, 1)).toHaveLength(16);
+      expect(getZoneCells({ gridSize: 8 }, roz)).toHaveLength(8);
+
+      const state = roeState([
+        { type: 'noStrikeZone', zoneId: 'flot', buffer: 1 },
+        { type: 'noStrikeZone', zoneId: 'roz' },
+        { type: 'minPosterior', probability: 0.6 },
+        { type: 'confirmations', count: 2, withinTurns: 3 },
+        { type: 'strikesPerTurn', max: 1 },
+      ]);
+      const outcomes = (x: number, y: number) => validateStrike(state, x, y, 0).verdicts.map(verdict => verdict.outcome);
+      expect(outcomes(2, 6).slice(0, 2)).toEqual(['block', 'pass']);
+      expect(outcomes(5, 1).slice(0, 2)).toEqual(['pass', 'block']);
+
+      const cell = state.grid[1][1];
+      cell.posteriorProbability = 0.3;
+      cell.reconHistory.push({ sensor: 'drone', result: true, turn: 0 } as ReconResult);
+      cell.reconHistory.push({ sensor: 'drone', result: true, turn: 0 } as ReconResult);
+      expect(outcomes(1, 1)).toEqual(['pass', 'pass', 'block', 'block', 'pass']);
+
+      cell.posteriorProbability = 0.8;
+      cell.reconHistory.push({ sensor: 'sigint', result: true, turn: 0 } as ReconResult);
+      expect(validateStrike(state, 1, 1, 0).allowed).toBe(true);
+      expect(applyStrike(state, 1, 1, 0, true).executed).toBe(true);
+
+      // A blocking rule cannot be forced past
+      const capped = applyStrike(state, 1, 1, 0, true);
+      expect(capped.executed).toBe(false);
+      expect(capped.reason).toContain('Strike cap reached');
+    });
+
+    it('should validate rules in scenarios and carry them through a round trip', () => {
+      const rules: RoeRule[] = [
+        { type: 'noStrikeZone', zoneId: 'roz', buffer: 1 },
+        { type: 'approvalTier', collateralRisk: 0.05, approver: 'battalion' },
+      ];
+      const scenario = {
+        format: SCENARIO_FORMAT,
+        version: SCENARIO_VERSION,
+        name: 'ROE',
+        config: { seed: 'roe', gridSize: 8 },
+        boundaries: [flot, roz],
+        rulesOfEngagement: rules,
+      };
+      expect(validateScenario(scenario)).toEqual([]);
+      expect(validateScenario({
+        ...scenario,
+        rulesOfEngagement: [{ type: 'noStrikeZone', zoneId: 'nowhere' }, { type: 'minPosterior' }, { type: 'warningShot' }],
+      })).toEqual([
+        'rulesOfEngagement[0].zoneId: must name one of the boundaries or areasOfInterest',
+        'rulesOfEngagement[1].probability: must be a number',
+        'rulesOfEngagement[2].type: must be one of noStrikeZone, minPosterior, confirmations, strikesPerTurn, approvalTier',
+      ]);
+
+      const config = { ...useGameStore.getState().config, ...scenarioToConfig(parseScenario(JSON.stringify(scenario))) };
+      expect(config.roe).toEqual({ rules, boundaries: [flot, roz], areas: [] });
+      const state = createEngineState(config);
+      const exported = createScenarioFromGame(state, { name: 'ROE copy' });
+      expect(exported.rulesOfEngagement).toEqual(rules);
+      expect(exported.boundaries).toEqual([flot, roz]);
+      expect(exported.config).not.toHaveProperty('roe');
+    });
+  });
+
+  describe('Calibration Drill', () => {
+    afterEach(() => {
+      useGameStore.getState().resetGame();
+    });
+
+    const drillConfig = {
+      seed: 'drill',
+      gridSize: 8,
+      hostilePlacements: [{ x: 1, y: 1 }],
+      infraPlacements: [],
+      calibrationDrill: DEFAULT_CALIBRATION_DRILL_CONFIG,
+    };
+
+    it('should log estimates only for actions that go ahead and score them separately', () => {
+      const state = createEngineState({ ...useGameStore.getState().config, ...drillConfig });
+      const calibration = createCalibrationTrackers();
+      const prior = state.grid[1][1].posteriorProbability;
+
+      expect(withEstimate(state, 1, 1, 'recon', 0.8, calibration.player, () =>
+        applyRecon(state, 1, 1, 'drone', calibration) !== null
+      )).toBe(true);
+      expect(state.eventLog[state.eventLog.length - 1]).toMatchObject({
+        type: 'estimate',
+        data: { x: 1, y: 1, action: 'recon', estimate: 0.8, modelEstimate: prior, hostile: true },
+      });
+      expect(state.analytics.playerPredictions).toBe(1);
+      expect(state.analytics.playerBrierScore).toBeCloseTo(0.04, 10);
+      expect(state.analytics.totalPredictions).toBe(1);
+
+      state.remainingBudget = 0;
+      expect(withEstimate(state, 2, 2, 'recon', 0.1, calibration.player, () =>
+        applyRecon(state, 2, 2, 'drone', calibration) !== null
+      )).toBe(false);
+      expect(state.analytics.playerPredictions).toBe(1);
+      expect(() => elicitEstimate(state, 2, 2, 'strike', 1.5)).toThrow('between 0 and 1');
+    });
+
+    it('should carry estimates through undo and replay', () => {
+      const store = useGameStore.getState();
+      store.initializeGame(drillConfig);
+      store.performRecon(1, 1, 'drone', 0.6);
+      store.performRecon(4, 4, 'sigint', 0.2);
+      store.performStrike(1, 1, 0, true, undefined, 0.9);
+      expect(useGameStore.getState().analytics.playerPredictions).toBe(3);
+
+      store.undo();
+      expect(useGameStore.getState().analytics.playerPredictions).toBe(2);
+      expect(useGameStore.getState().eventLog.filter(event => event.type === 'estimate')).toHaveLength(2);
+      store.redo();
+
+      const state = useGameStore.getState();
+      const exportData = generateGameRunExport(state.config, state.analytics, state.eventLog, state.truthField, state.score, state.currentTurn);
+      const session = new ReplaySession(parseGameRunExport(JSON.stringify(exportData)));
+      session.seek(session.length);
+      expect(session.checks.every(check => check.matches)).toBe(true);
+      expect(session.state.analytics.playerPredictions).toBe(3);
+      expect(session.state.analytics.playerBrierScore).toBeCloseTo(state.analytics.playerBrierScore, 10);
+    });
+
+    it('should compare player and model calibration over the same judgements', () => {
+      expect(shouldElicitEstimate({}, 'recon')).toBe(false);
+      expect(shouldElicitEstimate({ calibrationDrill: { enabled: true, elicitOn: ['strike'] } }, 'recon')).toBe(false);
+      expect(shouldElicitEstimate(drillConfig, 'strike')).toBe(true);
+
+      const estimate = (value: number, modelEstimate: number, hostile: boolean) => ({
+        turn: 0, type: 'estimate' as const, timestamp: 0,
+        data: { turn: 0, x: 0, y: 0, action: 'recon', estimate: value, modelEstimate, hostile },
+      });
+      expect(createDrillReport([])).toBeNull();
+      const report = createDrillReport([estimate(0.9, 0.6, true), estimate(0.9, 0.4, false), estimate(0.1, 0.2, false)])!;
+      expect(report.estimates).toHaveLength(3);
+      expect(report.player.brierScore).toBeCloseTo((0.01 + 0.81 + 0.01) / 3, 10);
+      expect(report.model.brierScore).toBeCloseTo((0.16 + 0.16 + 0.04) / 3, 10);
+      expect(report.player.buckets[9]).toMatchObject({ count: 2, actualRate: 0.5 });
+
+      const scenario = { format: SCENARIO_FORMAT, version: SCENARIO_VERSION, name: 'Drill', config: { seed: 'drill', gridSize: 8, calibrationDrill: { enabled: true, elicitOn: ['recon'] } } };
+      expect(validateScenario(scenario)).toEqual([]);
+      expect(validateScenario({ ...scenario, config: { ...scenario.config, calibrationDrill: { enabled: 'yes', elicitOn: ['guess'] } } })).toEqual([
+        'config.calibrationDrill.enabled: must be a boolean',
+        'config.calibrationDrill.elicitOn: must be a list of recon, strike',
+      ]);
+    });
+  });
+
+  describe('Grid Projection', () => {
+    it('should convert between lat/lng, UTM and MGRS', () => {
+      // Washington Monument
+      const utm = latLngToUTM(38.8895, -77.0353);
+      expect(utm.zone).toBe(18);
+      expect(latLngToMGRS(38.8895, -77.0353, 3)).toBe('18S UJ 234 064');
+
+      const [lng, lat] = utmToLngLat(utm);
+      expect(lng).toBeCloseTo(-77.0353, 7);
+      expect(lat).toBeCloseTo(38.8895, 7);
+
+      expect(latLngToUTM(-33.8568, 151.2153).hemisphere).toBe('S');
+    });
+
+    it('should map cells onto the area of operations both ways', () => {
+      const area = { bounds: { north: 51.52, south: 51.48, east: -0.08, west: -0.16 }, alignment: 'utm' as const };
+      const projection = createGridProjection(10, area);
+      const [centerLng, centerLat] = cellCenter(createGridProjection(1, area), 0, 0);
+      expect(centerLng).toBeCloseTo(-0.12, 6);
+      expect(centerLat).toBeCloseTo(51.5, 6);
+
+      for (const [x, y] of [[0, 0], [9, 0], [4, 7], [9, 9]]) {
+        const [lng, lat] = cellCenter(projection, x, y);
+        expect(pointToCell(projection, lng, lat)).toEqual({ x, y });
+      }
+      expect(pointToCell(projection, 0.5, 51.5)).toBeNull();
+
+      // Neighbouring cells share an edge
+      const polygon = cellToPolygon(projection, 2, 3);
+      expect(cellToPolygon(projection, 3, 3)[0]).toEqual(polygon[1]);
+    });
+
+    it('should snap cells to MGRS squares in mgrs alignment', () => {
+      const area = { bounds: { north: 51.52, south: 51.48, east: -0.08, west: -0.16 }, alignment: 'mgrs' as const };
+      const projection = createGridProjection(10, area);
+      expect(projection.cellSize).toBe(100);
+      expect(projection.originEasting % 100).toBe(0);
+
+      // One 100 m square per cell, so labels step by one in the last digit
+      const label = cellToMGRS(projection, 0, 0);
+      expect(label).toMatch(/^30U [A-Z]{2} \d{3} \d{3}$/);
+      const [, , east, north] = label.split(' ');
+      const [, , eastNext] = cellToMGRS(projection, 1, 0).split(' ');
+      const [, , , northNext] = cellToMGRS(projection, 0, 1).split(' ');
+      expect(Number(eastNext)).toBe(Number(east) + 1);
+      expect(Number(northNext)).toBe(Number(north) + 1);
+    });
+  });
+
+  describe('Reproducible Recon', () => {
+    afterEach(() => {
+      useGameStore.getState().resetGame();
+    });
+
+    it('should give the worker and the store the same reading for the same action', async () => {
+      useGameStore.getState().initializeGame({ seed: 'recon-rng-test' });
+      const { grid, config } = useGameStore.getState();
+
+      const worker = new InferenceWorker();
+      const workerResult = await worker.performReconComputation(grid, 3, 3, 'sigint', config, 0, 0);
+
+      useGameStore.getState().performRecon(3, 3, 'sigint');
+      const reconEvent = useGameStore.getState().eventLog[0];
+
+      expect(reconEvent.data.actionIndex).toBe(0);
+      expect(reconEvent.data.reading).toBe(workerResult.result.sensorReading.result);
+      expect(reconEvent.data.infraReading).toBe(workerResult.result.sensorReading.infraResult);
+    });
+
+    it('should draw independent readings for repeated scans within a turn', () => {
+      const readingsFor = (seed: string) => {
+        useGameStore.getState().initializeGame({ seed });
+        for (let i = 0; i < 12; i++) {
+          useGameStore.getState().performRecon(1, 1, 'sigint');
+        }
+        return useGameStore.getState().eventLog.map(event => event.data.reading);
+      };
+
+      const first = readingsFor('repeat-scan-test');
+      expect(readingsFor('repeat-scan-test')).toEqual(first);
+      expect(new Set(first).size).toBe(2);
+      expect(useGameStore.getState().actionCount).toBe(12);
+    });
+  });
+
+  describe('Weapon Profiles', () => {
+    const config = {
+      gridSize: 8,
+      initialBudget: 1000,
+      maxTurns: 5,
+      hostileValue: 100,
+      infraPenalty: 200,
+      strikeCost: 50,
+      reconCost: 10,
+      collateralThreshold: 0.3,
+      riskAversion: 0.5,
+      seed: 'weapon-test',
+      spatialField: DEFAULT_SPATIAL_CONFIG,
+      betaPriors: DEFAULT_BETA_PRIORS,
+      showTruthOverlay: false,
+    };
+
+    const uniformState = (p: number, q: number) => {
+      const state = createEngineState(config);
+      state.grid.forEach(row => row.forEach(cell => {
+        cell.posteriorProbability = p;
+        cell.infraPosteriorProbability = q;
+      }));
+      return state;
+    };
+
+    it('should build the catalogued footprint shapes', () => {
+      expect(getFootprintPattern('precision')).toHaveLength(1);
+      expect(getFootprintPattern('area')).toHaveLength(9);
+      expect(getFootprintPattern('strafe').every(cell => cell.dy === 0)).toBe(true);
+      expect(getFootprintPattern('strafe')).toHaveLength(5);
+      expect(getFootprintPattern('cluster').every(cell => cell.dx === 0 || cell.dy === 0)).toBe(true);
+      expect(getFootprintPattern('cluster')).toHaveLength(9);
+
+      for (const weapon of Object.keys(WEAPON_CATALOG) as (keyof typeof WEAPON_CATALOG)[]) {
+        const total = getMissDistribution(weapon).reduce((sum, offset) => sum + offset.probability, 0);
+        expect(total).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should weight expected hits by kill and miss probabilities', () => {
+      const { grid } = uniformState(0.4, 0.05);
+      const outcome = calculateStrikeEV(grid, 4, 4, 1, config, 'area');
+      const totalDamage = outcome.affectedCells.reduce((sum, cell) => sum + cell.damageProbability, 0);
+
+      expect(outcome.cost).toBe(WEAPON_CATALOG.area.cost);
+      expect(outcome.expectedHostilesHit).toBeCloseTo(0.4 * totalDamage, 10);
+      expect(outcome.affectedCells.every(cell => cell.damageProbability <= WEAPON_CATALOG.area.pkCenter)).toBe(true);
+      // Misses spread the expected damage of a 9-cell footprint over more cells
+      expect(outcome.affectedCells.length).toBeGreaterThan(9);
+      expect(totalDamage).toBeLessThan(9 * WEAPON_CATALOG.area.pkCenter);
+
+      // Without a weapon the legacy strike is unchanged
+      const legacy = calculateStrikeEV(grid, 4, 4, 1, config);
+      expect(legacy.cost).toBe(config.strikeCost);
+      expect(legacy.expectedHostilesHit).toBeCloseTo(0.4 * 5, 10);
+    });
+
+    it('should draw reproducible strike outcomes and discount surviving beliefs', () => {
+      const first = uniformState(0.5, 0);
+      const second = uniformState(0.5, 0);
+      const a = applyStrike(first, 3, 3, 1, true, 'cluster');
+      const b = applyStrike(second, 3, 3, 1, true, 'cluster');
+
+      expect(a.executed).toBe(true);
+      expect(a.result).toEqual(b.result);
+      expect(first.remainingBudget).toBe(config.initialBudget - WEAPON_CATALOG.cluster.cost);
+
+      for (const { x, y, killProbability } of a.result!.affectedCells) {
+        expect(first.grid[y][x].posteriorProbability).toBeCloseTo(Math.max(NEUTRALISED_POSTERIOR, 0.5 * (1 - killProbability)), 10);
+      }
+      expect(first.eventLog[0].data.weapon).toBe('cluster');
+    });
+  });
+
+  describe('Hostile Movement', () => {
+    const config = {
+      gridSize: 8,
+      initialBudget: 1000,
+      maxTurns: 6,
+      hostileValue: 100,
+      infraPenalty: 200,
+      strikeCost: 50,
+      reconCost: 10,
+      collateralThreshold: 0.3,
+      riskAversion: 0.5,
+      seed: 'movement-test',
+      spatialField: DEFAULT_SPATIAL_CONFIG,
+      betaPriors: DEFAULT_BETA_PRIORS,
+      movement: DEFAULT_MOVEMENT_CONFIG,
+      showTruthOverlay: false,
+    };
+
+    const hostilePositions = (state: ReturnType<typeof createEngineState>) =>
+      state.grid.flat().filter(cell => cell.hasHostile).map(cell => `${cell.x},${cell.y}`);
+
+    it('should build a stochastic kernel over each cell and its neighbours', () => {
+      const { truthField } = createEngineState(config);
+      const kernel = buildTransitionKernel(truthField.hostileField, config.seed, DEFAULT_MOVEMENT_CONFIG);
+
+      kernel.transitions.forEach((transitions, index) => {
+        const x = index % kernel.width;
+        const y = Math.floor(index / kernel.width);
+        const total = transitions.reduce((sum, t) => sum + t.probability, 0);
+
+        expect(total).toBeCloseTo(1, 10);
+        transitions.forEach(t => {
+          expect(Math.abs(t.x - x) + Math.abs(t.y - y)).toBeLessThanOrEqual(1);
+          expect(t.probability).toBeGreaterThanOrEqual(0);
+        });
+      });
+    });
+
+    it('should spread a confident belief to the cells a hostile can reach', () => {
+      const state = createEngineState(config);
+      state.grid.forEach(row => row.forEach(cell => { cell.posteriorProbability = 0.001; }));
+      state.grid[4][4].posteriorProbability = 0.999;
+
+      const kernel = buildTransitionKernel(state.truthField.hostileField, config.seed, DEFAULT_MOVEMENT_CONFIG);
+      predictBeliefs(state.grid, kernel);
+
+      const stay = kernel.transitions[4 * kernel.width + 4].find(t => t.x === 4 && t.y === 4)!.probability;
+      expect(state.grid[4][4].posteriorProbability).toBeLessThan(0.999);
+      expect(state.grid[4][4].posteriorProbability).toBeGreaterThanOrEqual(stay * 0.999);
+      expect(state.grid[4][5].posteriorProbability + state.grid[3][4].posteriorProbability).toBeGreaterThan(0.002);
+      expect(state.grid[0][0].posteriorProbability).toBeCloseTo(0.001, 3);
+    });
+
+    it('should move hostiles reproducibly between turns', () => {
+      const first = createEngineState(config);
+      const second = createEngineState(config);
+      const initial = hostilePositions(first);
+
+      advanceTurn(first);
+      advanceTurn(first);
+      advanceTurn(second);
+      advanceTurn(second);
+
+      expect(hostilePositions(first)).toEqual(hostilePositions(second));
+      expect(hostilePositions(first)).not.toEqual(initial);
+      expect(hostilePositions(first).length).toBe(initial.length);
+
+      // Static games are unaffected
+      const still = createEngineState({ ...config, movement: undefined });
+      advanceTurn(still);
+      expect(hostilePositions(still)).toEqual(initial);
+    });
+
+    it('should keep the exported truth on the moved hostiles', () => {
+      const state = createEngineState(config);
+      advanceTurn(state);
+
+      const exportData = generateGameRunExport(state.config, state.analytics, state.eventLog, state.truthField, state.score, state.currentTurn);
+      expect(exportData.truthField.hostiles).toEqual(state.grid.map(row => row.map(cell => cell.hasHostile)));
+      expect(createScenarioFromGame(state, { name: 'Moved' }).hostiles?.map(({ x, y }) => `${x},${y}`))
+        .toEqual(hostilePositions(state));
+    });
+
+    it('should compare replayed truth only once the moves are replayed', () => {
+      const state = createEngineState(config);
+      const calibration = createCalibrationTrackers();
+      applyRecon(state, 1, 1, 'drone', calibration);
+      advanceTurn(state);
+      advanceTurn(state);
+      applyRecon(state, 2, 2, 'drone', calibration);
+
+      const exportData = generateGameRunExport(state.config, state.analytics, state.eventLog, state.truthField, state.score, state.currentTurn);
+      const session = new ReplaySession(exportData);
+      session.step();
+      expect(session.truthMatches).toBeNull();
+
+      session.seek(session.length);
+      expect(session.truthMatches).toBe(true);
+      expect(verifyReplay(exportData).truthMatches).toBe(true);
+    });
+  });
+
+  describe('Scenario Files', () => {
+    const config = {
+      gridSize: 6,
+      initialBudget: 500,
+      maxTurns: 5,
+      hostileValue: 100,
+      infraPenalty: 200,
+      strikeCost: 50,
+      reconCost: 10,
+      collateralThreshold: 0.3,
+      riskAversion: 0.5,
+      seed: 'scenario-test',
+      spatialField: DEFAULT_SPATIAL_CONFIG,
+      betaPriors: DEFAULT_BETA_PRIORS,
+      showTruthOverlay: false,
+    };
+
+    const scenario = {
+      format: SCENARIO_FORMAT,
+      version: SCENARIO_VERSION,
+      name: 'Checkpoint drill',
+      config,
+      hostiles: [{ x: 1, y: 1 }, { x: 4, y: 2 }],
+      infrastructure: [{ x: 3, y: 3 }],
+      cellContexts: [{ x: 1, y: 1, context: { terrain: 'urban' as const, jamming: 'heavy' as const } }],
+      victoryConditions: [{ type: 'neutralizeHostiles' as const, count: 2 }],
+    };
+
+    it('should build the hand-placed world from a scenario', () => {
+      const loaded = parseScenario(JSON.stringify(scenario));
+      const state = createEngineState({ ...config, ...scenarioToConfig(loaded) });
+
+      const hostiles = state.grid.flat().filter(cell => cell.hasHostile).map(cell => `${cell.x},${cell.y}`);
+      const infrastructure = state.grid.flat().filter(cell => cell.hasInfrastructure).map(cell => `${cell.x},${cell.y}`);
+      expect(hostiles).toEqual(['1,1', '4,2']);
+      expect(infrastructure).toEqual(['3,3']);
+
+      const seeded = getCellContext(1, 1, config);
+      const fixed = getCellContext(1, 1, state.config);
+      expect(fixed).toEqual({ ...seeded, terrain: 'urban', jamming: 'heavy' });
+      expect(getCellContext(2, 2, state.config)).toEqual(getCellContext(2, 2, config));
+    });
+
+    it('should round-trip the current game through the exporter', () => {
+      const original = createEngineState(config);
+      const exported = createScenarioFromGame(original, { name: 'Seeded exercise' });
+
+      expect(validateScenario(exported)).toEqual([]);
+
+      // Once the layout is written out, the sampled truth no longer depends on the seed
+      const reseeded = { ...exported, config: { ...exported.config, seed: 'another-seed' } };
+      const reloaded = createEngineState({ ...config, ...scenarioToConfig(reseeded) });
+      expect(reloaded.truthField.hostileTruth).toEqual(original.truthField.hostileTruth);
+      expect(reloaded.truthField.infraTruth).toEqual(original.truthField.infraTruth);
+    });
+
+    it('should report every problem with its path', () => {
+      const errors = validateScenario({
+        ...scenario,
+        version: SCENARIO_VERSION + 1,
+        hostiles: [{ x: 1, y: 1 }, { x: 1, y: 1 }, { x: 9, y: 0 }],
+        cellContexts: [{ x: 0, y: 0, context: { weather: 'sandstorm' } }],
+        victoryConditions: [{ type: 'captureFlag' }],
+      });
+
+      expect(errors).toEqual([
+        `version: ${SCENARIO_VERSION + 1} is newer than the supported version ${SCENARIO_VERSION}`,
+        'hostiles[1]: cell (1,1) is listed twice',
+        'hostiles[2]: (9, 0) is outside the 6x6 grid',
+        'cellContexts[0].context.weather: must be one of clear, overcast, rain, fog, storm',
+        'victoryConditions[0].type: must be one of neutralizeHostiles, maxInfraHits, minScore, withinTurns, maxMetric, protectArea',
+      ]);
+      expect(() => parseScenario('{"format":')).toThrow('Scenario is not valid JSON');
+      expect(() => parseScenario(JSON.stringify({ ...scenario, name: '' }))).toThrow('name: must be a non-empty string');
+    });
+
+    it('should reject field inference with moving hostiles', () => {
+      const moving = { ...scenario, config: { ...scenario.config, movement: { ...DEFAULT_MOVEMENT_CONFIG, enabled: true } } };
+
+      expect(validateScenario({ ...moving, config: { ...moving.config, inferenceMode: 'gibbs' } })).toEqual([
+        'config.inferenceMode: gibbs needs static hostiles, so it cannot be used with config.movement enabled',
+      ]);
+      expect(validateScenario({ ...moving, config: { ...moving.config, inferenceMode: 'diffusion' } })).toEqual([]);
+    });
+  });
+
   describe('Scoring Functions', () => {
     it('should calculate valid Brier scores', () => {
       expect(calculateBrierScore(1.0, true)).toBe(0);
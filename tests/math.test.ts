@@ -1,7 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import { updatePosteriorOdds, calculateBrierScore, calculateLogLoss } from '@/lib/inference';
-import { calculateStrikeEV, generateEVHeatmap, generateVOIHeatmap } from '@/lib/decision-analysis';
+import { calculateStrikeEV, generateEVHeatmap, generateVOIHeatmap, calculateReconVOI } from '@/lib/decision-analysis';
+import { generateCellContext, calculateEffectivePerformance } from '@/lib/sensors';
+import { createSubRNG } from '@/lib/rng';
+import { planWithRollouts, getRolloutPlannerPolicy } from '@/lib/risk-analysis';
+import { DEFAULT_SPATIAL_CONFIG, DEFAULT_BETA_PRIORS } from '@/lib/truth-generation';
 import { GameCell, GameConfig } from '@/lib/types';
+import {
+  runLoopyBeliefPropagation,
+  runGibbsSampler,
+  calibrateFieldBias,
+  deriveFieldCoupling
+} from '@/lib/field-inference';
+import { createEngineState, applyRecon, createCalibrationTrackers } from '@/lib/game-engine';
 
 describe('Odds Update Mathematics', () => {
   describe('updatePosteriorOdds', () => {
@@ -426,4 +437,193 @@ describe('Mathematical Invariants', () => {
       seed: 'test-seed'
     };
   }
-});
\ No newline at end of file
+});
+describe('Preposterior Value of Information', () => {
+  const config: GameConfig = {
+    gridSize: 5,
+    initialBudget: 1000,
+    maxTurns: 10,
+    hostileValue: 100,
+    infraPenalty: 200,
+    strikeCost: 50,
+    reconCost: 10,
+    collateralThreshold: 0.3,
+    riskAversion: 0.5,
+    seed: 'voi-test-seed',
+    spatialField: DEFAULT_SPATIAL_CONFIG,
+    betaPriors: DEFAULT_BETA_PRIORS,
+    showTruthOverlay: false,
+  };
+
+  const createGrid = (hasHostile: boolean): GameCell[][] =>
+    Array.from({ length: 5 }, (_, y) =>
+      Array.from({ length: 5 }, (_, x) => ({
+        x,
+        y,
+        hasHostile,
+        hasInfrastructure: false,
+        posteriorProbability: 0.3,
+        infraPosteriorProbability: 0.05,
+        hostilePriorProbability: 0.25,
+        infraPriorProbability: 0.05,
+        reconHistory: [],
+      }))
+    );
+
+  it('should not depend on hidden ground truth', () => {
+    const withHostiles = calculateReconVOI(createGrid(true), 2, 2, 'drone', config, 1, config.seed);
+    const withoutHostiles = calculateReconVOI(createGrid(false), 2, 2, 'drone', config, 1, config.seed);
+
+    expect(withHostiles).toEqual(withoutHostiles);
+  });
+
+  it('should marginalise the reading over the current posterior', () => {
+    const grid = createGrid(false);
+    grid[2][2].posteriorProbability = 0.4;
+
+    const analysis = calculateReconVOI(grid, 2, 2, 'sigint', config, 1, config.seed);
+    const context = generateCellContext(2, 2, config.gridSize, createSubRNG(config.seed, 'context-2-2'));
+    const { effectiveTPR, effectiveFPR } = calculateEffectivePerformance('sigint', context);
+
+    expect(analysis.probabilityPositive).toBeCloseTo(0.4 * effectiveTPR + 0.6 * effectiveFPR, 10);
+  });
+});
+
+describe('Rollout Planner', () => {
+  const config: GameConfig = {
+    gridSize: 5,
+    initialBudget: 300,
+    maxTurns: 4,
+    hostileValue: 100,
+    infraPenalty: 200,
+    strikeCost: 50,
+    reconCost: 10,
+    collateralThreshold: 0.3,
+    riskAversion: 0.5,
+    seed: 'planner-test-seed',
+    spatialField: DEFAULT_SPATIAL_CONFIG,
+    betaPriors: DEFAULT_BETA_PRIORS,
+    showTruthOverlay: false,
+  };
+
+  const grid: GameCell[][] = Array.from({ length: 5 }, (_, y) =>
+    Array.from({ length: 5 }, (_, x) => ({
+      x,
+      y,
+      hasHostile: false,
+      hasInfrastructure: false,
+      posteriorProbability: x < 2 ? 0.6 : 0.1,
+      infraPosteriorProbability: 0.02,
+      hostilePriorProbability: 0.25,
+      infraPriorProbability: 0.05,
+      reconHistory: [],
+    }))
+  );
+
+  const options = { maxRollouts: 200, timeBudgetMs: Infinity };
+
+  it('should be reproducible for a fixed rollout count', () => {
+    const first = planWithRollouts(grid, config, 300, 0, 'drone', 1, options);
+    const second = planWithRollouts(grid, config, 300, 0, 'drone', 1, options);
+
+    expect(first.rollouts).toBe(200);
+    expect(second.expectedReturn).toBe(first.expectedReturn);
+    expect(second.plan).toEqual(first.plan);
+  });
+
+  it('should recommend the first step of a plan with a confidence interval', () => {
+    const recommendation = getRolloutPlannerPolicy(grid, config, 300, 0, 'drone', 1, options);
+
+    expect(recommendation.type).toBe('rolloutPlanner');
+    expect(recommendation.action).not.toBe('wait');
+    expect(recommendation.plan![0]).toMatchObject({
+      action: recommendation.action,
+      x: recommendation.x,
+      y: recommendation.y,
+    });
+    expect(recommendation.returnCI![0]).toBeLessThanOrEqual(recommendation.expectedReturn!);
+    expect(recommendation.returnCI![1]).toBeGreaterThanOrEqual(recommendation.expectedReturn!);
+  });
+
+  it('should wait when no turns remain', () => {
+    const recommendation = getRolloutPlannerPolicy(grid, config, 300, config.maxTurns, 'drone', 1, options);
+    expect(recommendation.action).toBe('wait');
+  });
+});
+
+describe('Latent Field Inference', () => {
+  const uniform = (value: number, size = 5) => Array.from({ length: size }, () => Array(size).fill(value));
+
+  it('should reduce to independent cells without coupling', () => {
+    const unary = uniform(0.5);
+    unary[2][2] = -1.5;
+    const result = runLoopyBeliefPropagation(unary, 0);
+
+    expect(result.converged).toBe(true);
+    expect(result.marginals[0][0]).toBeCloseTo(1 / (1 + Math.exp(-0.5)), 10);
+    expect(result.marginals[2][2]).toBeCloseTo(1 / (1 + Math.exp(1.5)), 10);
+  });
+
+  it('should keep the prior mean at interior cells without evidence', () => {
+    const coupling = deriveFieldCoupling(DEFAULT_SPATIAL_CONFIG);
+    const bias = calibrateFieldBias(0.25, coupling);
+    const result = runLoopyBeliefPropagation(uniform(bias, 9), coupling);
+
+    expect(coupling).toBeGreaterThan(0);
+    expect(result.marginals[4][4]).toBeCloseTo(0.25, 2);
+  });
+
+  it('should spread evidence to neighbours and agree with Gibbs sampling', () => {
+    const coupling = deriveFieldCoupling(DEFAULT_SPATIAL_CONFIG);
+    const bias = calibrateFieldBias(0.25, coupling);
+    const unary = uniform(bias);
+    unary[2][2] += 3;
+
+    const bp = runLoopyBeliefPropagation(unary, coupling);
+    const gibbs = runGibbsSampler(unary, coupling, createSubRNG('gibbs-test', 'field'), {
+      maxIterations: 0, damping: 0, tolerance: 0, gibbsBurnIn: 100, gibbsSamples: 3000,
+    });
+
+    expect(bp.marginals[2][3]).toBeGreaterThan(bp.marginals[0][0]);
+    for (const [x, y] of [[2, 2], [2, 3], [0, 0]]) {
+      expect(Math.abs(gibbs.marginals[y][x] - bp.marginals[y][x])).toBeLessThan(0.05);
+    }
+  });
+
+  it('should give the same beliefs whatever order readings arrive in', () => {
+    const config: GameConfig = {
+      gridSize: 6,
+      initialBudget: 500,
+      maxTurns: 4,
+      hostileValue: 100,
+      infraPenalty: 200,
+      strikeCost: 50,
+      reconCost: 10,
+      collateralThreshold: 0.3,
+      riskAversion: 0.5,
+      seed: 'field-order-test',
+      spatialField: DEFAULT_SPATIAL_CONFIG,
+      betaPriors: DEFAULT_BETA_PRIORS,
+      inferenceMode: 'loopyBP',
+      showTruthOverlay: false,
+    };
+
+    const beliefs = (cells: [number, number][]) => {
+      const state = createEngineState(config);
+      const calibration = createCalibrationTrackers();
+      const readings = cells.map(([x, y]) => applyRecon(state, x, y, 'drone', calibration)!.sensorReading.result);
+      return { readings, posteriors: state.grid.map(row => row.map(cell => cell.posteriorProbability)) };
+    };
+
+    const forward = beliefs([[1, 1], [2, 1]]);
+    const backward = beliefs([[2, 1], [1, 1]]);
+
+    // Readings come from per-action streams, so only compare when the draws agree
+    if (forward.readings[0] === backward.readings[1] && forward.readings[1] === backward.readings[0]) {
+      forward.posteriors.forEach((row, y) => row.forEach((p, x) => {
+        expect(backward.posteriors[y][x]).toBeCloseTo(p, 6);
+      }));
+    }
+    expect(forward.posteriors[1][1]).not.toBeCloseTo(0.25, 3);
+  });
+});
@@ -1,21 +1,26 @@
 import * as Comlink from 'comlink';
 
 // Import all the computational modules
-import { GameCell, GameConfig, SensorType } from '../lib/types';
+import { GameCell, GameConfig, SensorType, WeaponType } from '../lib/types';
 import { createSubRNG } from '../lib/rng';
 import { 
   simulateSensorReading, 
-  generateCellContext, 
+  createReconRNG,
+  getCellContext, 
   calculateEffectivePerformance,
   SensorReading 
 } from '../lib/sensors';
 import { 
   updatePosteriorOdds, 
+  updateInfraPosteriorOdds,
   applySpatialDiffusion, 
   calculateBrierScore,
   calculateLogLoss,
   DEFAULT_DIFFUSION_CONFIG 
 } from '../lib/inference';
+import { isAdversaryEnabled, getAdversaryExposure } from '../lib/adversary';
+import { isTargetClassesEnabled, getTargetExposure } from '../lib/target-classes';
+import { isFusionEnabled, getFusionExposure } from '../lib/fusion';
 import { 
   calculateStrikeEV, 
   getAoECells, 
@@ -31,6 +36,7 @@ import {
   generateVarianceHeatmap,
   generateLossRiskHeatmap,
   getAllPolicyRecommendations,
+  getRolloutPlannerPolicy,
   MonteCarloConfig,
   RiskMetrics,
   PolicyType,
@@ -68,36 +74,43 @@ export class InferenceWorker {
     y: number,
     sensor: SensorType,
     config: GameConfig,
+    turn: number,
+    actionIndex: number,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<{
     newPosterior: number;
+    newInfraPosterior: number;
     sensorReading: SensorReading;
     spatialUpdates: { x: number; y: number; newPosterior: number }[];
     brierContribution: number;
     logLossContribution: number;
+    infraBrierContribution: number;
+    infraLogLossContribution: number;
   }>> {
     const startTime = performance.now();
     
     onProgress?.(0.1, 'Generating context');
     
     // Generate context for this recon
-    const contextRng = createSubRNG(config.seed, `context-${x}-${y}`);
-    const context = generateCellContext(x, y, config.gridSize, contextRng);
+    const context = getCellContext(x, y, config, turn);
     const performance_metrics = calculateEffectivePerformance(sensor, context);
     
     onProgress?.(0.3, 'Simulating sensor reading');
     
-    // Simulate sensor reading
-    const readingRng = createSubRNG(
-      config.seed,
-      `recon-${Date.now()}-${x}-${y}-${sensor}`
-    );
+    // Simulate sensor reading with the same RNG stream as the store
+    const readingRng = createReconRNG(config.seed, turn, actionIndex, x, y, sensor);
     const cell = grid[y][x];
     const sensorReading = simulateSensorReading(
       sensor,
       cell.hasHostile,
+      cell.hasInfrastructure,
       context,
-      readingRng
+      readingRng,
+      isAdversaryEnabled(config.adversary) ? getAdversaryExposure(config.adversary, cell, turn) : undefined,
+      isTargetClassesEnabled(config.targetClasses) ? getTargetExposure(cell, sensor) : undefined,
+      isFusionEnabled(config.fusion)
+        ? getFusionExposure(config.fusion, cell.reconHistory, sensor, performance_metrics.contextSummary)
+        : undefined
     );
     
     onProgress?.(0.5, 'Updating posterior probability');
@@ -105,6 +118,7 @@ export class InferenceWorker {
     // Update posterior probability
     const priorProbability = cell.posteriorProbability;
     const newPosterior = updatePosteriorOdds(priorProbability, sensorReading);
+    const newInfraPosterior = updateInfraPosteriorOdds(cell.infraPosteriorProbability, sensorReading);
     
     onProgress?.(0.7, 'Applying spatial diffusion');
     
@@ -133,6 +147,8 @@ export class InferenceWorker {
     // Calculate calibration metrics
     const brierContribution = calculateBrierScore(newPosterior, cell.hasHostile);
     const logLossContribution = calculateLogLoss(newPosterior, cell.hasHostile);
+    const infraBrierContribution = calculateBrierScore(newInfraPosterior, cell.hasInfrastructure);
+    const infraLogLossContribution = calculateLogLoss(newInfraPosterior, cell.hasInfrastructure);
     
     onProgress?.(1.0, 'Complete');
     
@@ -141,10 +157,13 @@ export class InferenceWorker {
     return {
       result: {
         newPosterior,
+        newInfraPosterior,
         sensorReading,
         spatialUpdates,
         brierContribution,
-        logLossContribution
+        logLossContribution,
+        infraBrierContribution,
+        infraLogLossContribution
       },
       computationTime
     };
@@ -164,10 +183,11 @@ export class DecisionAnalysisWorker {
     grid: GameCell[][],
     radius: number,
     config: GameConfig,
+    weapon?: WeaponType,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<number[][]>> {
     const startTime = performance.now();
-    const cacheKey = `ev-${JSON.stringify({ gridHash: this.hashGrid(grid), radius, config })}`;
+    const cacheKey = `ev-${JSON.stringify({ gridHash: this.hashGrid(grid), radius, weapon, config })}`;
     
     if (this.cache.has(cacheKey)) {
       return {
@@ -188,7 +208,7 @@ export class DecisionAnalysisWorker {
     
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const outcome = calculateStrikeEV(grid, x, y, radius, config);
+        const outcome = calculateStrikeEV(grid, x, y, radius, config, weapon);
         evHeatmap[y][x] = outcome.expectedValue;
         
         processedCells++;
@@ -216,10 +236,11 @@ export class DecisionAnalysisWorker {
     sensor: SensorType,
     config: GameConfig,
     strikeRadius: number = 1,
+    turn: number = 0,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<number[][]>> {
     const startTime = performance.now();
-    const cacheKey = `voi-${JSON.stringify({ gridHash: this.hashGrid(grid), sensor, config })}`;
+    const cacheKey = `voi-${JSON.stringify({ gridHash: this.hashGrid(grid), sensor, config, turn })}`;
     
     if (this.cache.has(cacheKey)) {
       return {
@@ -231,7 +252,7 @@ export class DecisionAnalysisWorker {
     
     onProgress?.(0.1, 'Initializing VOI calculation');
     
-    const voiHeatmap = generateVOIHeatmap(grid, sensor, config, strikeRadius, config.seed);
+    const voiHeatmap = generateVOIHeatmap(grid, sensor, config, strikeRadius, config.seed, turn);
     
     onProgress?.(1.0, 'VOI heatmap complete');
     
@@ -309,6 +330,7 @@ export class RiskAnalysisWorker {
     config: GameConfig,
     riskAversion: number = 0.5,
     numSamples: number = 256,
+    weapon?: WeaponType,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<number[][]>> {
     const startTime = performance.now();
@@ -336,7 +358,7 @@ export class RiskAnalysisWorker {
     
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config);
+        const riskMetrics = evaluateStrikeRisk(x, y, radius, samples, config, weapon);
         const utility = riskMetrics.expectedValue - riskAversion * Math.abs(riskMetrics.cvar95);
         utilityHeatmap[y][x] = utility;
         
@@ -365,6 +387,7 @@ export class RiskAnalysisWorker {
     radius: number,
     config: GameConfig,
     numSamples: number = 256,
+    weapon?: WeaponType,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<number[][]>> {
     const startTime = performance.now();
@@ -382,7 +405,7 @@ export class RiskAnalysisWorker {
     
     onProgress?.(0.3, 'Computing variance metrics');
     
-    const varianceHeatmap = generateVarianceHeatmap(grid, radius, config);
+    const varianceHeatmap = generateVarianceHeatmap(grid, radius, config, weapon);
     
     onProgress?.(1.0, 'Variance analysis complete');
     
@@ -403,6 +426,7 @@ export class RiskAnalysisWorker {
     radius: number,
     config: GameConfig,
     numSamples: number = 256,
+    weapon?: WeaponType,
     onProgress?: ProgressCallback
   ): Promise<ComputationResult<number[][]>> {
     const startTime = performance.now();
@@ -420,7 +444,7 @@ export class RiskAnalysisWorker {
     
     onProgress?.(0.3, 'Computing loss probabilities');
     
-    const lossRiskHeatmap = generateLossRiskHeatmap(grid, radius, config);
+    const lossRiskHeatmap = generateLossRiskHeatmap(grid, radius, config, weapon);
     
     onProgress?.(1.0, 'Loss risk analysis complete');
     
@@ -469,6 +493,43 @@ export class RiskAnalysisWorker {
     };
   }
   
+  /**
+   * Plan across the remaining turns with Monte Carlo rollouts within a time budget
+   */
+  async planWithRolloutsComputation(
+    grid: GameCell[][],
+    config: GameConfig,
+    remainingBudget: number,
+    currentTurn: number,
+    selectedSensor: SensorType,
+    timeBudgetMs: number = 2000,
+    onProgress?: ProgressCallback
+  ): Promise<ComputationResult<PolicyRecommendation>> {
+    const startTime = performance.now();
+    
+    onProgress?.(0.05, 'Sampling worlds from posterior');
+    
+    const recommendation = getRolloutPlannerPolicy(
+      grid,
+      config,
+      remainingBudget,
+      currentTurn,
+      selectedSensor,
+      1,
+      {
+        timeBudgetMs,
+        onProgress: (progress, stage) => onProgress?.(0.05 + 0.95 * progress, stage),
+      }
+    );
+    
+    const computationTime = performance.now() - startTime;
+    
+    return {
+      result: recommendation,
+      computationTime
+    };
+  }
+  
   private async generateSamplesWithProgress(
     grid: GameCell[][],
     config: MonteCarloConfig,
@@ -496,11 +557,11 @@ export class RiskAnalysisWorker {
           const hasHostile = rng.random() < cell.posteriorProbability;
           hostileStates[y][x] = hasHostile;
           
-          const hasInfra = rng.random() < cell.infraPriorProbability;
+          const hasInfra = rng.random() < cell.infraPosteriorProbability;
           infraStates[y][x] = hasInfra;
           
           likelihood *= hasHostile ? cell.posteriorProbability : (1 - cell.posteriorProbability);
-          likelihood *= hasInfra ? cell.infraPriorProbability : (1 - cell.infraPriorProbability);
+          likelihood *= hasInfra ? cell.infraPosteriorProbability : (1 - cell.infraPosteriorProbability);
         }
       }
       